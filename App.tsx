@@ -1,27 +1,76 @@
-import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import Login from './components/Login';
 import Layout from './components/Layout';
 import Dashboard from './components/Dashboard';
 import InputViolation from './components/InputViolation';
+import InputAchievement from './components/InputAchievement';
 import FollowUp from './components/FollowUp';
 import StudentList from './components/StudentList';
-import { Student, Violation } from './types';
-import { parseStudentsCSV, parseViolationsCSV } from './utils/csv';
+import DataQuality from './components/DataQuality';
+import Settings from './components/Settings';
+import ViolationDetail from './components/ViolationDetail';
+import AuditLog from './components/AuditLog';
+import { Student, Violation, ViolationChanges, ViolationRevision, ImportWarning, ParseResult, Session, AppSettings, SettingKey, RecordStore, RecordTable, SanctionRecord, AchievementRecord, CaseRecord, AttachmentRecord, ContactLogEntry, FollowUpEntry, IssuedLetter, ACHIEVEMENT_TYPES, SCHOOL_LOCATIONS } from './types';
+import { APP_CONFIG } from './config';
+import { AttachmentUpload, AuditSeal, createRepository } from './services/repository';
+import { loadSession, saveSession, clearSession, recordActivity, getSessionEndReason, AuthError } from './services/auth';
+import { AuditInput, createAuditEntry, describeWrite } from './services/audit';
+import { OutboxItem, WriteOperation, loadOutbox, saveOutbox, createOutboxItem, enqueueOperation, withPreviousValues, sendDueItems, reconcileOutbox, retryFailedItems, applyOutbox, applyOutboxSettings, applyOutboxRecords, getQueuedAttachmentBytes } from './services/outbox';
+import { CodeRepair } from './utils/violationCode';
+import { CsvSchemaError } from './utils/csv';
+import { findUnknownStudents, findCatalogMismatches } from './utils/dataQuality';
+import { DEFAULT_CATALOG } from './utils/catalog';
+import { RECORD_TABLES, createRecordId, emptyRecordStore } from './utils/records';
+import { computeTermPoints } from './utils/points';
+import { DEFAULT_CASE_WORKFLOW, getStartStage } from './utils/caseWorkflow';
+import { diffChanges, getEditableFields, isVoided } from './utils/violationEdits';
+import { addDays, nowInJakarta } from './utils/date';
+import { DEFAULT_MESSAGE_TEMPLATES } from './utils/parentContact';
+import { DEFAULT_LETTERHEAD } from './utils/letters';
+import { DEFAULT_SANCTION_LADDER, getSanctionTerm, planEscalations } from './utils/sanctions';
+import { DEFAULT_POINT_POLICY, filterByTerm, getCurrentTerm, getTermById, listTerms } from './utils/terms';
+import { can, getAllowedTabs, scopeStudents, scopeViolations, scopeRecordsByNis, getReportableStudents, Permission, TabId } from './utils/permissions';
+import { MAX_QUEUED_ATTACHMENT_BYTES } from './utils/attachments';
 import { Toaster, toast } from 'react-hot-toast';
 
-// URLs updated with timestamp to prevent caching
-const GOOGLE_SHEET_STUDENTS = 'https://docs.google.com/spreadsheets/d/e/2PACX-1vQE3K6fsKmQLDCuYJajLi1P0NGJgOlIjCG20M5HbmpF_HNYcdMxIzMV6WSOHT4pncvpg2DXoJL8lcM4/pub?gid=0&single=true&output=csv';
-const GOOGLE_SHEET_VIOLATIONS = 'https://docs.google.com/spreadsheets/d/e/2PACX-1vSjjjQTJbDSEngCSmo_tE7pbXLHUcZK385u010_UE-WL5QwfBNMVS4iW4Nu6OWR3Kxvr0KdYkhBj9gq/pub?gid=0&single=true&output=csv';
-
 export default function App() {
-  const [isLoggedIn, setIsLoggedIn] = useState(false);
-  const [activeTab, setActiveTab] = useState('dashboard');
+  // Backend is chosen once from config (Google Sheet in production, local store for test data)
+  const repository = useMemo(() => createRepository(APP_CONFIG), []);
+
+  // Restored from localStorage so a reload does not log the user out
+  const [session, setSession] = useState<Session | null>(() => loadSession());
+  const isLoggedIn = session !== null;
+  const [activeTab, setActiveTab] = useState<TabId>(() => (session ? getAllowedTabs(session.role)[0] : 'dashboard'));
   
   const [students, setStudents] = useState<Student[]>([]);
-  const [violations, setViolations] = useState<Violation[]>([]);
-  // Store IDs that definitively exist in the Google Sheet
-  const [sheetViolationIds, setSheetViolationIds] = useState<Set<string>>(new Set());
+  // Violations exactly as the backend returned them
+  const [sheetViolations, setSheetViolations] = useState<Violation[]>([]);
+  // Admin settings as the backend returned them (empty until loaded: defaults apply)
+  const [sheetSettings, setSheetSettings] = useState<AppSettings>({});
+  // Record tables (sanksi, ...) as the backend returned them
+  const [sheetRecords, setSheetRecords] = useState<RecordStore>(() => emptyRecordStore());
+  // Set after the first load, so automatic writes never act on data that is not there yet
+  const [hasLoadedData, setHasLoadedData] = useState(false);
+  // Writes not yet confirmed by the backend, persisted across reloads
+  const [outbox, setOutbox] = useState<OutboxItem[]>(() => loadOutbox());
+  const isFlushingRef = useRef(false);
+  const outboxRef = useRef(outbox);
   
+  // Names of active accounts, offered as reporters (pelapor) on new violations
+  const [accountNames, setAccountNames] = useState<string[]>([]);
+
+  // Row-level problems reported by the sheet parsers
+  const [parseWarnings, setParseWarnings] = useState<ImportWarning[]>([]);
+  
+  // Semester shown on Dashboard, Tindak Lanjut and Data Siswa; earlier ones are read from the archive
+  const [selectedTermId, setSelectedTermId] = useState(() => getCurrentTerm().id);
+
+  // Bumped after each submission so the input form starts empty again
+  const [inputFormKey, setInputFormKey] = useState(0);
+
+  // Violation shown in the detail modal (Dashboard, Data Siswa)
+  const [detailViolationId, setDetailViolationId] = useState<string | null>(null);
+
   const [isLoading, setIsLoading] = useState(true);
   const [isRefreshing, setIsRefreshing] = useState(false);
 
@@ -33,126 +82,104 @@ export default function App() {
     const minLoadingTime = isManual ? new Promise(resolve => setTimeout(resolve, 1000)) : Promise.resolve();
     
     const fetchWithFallback = async <T,>(
-      url: string, 
-      cacheKey: string, 
-      parser: (text: string) => T[]
-    ): Promise<{ data: T[], fromCache: boolean }> => {
+      loader: () => Promise<ParseResult<T>>,
+      cacheKey: string
+    ): Promise<ParseResult<T> & { fromCache: boolean }> => {
       try {
-        const timestamp = Date.now();
-        // Force Network: Add strict anti-caching headers and unique timestamp
-        const response = await fetch(`${url}&nocache=${timestamp}`, {
-          method: 'GET',
-          credentials: 'omit',
-          cache: 'no-store', // Important: Ignore browser cache
-          headers: {
-            'Pragma': 'no-cache',
-            'Cache-Control': 'no-cache, no-store, must-revalidate'
-          }
-        });
-
-        if (!response.ok) throw new Error(`HTTP error! status: ${response.status}`);
-        
-        const text = await response.text();
-        
-        // Security Check: If response is HTML (e.g. Google Login page), throw error
-        if (text.trim().startsWith('<!DOCTYPE') || text.trim().startsWith('<html')) {
-          throw new Error("Gagal membaca data (Format HTML). Cek izin akses Google Sheet.");
-        }
-
-        const data = parser(text);
+        const result = await loader();
         
         // Save to cache on success
-        localStorage.setItem(cacheKey, JSON.stringify(data));
-        return { data, fromCache: false };
+        localStorage.setItem(cacheKey, JSON.stringify(result));
+        return { ...result, fromCache: false };
       } catch (error) {
+        // A refused token is not a connection problem: the cache must not hide it
+        if (error instanceof AuthError) throw error;
         console.warn(`Fetch failed for ${cacheKey}, attempting cache fallback...`, error);
+        // A changed sheet layout is not a network hiccup: tell the user even if the cache saves the day
+        if (error instanceof CsvSchemaError) {
+          toast.error(error.message, { id: `schema-${cacheKey}`, duration: 10000 });
+        }
         const cached = localStorage.getItem(cacheKey);
         if (cached) {
           try {
-            return { data: JSON.parse(cached), fromCache: true };
+            const parsed = JSON.parse(cached);
+            // Older caches stored the bare array
+            if (Array.isArray(parsed)) return { data: parsed, warnings: [], fromCache: true };
+            return { data: parsed.data || [], warnings: parsed.warnings || [], fromCache: true };
           } catch (e) {
             console.error("Cache corrupted", e);
-            return { data: [], fromCache: true };
+            return { data: [], warnings: [], fromCache: true };
           }
         }
         throw error;
       }
     };
 
+    // Settings are optional: without them the built-in defaults apply, so a failure never blocks the app
+    const fetchSettings = async (): Promise<{ settings: AppSettings, fromCache: boolean }> => {
+      try {
+        const settings = await repository.loadSettings();
+        localStorage.setItem('simpas_cache_settings', JSON.stringify(settings));
+        return { settings, fromCache: false };
+      } catch (error) {
+        console.warn("Fetch failed for settings, using cache or defaults", error);
+        try {
+          return { settings: JSON.parse(localStorage.getItem('simpas_cache_settings') || '{}'), fromCache: true };
+        } catch (e) {
+          return { settings: {}, fromCache: true };
+        }
+      }
+    };
+
+    // Record tables are optional too; each falls back to its own cache.
+    // Only tables that were actually fetched are returned in `fresh` and may confirm writes.
+    const fetchRecords = async (): Promise<{ store: RecordStore, fresh: Partial<RecordStore> }> => {
+      const store = emptyRecordStore();
+      const fresh: Partial<RecordStore> = {};
+      await Promise.all(RECORD_TABLES.map(async <K extends RecordTable>(table: K) => {
+        const cacheKey = `simpas_cache_records_${table}`;
+        try {
+          const rows = await repository.loadRecords(table);
+          localStorage.setItem(cacheKey, JSON.stringify(rows));
+          store[table] = rows as RecordStore[K];
+          fresh[table] = rows as RecordStore[K];
+        } catch (error) {
+          console.warn(`Fetch failed for ${table}, using cache`, error);
+          try {
+            store[table] = JSON.parse(localStorage.getItem(cacheKey) || '[]');
+          } catch (e) {
+            console.error("Cache corrupted", e);
+          }
+        }
+      }));
+      return { store, fresh };
+    };
+
     try {
       // Wait for both the fetch and the UX delay (if manual)
-      const [studentsResult, violationsResult] = await Promise.all([
-        fetchWithFallback(GOOGLE_SHEET_STUDENTS, 'simpas_cache_students', parseStudentsCSV),
-        fetchWithFallback(GOOGLE_SHEET_VIOLATIONS, 'simpas_cache_violations', parseViolationsCSV),
+      const [studentsResult, violationsResult, settingsResult, recordsResult] = await Promise.all([
+        fetchWithFallback(repository.loadStudents, 'simpas_cache_students'),
+        fetchWithFallback(repository.loadViolations, 'simpas_cache_violations'),
+        fetchSettings(),
+        fetchRecords(),
         minLoadingTime 
       ]);
 
       setStudents(studentsResult.data);
+      setParseWarnings([...studentsResult.warnings, ...violationsResult.warnings]);
 
-      // Capture IDs strictly from the Sheet
       const parsedViolations = violationsResult.data;
-      const validSheetIds = new Set(parsedViolations.map(v => v.id));
-      setSheetViolationIds(validSheetIds);
-
-      // Merge with local storage (Optimistic updates)
-      let localViolations: any[] = [];
-      try {
-        const localViolationsStr = localStorage.getItem('simpas_local_violations');
-        localViolations = localViolationsStr ? JSON.parse(localViolationsStr) : [];
-        if (!Array.isArray(localViolations)) localViolations = [];
-      } catch (e) {
-        console.error("Error parsing local violations", e);
-        localViolations = [];
-      }
-
-      const validLocalViolations: any[] = []; // Used to rewrite clean local storage
-      
-      const violationMap = new Map<string, Violation>();
-      parsedViolations.forEach(v => violationMap.set(v.kode_pelanggaran, v));
-
-      const mergedViolations = [...parsedViolations];
-
-      localViolations.forEach(localV => {
-        if (!localV || !localV.kode_pelanggaran) return;
-        
-        // Check if local edit is recent (within 10 mins)
-        const isRecent = localV._localTimestamp && (Date.now() - localV._localTimestamp < 10 * 60 * 1000);
-        
-        const sheetV = violationMap.get(localV.kode_pelanggaran);
-
-        if (!sheetV) {
-           // CASE: ID NOT FOUND IN SHEET
-           // Perform Fuzzy Deduplication
-           const isDuplicate = parsedViolations.some(p => 
-             p.nis === localV.nis &&
-             p.jenis_pelanggaran === localV.jenis_pelanggaran &&
-             p.poin_pelanggaran === localV.poin_pelanggaran &&
-             (p.deskripsi || '').trim() === (localV.deskripsi || '').trim()
-           );
-
-           if (!isDuplicate) {
-             // Truly new item (Pending Sync)
-             mergedViolations.push(localV);
-             validLocalViolations.push(localV);
-           }
-        } else {
-           // CASE: ID FOUND IN SHEET
-           // Check if data matches
-           if (sheetV.status_tindak_lanjut !== localV.status_tindak_lanjut) {
-              // Conflict found.
-              if (isRecent) {
-                 // Local is fresher, override Sheet momentarily
-                 const idx = mergedViolations.findIndex(v => v.kode_pelanggaran === localV.kode_pelanggaran);
-                 if (idx !== -1) mergedViolations[idx] = localV;
-                 validLocalViolations.push(localV);
-              }
-           }
-        }
-      });
-      
-      // Update persistent local storage
-      localStorage.setItem('simpas_local_violations', JSON.stringify(validLocalViolations));
-      setViolations(mergedViolations);
+      setSheetViolations(parsedViolations);
+      setSheetSettings(settingsResult.settings);
+      setSheetRecords(recordsResult.store);
+      setHasLoadedData(true);
+      // Only fresh data can confirm a write; cached data may predate it
+      setOutbox(prev => reconcileOutbox(prev, {
+        violations: violationsResult.fromCache ? undefined : parsedViolations,
+        settings: settingsResult.fromCache ? undefined : settingsResult.settings,
+        records: recordsResult.fresh,
+        unreadableTables: RECORD_TABLES.filter(table => !repository.canLoadRecords(table)),
+      }));
       
       // Notifications
       if (isManual) {
@@ -165,7 +192,12 @@ export default function App() {
 
     } catch (error) {
       console.error("Critical error fetching data:", error);
-      if (error instanceof Error) {
+      if (error instanceof AuthError) {
+        // Token expired on the server, secret changed or account deactivated
+        clearSession();
+        setSession(null);
+        toast(error.message + " Silakan masuk kembali.", { icon: '🔒', duration: 8000 });
+      } else if (error instanceof Error) {
         if (error.message.includes('Failed to fetch')) {
            toast.error("Gagal koneksi internet. Menggunakan data offline.");
         } else {
@@ -178,7 +210,7 @@ export default function App() {
       setIsLoading(false);
       if (isManual) setIsRefreshing(false);
     }
-  }, []);
+  }, [repository]);
 
   useEffect(() => {
     let intervalId: ReturnType<typeof setInterval>;
@@ -194,101 +226,551 @@ export default function App() {
     };
   }, [isLoggedIn, fetchData]);
 
-  const handleAddViolation = (newViolation: Violation) => {
-    setViolations(prev => [newViolation, ...prev]);
-    
+  useEffect(() => {
+    if (!session) return;
+    repository.loadTeacherNames()
+      .then(setAccountNames)
+      .catch(error => console.warn("Teacher directory unavailable", error));
+  }, [session, repository]);
+
+  // Audit entries are queued like any other write, right behind the change they describe.
+  // Without an audit sheet they cannot be confirmed; the Jejak Audit tab says so.
+  const appendAudit = useCallback((actor: Session, input: AuditInput) => {
+    createAuditEntry(actor, input)
+      .then(record => setOutbox(prev => enqueueOperation(prev, { type: 'save_record', write: { table: 'audit', record } }, Date.now(), actor.username)))
+      .catch(error => console.error("Gagal mencatat audit:", error));
+  }, [repository]);
+
+  const handleLogin = (newSession: Session) => {
+    saveSession(newSession);
+    setSession(newSession);
+    setActiveTab(getAllowedTabs(newSession.role)[0]);
+    appendAudit(newSession, { aksi: 'login', objek: `pengguna:${newSession.username}`, sesudah: { peran: newSession.role } });
+  };
+
+  const handleLogout = useCallback(() => {
+    if (session) appendAudit(session, { aksi: 'logout', objek: `pengguna:${session.username}` });
+    clearSession();
+    setSession(null);
+  }, [session, appendAudit]);
+
+  // End the session when it expires or nobody used the app for a while
+  useEffect(() => {
+    if (!session) return;
+
+    let lastRecorded = 0;
+    const handleActivity = () => {
+      // Writing on every mouse move is wasteful; once every few seconds is precise enough
+      const now = Date.now();
+      if (now - lastRecorded < 5000) return;
+      lastRecorded = now;
+      recordActivity();
+    };
+    const activityEvents = ['mousedown', 'mousemove', 'keydown', 'touchstart', 'scroll'];
+    activityEvents.forEach(event => window.addEventListener(event, handleActivity, { passive: true }));
+
+    const intervalId = setInterval(() => {
+      const reason = getSessionEndReason(session);
+      if (reason) {
+        handleLogout();
+        toast(reason === 'idle'
+          ? "Anda keluar otomatis karena tidak ada aktivitas."
+          : "Sesi berakhir, silakan masuk kembali.", { icon: '🔒', duration: 8000 });
+      }
+    }, 15000);
+
+    return () => {
+      activityEvents.forEach(event => window.removeEventListener(event, handleActivity));
+      clearInterval(intervalId);
+    };
+  }, [session, handleLogout]);
+
+  useEffect(() => {
+    outboxRef.current = outbox;
+    if (!saveOutbox(outbox)) {
+      toast.error("Memori perangkat penuh: data yang belum terkirim akan hilang bila aplikasi ditutup. Tetap online sampai sinkronisasi selesai.", { id: 'outbox-save', duration: 10000 });
+    }
+  }, [outbox]);
+
+  // Push due outbox items of the logged-in user to the backend, one flush at a time
+  const currentUsername = session?.username;
+  const flushOutbox = useCallback(async () => {
+    if (!currentUsername || isFlushingRef.current) return;
+    if (typeof navigator !== 'undefined' && !navigator.onLine) return;
+    if (!outboxRef.current.some(item => item.status === 'pending')) return;
+
+    isFlushingRef.current = true;
     try {
-      const localViolationsStr = localStorage.getItem('simpas_local_violations');
-      let localViolations: any[] = localViolationsStr ? JSON.parse(localViolationsStr) : [];
-      if (!Array.isArray(localViolations)) localViolations = [];
-      
-      const entry = { ...newViolation, _localTimestamp: Date.now() };
-      localStorage.setItem('simpas_local_violations', JSON.stringify([...localViolations, entry]));
-    } catch (e) {
-      console.error("Failed to save to local storage", e);
+      const changed = await sendDueItems(repository, outboxRef.current, currentUsername);
+      if (changed.size > 0) {
+        // An item whose op was replaced while sending (folded follow-up) stays pending and is sent again
+        setOutbox(prev => prev.map(item => {
+          const next = changed.get(item.id);
+          return next && next.op === item.op ? next : item;
+        }));
+      }
+    } finally {
+      isFlushingRef.current = false;
     }
+  }, [repository, currentUsername]);
+
+  useEffect(() => {
+    flushOutbox();
+  }, [outbox, flushOutbox]);
+
+  useEffect(() => {
+    const handleOnline = () => flushOutbox();
+    window.addEventListener('online', handleOnline);
+    // Retry timer for items waiting on backoff
+    const intervalId = setInterval(flushOutbox, 10000);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      clearInterval(intervalId);
+    };
+  }, [flushOutbox]);
+
+  // Writes are checked here as well as hidden in the UI, so no screen can bypass the role
+  const isAllowed = (permission: Permission) => {
+    if (session && can(session.role, permission)) return true;
+    toast.error("Anda tidak memiliki akses untuk tindakan ini.");
+    return false;
+  };
+
+  // Record the write in the audit log, with the values it replaces
+  const auditWrite = (op: WriteOperation) => {
+    if (!session) return;
+    appendAudit(session, describeWrite(op, { violations: allViolations, records, settings }));
+  };
+
+  const enqueueWrite = (op: WriteOperation) => {
+    const queued = withPreviousValues(op, allViolations);
+    setOutbox(prev => enqueueOperation(prev, queued, Date.now(), session?.username));
+    auditWrite(op);
+  };
+
+  const handleAddViolation = (newViolation: Violation, attachments: AttachmentUpload[] = []) => {
+    if (!isAllowed('create_violation')) return;
+    // The form may only have seen a redacted contact. The Apps Script fills kontak_ortu from the
+    // student sheet; this only matters for backends that serve contacts unredacted.
+    const student = students.find(s => s.nis === newViolation.nis);
+    enqueueWrite({
+      type: 'create_violation',
+      violation: { ...newViolation, kontak_ortu: student ? student.kontak_ortu : newViolation.kontak_ortu },
+    });
+    // Uploads are queued after the violation so the backend always has the row they belong to
+    attachments.forEach(upload => enqueueWrite({ type: 'upload_attachment', upload }));
+  };
+
+  // Files still waiting in the outbox are opened from this device
+  const handleLoadAttachment = (id: string): Promise<string> => {
+    if (!isAllowed('view_attachments')) return Promise.reject(new Error('Tidak berhak melihat lampiran'));
+    const queued = outboxRef.current.find(item => item.op.type === 'upload_attachment' && item.op.upload.record.id === id);
+    if (queued && queued.op.type === 'upload_attachment') return Promise.resolve(queued.op.upload.data);
+    return repository.loadAttachment(id);
+  };
+
+  const handleCheckAudit = (): Promise<AuditSeal | null> => {
+    if (!isAllowed('view_audit')) return Promise.reject(new Error('Tidak berhak memeriksa jejak audit'));
+    return repository.checkAudit();
   };
 
   const handleUpdateViolation = (updatedViolation: Violation) => {
-    setViolations(prev => prev.map(v => v.id === updatedViolation.id ? updatedViolation : v));
-    
-    try {
-      const localViolationsStr = localStorage.getItem('simpas_local_violations');
-      let localViolations: any[] = localViolationsStr ? JSON.parse(localViolationsStr) : [];
-      if (!Array.isArray(localViolations)) localViolations = [];
-      
-      const entry = { ...updatedViolation, _localTimestamp: Date.now() };
-      
-      const idx = localViolations.findIndex((v: any) => v.id === updatedViolation.id);
-      if (idx !== -1) {
-          localViolations[idx] = entry;
-      } else {
-          localViolations.push(entry);
-      }
-      
-      localStorage.setItem('simpas_local_violations', JSON.stringify(localViolations));
-    } catch (e) {
-      console.error("Failed to update local storage", e);
+    if (!isAllowed('update_follow_up')) return;
+    enqueueWrite({
+      type: 'update_follow_up',
+      update: {
+        kode_pelanggaran: updatedViolation.kode_pelanggaran,
+        status_tindak_lanjut: updatedViolation.status_tindak_lanjut,
+        hasil_tindak_lanjut: updatedViolation.hasil_tindak_lanjut,
+      },
+    });
+  };
+
+  // Every correction also gets a row in Koreksi with the reason
+  const logRevision = (violation: Violation, aksi: ViolationRevision['aksi'], alasan: string, perubahan: ViolationRevision['perubahan'] = []) => {
+    enqueueWrite({
+      type: 'save_record',
+      write: {
+        table: 'koreksi',
+        record: {
+          id: createRecordId('KRS'),
+          kode_pelanggaran: violation.kode_pelanggaran,
+          nis: violation.nis,
+          aksi,
+          alasan,
+          perubahan,
+          oleh: session?.nama || '',
+          pada: new Date().toISOString(),
+        },
+      },
+    });
+  };
+
+  const handleEditViolation = (violation: Violation, changes: ViolationChanges, alasan: string) => {
+    if (!isAllowed('edit_violations')) return;
+    enqueueWrite({ type: 'edit_violation', edit: { kode_pelanggaran: violation.kode_pelanggaran, changes } });
+    logRevision(violation, 'ubah', alasan, diffChanges(getEditableFields(violation), changes));
+  };
+
+  const handleVoidViolation = (violation: Violation, alasan: string) => {
+    if (!isAllowed('edit_violations')) return;
+    enqueueWrite({
+      type: 'void_violation',
+      voiding: {
+        kode_pelanggaran: violation.kode_pelanggaran,
+        dibatalkan_pada: new Date().toISOString(),
+        dibatalkan_oleh: session?.nama || '',
+        alasan_batal: alasan,
+      },
+    });
+    logRevision(violation, 'batalkan', alasan);
+  };
+
+  // Back to "Menunggu Tindak Lanjut"; the closing summary stays until the case is closed again
+  const handleReopenViolation = (violation: Violation, alasan: string) => {
+    if (!isAllowed('edit_violations')) return;
+    enqueueWrite({
+      type: 'update_follow_up',
+      update: {
+        kode_pelanggaran: violation.kode_pelanggaran,
+        status_tindak_lanjut: 'Menunggu Tindak Lanjut',
+        hasil_tindak_lanjut: violation.hasil_tindak_lanjut,
+      },
+    });
+    const caseRecord = records.kasus.find(r => r.kode_pelanggaran === violation.kode_pelanggaran);
+    if (caseRecord) {
+      const stage = getStartStage(caseWorkflow);
+      enqueueWrite({
+        type: 'save_record',
+        write: {
+          table: 'kasus',
+          record: {
+            ...caseRecord,
+            tahap: stage.id,
+            tenggat: stage.batas_hari ? addDays(nowInJakarta().date, stage.batas_hari) : '',
+            catatan: `Dibuka kembali: ${alasan}`,
+            diperbarui_pada: new Date().toISOString(),
+            diperbarui_oleh: session?.nama || '',
+          },
+        },
+      });
     }
+    logRevision(violation, 'buka_kembali', alasan);
+  };
+
+  const handleRepairCodes = (repairs: CodeRepair[]) => {
+    if (!isAllowed('repair_codes')) return;
+    const ops: WriteOperation[] = repairs.map(r => ({
+      type: 'rename_code',
+      rename: { sheet_row: r.violation.sheet_row as number, old_code: r.oldCode, new_code: r.newCode },
+    }));
+    setOutbox(prev => [...prev, ...ops.map(op => createOutboxItem(op, Date.now(), session?.username))]);
+    ops.forEach(auditWrite);
+  };
+
+  const handleSaveSetting = <K extends SettingKey,>(key: K, value: AppSettings[K]) => {
+    if (!isAllowed('manage_settings')) return;
+    enqueueWrite({ type: 'save_setting', update: { key, value } });
+  };
+
+  const handleSaveSanction = (record: SanctionRecord) => {
+    if (!isAllowed('manage_sanctions')) return;
+    enqueueWrite({ type: 'save_record', write: { table: 'sanksi', record } });
+  };
+
+  const handleSaveCase = (record: CaseRecord) => {
+    if (!isAllowed('update_follow_up')) return;
+    enqueueWrite({ type: 'save_record', write: { table: 'kasus', record } });
+  };
+
+  const handleAddFollowUp = (record: FollowUpEntry) => {
+    if (!isAllowed('update_follow_up')) return;
+    enqueueWrite({ type: 'save_record', write: { table: 'tindak_lanjut', record } });
   };
 
-  // Derived state: Only violations that exist in the sheet (by ID)
-  const sheetOnlyViolations = useMemo(() => {
-    return violations.filter(v => sheetViolationIds.has(v.id));
-  }, [violations, sheetViolationIds]);
+  const handleLogContact = (record: ContactLogEntry) => {
+    if (!isAllowed('contact_parents')) return;
+    enqueueWrite({ type: 'save_record', write: { table: 'kontak', record } });
+  };
+
+  const handleIssueLetter = (record: IssuedLetter) => {
+    if (!isAllowed('issue_letters')) return;
+    enqueueWrite({ type: 'save_record', write: { table: 'surat', record } });
+  };
+
+  const handleAddAchievement = (record: AchievementRecord) => {
+    if (!isAllowed('create_achievement')) return;
+    enqueueWrite({ type: 'save_record', write: { table: 'prestasi', record } });
+  };
+
+  const handleRetrySync = () => {
+    setOutbox(prev => retryFailedItems(prev));
+  };
+
+  // Sheet data with queued writes applied on top, each record tagged with its sync status.
+  // Unsynced records are included so every view can work with them straight away.
+  const allViolations = useMemo(() => applyOutbox(sheetViolations, outbox), [sheetViolations, outbox]);
+  // Voided records only show up in the student detail; points, lists and statistics skip them
+  const activeViolations = useMemo(() => allViolations.filter(v => !isVoided(v)), [allViolations]);
+
+  // What the logged-in user may see: own class only for wali kelas, contacts hidden where not allowed
+  const violations = useMemo(
+    () => (session ? scopeViolations(session, activeViolations, students) : []),
+    [session, activeViolations, students]
+  );
+  const voidedViolations = useMemo(
+    () => (session ? scopeViolations(session, allViolations.filter(isVoided), students) : []),
+    [session, allViolations, students]
+  );
+  const visibleStudents = useMemo(() => (session ? scopeStudents(session, students) : []), [session, students]);
+  const reportableStudents = useMemo(() => (session ? getReportableStudents(session, students) : []), [session, students]);
+
+  const settings = useMemo(() => applyOutboxSettings(sheetSettings, outbox), [sheetSettings, outbox]);
+  const catalog = settings.violation_catalog || DEFAULT_CATALOG;
+  const sanctionLadder = settings.sanction_ladder || DEFAULT_SANCTION_LADDER;
+  const pointPolicy = settings.point_policy || DEFAULT_POINT_POLICY;
+  const achievementCatalog = settings.achievement_catalog || ACHIEVEMENT_TYPES;
+  const repeatRules = settings.repeat_rules || [];
+  const caseWorkflow = settings.case_workflow || DEFAULT_CASE_WORKFLOW;
+  const messageTemplates = settings.message_templates || DEFAULT_MESSAGE_TEMPLATES;
+  const letterhead = settings.letterhead || DEFAULT_LETTERHEAD;
+  const locationCatalog = settings.location_catalog || SCHOOL_LOCATIONS;
 
-  if (!isLoggedIn) {
+  const currentTerm = useMemo(() => getCurrentTerm(), []);
+  const terms = useMemo(() => listTerms(activeViolations), [activeViolations]);
+  const selectedTerm = useMemo(() => getTermById(selectedTermId) || currentTerm, [selectedTermId, currentTerm]);
+  const termViolations = useMemo(() => filterByTerm(violations, selectedTerm), [violations, selectedTerm]);
+
+  const records = useMemo(() => applyOutboxRecords(sheetRecords, outbox), [sheetRecords, outbox]);
+  // Escalation always works on the running term, with achievements offsetting violations
+  const pointsByNis = useMemo(
+    () => computeTermPoints(activeViolations, records.prestasi, pointPolicy, currentTerm),
+    [activeViolations, records.prestasi, pointPolicy, currentTerm]
+  );
+
+  // Automatic escalation: a student who reached a new level of the sanction ladder gets a task
+  // in the follow-up queue. Runs on devices of users who handle sanctions, after data is loaded.
+  useEffect(() => {
+    if (!session || !hasLoadedData || !can(session.role, 'manage_sanctions')) return;
+    const escalations = planEscalations(sanctionLadder, students, pointsByNis, records.sanksi, pointPolicy, currentTerm);
+    escalations.forEach(record => enqueueWrite({ type: 'save_record', write: { table: 'sanksi', record } }));
+  }, [session, hasLoadedData, sanctionLadder, students, pointsByNis, records.sanksi, pointPolicy, currentTerm]);
+
+  // Records of the students this user may see
+  const visibleSanctions = useMemo(() => scopeRecordsByNis(records.sanksi, visibleStudents), [records.sanksi, visibleStudents]);
+  const visibleAchievements = useMemo(() => scopeRecordsByNis(records.prestasi, visibleStudents), [records.prestasi, visibleStudents]);
+  const visibleFollowUps = useMemo(() => scopeRecordsByNis(records.tindak_lanjut, visibleStudents), [records.tindak_lanjut, visibleStudents]);
+  const visibleContactLogs = useMemo(() => scopeRecordsByNis(records.kontak, visibleStudents), [records.kontak, visibleStudents]);
+  const visibleCases = useMemo(() => scopeRecordsByNis(records.kasus, visibleStudents), [records.kasus, visibleStudents]);
+  const visibleLetters = useMemo(() => scopeRecordsByNis(records.surat, visibleStudents), [records.surat, visibleStudents]);
+  // Evidence is only handed to roles that may view it
+  const visibleAttachments = useMemo((): AttachmentRecord[] => {
+    if (!session || !can(session.role, 'view_attachments')) return [];
+    return scopeRecordsByNis(records.lampiran, visibleStudents);
+  }, [session, records.lampiran, visibleStudents]);
+  const detailViolation = detailViolationId
+    ? violations.find(v => v.id === detailViolationId) || voidedViolations.find(v => v.id === detailViolationId) || null
+    : null;
+  const detailRevisions = detailViolation
+    ? records.koreksi.filter(r => r.kode_pelanggaran === detailViolation.kode_pelanggaran)
+    : [];
+  const detailAttachments = detailViolation
+    ? visibleAttachments.filter(r => r.kode_pelanggaran === detailViolation.kode_pelanggaran)
+    : [];
+  const termSanctions = useMemo(
+    () => visibleSanctions.filter(r => getSanctionTerm(r).id === selectedTerm.id),
+    [visibleSanctions, selectedTerm]
+  );
+
+  const importWarnings = useMemo(
+    () => [
+      ...parseWarnings,
+      // A voided row is already dealt with
+      ...findUnknownStudents(sheetViolations.filter(v => !isVoided(v)), students),
+      ...findCatalogMismatches(sheetViolations.filter(v => !isVoided(v)), catalog, parseWarnings),
+    ],
+    [parseWarnings, sheetViolations, students, catalog]
+  );
+
+  // Teacher directory: accounts plus reporters already used in the sheet (e.g. "Guru Piket")
+  const teacherNames = useMemo(() => {
+    const names = new Set([...accountNames, ...allViolations.map(v => (v.pelapor || '').trim())]);
+    names.delete('');
+    return Array.from(names).sort((a, b) => a.localeCompare(b, 'id'));
+  }, [accountNames, allViolations]);
+
+  // Codes of every record, not only the visible ones, so new codes never collide
+  const existingCodes = useMemo(() => allViolations.map(v => v.kode_pelanggaran), [allViolations]);
+
+  const pendingSyncCount = outbox.filter(item => item.status !== 'failed').length;
+  const failedSyncCount = outbox.filter(item => item.status === 'failed').length;
+
+  if (!session) {
     return (
       <>
         <Toaster position="bottom-right" />
-        <Login onLogin={() => setIsLoggedIn(true)} />
+        <Login repository={repository} onLogin={handleLogin} />
       </>
     );
   }
 
+  const allowedTabs = getAllowedTabs(session.role);
+  const isTabOpen = (tab: TabId) => activeTab === tab && allowedTabs.includes(tab);
+
   return (
     <>
       <Toaster position="bottom-right" />
       <Layout 
         activeTab={activeTab} 
         setActiveTab={setActiveTab} 
-        onLogout={() => setIsLoggedIn(false)}
+        allowedTabs={allowedTabs}
+        session={session}
+        onLogout={handleLogout}
         onRefresh={() => {
           toast.dismiss();
           toast.loading("Sedang memuat data terbaru...", { duration: 1000 });
           fetchData(true);
         }}
         isRefreshing={isRefreshing}
+        pendingSyncCount={pendingSyncCount}
+        failedSyncCount={failedSyncCount}
+        onRetrySync={handleRetrySync}
+        dataWarningCount={importWarnings.length}
+        terms={terms}
+        selectedTerm={selectedTerm}
+        currentTermId={currentTerm.id}
+        onSelectTerm={setSelectedTermId}
       >
-        {activeTab === 'dashboard' && (
+        {isTabOpen('dashboard') && (
           <Dashboard 
-            violations={sheetOnlyViolations} 
-            students={students} 
-            onViewDetail={(id) => {
-              // Placeholder for detailed view
-            }}
+            violations={violations} 
+            term={selectedTerm}
+            locations={locationCatalog}
+            students={visibleStudents} 
+            onViewDetail={setDetailViolationId}
+            codeRepair={can(session.role, 'repair_codes') ? { violations: allViolations, onApply: handleRepairCodes } : undefined}
           />
         )}
-        {activeTab === 'input' && (
+        {isTabOpen('input') && (
           <InputViolation 
-            students={students} 
-            violationsCount={violations.length}
+            key={inputFormKey}
+            students={reportableStudents} 
+            existingCodes={existingCodes}
+            catalog={catalog}
+            repeatRules={repeatRules}
+            history={activeViolations}
+            locations={locationCatalog}
+            reporterName={session.nama}
+            teacherNames={teacherNames}
+            attachmentRoom={Math.max(0, MAX_QUEUED_ATTACHMENT_BYTES - getQueuedAttachmentBytes(outbox))}
             onAddViolation={handleAddViolation}
-            onSuccess={() => setActiveTab('dashboard')}
+            onSuccess={() => {
+              setInputFormKey(k => k + 1);
+              if (allowedTabs.includes('dashboard')) setActiveTab('dashboard');
+            }}
+          />
+        )}
+        {isTabOpen('prestasi') && (
+          <InputAchievement
+            key={inputFormKey}
+            students={reportableStudents}
+            catalog={achievementCatalog}
+            reporterName={session.nama}
+            teacherNames={teacherNames}
+            onAddAchievement={handleAddAchievement}
+            onSuccess={() => setInputFormKey(k => k + 1)}
           />
         )}
-        {activeTab === 'tindak-lanjut' && (
+        {isTabOpen('tindak-lanjut') && (
           <FollowUp 
-            violations={sheetOnlyViolations} 
+            violations={termViolations} 
             onUpdateViolation={handleUpdateViolation}
+            workflow={caseWorkflow}
+            cases={visibleCases}
+            onSaveCase={handleSaveCase}
+            teacherNames={teacherNames}
+            followUps={visibleFollowUps}
+            onAddFollowUp={handleAddFollowUp}
+            messageTemplates={messageTemplates}
+            contactLogs={visibleContactLogs}
+            onLogContact={handleLogContact}
+            letters={visibleLetters}
+            letterhead={letterhead}
+            onIssueLetter={handleIssueLetter}
+            attachments={visibleAttachments}
+            onLoadAttachment={handleLoadAttachment}
+            sanctions={termSanctions}
+            onSaveSanction={handleSaveSanction}
+            currentUserName={session.nama}
           />
         )}
-        {activeTab === 'siswa' && (
+        {isTabOpen('siswa') && (
           <StudentList 
-            students={students} 
+            students={visibleStudents} 
             violations={violations} 
+            voidedViolations={voidedViolations}
+            onViewViolation={(v) => setDetailViolationId(v.id)}
+            achievements={visibleAchievements}
+            ladder={sanctionLadder}
+            sanctions={visibleSanctions}
+            followUps={visibleFollowUps}
+            canContact={can(session.role, 'contact_parents')}
+            messageTemplates={messageTemplates}
+            contactLogs={visibleContactLogs}
+            onLogContact={handleLogContact}
+            currentUserName={session.nama}
+            canIssueLetters={can(session.role, 'issue_letters')}
+            letters={visibleLetters}
+            letterhead={letterhead}
+            onIssueLetter={handleIssueLetter}
+            attachments={visibleAttachments}
+            onLoadAttachment={handleLoadAttachment}
+            pointPolicy={pointPolicy}
+            term={selectedTerm}
+          />
+        )}
+        {isTabOpen('kualitas-data') && (
+          <DataQuality warnings={importWarnings} />
+        )}
+        {isTabOpen('audit') && (
+          <AuditLog
+            entries={records.audit}
+            sheetMissing={!repository.canLoadRecords('audit')}
+            onCheckSeal={handleCheckAudit}
+          />
+        )}
+        {isTabOpen('pengaturan') && (
+          <Settings
+            catalog={catalog}
+            sanctionLadder={sanctionLadder}
+            pointPolicy={pointPolicy}
+            achievementCatalog={achievementCatalog}
+            repeatRules={repeatRules}
+            caseWorkflow={caseWorkflow}
+            messageTemplates={messageTemplates}
+            letterhead={letterhead}
+            locationCatalog={locationCatalog}
+            recordedViolations={activeViolations}
+            onSave={handleSaveSetting}
           />
         )}
+        <ViolationDetail
+          key={detailViolation?.id || 'none'}
+          violation={detailViolation}
+          revisions={detailRevisions}
+          attachments={detailAttachments}
+          onLoadAttachment={handleLoadAttachment}
+          catalog={catalog}
+          repeatRules={repeatRules}
+          history={activeViolations}
+          teacherNames={teacherNames}
+          locations={locationCatalog}
+          canEdit={can(session.role, 'edit_violations')}
+          onEdit={handleEditViolation}
+          onVoid={handleVoidViolation}
+          onReopen={handleReopenViolation}
+          onClose={() => setDetailViolationId(null)}
+        />
       </Layout>
     </>
   );
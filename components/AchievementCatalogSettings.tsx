@@ -0,0 +1,165 @@
+import React, { useState, useMemo } from 'react';
+import { AchievementCategory, AchievementType } from '../types';
+import { saveAchievementType, validateAchievementType } from '../utils/achievements';
+import Modal from './ui/Modal';
+import toast from 'react-hot-toast';
+import { Plus, Pencil, Archive, RotateCcw } from 'lucide-react';
+
+interface AchievementCatalogSettingsProps {
+  catalog: AchievementType[];
+  onChange: (catalog: AchievementType[]) => void;
+}
+
+const CATEGORIES: AchievementCategory[] = ['Akademik', 'Non-Akademik', 'Sikap'];
+
+const emptyDraft = (): AchievementType => ({ id: '', label: '', kategori: 'Sikap', poin: 5, aktif: true });
+
+// Admin editor for the achievement catalog. Recorded achievements keep their own points,
+// so changing a type here only affects new entries.
+export default function AchievementCatalogSettings({ catalog, onChange }: AchievementCatalogSettingsProps) {
+  const [showRetired, setShowRetired] = useState(false);
+  const [draft, setDraft] = useState<AchievementType | null>(null);
+
+  const items = useMemo(() => {
+    return catalog
+      .filter(item => showRetired || item.aktif)
+      .sort((a, b) => CATEGORIES.indexOf(a.kategori) - CATEGORIES.indexOf(b.kategori) || a.label.localeCompare(b.label, 'id'));
+  }, [catalog, showRetired]);
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft) return;
+    const error = validateAchievementType(catalog, draft);
+    if (error) {
+      toast.error(error);
+      return;
+    }
+    onChange(saveAchievementType(catalog, draft));
+    toast.success(draft.id ? "Jenis prestasi diperbarui." : "Jenis prestasi ditambahkan.");
+    setDraft(null);
+  };
+
+  const toggleActive = (item: AchievementType) => {
+    onChange(saveAchievementType(catalog, { ...item, aktif: !item.aktif }));
+    toast.success(item.aktif ? `"${item.label}" dipensiunkan.` : `"${item.label}" diaktifkan kembali.`);
+  };
+
+  return (
+    <div className="space-y-5">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-bold text-slate-800">🏆 Katalog Prestasi</h3>
+          <p className="text-sm text-slate-500">Poin prestasi mengurangi poin pelanggaran siswa.</p>
+        </div>
+        <button
+          onClick={() => setDraft(emptyDraft())}
+          className="px-5 py-2.5 bg-cyan-600 hover:bg-cyan-700 text-white rounded-xl font-bold shadow-lg shadow-cyan-500/30 transition-all flex items-center justify-center gap-2"
+        >
+          <Plus className="w-4 h-4" /> Tambah Prestasi
+        </button>
+      </div>
+
+      <label className="flex items-center gap-2 text-sm text-slate-600 font-medium px-2">
+        <input type="checkbox" checked={showRetired} onChange={(e) => setShowRetired(e.target.checked)} className="rounded" />
+        Tampilkan yang dipensiunkan
+      </label>
+
+      <div className="bg-white rounded-2xl border border-slate-100 overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-[10px] uppercase tracking-wider text-slate-400 border-b border-slate-100">
+              <th className="px-4 py-3">Jenis Prestasi</th>
+              <th className="px-4 py-3">Kategori</th>
+              <th className="px-4 py-3 text-right">Poin</th>
+              <th className="px-4 py-3 text-right">Aksi</th>
+            </tr>
+          </thead>
+          <tbody>
+            {items.map(item => (
+              <tr key={item.id} className={`border-b border-slate-50 hover:bg-slate-50 ${item.aktif ? '' : 'opacity-50'}`}>
+                <td className="px-4 py-3">
+                  <p className="font-medium text-slate-800">{item.label}</p>
+                  {!item.aktif && <span className="text-[10px] font-bold uppercase text-slate-400">Dipensiunkan</span>}
+                </td>
+                <td className="px-4 py-3">
+                  <span className="px-2 py-0.5 rounded text-xs font-bold bg-amber-100 text-amber-700">{item.kategori}</span>
+                </td>
+                <td className="px-4 py-3 text-right font-bold text-emerald-700">-{item.poin}</td>
+                <td className="px-4 py-3">
+                  <div className="flex justify-end gap-1">
+                    <button onClick={() => setDraft(item)} className="p-2 text-slate-400 hover:text-cyan-600 hover:bg-cyan-50 rounded-lg transition-colors" title="Ubah">
+                      <Pencil className="w-4 h-4" />
+                    </button>
+                    <button onClick={() => toggleActive(item)} className="p-2 text-slate-400 hover:text-amber-600 hover:bg-amber-50 rounded-lg transition-colors" title={item.aktif ? 'Pensiunkan' : 'Aktifkan kembali'}>
+                      {item.aktif ? <Archive className="w-4 h-4" /> : <RotateCcw className="w-4 h-4" />}
+                    </button>
+                  </div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {items.length === 0 && (
+          <p className="text-center text-slate-400 py-10">Belum ada jenis prestasi.</p>
+        )}
+      </div>
+
+      <Modal isOpen={draft !== null} onClose={() => setDraft(null)} title={draft?.id ? '✏️ Ubah Jenis Prestasi' : '➕ Jenis Prestasi Baru'}>
+        {draft && (
+          <form onSubmit={handleSave} className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">Nama Prestasi</label>
+              <input
+                type="text"
+                value={draft.label}
+                onChange={(e) => setDraft({ ...draft, label: e.target.value })}
+                className="w-full p-3 bg-slate-50 border border-slate-200 rounded-xl focus:ring-2 focus:ring-cyan-500 outline-none"
+                placeholder="Contoh: Juara lomba pidato"
+                required
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Kategori</label>
+                <select
+                  value={draft.kategori}
+                  onChange={(e) => setDraft({ ...draft, kategori: e.target.value as AchievementCategory })}
+                  className="w-full p-3 bg-slate-50 border border-slate-200 rounded-xl focus:ring-2 focus:ring-cyan-500 outline-none"
+                >
+                  {CATEGORIES.map(c => <option key={c} value={c}>{c}</option>)}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Poin</label>
+                <input
+                  type="number"
+                  min={1}
+                  value={draft.poin}
+                  onChange={(e) => setDraft({ ...draft, poin: parseInt(e.target.value) })}
+                  className="w-full p-3 bg-slate-50 border border-slate-200 rounded-xl focus:ring-2 focus:ring-cyan-500 outline-none"
+                  required
+                />
+              </div>
+            </div>
+
+            <div className="flex gap-3 justify-end pt-4 border-t border-slate-100">
+              <button
+                type="button"
+                onClick={() => setDraft(null)}
+                className="px-5 py-2.5 text-slate-600 hover:bg-slate-100 rounded-xl font-medium transition-colors"
+              >
+                Batal
+              </button>
+              <button
+                type="submit"
+                className="px-6 py-2.5 bg-cyan-600 hover:bg-cyan-700 text-white rounded-xl font-bold shadow-lg shadow-cyan-500/30 transition-all"
+              >
+                Simpan
+              </button>
+            </div>
+          </form>
+        )}
+      </Modal>
+    </div>
+  );
+}
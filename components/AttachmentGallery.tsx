@@ -0,0 +1,69 @@
+import React, { useState } from 'react';
+import { AttachmentRecord } from '../types';
+import SyncBadge from './ui/SyncBadge';
+import { formatFileSize, isImageType, openDataUrl } from '../utils/attachments';
+import toast from 'react-hot-toast';
+import { FileText, Loader2, Paperclip } from 'lucide-react';
+
+interface AttachmentGalleryProps {
+  // Evidence of one violation
+  attachments: AttachmentRecord[];
+  // Full file by attachment id, as a data URL
+  onLoadAttachment: (id: string) => Promise<string>;
+}
+
+// Thumbnails come with the metadata row; the full file is only fetched when opened
+export default function AttachmentGallery({ attachments, onLoadAttachment }: AttachmentGalleryProps) {
+  const [openingId, setOpeningId] = useState<string | null>(null);
+
+  if (attachments.length === 0) return null;
+
+  const handleOpen = async (attachment: AttachmentRecord) => {
+    setOpeningId(attachment.id);
+    try {
+      const data = await onLoadAttachment(attachment.id);
+      if (!openDataUrl(data)) toast.error("Pop-up diblokir browser. Izinkan pop-up untuk membuka lampiran.");
+    } catch (error) {
+      console.error("Gagal membuka lampiran:", error);
+      toast.error("Lampiran belum dapat dibuka. Coba lagi setelah tersinkron.");
+    } finally {
+      setOpeningId(null);
+    }
+  };
+
+  return (
+    <div>
+      <p className="text-[10px] uppercase text-slate-400 font-bold mb-2 flex items-center gap-1">
+        <Paperclip className="w-3 h-3" /> Lampiran Bukti ({attachments.length})
+      </p>
+      <div className="flex flex-wrap gap-2">
+        {attachments.map(a => (
+          <button
+            key={a.id}
+            type="button"
+            onClick={() => handleOpen(a)}
+            disabled={openingId !== null}
+            title={`${a.nama_file} • ${formatFileSize(a.ukuran)} • ${a.diunggah_oleh}`}
+            className="relative w-16 h-16 rounded-lg border border-slate-200 bg-slate-50 overflow-hidden flex items-center justify-center hover:ring-2 hover:ring-cyan-400 transition-all disabled:cursor-wait"
+          >
+            {isImageType(a.tipe) && a.thumbnail ? (
+              <img src={a.thumbnail} alt={a.nama_file} className="w-full h-full object-cover" />
+            ) : (
+              <FileText className="w-6 h-6 text-slate-400" />
+            )}
+            {openingId === a.id && (
+              <span className="absolute inset-0 bg-white/70 flex items-center justify-center">
+                <Loader2 className="w-5 h-5 text-cyan-600 animate-spin" />
+              </span>
+            )}
+            {a.sync_status && a.sync_status !== 'synced' && (
+              <span className="absolute bottom-0.5 left-0.5 scale-75 origin-bottom-left">
+                <SyncBadge status={a.sync_status} />
+              </span>
+            )}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
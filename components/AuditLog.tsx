@@ -0,0 +1,282 @@
+import React, { useState, useMemo, useEffect } from 'react';
+import { AuditAction, AuditEntry, ROLE_LABELS } from '../types';
+import SyncBadge from './ui/SyncBadge';
+import { AuditCheck, AuditVerification, getDeviceHead, verifyAuditChain } from '../services/audit';
+import { AuditSeal } from '../services/repository';
+import { AUDIT_ACTION_LABELS, auditToCsv, summarizeAuditChange } from '../utils/audit';
+import { nowInJakarta, toJakartaParts } from '../utils/date';
+import toast from 'react-hot-toast';
+import { Fingerprint, ShieldCheck, ShieldAlert, Download, Search, Filter, ChevronDown, AlertTriangle } from 'lucide-react';
+
+interface AuditLogProps {
+  entries: AuditEntry[];
+  // The backend has no Audit sheet, so entries cannot be stored
+  sheetMissing: boolean;
+  onCheckSeal: () => Promise<AuditSeal | null>;
+}
+
+const PAGE_SIZE = 100;
+
+const CHECK_LABELS: Record<Exclude<AuditCheck, 'ok'>, string> = {
+  hash_salah: 'Isi entri berubah',
+  tanda_salah: 'Tanda server tidak cocok',
+  rantai_putus: 'Entri sebelumnya hilang/berubah',
+};
+
+const formatRange = ([from, to]: [number, number]) => from === to ? `${from}` : `${from}–${to}`;
+
+// Admin view of the audit log with a check of the hash chains and of the script's signatures
+export default function AuditLog({ entries, sheetMissing, onCheckSeal }: AuditLogProps) {
+  const [filterUser, setFilterUser] = useState('');
+  const [filterAction, setFilterAction] = useState<AuditAction | ''>('');
+  const [dateFrom, setDateFrom] = useState('');
+  const [dateTo, setDateTo] = useState('');
+  const [searchTerm, setSearchTerm] = useState('');
+  const [limit, setLimit] = useState(PAGE_SIZE);
+  // The script's findings: undefined while it is being asked, null when there are none to use
+  const [seal, setSeal] = useState<AuditSeal | null | undefined>(undefined);
+  const [sealFailed, setSealFailed] = useState(false);
+  const [verification, setVerification] = useState<AuditVerification | null>(null);
+
+  // Asked once per visit of the tab; it signs every row again, which is slow on a long log
+  useEffect(() => {
+    if (sheetMissing) {
+      setSeal(null);
+      return;
+    }
+    let cancelled = false;
+    setSeal(undefined);
+    setSealFailed(false);
+    onCheckSeal()
+      .then(result => { if (!cancelled) setSeal(result); })
+      .catch(error => {
+        console.error("Gagal memeriksa tanda audit:", error);
+        if (cancelled) return;
+        setSealFailed(true);
+        setSeal(null);
+      });
+    return () => { cancelled = true; };
+  }, [sheetMissing]);
+
+  useEffect(() => {
+    if (seal === undefined) return;
+    let cancelled = false;
+    setVerification(null);
+    verifyAuditChain(entries, seal, getDeviceHead())
+      .then(result => { if (!cancelled) setVerification(result); })
+      .catch(error => console.error("Gagal memeriksa rantai audit:", error));
+    return () => { cancelled = true; };
+  }, [entries, seal]);
+
+  const checks = verification?.checks;
+  const head = getDeviceHead();
+
+  const users = useMemo(() => {
+    const names = new Map<string, string>();
+    entries.forEach(e => names.set(e.pengguna, e.nama));
+    return Array.from(names.entries()).sort((a, b) => a[1].localeCompare(b[1], 'id'));
+  }, [entries]);
+
+  const filtered = useMemo(() => {
+    const term = searchTerm.toLowerCase().trim();
+    return entries
+      .filter(e => !filterUser || e.pengguna === filterUser)
+      .filter(e => !filterAction || e.aksi === filterAction)
+      .filter(e => {
+        const date = toJakartaParts(new Date(e.waktu)).date;
+        return (!dateFrom || date >= dateFrom) && (!dateTo || date <= dateTo);
+      })
+      .filter(e => !term || e.objek.toLowerCase().includes(term) || JSON.stringify(e.sesudah ?? '').toLowerCase().includes(term))
+      .sort((a, b) => b.waktu.localeCompare(a.waktu));
+  }, [entries, filterUser, filterAction, dateFrom, dateTo, searchTerm]);
+
+  const problemCount = verification
+    ? Array.from(verification.checks.values()).filter(c => c !== 'ok').length
+      + verification.missing.reduce((sum, [from, to]) => sum + to - from + 1, 0)
+      + (verification.headMissing ? 1 : 0)
+    : 0;
+
+  const handleExport = () => {
+    const blob = new Blob(['\uFEFF' + auditToCsv(filtered)], { type: 'text/csv;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `audit-simpas-${nowInJakarta().date}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+    toast.success(`${filtered.length} entri diekspor.`);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4 bg-white p-5 rounded-2xl shadow-sm border border-slate-100">
+        <div>
+          <h2 className="text-2xl font-bold text-slate-800 flex items-center gap-2">
+            <Fingerprint className="w-7 h-7 text-cyan-600" />
+            Jejak Audit
+          </h2>
+          <p className="text-slate-500 text-sm mt-1">Setiap perubahan data dan setiap login, tidak dapat diubah atau dihapus dari aplikasi.</p>
+        </div>
+        <div className="flex items-center gap-3">
+          {verification === null ? (
+            <span className="text-sm text-slate-400">Memeriksa rantai...</span>
+          ) : problemCount === 0 ? (
+            <span className="px-4 py-2 rounded-xl bg-emerald-50 text-emerald-700 border border-emerald-200 text-sm font-bold flex items-center gap-2">
+              <ShieldCheck className="w-4 h-4" /> Rantai utuh
+            </span>
+          ) : (
+            <span className="px-4 py-2 rounded-xl bg-rose-50 text-rose-700 border border-rose-200 text-sm font-bold flex items-center gap-2">
+              <ShieldAlert className="w-4 h-4" /> {problemCount} entri bermasalah
+            </span>
+          )}
+          <button
+            onClick={handleExport}
+            disabled={filtered.length === 0}
+            className="px-4 py-2 bg-cyan-600 hover:bg-cyan-700 text-white rounded-xl font-bold text-sm flex items-center gap-2 disabled:opacity-70 disabled:cursor-not-allowed"
+          >
+            <Download className="w-4 h-4" /> Ekspor CSV
+          </button>
+        </div>
+      </div>
+
+      {sheetMissing && (
+        <div className="p-4 rounded-xl bg-amber-50 border border-amber-200 text-amber-800 text-sm flex items-start gap-3">
+          <AlertTriangle className="w-5 h-5 shrink-0" />
+          <p>Sheet <b>Audit</b> tidak ditemukan di Google Sheet. Entri baru tidak dapat disimpan di server dan dibuang dari antrean setelah 24 jam. Buat sheet tersebut agar setiap perubahan tercatat.</p>
+        </div>
+      )}
+      {sealFailed && (
+        <div className="p-4 rounded-xl bg-amber-50 border border-amber-200 text-amber-800 text-sm flex items-start gap-3">
+          <AlertTriangle className="w-5 h-5 shrink-0" />
+          <p>Tanda server tidak dapat diperiksa. Hanya rantai tiap perangkat yang diperiksa, sehingga entri yang dihapus di akhir rantai tidak terlihat.</p>
+        </div>
+      )}
+      {verification && (verification.missing.length > 0 || verification.headMissing) && (
+        <div className="p-4 rounded-xl bg-rose-50 border border-rose-200 text-rose-700 text-sm space-y-1">
+          {verification.missing.length > 0 && (
+            <p className="flex items-center gap-2">
+              <ShieldAlert className="w-4 h-4 shrink-0" /> Entri nomor {verification.missing.map(formatRange).join(', ')} sudah tercatat server tetapi tidak ada lagi di sheet.
+            </p>
+          )}
+          {verification.headMissing && (
+            <p className="flex items-center gap-2">
+              <ShieldAlert className="w-4 h-4 shrink-0" /> Entri terakhir perangkat ini ({head.perangkat} #{head.urutan}) tidak ada di sheet maupun di antrean.
+            </p>
+          )}
+        </div>
+      )}
+
+      <div className="bg-white p-4 rounded-xl shadow-sm border border-slate-100 grid grid-cols-1 md:grid-cols-5 gap-3">
+        <div className="relative md:col-span-2">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400 w-4 h-4" />
+          <input
+            type="text"
+            value={searchTerm}
+            onChange={(e) => { setSearchTerm(e.target.value); setLimit(PAGE_SIZE); }}
+            placeholder="Cari kode pelanggaran, NIS, objek..."
+            className="w-full pl-10 pr-3 py-2.5 bg-slate-50 border border-slate-200 rounded-lg focus:ring-2 focus:ring-cyan-500 outline-none"
+          />
+        </div>
+        <div className="relative">
+          <select
+            value={filterUser}
+            onChange={(e) => { setFilterUser(e.target.value); setLimit(PAGE_SIZE); }}
+            className="w-full pl-10 pr-10 py-2.5 bg-slate-50 border border-slate-200 rounded-lg focus:ring-2 focus:ring-cyan-500 outline-none appearance-none cursor-pointer font-medium text-slate-700"
+          >
+            <option value="">Semua Pengguna</option>
+            {users.map(([username, nama]) => <option key={username} value={username}>{nama}</option>)}
+          </select>
+          <Filter className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400 w-4 h-4 pointer-events-none" />
+          <ChevronDown className="absolute right-3 top-1/2 -translate-y-1/2 text-slate-400 w-4 h-4 pointer-events-none" />
+        </div>
+        <div className="relative">
+          <select
+            value={filterAction}
+            onChange={(e) => { setFilterAction(e.target.value as AuditAction | ''); setLimit(PAGE_SIZE); }}
+            className="w-full pl-10 pr-10 py-2.5 bg-slate-50 border border-slate-200 rounded-lg focus:ring-2 focus:ring-cyan-500 outline-none appearance-none cursor-pointer font-medium text-slate-700"
+          >
+            <option value="">Semua Aksi</option>
+            {(Object.keys(AUDIT_ACTION_LABELS) as AuditAction[]).map(a => <option key={a} value={a}>{AUDIT_ACTION_LABELS[a]}</option>)}
+          </select>
+          <Filter className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400 w-4 h-4 pointer-events-none" />
+          <ChevronDown className="absolute right-3 top-1/2 -translate-y-1/2 text-slate-400 w-4 h-4 pointer-events-none" />
+        </div>
+        <div className="flex gap-2">
+          <input
+            type="date"
+            value={dateFrom}
+            onChange={(e) => { setDateFrom(e.target.value); setLimit(PAGE_SIZE); }}
+            title="Dari tanggal"
+            className="w-1/2 px-2 py-2.5 bg-slate-50 border border-slate-200 rounded-lg text-xs focus:ring-2 focus:ring-cyan-500 outline-none"
+          />
+          <input
+            type="date"
+            value={dateTo}
+            onChange={(e) => { setDateTo(e.target.value); setLimit(PAGE_SIZE); }}
+            title="Sampai tanggal"
+            className="w-1/2 px-2 py-2.5 bg-slate-50 border border-slate-200 rounded-lg text-xs focus:ring-2 focus:ring-cyan-500 outline-none"
+          />
+        </div>
+      </div>
+
+      <div className="bg-white rounded-2xl shadow-sm border border-slate-100 overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-slate-50 text-slate-500 text-xs uppercase tracking-wider">
+              <tr>
+                <th className="text-left p-3">Waktu</th>
+                <th className="text-left p-3">Pengguna</th>
+                <th className="text-left p-3">Aksi</th>
+                <th className="text-left p-3">Objek</th>
+                <th className="text-left p-3">Perubahan</th>
+                <th className="text-left p-3">Perangkat</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {filtered.slice(0, limit).map(e => {
+                const check = checks?.get(e.id);
+                const parts = toJakartaParts(new Date(e.waktu));
+                return (
+                  <tr key={e.id} className={check && check !== 'ok' ? 'bg-rose-50' : ''}>
+                    <td className="p-3 whitespace-nowrap text-slate-600">{parts.date} {parts.time}</td>
+                    <td className="p-3">
+                      <p className="font-medium text-slate-700">{e.nama}</p>
+                      <p className="text-xs text-slate-400">{ROLE_LABELS[e.peran] || e.peran}</p>
+                    </td>
+                    <td className="p-3 whitespace-nowrap">
+                      <span className="font-bold text-slate-700">{AUDIT_ACTION_LABELS[e.aksi] || e.aksi}</span>
+                      <div><SyncBadge status={e.sync_status} /></div>
+                    </td>
+                    <td className="p-3 font-mono text-xs text-slate-600 break-all">{e.objek}</td>
+                    <td className="p-3 text-xs text-slate-500 max-w-md">
+                      {summarizeAuditChange(e).map((line, i) => <p key={i} className="break-words">{line}</p>)}
+                    </td>
+                    <td className="p-3 text-xs whitespace-nowrap">
+                      <span className="font-mono text-slate-500">{e.perangkat} #{e.urutan}</span>
+                      {e.nomor !== undefined && <p className="font-mono text-slate-400">No. {e.nomor}</p>}
+                      {check && check !== 'ok' && (
+                        <p className="text-rose-700 font-bold flex items-center gap-1 mt-1">
+                          <ShieldAlert className="w-3 h-3" /> {CHECK_LABELS[check]}
+                        </p>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+        {filtered.length === 0 && (
+          <p className="text-center py-12 text-slate-400">Tidak ada entri yang cocok.</p>
+        )}
+        {filtered.length > limit && (
+          <div className="p-4 border-t border-slate-100 text-center">
+            <button onClick={() => setLimit(limit + PAGE_SIZE)} className="text-sm font-bold text-cyan-700 hover:text-cyan-800">
+              Tampilkan lebih banyak ({filtered.length - limit} lagi)
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,163 @@
+import React, { useState, useEffect } from 'react';
+import { CaseStage, CaseWorkflow } from '../types';
+import { validateWorkflow } from '../utils/caseWorkflow';
+import toast from 'react-hot-toast';
+import { Plus, Trash2, Save } from 'lucide-react';
+
+interface CaseWorkflowSettingsProps {
+  workflow: CaseWorkflow;
+  onChange: (workflow: CaseWorkflow) => void;
+}
+
+// Admin editor for the follow-up stages. The first stage is where every new violation starts;
+// stage ids are kept when a stage is renamed, so open cases stay where they are.
+export default function CaseWorkflowSettings({ workflow, onChange }: CaseWorkflowSettingsProps) {
+  const [stages, setStages] = useState<CaseStage[]>(workflow.stages);
+
+  useEffect(() => {
+    setStages(workflow.stages);
+  }, [workflow]);
+
+  const updateStage = (index: number, patch: Partial<CaseStage>) => {
+    setStages(prev => prev.map((stage, i) => i === index ? { ...stage, ...patch } : stage));
+  };
+
+  const toggleTransition = (index: number, targetId: string) => {
+    const current = stages[index].lanjut_ke;
+    updateStage(index, {
+      lanjut_ke: current.includes(targetId) ? current.filter(id => id !== targetId) : [...current, targetId],
+    });
+  };
+
+  const addStage = () => {
+    // New stages go before the final ones, so the start stage stays first
+    const stage: CaseStage = { id: `tahap-${Date.now().toString(36)}`, label: '', selesai: false, lanjut_ke: [], batas_hari: 7 };
+    const firstDone = stages.findIndex(s => s.selesai);
+    const at = firstDone === -1 ? stages.length : firstDone;
+    setStages(prev => [...prev.slice(0, at), stage, ...prev.slice(at)]);
+  };
+
+  const removeStage = (index: number) => {
+    const removedId = stages[index].id;
+    setStages(prev => prev
+      .filter((_, i) => i !== index)
+      .map(s => ({ ...s, lanjut_ke: s.lanjut_ke.filter(id => id !== removedId) })));
+  };
+
+  const handleSave = () => {
+    const cleaned = stages.map(s => ({
+      ...s,
+      label: s.label.trim(),
+      lanjut_ke: s.selesai ? [] : s.lanjut_ke,
+      batas_hari: !s.selesai && s.batas_hari && s.batas_hari > 0 ? s.batas_hari : undefined,
+    }));
+    const error = validateWorkflow({ stages: cleaned });
+    if (error) {
+      toast.error(error);
+      return;
+    }
+    onChange({ stages: cleaned });
+    toast.success("Alur tindak lanjut disimpan.");
+  };
+
+  return (
+    <div className="space-y-5">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-bold text-slate-800">🗂️ Alur Tindak Lanjut</h3>
+          <p className="text-sm text-slate-500">
+            Tahap yang dilalui setiap kasus, batas waktu tiap tahap, dan tahap berikutnya yang boleh dipilih.
+          </p>
+        </div>
+        <button
+          onClick={addStage}
+          className="px-5 py-2.5 text-cyan-700 bg-cyan-50 hover:bg-cyan-100 rounded-xl font-bold transition-colors flex items-center justify-center gap-2"
+        >
+          <Plus className="w-4 h-4" /> Tambah Tahap
+        </button>
+      </div>
+
+      <div className="space-y-3">
+        {stages.map((stage, index) => (
+          <div key={stage.id} className="p-4 rounded-xl border border-slate-100 bg-white space-y-3">
+            <div className="flex flex-col md:flex-row md:items-center gap-3">
+              <span className="text-xs font-bold text-slate-400 w-6">{index + 1}.</span>
+              <input
+                type="text"
+                value={stage.label}
+                placeholder="Contoh: Pemanggilan orang tua"
+                onChange={(e) => updateStage(index, { label: e.target.value })}
+                className="flex-1 p-2 bg-slate-50 border border-slate-200 rounded-lg focus:ring-2 focus:ring-cyan-500 outline-none text-sm"
+              />
+              {!stage.selesai && (
+                <label className="flex items-center gap-2 text-sm text-slate-600">
+                  Batas
+                  <input
+                    type="number"
+                    min={0}
+                    value={stage.batas_hari ?? 0}
+                    onChange={(e) => updateStage(index, { batas_hari: Number(e.target.value) })}
+                    className="w-20 p-2 bg-slate-50 border border-slate-200 rounded-lg focus:ring-2 focus:ring-cyan-500 outline-none"
+                  />
+                  hari
+                </label>
+              )}
+              <label className="flex items-center gap-2 text-sm text-slate-600">
+                <input
+                  type="checkbox"
+                  checked={stage.selesai}
+                  disabled={index === 0}
+                  onChange={(e) => updateStage(index, { selesai: e.target.checked })}
+                  className="accent-cyan-600"
+                />
+                Tahap selesai
+              </label>
+              <button
+                onClick={() => removeStage(index)}
+                disabled={index === 0}
+                className="p-2 text-slate-400 hover:text-rose-600 hover:bg-rose-50 rounded-lg transition-colors disabled:opacity-30 disabled:hover:bg-transparent"
+                title={index === 0 ? 'Tahap awal tidak bisa dihapus' : 'Hapus tahap'}
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+            {!stage.selesai && (
+              <div className="pl-9">
+                <p className="text-[10px] uppercase font-bold text-slate-400 mb-1">Dapat dilanjutkan ke</p>
+                <div className="flex flex-wrap gap-2">
+                  {stages.filter(s => s.id !== stage.id).map(target => (
+                    <label
+                      key={target.id}
+                      className={`px-3 py-1 rounded-full border text-xs cursor-pointer ${
+                        stage.lanjut_ke.includes(target.id)
+                          ? 'bg-cyan-50 border-cyan-200 text-cyan-700 font-semibold'
+                          : 'bg-white border-slate-200 text-slate-500'
+                      }`}
+                    >
+                      <input
+                        type="checkbox"
+                        className="hidden"
+                        checked={stage.lanjut_ke.includes(target.id)}
+                        onChange={() => toggleTransition(index, target.id)}
+                      />
+                      {target.label || '(tanpa nama)'}
+                    </label>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div className="flex justify-end">
+        <button
+          onClick={handleSave}
+          className="px-6 py-2.5 bg-cyan-600 hover:bg-cyan-700 text-white rounded-xl font-bold shadow-lg shadow-cyan-500/30 transition-all flex items-center gap-2"
+        >
+          <Save className="w-4 h-4" /> Simpan Alur
+        </button>
+      </div>
+    </div>
+  );
+}
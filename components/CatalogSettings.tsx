@@ -0,0 +1,271 @@
+import React, { useState, useMemo } from 'react';
+import { ViolationCatalog, ViolationCategory, ViolationTypeDefinition } from '../types';
+import { CatalogItemDraft, CATALOG_START_DATE, getVersionAt, saveCatalogItem, setCatalogItemActive, validateDraft } from '../utils/catalog';
+import { nowInJakarta, formatDate } from '../utils/date';
+import Modal from './ui/Modal';
+import toast from 'react-hot-toast';
+import { Plus, Pencil, Archive, RotateCcw, History, Search } from 'lucide-react';
+
+interface CatalogSettingsProps {
+  catalog: ViolationCatalog;
+  onChange: (catalog: ViolationCatalog) => void;
+}
+
+const CATEGORIES: ViolationCategory[] = ['Ringan', 'Sedang', 'Berat'];
+
+const emptyDraft = (): CatalogItemDraft => ({
+  label: '',
+  kode: '',
+  deskripsi: '',
+  kategori: 'Ringan',
+  poin: 5,
+  berlaku_mulai: nowInJakarta().date,
+});
+
+const categoryClass = (kategori: ViolationCategory) =>
+  kategori === 'Ringan' ? 'bg-emerald-100 text-emerald-700' :
+  kategori === 'Sedang' ? 'bg-amber-100 text-amber-700' :
+  'bg-rose-100 text-rose-700';
+
+// Admin editor for the violation catalog. Changing points adds a dated version instead of
+// overwriting, so older violations are still validated against the points they were given.
+export default function CatalogSettings({ catalog, onChange }: CatalogSettingsProps) {
+  const [searchTerm, setSearchTerm] = useState('');
+  const [showRetired, setShowRetired] = useState(false);
+  const [draft, setDraft] = useState<CatalogItemDraft | null>(null);
+  const today = nowInJakarta().date;
+
+  const items = useMemo(() => {
+    return catalog.items
+      .filter(item => showRetired || item.aktif)
+      .filter(item => item.label.toLowerCase().includes(searchTerm.toLowerCase()) || (item.kode || '').toLowerCase().includes(searchTerm.toLowerCase()))
+      .sort((a, b) => {
+        const ka = CATEGORIES.indexOf(getVersionAt(a, today).kategori);
+        const kb = CATEGORIES.indexOf(getVersionAt(b, today).kategori);
+        return ka - kb || a.label.localeCompare(b.label, 'id');
+      });
+  }, [catalog, showRetired, searchTerm, today]);
+
+  const openEdit = (item: ViolationTypeDefinition) => {
+    const current = getVersionAt(item, today);
+    setDraft({
+      id: item.id,
+      label: item.label,
+      kode: item.kode || '',
+      deskripsi: item.deskripsi || '',
+      kategori: current.kategori,
+      poin: current.poin,
+      berlaku_mulai: today,
+    });
+  };
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft) return;
+    const error = validateDraft(catalog, draft);
+    if (error) {
+      toast.error(error);
+      return;
+    }
+    onChange(saveCatalogItem(catalog, draft));
+    toast.success(draft.id ? "Jenis pelanggaran diperbarui." : "Jenis pelanggaran ditambahkan.");
+    setDraft(null);
+  };
+
+  const toggleActive = (item: ViolationTypeDefinition) => {
+    onChange(setCatalogItemActive(catalog, item.id, !item.aktif));
+    toast.success(item.aktif ? `"${item.label}" dipensiunkan.` : `"${item.label}" diaktifkan kembali.`);
+  };
+
+  const editedItem = draft?.id ? catalog.items.find(i => i.id === draft.id) : undefined;
+
+  return (
+    <div className="space-y-5">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-bold text-slate-800">📚 Katalog Pelanggaran</h3>
+          <p className="text-sm text-slate-500">
+            Versi {catalog.versi}{catalog.versi > 0 && ` • diperbarui ${formatDate(catalog.diperbarui, { day: 'numeric', month: 'short', year: 'numeric', hour: '2-digit', minute: '2-digit' })}`}
+          </p>
+        </div>
+        <button
+          onClick={() => setDraft(emptyDraft())}
+          className="px-5 py-2.5 bg-cyan-600 hover:bg-cyan-700 text-white rounded-xl font-bold shadow-lg shadow-cyan-500/30 transition-all flex items-center justify-center gap-2"
+        >
+          <Plus className="w-4 h-4" /> Tambah Jenis
+        </button>
+      </div>
+
+      <div className="flex flex-col md:flex-row gap-3">
+        <div className="flex-1 relative">
+          <input
+            type="text"
+            placeholder="Cari nama atau kode..."
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            className="w-full pl-10 pr-4 py-2.5 bg-slate-50 border border-slate-200 rounded-lg focus:ring-2 focus:ring-cyan-500 outline-none"
+          />
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400 w-4 h-4" />
+        </div>
+        <label className="flex items-center gap-2 text-sm text-slate-600 font-medium px-2">
+          <input type="checkbox" checked={showRetired} onChange={(e) => setShowRetired(e.target.checked)} className="rounded" />
+          Tampilkan yang dipensiunkan
+        </label>
+      </div>
+
+      <div className="bg-white rounded-2xl border border-slate-100 overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-[10px] uppercase tracking-wider text-slate-400 border-b border-slate-100">
+              <th className="px-4 py-3">Kode</th>
+              <th className="px-4 py-3">Jenis Pelanggaran</th>
+              <th className="px-4 py-3">Kategori</th>
+              <th className="px-4 py-3 text-right">Poin</th>
+              <th className="px-4 py-3 text-right">Aksi</th>
+            </tr>
+          </thead>
+          <tbody>
+            {items.map(item => {
+              const current = getVersionAt(item, today);
+              return (
+                <tr key={item.id} className={`border-b border-slate-50 hover:bg-slate-50 ${item.aktif ? '' : 'opacity-50'}`}>
+                  <td className="px-4 py-3 font-mono text-xs text-slate-500">{item.kode || '-'}</td>
+                  <td className="px-4 py-3">
+                    <p className="font-medium text-slate-800">{item.label}</p>
+                    {item.deskripsi && <p className="text-xs text-slate-400">{item.deskripsi}</p>}
+                    {!item.aktif && <span className="text-[10px] font-bold uppercase text-slate-400">Dipensiunkan</span>}
+                  </td>
+                  <td className="px-4 py-3">
+                    <span className={`px-2 py-0.5 rounded text-xs font-bold ${categoryClass(current.kategori)}`}>{current.kategori}</span>
+                  </td>
+                  <td className="px-4 py-3 text-right font-bold text-slate-800">
+                    {current.poin}
+                    {item.versions.length > 1 && (
+                      <History className="inline w-3.5 h-3.5 ml-1 text-slate-400" aria-label={`${item.versions.length} versi`} />
+                    )}
+                  </td>
+                  <td className="px-4 py-3">
+                    <div className="flex justify-end gap-1">
+                      <button onClick={() => openEdit(item)} className="p-2 text-slate-400 hover:text-cyan-600 hover:bg-cyan-50 rounded-lg transition-colors" title="Ubah">
+                        <Pencil className="w-4 h-4" />
+                      </button>
+                      <button onClick={() => toggleActive(item)} className="p-2 text-slate-400 hover:text-amber-600 hover:bg-amber-50 rounded-lg transition-colors" title={item.aktif ? 'Pensiunkan' : 'Aktifkan kembali'}>
+                        {item.aktif ? <Archive className="w-4 h-4" /> : <RotateCcw className="w-4 h-4" />}
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+        {items.length === 0 && (
+          <p className="text-center text-slate-400 py-10">Tidak ada jenis pelanggaran yang cocok.</p>
+        )}
+      </div>
+
+      <Modal isOpen={draft !== null} onClose={() => setDraft(null)} title={draft?.id ? '✏️ Ubah Jenis Pelanggaran' : '➕ Jenis Pelanggaran Baru'}>
+        {draft && (
+          <form onSubmit={handleSave} className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">Nama Jenis Pelanggaran</label>
+              <input
+                type="text"
+                value={draft.label}
+                onChange={(e) => setDraft({ ...draft, label: e.target.value })}
+                className="w-full p-3 bg-slate-50 border border-slate-200 rounded-xl focus:ring-2 focus:ring-cyan-500 outline-none"
+                placeholder="Contoh: Vaping di area sekolah"
+                required
+              />
+              {editedItem && draft.label.trim() !== editedItem.label && (
+                <p className="text-xs text-amber-600 mt-1">Nama lama tetap dikenali untuk data yang sudah tercatat.</p>
+              )}
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Kode (opsional)</label>
+                <input
+                  type="text"
+                  value={draft.kode}
+                  onChange={(e) => setDraft({ ...draft, kode: e.target.value })}
+                  className="w-full p-3 bg-slate-50 border border-slate-200 rounded-xl focus:ring-2 focus:ring-cyan-500 outline-none font-mono"
+                  placeholder="B-07"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Kategori</label>
+                <select
+                  value={draft.kategori}
+                  onChange={(e) => setDraft({ ...draft, kategori: e.target.value as ViolationCategory })}
+                  className="w-full p-3 bg-slate-50 border border-slate-200 rounded-xl focus:ring-2 focus:ring-cyan-500 outline-none"
+                >
+                  {CATEGORIES.map(c => <option key={c} value={c}>{c}</option>)}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Poin</label>
+                <input
+                  type="number"
+                  min={0}
+                  value={draft.poin}
+                  onChange={(e) => setDraft({ ...draft, poin: parseInt(e.target.value) })}
+                  className="w-full p-3 bg-slate-50 border border-slate-200 rounded-xl focus:ring-2 focus:ring-cyan-500 outline-none"
+                  required
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Berlaku Mulai</label>
+                <input
+                  type="date"
+                  value={draft.berlaku_mulai}
+                  onChange={(e) => setDraft({ ...draft, berlaku_mulai: e.target.value })}
+                  className="w-full p-3 bg-slate-50 border border-slate-200 rounded-xl focus:ring-2 focus:ring-cyan-500 outline-none"
+                  required
+                />
+              </div>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">Deskripsi (opsional)</label>
+              <textarea
+                rows={2}
+                value={draft.deskripsi}
+                onChange={(e) => setDraft({ ...draft, deskripsi: e.target.value })}
+                className="w-full p-3 bg-slate-50 border border-slate-200 rounded-xl focus:ring-2 focus:ring-cyan-500 outline-none resize-none"
+              />
+            </div>
+
+            {editedItem && (
+              <div className="bg-slate-50 p-3 rounded-xl border border-slate-200 text-xs text-slate-600">
+                <p className="font-bold text-slate-700 mb-1 flex items-center gap-1"><History className="w-3.5 h-3.5" /> Riwayat poin</p>
+                <ul className="space-y-0.5">
+                  {editedItem.versions.map(v => (
+                    <li key={v.berlaku_mulai}>
+                      {v.berlaku_mulai === CATALOG_START_DATE ? 'Awal' : formatDate(v.berlaku_mulai)}: {v.poin} poin ({v.kategori})
+                    </li>
+                  ))}
+                </ul>
+                <p className="mt-2 text-slate-500">Perubahan poin atau kategori hanya berlaku untuk pelanggaran sejak tanggal "Berlaku Mulai".</p>
+              </div>
+            )}
+
+            <div className="flex gap-3 justify-end pt-4 border-t border-slate-100">
+              <button
+                type="button"
+                onClick={() => setDraft(null)}
+                className="px-5 py-2.5 text-slate-600 hover:bg-slate-100 rounded-xl font-medium transition-colors"
+              >
+                Batal
+              </button>
+              <button
+                type="submit"
+                className="px-6 py-2.5 bg-cyan-600 hover:bg-cyan-700 text-white rounded-xl font-bold shadow-lg shadow-cyan-500/30 transition-all"
+              >
+                Simpan
+              </button>
+            </div>
+          </form>
+        )}
+      </Modal>
+    </div>
+  );
+}
@@ -0,0 +1,202 @@
+import React, { useState, useMemo } from 'react';
+import { Student, Violation } from '../types';
+import { Grid3x3, X } from 'lucide-react';
+import SyncBadge from './ui/SyncBadge';
+import { compareByIncidentDesc, formatDate } from '../utils/date';
+import {
+  CLASS_RANKING_LABELS, ClassRankingMetric, buildClassHeatmap, filterByClassCell, rankClasses,
+} from '../utils/classStats';
+
+interface ClassAnalyticsProps {
+  // Already narrowed to the Dashboard period and reporter
+  violations: Violation[];
+  students: Student[];
+  onViewDetail: (id: string) => void;
+}
+
+// Selected heatmap cell; a class label or ranking row selects the whole class
+interface Selection {
+  kelas: string;
+  label: string;
+  jenis?: string;
+}
+
+// Cell shade, from white to the darkest rose at the busiest cell
+const cellColor = (count: number, max: number) => {
+  if (count === 0 || max === 0) return undefined;
+  return `rgba(225, 29, 72, ${0.12 + (count / max) * 0.78})`;
+};
+
+export default function ClassAnalytics({ violations, students, onViewDetail }: ClassAnalyticsProps) {
+  const [metric, setMetric] = useState<ClassRankingMetric>('poin');
+  const [selection, setSelection] = useState<Selection | null>(null);
+
+  const heatmap = useMemo(() => buildClassHeatmap(violations, students), [violations, students]);
+  const ranking = useMemo(() => rankClasses(violations, students, metric), [violations, students, metric]);
+  const drillDown = useMemo(
+    () => (selection ? filterByClassCell(violations, selection.kelas, selection.jenis).sort(compareByIncidentDesc) : []),
+    [violations, selection]
+  );
+
+  const isSelected = (kelas: string, jenis?: string) => selection?.kelas === kelas && selection?.jenis === jenis;
+
+  const toggle = (next: Selection) => {
+    setSelection(isSelected(next.kelas, next.jenis) ? null : next);
+  };
+
+  return (
+    <div className="grid grid-cols-1 xl:grid-cols-3 gap-6">
+      <div className="xl:col-span-2 bg-white rounded-2xl p-6 shadow-sm border border-slate-100 min-w-0">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+            <Grid3x3 className="w-5 h-5 text-rose-500" /> Kelas × Jenis Pelanggaran
+          </h3>
+          <span className="text-xs font-medium text-slate-400">Klik sel untuk melihat datanya</span>
+        </div>
+        {heatmap.jenis.length === 0 ? (
+          <p className="text-center py-12 text-slate-400 text-sm">Tidak ada pelanggaran pada periode ini</p>
+        ) : (
+          <div className="overflow-auto max-h-[420px]">
+            <table className="text-xs border-separate border-spacing-0.5">
+              <thead>
+                <tr>
+                  <th className="sticky left-0 top-0 z-20 bg-white" />
+                  {heatmap.jenis.map(jenis => (
+                    <th key={jenis} className="sticky top-0 z-10 bg-white p-1 align-bottom">
+                      <span className="block w-20 text-[10px] font-medium text-slate-500 leading-tight line-clamp-3" title={jenis}>{jenis}</span>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {heatmap.classes.map(option => {
+                  const row = heatmap.counts.get(option.value);
+                  return (
+                    <tr key={option.value}>
+                      <th className="sticky left-0 z-10 bg-white pr-2 text-left">
+                        <button
+                          onClick={() => toggle({ kelas: option.value, label: option.label })}
+                          className={`whitespace-nowrap font-bold hover:text-cyan-700 ${isSelected(option.value) ? 'text-cyan-700' : 'text-slate-700'}`}
+                        >
+                          {option.label}
+                        </button>
+                      </th>
+                      {heatmap.jenis.map(jenis => {
+                        const count = row?.get(jenis) || 0;
+                        return (
+                          <td key={jenis} className="p-0">
+                            <button
+                              onClick={() => count > 0 && toggle({ kelas: option.value, label: option.label, jenis })}
+                              disabled={count === 0}
+                              title={`${option.label} • ${jenis}: ${count}`}
+                              style={{ backgroundColor: cellColor(count, heatmap.max) }}
+                              className={`w-20 h-8 rounded font-bold transition-shadow ${
+                                count === 0 ? 'bg-slate-50 text-slate-300 cursor-default' : count / heatmap.max > 0.5 ? 'text-white' : 'text-rose-900'
+                              } ${isSelected(option.value, jenis) ? 'ring-2 ring-cyan-500' : count > 0 ? 'hover:ring-2 hover:ring-rose-300' : ''}`}
+                            >
+                              {count || '·'}
+                            </button>
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      <div className="bg-white rounded-2xl p-6 shadow-sm border border-slate-100 flex flex-col">
+        <h3 className="text-lg font-bold text-slate-800 mb-4">🏫 Peringkat Kelas</h3>
+        <div className="flex gap-1 bg-slate-100 p-1 rounded-lg mb-4">
+          {(Object.keys(CLASS_RANKING_LABELS) as ClassRankingMetric[]).map(m => (
+            <button
+              key={m}
+              onClick={() => setMetric(m)}
+              className={`flex-1 px-2 py-1 rounded-md text-[11px] font-bold transition-colors ${
+                metric === m ? 'bg-white text-cyan-700 shadow-sm' : 'text-slate-500 hover:text-slate-700'
+              }`}
+            >
+              {CLASS_RANKING_LABELS[m]}
+            </button>
+          ))}
+        </div>
+        <div className="overflow-y-auto max-h-[360px] -mx-2">
+          <table className="w-full text-sm">
+            <thead className="text-[10px] uppercase tracking-wider text-slate-400">
+              <tr>
+                <th className="text-left px-2 py-1">#</th>
+                <th className="text-left px-2 py-1">Kelas</th>
+                <th className={`text-right px-2 py-1 ${metric === 'poin' ? 'text-cyan-700' : ''}`}>Poin</th>
+                <th className={`text-right px-2 py-1 ${metric === 'poin_per_siswa' ? 'text-cyan-700' : ''}`}>/Siswa</th>
+                <th className={`text-right px-2 py-1 ${metric === 'menunggu' ? 'text-cyan-700' : ''}`}>Menunggu</th>
+              </tr>
+            </thead>
+            <tbody>
+              {ranking.map((r, index) => (
+                <tr
+                  key={r.value}
+                  onClick={() => toggle({ kelas: r.value, label: r.label })}
+                  className={`cursor-pointer ${isSelected(r.value) ? 'bg-cyan-50' : 'hover:bg-slate-50'}`}
+                >
+                  <td className="px-2 py-1.5 text-slate-400 text-xs">{index + 1}</td>
+                  <td className="px-2 py-1.5 font-medium text-slate-700 whitespace-nowrap">
+                    {r.label} <span className="text-[10px] text-slate-400">({r.siswa} siswa)</span>
+                  </td>
+                  <td className={`px-2 py-1.5 text-right ${metric === 'poin' ? 'font-bold text-slate-800' : 'text-slate-500'}`}>{r.poin}</td>
+                  <td className={`px-2 py-1.5 text-right ${metric === 'poin_per_siswa' ? 'font-bold text-slate-800' : 'text-slate-500'}`}>{r.poin_per_siswa}</td>
+                  <td className={`px-2 py-1.5 text-right ${metric === 'menunggu' ? 'font-bold text-slate-800' : 'text-slate-500'}`}>{r.menunggu}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {ranking.length === 0 && <p className="text-center py-6 text-slate-400 text-sm">Belum ada data kelas</p>}
+        </div>
+      </div>
+
+      {selection && (
+        <div className="xl:col-span-3 bg-white rounded-2xl p-6 shadow-sm border border-cyan-100">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-base font-bold text-slate-800">
+              {selection.label}{selection.jenis && <span className="text-slate-500 font-medium"> • {selection.jenis}</span>}
+              <span className="ml-2 text-sm font-medium text-slate-400">({drillDown.length} pelanggaran)</span>
+            </h3>
+            <button onClick={() => setSelection(null)} className="p-1.5 rounded-lg text-slate-400 hover:bg-slate-100 hover:text-slate-600" title="Tutup">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+          {drillDown.length === 0 ? (
+            <p className="text-center py-6 text-slate-400 text-sm">Tidak ada pelanggaran pada periode ini</p>
+          ) : (
+            <div className="divide-y divide-slate-100 max-h-[360px] overflow-y-auto">
+              {drillDown.map(v => (
+                <button
+                  key={v.id}
+                  onClick={() => onViewDetail(v.id)}
+                  className="w-full flex items-center gap-3 py-2.5 px-2 text-left hover:bg-cyan-50/50 rounded-lg"
+                >
+                  <span className="text-xs font-bold text-indigo-600 bg-indigo-50 px-2 py-0.5 rounded shrink-0">{v.kode_pelanggaran}</span>
+                  <span className="flex-1 min-w-0">
+                    <span className="block text-sm font-bold text-slate-800 truncate">{v.nama_lengkap}</span>
+                    <span className="block text-xs text-slate-500 truncate">
+                      {v.jenis_pelanggaran} • {formatDate(v.tanggal_pelanggaran)}{v.jam_kejadian && `, ${v.jam_kejadian}`}
+                    </span>
+                  </span>
+                  <SyncBadge status={v.sync_status} />
+                  <span className="text-xs font-bold text-slate-700 shrink-0">{v.poin_pelanggaran} poin</span>
+                  <span className={`text-[10px] font-bold px-2 py-0.5 rounded shrink-0 ${
+                    v.status_tindak_lanjut === 'Menunggu Tindak Lanjut' ? 'bg-amber-100 text-amber-700' : 'bg-emerald-100 text-emerald-700'
+                  }`}>
+                    {v.status_tindak_lanjut === 'Menunggu Tindak Lanjut' ? 'Menunggu' : 'Selesai'}
+                  </span>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,80 @@
+import React, { useMemo } from 'react';
+import { Violation } from '../types';
+import { findDuplicateCodes, planCodeRepairs, CodeRepair as CodeRepairPlan } from '../utils/violationCode';
+import Modal from './ui/Modal';
+import toast from 'react-hot-toast';
+import { AlertTriangle, Wrench } from 'lucide-react';
+
+interface CodeRepairProps {
+  isOpen: boolean;
+  onClose: () => void;
+  violations: Violation[];
+  onApply: (repairs: CodeRepairPlan[]) => void;
+}
+
+// One-time tool for sheets filled before device-based codes existed:
+// lists every kode_pelanggaran used by more than one row and renumbers the extra rows.
+export default function CodeRepair({ isOpen, onClose, violations, onApply }: CodeRepairProps) {
+  const duplicates = useMemo(() => Array.from(findDuplicateCodes(violations).entries()), [violations]);
+
+  const handleApply = () => {
+    const repairs = planCodeRepairs(violations);
+    if (repairs.length === 0) {
+      toast.error("Tidak ada baris sheet yang bisa diperbaiki");
+      return;
+    }
+    onApply(repairs);
+    toast.success(`${repairs.length} kode diperbarui, sedang disinkronkan.`);
+    onClose();
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="🛠️ Perbaikan Kode Ganda">
+      <div className="space-y-5">
+        <div className="bg-amber-50 p-4 rounded-xl border border-amber-200 text-sm text-amber-800 flex items-start gap-3">
+          <AlertTriangle className="w-5 h-5 shrink-0 mt-0.5" />
+          <p>
+            Baris paling atas di sheet tetap memakai kode lamanya. Baris lain dengan kode yang sama akan diberi kode baru.
+            Pastikan surat yang sudah dicetak memakai kode baris pertama.
+          </p>
+        </div>
+
+        {duplicates.length === 0 ? (
+          <p className="text-center text-slate-500 py-6">Tidak ada kode ganda. 🎉</p>
+        ) : (
+          <div className="space-y-3 max-h-[320px] overflow-y-auto pr-1">
+            {duplicates.map(([code, group]) => (
+              <div key={code} className="bg-white p-3 rounded-xl border border-slate-200 text-sm">
+                <p className="font-mono font-bold text-rose-600 mb-2">{code} <span className="text-slate-400 font-sans font-medium">• {group.length} baris</span></p>
+                <ul className="space-y-1">
+                  {group.map((v, index) => (
+                    <li key={`${code}-${v.sheet_row ?? index}`} className="text-xs text-slate-600 flex justify-between gap-2">
+                      <span className="truncate">{v.nama_lengkap} — {v.jenis_pelanggaran}</span>
+                      <span className="text-slate-400 shrink-0">{v.sheet_row ? `Baris ${v.sheet_row}` : 'Belum di sheet'}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="flex gap-3 justify-end pt-4 border-t border-slate-100">
+          <button
+            onClick={onClose}
+            className="px-5 py-2.5 text-slate-600 hover:bg-slate-100 rounded-xl font-medium transition-colors"
+          >
+            Tutup
+          </button>
+          <button
+            onClick={handleApply}
+            disabled={duplicates.length === 0}
+            className="px-6 py-2.5 bg-cyan-600 hover:bg-cyan-700 text-white rounded-xl font-bold shadow-lg shadow-cyan-500/30 transition-all disabled:opacity-70 disabled:cursor-not-allowed flex items-center gap-2"
+          >
+            <Wrench className="w-4 h-4" /> Perbaiki Kode
+          </button>
+        </div>
+      </div>
+    </Modal>
+  );
+}
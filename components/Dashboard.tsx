@@ -1,35 +1,206 @@
-import React from 'react';
-import { Violation, Student } from '../types';
-import { AlertTriangle, Users, Clock, CheckCircle2, ArrowRight, Database } from 'lucide-react';
-import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer, Cell } from 'recharts';
+import React, { useState, useMemo } from 'react';
+import { LocationOption, Violation, Student, Term } from '../types';
+import { AlertTriangle, Users, Clock, CheckCircle2, ArrowRight, Database, Wrench, Filter, ChevronDown, CalendarRange, TrendingUp, TrendingDown, Minus } from 'lucide-react';
+import SyncBadge from './ui/SyncBadge';
+import CodeRepair from './CodeRepair';
+import ClassAnalytics from './ClassAnalytics';
+import LocationHotspots from './LocationHotspots';
+import { compareBySubmittedDesc, formatDate, nowInJakarta } from '../utils/date';
+import {
+  CATEGORY_COLORS, DATE_RANGE_LABELS, GRANULARITY_LABELS, DateRange, DateRangePreset, TrendGranularity,
+  buildTrendSeries, comparePeriods, filterByRange, getComparisonRange, getPresetRange, suggestGranularity,
+} from '../utils/trends';
+import { findDuplicateCodes, CodeRepair as CodeRepairPlan } from '../utils/violationCode';
+import { BarChart, Bar, ComposedChart, Line, Legend, CartesianGrid, XAxis, YAxis, Tooltip, ResponsiveContainer, Cell } from 'recharts';
+
+const NO_REPORTER = '(Tanpa pelapor)';
 
 interface DashboardProps {
+  // Every term; the date range below picks what is shown
   violations: Violation[];
+  // Semester picked in the header, the default range
+  term: Term;
+  // Catalog the free-text lokasi_kejadian values are grouped by
+  locations: LocationOption[];
   students: Student[];
   onViewDetail: (id: string) => void;
+  // Omitted for users who may not repair codes. Covers every loaded violation, other terms and
+  // voided rows included: a code has to be unique across all of them.
+  codeRepair?: {
+    violations: Violation[];
+    onApply: (repairs: CodeRepairPlan[]) => void;
+  };
 }
 
-export default function Dashboard({ violations, students, onViewDetail }: DashboardProps) {
-  const total = violations.length;
-  const uniqueStudents = new Set(violations.map(v => v.nis)).size;
-  const pending = violations.filter(v => v.status_tindak_lanjut === 'Menunggu Tindak Lanjut').length;
-  const completed = violations.filter(v => v.status_tindak_lanjut === 'Sudah Ditindak Lanjut').length;
+const rangeText = (range: DateRange) =>
+  `${formatDate(range.mulai, { day: 'numeric', month: 'short', year: 'numeric' })} – ${formatDate(range.selesai, { day: 'numeric', month: 'short', year: 'numeric' })}`;
+
+export default function Dashboard({ violations, term, locations, students, onViewDetail, codeRepair }: DashboardProps) {
+  const [isCodeRepairOpen, setIsCodeRepairOpen] = useState(false);
+  const [filterPelapor, setFilterPelapor] = useState('');
+  const [preset, setPreset] = useState<DateRangePreset>('semester');
+  const [customRange, setCustomRange] = useState<DateRange>(() => getPresetRange('bulan_ini', nowInJakarta().date, term));
+  // Null follows the length of the range
+  const [granularityChoice, setGranularityChoice] = useState<TrendGranularity | null>(null);
 
-  // Sort by created_at descending (newest first). 
-  // Since CSV parsing adds time based on row number, this puts the bottom rows of the sheet first.
-  const recentViolations = [...violations]
-    .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime())
+  const repairableViolations = codeRepair?.violations;
+  const duplicateCodeCount = useMemo(
+    () => (repairableViolations ? findDuplicateCodes(repairableViolations).size : 0),
+    [repairableViolations]
+  );
+
+  const range = useMemo(
+    () => (preset === 'kustom' ? customRange : getPresetRange(preset, nowInJakarta().date, term)),
+    [preset, customRange, term]
+  );
+  const comparisonRange = useMemo(() => getComparisonRange(preset, range), [preset, range]);
+  const granularity = granularityChoice || suggestGranularity(range);
+  const rangeViolations = useMemo(() => filterByRange(violations, range), [violations, range]);
+
+  // "Pelanggaran per pelapor", most active reporter first. Rows without a reporter are grouped.
+  const reporterStats = useMemo(() => {
+    const counts = new Map<string, number>();
+    rangeViolations.forEach(v => {
+      const name = (v.pelapor || '').trim() || NO_REPORTER;
+      counts.set(name, (counts.get(name) || 0) + 1);
+    });
+    return Array.from(counts.entries())
+      .map(([name, count]) => ({ name, count }))
+      .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name, 'id'));
+  }, [rangeViolations]);
+
+  // Reporter filter over all dates, so the comparison period is filtered the same way
+  const reporterViolations = useMemo(() => {
+    if (!filterPelapor) return violations;
+    return violations.filter(v => ((v.pelapor || '').trim() || NO_REPORTER) === filterPelapor);
+  }, [violations, filterPelapor]);
+
+  const filteredViolations = useMemo(() => filterByRange(reporterViolations, range), [reporterViolations, range]);
+  const comparison = useMemo(
+    () => comparePeriods(filteredViolations, filterByRange(reporterViolations, comparisonRange)),
+    [filteredViolations, reporterViolations, comparisonRange]
+  );
+  const trendData = useMemo(
+    () => buildTrendSeries(reporterViolations, range, comparisonRange, granularity),
+    [reporterViolations, range, comparisonRange, granularity]
+  );
+  const totalChange = comparison[0].perubahan;
+
+  const handlePreset = (next: DateRangePreset) => {
+    // The custom range starts from whatever was shown
+    if (next === 'kustom') setCustomRange(range);
+    setPreset(next);
+    setGranularityChoice(null);
+  };
+
+  const handleCustomDate = (field: keyof DateRange, value: string) => {
+    if (!value) return;
+    setCustomRange(prev => {
+      const next = { ...prev, [field]: value };
+      // Keep the range the right way round
+      return next.mulai <= next.selesai ? next : { mulai: value, selesai: value };
+    });
+    setGranularityChoice(null);
+  };
+
+  const total = filteredViolations.length;
+  const uniqueStudents = new Set(filteredViolations.map(v => v.nis)).size;
+  const pending = filteredViolations.filter(v => v.status_tindak_lanjut === 'Menunggu Tindak Lanjut').length;
+  const completed = filteredViolations.filter(v => v.status_tindak_lanjut === 'Sudah Ditindak Lanjut').length;
+
+  // Sort by submission time descending (newest first), sheet order breaks ties
+  const recentViolations = [...filteredViolations]
+    .sort(compareBySubmittedDesc)
     .slice(0, 5);
 
   // Chart Data: Violations by Category
   const chartData = [
-    { name: 'Ringan', count: violations.filter(v => v.kategori_pelanggaran === 'Ringan').length, color: '#10b981' },
-    { name: 'Sedang', count: violations.filter(v => v.kategori_pelanggaran === 'Sedang').length, color: '#f59e0b' },
-    { name: 'Berat', count: violations.filter(v => v.kategori_pelanggaran === 'Berat').length, color: '#ef4444' },
+    { name: 'Ringan', count: filteredViolations.filter(v => v.kategori_pelanggaran === 'Ringan').length, color: CATEGORY_COLORS.Ringan },
+    { name: 'Sedang', count: filteredViolations.filter(v => v.kategori_pelanggaran === 'Sedang').length, color: CATEGORY_COLORS.Sedang },
+    { name: 'Berat', count: filteredViolations.filter(v => v.kategori_pelanggaran === 'Berat').length, color: CATEGORY_COLORS.Berat },
   ];
 
+  const maxReporterCount = reporterStats.length > 0 ? reporterStats[0].count : 0;
+
   return (
     <div className="space-y-6">
+      {duplicateCodeCount > 0 && codeRepair && (
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 bg-amber-50 border border-amber-200 text-amber-800 p-4 rounded-2xl">
+          <p className="text-sm font-medium flex items-center gap-2">
+            <AlertTriangle className="w-5 h-5 shrink-0" />
+            Ditemukan {duplicateCodeCount} kode pelanggaran yang dipakai lebih dari satu data.
+          </p>
+          <button
+            onClick={() => setIsCodeRepairOpen(true)}
+            className="px-4 py-2 bg-amber-500 hover:bg-amber-600 text-white text-sm font-bold rounded-xl transition-colors flex items-center justify-center gap-2 shrink-0"
+          >
+            <Wrench className="w-4 h-4" /> Perbaiki
+          </button>
+        </div>
+      )}
+
+      <div className="bg-white p-4 rounded-xl shadow-sm border border-slate-100 space-y-3">
+        <div className="flex flex-col lg:flex-row lg:items-center gap-3">
+          <div className="flex items-center gap-2 text-sm font-bold text-slate-600 shrink-0">
+            <CalendarRange className="w-4 h-4 text-cyan-600" /> Periode
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {(Object.keys(DATE_RANGE_LABELS) as DateRangePreset[]).map(p => (
+              <button
+                key={p}
+                onClick={() => handlePreset(p)}
+                className={`px-3 py-1.5 rounded-lg text-sm font-medium border transition-colors ${
+                  preset === p ? 'bg-cyan-600 border-cyan-600 text-white' : 'bg-slate-50 border-slate-200 text-slate-600 hover:bg-slate-100'
+                }`}
+              >
+                {DATE_RANGE_LABELS[p]}
+              </button>
+            ))}
+          </div>
+          {preset === 'kustom' && (
+            <div className="flex items-center gap-2">
+              <input
+                type="date"
+                value={customRange.mulai}
+                onChange={(e) => handleCustomDate('mulai', e.target.value)}
+                className="px-2 py-1.5 bg-slate-50 border border-slate-200 rounded-lg text-sm focus:ring-2 focus:ring-cyan-500 outline-none"
+              />
+              <span className="text-slate-400">–</span>
+              <input
+                type="date"
+                value={customRange.selesai}
+                onChange={(e) => handleCustomDate('selesai', e.target.value)}
+                className="px-2 py-1.5 bg-slate-50 border border-slate-200 rounded-lg text-sm focus:ring-2 focus:ring-cyan-500 outline-none"
+              />
+            </div>
+          )}
+        </div>
+        <p className="text-xs text-slate-500">
+          {rangeText(range)} <span className="text-slate-400">• dibandingkan dengan {rangeText(comparisonRange)}</span>
+        </p>
+        <div className="flex flex-col md:flex-row md:items-center gap-4">
+        <div className="md:w-72 relative">
+          <select
+            value={filterPelapor}
+            onChange={(e) => setFilterPelapor(e.target.value)}
+            className="w-full pl-10 pr-10 py-2.5 bg-slate-50 border border-slate-200 rounded-lg focus:ring-2 focus:ring-cyan-500 outline-none appearance-none cursor-pointer font-medium text-slate-700"
+          >
+            <option value="">Semua Pelapor</option>
+            {reporterStats.map(r => (
+              <option key={r.name} value={r.name}>{r.name} ({r.count})</option>
+            ))}
+          </select>
+          <Filter className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400 w-4 h-4 pointer-events-none" />
+          <ChevronDown className="absolute right-3 top-1/2 -translate-y-1/2 text-slate-400 w-4 h-4 pointer-events-none" />
+        </div>
+        {filterPelapor && (
+          <button onClick={() => setFilterPelapor('')} className="text-sm font-medium text-cyan-600 hover:text-cyan-700 text-left">
+            Tampilkan semua pelapor
+          </button>
+        )}
+        </div>
+      </div>
+
       {/* Stats Grid */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-5">
         <StatCard
@@ -37,6 +208,9 @@ export default function Dashboard({ violations, students, onViewDetail }: Dashbo
           value={total}
           icon={<AlertTriangle className="w-8 h-8 text-white" />}
           gradient="from-cyan-500 to-cyan-700"
+          note={totalChange === null
+            ? `Periode sebelumnya: ${comparison[0].sebelumnya}`
+            : `${totalChange > 0 ? '+' : ''}${totalChange}% dari periode sebelumnya`}
         />
         <StatCard
           title="Siswa Terlibat"
@@ -68,7 +242,7 @@ export default function Dashboard({ violations, students, onViewDetail }: Dashbo
                 <span className="w-1.5 h-1.5 rounded-full bg-green-500 animate-pulse"></span> Live Data
               </span>
             </div>
-            <span className="text-xs font-medium text-slate-400">5 Terakhir dari Google Sheet</span>
+            <span className="text-xs font-medium text-slate-400">5 Terakhir (termasuk yang belum tersinkron)</span>
           </div>
           
           <div className="space-y-3">
@@ -92,9 +266,10 @@ export default function Dashboard({ violations, students, onViewDetail }: Dashbo
                     <div className="flex items-center gap-2 mb-1">
                       <span className="text-xs font-bold text-indigo-600 bg-indigo-50 px-2 py-0.5 rounded">{v.kode_pelanggaran}</span>
                       <h4 className="text-sm font-bold text-slate-800 truncate">{v.nama_lengkap}</h4>
+                      <SyncBadge status={v.sync_status} />
                     </div>
                     <p className="text-xs text-slate-500 truncate">
-                      <span className="font-medium text-slate-700">{v.jenis_pelanggaran}</span> • {new Date(v.created_at).toLocaleDateString('id-ID', { day: 'numeric', month: 'long', year: 'numeric' })}
+                      <span className="font-medium text-slate-700">{v.jenis_pelanggaran}</span> • {formatDate(v.tanggal_pelanggaran)}{v.jam_kejadian && `, ${v.jam_kejadian}`}
                     </p>
                   </div>
                   <div className="flex items-center gap-2 shrink-0">
@@ -145,11 +320,130 @@ export default function Dashboard({ violations, students, onViewDetail }: Dashbo
           </div>
         </div>
       </div>
+
+      {/* Trend */}
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2 bg-white rounded-2xl p-6 shadow-sm border border-slate-100">
+          <div className="flex flex-wrap items-center justify-between gap-3 mb-6">
+            <h3 className="text-lg font-bold text-slate-800">📈 Tren Pelanggaran</h3>
+            <div className="flex gap-1 bg-slate-100 p-1 rounded-lg">
+              {(Object.keys(GRANULARITY_LABELS) as TrendGranularity[]).map(g => (
+                <button
+                  key={g}
+                  onClick={() => setGranularityChoice(g)}
+                  className={`px-3 py-1 rounded-md text-xs font-bold transition-colors ${
+                    granularity === g ? 'bg-white text-cyan-700 shadow-sm' : 'text-slate-500 hover:text-slate-700'
+                  }`}
+                >
+                  {GRANULARITY_LABELS[g]}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div className="h-[280px]">
+            <ResponsiveContainer width="100%" height="100%">
+              <ComposedChart data={trendData}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e2e8f0" />
+                <XAxis dataKey="label" axisLine={false} tickLine={false} tick={{fontSize: 11, fill: '#64748b'}} minTickGap={12} />
+                <YAxis allowDecimals={false} axisLine={false} tickLine={false} tick={{fontSize: 12, fill: '#64748b'}} />
+                <Tooltip
+                  cursor={{fill: '#f1f5f9'}}
+                  contentStyle={{borderRadius: '8px', border: 'none', boxShadow: '0 4px 12px rgba(0,0,0,0.1)'}}
+                />
+                <Legend wrapperStyle={{fontSize: 12}} />
+                <Bar dataKey="Ringan" stackId="kategori" fill={CATEGORY_COLORS.Ringan} />
+                <Bar dataKey="Sedang" stackId="kategori" fill={CATEGORY_COLORS.Sedang} />
+                <Bar dataKey="Berat" stackId="kategori" fill={CATEGORY_COLORS.Berat} radius={[4, 4, 0, 0]} />
+                <Line dataKey="sebelumnya" name="Periode sebelumnya" type="monotone" stroke="#64748b" strokeDasharray="5 4" strokeWidth={2} dot={false} />
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+
+        <div className="bg-white rounded-2xl p-6 shadow-sm border border-slate-100">
+          <h3 className="text-lg font-bold text-slate-800 mb-1">⚖️ Dibanding Periode Sebelumnya</h3>
+          <p className="text-xs text-slate-400 mb-5">{rangeText(comparisonRange)}</p>
+          <div className="space-y-3">
+            {comparison.map(c => (
+              <div key={c.kategori} className={`flex items-center justify-between p-3 rounded-xl ${c.kategori === 'Total' ? 'bg-slate-50' : ''}`}>
+                <div className="flex items-center gap-2">
+                  {c.kategori !== 'Total' && <div className="w-3 h-3 rounded-full" style={{backgroundColor: CATEGORY_COLORS[c.kategori]}} />}
+                  <span className={`text-sm ${c.kategori === 'Total' ? 'font-bold text-slate-800' : 'font-medium text-slate-600'}`}>{c.kategori}</span>
+                </div>
+                <div className="flex items-center gap-3">
+                  <span className="text-sm text-slate-400">{c.sebelumnya} <ArrowRight className="w-3 h-3 inline" /></span>
+                  <span className="text-sm font-bold text-slate-800 w-8 text-right">{c.sekarang}</span>
+                  <ChangeBadge sekarang={c.sekarang} sebelumnya={c.sebelumnya} perubahan={c.perubahan} />
+                </div>
+              </div>
+            ))}
+          </div>
+          <p className="text-xs text-slate-400 mt-5">Turun berarti lebih sedikit pelanggaran dibanding periode sebelumnya.</p>
+        </div>
+      </div>
+
+      {/* Classes */}
+      <ClassAnalytics violations={filteredViolations} students={students} onViewDetail={onViewDetail} />
+
+      {/* Locations */}
+      <LocationHotspots violations={filteredViolations} locations={locations} />
+
+      {/* Reporter statistics */}
+      <div className="bg-white rounded-2xl p-6 shadow-sm border border-slate-100">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-bold text-slate-800">👩‍🏫 Pelanggaran per Pelapor</h3>
+          <span className="text-xs font-medium text-slate-400">Klik nama untuk memfilter</span>
+        </div>
+        {reporterStats.length === 0 ? (
+          <p className="text-center py-6 text-slate-400 text-sm">Belum ada data pelapor</p>
+        ) : (
+          <div className="space-y-2 max-h-[320px] overflow-y-auto pr-1">
+            {reporterStats.map(r => (
+              <button
+                key={r.name}
+                onClick={() => setFilterPelapor(filterPelapor === r.name ? '' : r.name)}
+                className={`w-full flex items-center gap-3 p-2 rounded-lg text-left transition-colors ${
+                  filterPelapor === r.name ? 'bg-cyan-50 ring-1 ring-cyan-200' : 'hover:bg-slate-50'
+                }`}
+              >
+                <span className={`w-40 shrink-0 truncate text-sm font-medium ${r.name === NO_REPORTER ? 'text-slate-400 italic' : 'text-slate-700'}`}>{r.name}</span>
+                <div className="flex-1 h-2.5 bg-slate-100 rounded-full overflow-hidden">
+                  <div className="h-full bg-cyan-500 rounded-full" style={{ width: `${(r.count / maxReporterCount) * 100}%` }} />
+                </div>
+                <span className="w-10 text-right text-sm font-bold text-slate-800">{r.count}</span>
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {codeRepair && (
+        <CodeRepair
+          isOpen={isCodeRepairOpen}
+          onClose={() => setIsCodeRepairOpen(false)}
+          violations={codeRepair.violations}
+          onApply={codeRepair.onApply}
+        />
+      )}
     </div>
   );
 }
 
-function StatCard({ title, value, icon, gradient }: { title: string, value: number, icon: React.ReactNode, gradient: string }) {
+// Fewer violations is the good direction
+function ChangeBadge({ sekarang, sebelumnya, perubahan }: { sekarang: number, sebelumnya: number, perubahan: number | null }) {
+  if (sekarang === sebelumnya) {
+    return <span className="w-16 flex items-center justify-end gap-1 text-xs font-bold text-slate-400"><Minus className="w-3 h-3" /> 0%</span>;
+  }
+  const up = sekarang > sebelumnya;
+  return (
+    <span className={`w-16 flex items-center justify-end gap-1 text-xs font-bold ${up ? 'text-rose-600' : 'text-emerald-600'}`}>
+      {up ? <TrendingUp className="w-3 h-3" /> : <TrendingDown className="w-3 h-3" />}
+      {perubahan === null ? 'baru' : `${Math.abs(perubahan)}%`}
+    </span>
+  );
+}
+
+function StatCard({ title, value, icon, gradient, note }: { title: string, value: number, icon: React.ReactNode, gradient: string, note?: string }) {
   return (
     <div className={`relative overflow-hidden rounded-2xl p-6 bg-gradient-to-br ${gradient} shadow-lg`}>
       <div className="absolute top-0 right-0 -mr-4 -mt-4 w-24 h-24 bg-white/20 rounded-full blur-2xl"></div>
@@ -157,6 +451,7 @@ function StatCard({ title, value, icon, gradient }: { title: string, value: numb
         <div>
           <p className="text-white/90 text-sm font-medium mb-1">{title}</p>
           <h3 className="text-4xl font-extrabold text-white">{value}</h3>
+          {note && <p className="text-white/80 text-xs font-medium mt-1">{note}</p>}
         </div>
         <div className="p-3 bg-white/20 backdrop-blur-sm rounded-xl shadow-inner">
           {icon}
@@ -0,0 +1,120 @@
+import React, { useState, useMemo } from 'react';
+import { ImportWarning } from '../types';
+import { WARNING_LABELS } from '../utils/dataQuality';
+import { Filter, ChevronDown, CheckCircle2, FileWarning } from 'lucide-react';
+
+interface DataQualityProps {
+  warnings: ImportWarning[];
+}
+
+export default function DataQuality({ warnings }: DataQualityProps) {
+  const [filterSheet, setFilterSheet] = useState('');
+  const [filterCode, setFilterCode] = useState('');
+
+  const codeCounts = useMemo(() => {
+    const counts = new Map<ImportWarning['code'], number>();
+    warnings.forEach(w => counts.set(w.code, (counts.get(w.code) || 0) + 1));
+    return Array.from(counts.entries()).sort((a, b) => b[1] - a[1]);
+  }, [warnings]);
+
+  const filteredWarnings = useMemo(() => {
+    return warnings
+      .filter(w => !filterSheet || w.sheet === filterSheet)
+      .filter(w => !filterCode || w.code === filterCode)
+      .sort((a, b) => a.sheet.localeCompare(b.sheet) || a.row - b.row);
+  }, [warnings, filterSheet, filterCode]);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between bg-white p-5 rounded-2xl shadow-sm border border-slate-100">
+        <div>
+          <h2 className="text-2xl font-bold text-slate-800 flex items-center gap-2">
+            <FileWarning className="w-7 h-7 text-amber-500" />
+            Kualitas Data
+          </h2>
+          <p className="text-slate-500 text-sm mt-1">Baris di Google Sheet yang perlu diperbaiki. Nomor baris sesuai tampilan sheet.</p>
+        </div>
+        <div className="bg-amber-100 text-amber-800 px-5 py-3 rounded-xl font-bold flex flex-col items-center border border-amber-200">
+          <span className="text-2xl leading-none">{warnings.length}</span>
+          <span className="text-[10px] uppercase tracking-wider">Masalah</span>
+        </div>
+      </div>
+
+      {warnings.length === 0 ? (
+        <div className="flex flex-col items-center justify-center py-20 bg-white rounded-2xl border border-dashed border-slate-200 text-center">
+          <div className="w-20 h-20 bg-emerald-100 rounded-full flex items-center justify-center mb-4">
+            <CheckCircle2 className="w-10 h-10 text-emerald-600" />
+          </div>
+          <h3 className="text-xl font-bold text-slate-700">Data Bersih!</h3>
+          <p className="text-slate-500 mt-2 max-w-md">Tidak ada masalah yang ditemukan pada sheet siswa maupun pelanggaran.</p>
+        </div>
+      ) : (
+        <>
+          <div className="flex flex-wrap gap-2">
+            {codeCounts.map(([code, count]) => (
+              <button
+                key={code}
+                onClick={() => setFilterCode(filterCode === code ? '' : code)}
+                className={`px-3 py-1.5 rounded-full text-xs font-bold border transition-colors ${
+                  filterCode === code
+                    ? 'bg-amber-500 text-white border-amber-500'
+                    : 'bg-white text-slate-600 border-slate-200 hover:border-amber-300'
+                }`}
+              >
+                {WARNING_LABELS[code]} ({count})
+              </button>
+            ))}
+          </div>
+
+          <div className="bg-white p-4 rounded-xl shadow-sm border border-slate-100 flex flex-col md:flex-row gap-4">
+            <div className="md:w-56 relative">
+              <select
+                value={filterSheet}
+                onChange={(e) => setFilterSheet(e.target.value)}
+                className="w-full pl-10 pr-10 py-2.5 bg-slate-50 border border-slate-200 rounded-lg focus:ring-2 focus:ring-cyan-500 outline-none appearance-none cursor-pointer font-medium text-slate-700"
+              >
+                <option value="">Semua Sheet</option>
+                <option value="Siswa">Sheet Siswa</option>
+                <option value="Pelanggaran">Sheet Pelanggaran</option>
+              </select>
+              <Filter className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400 w-4 h-4 pointer-events-none" />
+              <ChevronDown className="absolute right-3 top-1/2 -translate-y-1/2 text-slate-400 w-4 h-4 pointer-events-none" />
+            </div>
+            <div className="flex items-center text-sm text-slate-500">
+              Menampilkan {filteredWarnings.length} dari {warnings.length} masalah
+            </div>
+          </div>
+
+          <div className="bg-white rounded-2xl shadow-sm border border-slate-100 overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-[10px] uppercase tracking-wider text-slate-400 border-b border-slate-100">
+                  <th className="px-4 py-3">Sheet</th>
+                  <th className="px-4 py-3">Baris</th>
+                  <th className="px-4 py-3">Masalah</th>
+                  <th className="px-4 py-3">Kolom</th>
+                  <th className="px-4 py-3">Nilai</th>
+                  <th className="px-4 py-3">Keterangan</th>
+                </tr>
+              </thead>
+              <tbody>
+                {filteredWarnings.map((w, index) => (
+                  <tr key={`${w.sheet}-${w.row}-${w.code}-${index}`} className="border-b border-slate-50 hover:bg-slate-50">
+                    <td className="px-4 py-3 font-medium text-slate-600">{w.sheet}</td>
+                    <td className="px-4 py-3 font-mono font-bold text-slate-800">{w.row}</td>
+                    <td className="px-4 py-3">
+                      <span className="px-2 py-0.5 rounded bg-amber-50 text-amber-700 text-xs font-bold whitespace-nowrap">{WARNING_LABELS[w.code]}</span>
+                    </td>
+                    <td className="px-4 py-3 text-slate-500 font-mono text-xs">{w.field || '-'}</td>
+                    <td className="px-4 py-3 text-slate-700 max-w-[160px] truncate" title={w.value}>{w.value || <span className="text-slate-300">(kosong)</span>}</td>
+                    <td className="px-4 py-3 text-slate-600">{w.message}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,85 +1,203 @@
 import React, { useState, useMemo } from 'react';
-import { Violation } from '../types';
+import { AttachmentRecord, Violation, SanctionRecord, CaseRecord, CaseWorkflow, ContactLogEntry, FollowUpEntry, FollowUpActionType, FOLLOW_UP_ACTIONS, IssuedLetter, Letterhead, MessageTemplate } from '../types';
 import Modal from './ui/Modal';
+import SyncBadge from './ui/SyncBadge';
+import FollowUpTimeline from './FollowUpTimeline';
+import ParentContactModal from './ParentContactModal';
+import LetterModal from './LetterModal';
+import AttachmentGallery from './AttachmentGallery';
+import { addDays, compareByIncidentDesc, formatDate, nowInJakarta } from '../utils/date';
+import { CaseState, getCaseStates, getNextStages, getStage, groupFollowUps } from '../utils/caseWorkflow';
+import { createRecordId } from '../utils/records';
+import { groupAttachments } from '../utils/attachments';
 import toast from 'react-hot-toast';
-import { CheckCircle2, Clock, MapPin, ListTodo, Send } from 'lucide-react';
+import { CheckCircle2, Clock, MapPin, ListTodo, Send, ShieldAlert, AlertTriangle, UserCheck, CalendarClock, MessageSquarePlus, Phone, FileText } from 'lucide-react';
 
 interface FollowUpProps {
   violations: Violation[];
   onUpdateViolation: (v: Violation) => void;
+  // Case workflow: stage, assignee and due date of each violation
+  workflow: CaseWorkflow;
+  cases: CaseRecord[];
+  onSaveCase: (record: CaseRecord) => void;
+  teacherNames: string[];
+  // Timeline of follow-up sessions; a case can have several
+  followUps: FollowUpEntry[];
+  onAddFollowUp: (entry: FollowUpEntry) => void;
+  // Parent contact via WhatsApp/SMS, each attempt logged
+  messageTemplates: MessageTemplate[];
+  contactLogs: ContactLogEntry[];
+  onLogContact: (entry: ContactLogEntry) => void;
+  // Official letters (surat panggilan, SP, surat pernyataan)
+  letters: IssuedLetter[];
+  letterhead: Letterhead;
+  onIssueLetter: (letter: IssuedLetter) => void;
+  // Evidence files; empty for roles that may not view them
+  attachments: AttachmentRecord[];
+  onLoadAttachment: (id: string) => Promise<string>;
+  // Sanction ladder tasks created when a student reached a new level
+  sanctions: SanctionRecord[];
+  onSaveSanction: (record: SanctionRecord) => void;
+  currentUserName: string;
 }
 
-const GOOGLE_SCRIPT_URL = "https://script.google.com/macros/s/AKfycbx5RJHID-0QupEh0q3nT3-leg45UEntgvtmqAyLm8PnAN5-kbdYcnoixsILQTWbCLDy/exec";
-
-export default function FollowUp({ violations, onUpdateViolation }: FollowUpProps) {
-  const [selectedViolation, setSelectedViolation] = useState<Violation | null>(null);
+export default function FollowUp({ violations, onUpdateViolation, workflow, cases, onSaveCase, teacherNames, followUps, onAddFollowUp, messageTemplates, contactLogs, onLogContact, letters, letterhead, onIssueLetter, attachments, onLoadAttachment, sanctions, onSaveSanction, currentUserName }: FollowUpProps) {
+  const [selectedCase, setSelectedCase] = useState<CaseState | null>(null);
+  const [nextStageId, setNextStageId] = useState('');
+  const [assignee, setAssignee] = useState('');
+  const [dueDate, setDueDate] = useState('');
   const [resultText, setResultText] = useState('');
-  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [sessionViolation, setSessionViolation] = useState<Violation | null>(null);
+  const [contactViolation, setContactViolation] = useState<Violation | null>(null);
+  const [letterViolation, setLetterViolation] = useState<Violation | null>(null);
+  const [sessionDate, setSessionDate] = useState('');
+  const [sessionCounselor, setSessionCounselor] = useState('');
+  const [sessionAction, setSessionAction] = useState<FollowUpActionType>('Konseling');
+  const [sessionNote, setSessionNote] = useState('');
+  const [sessionOutcome, setSessionOutcome] = useState('');
+  const [selectedSanction, setSelectedSanction] = useState<SanctionRecord | null>(null);
+  const [sanctionDate, setSanctionDate] = useState('');
+  const [sanctionNote, setSanctionNote] = useState('');
+
+  const pendingSanctions = useMemo(() => {
+    return sanctions
+      .filter(r => r.status === 'menunggu')
+      .sort((a, b) => b.poin_minimal - a.poin_minimal || a.dibuat_pada.localeCompare(b.dibuat_pada));
+  }, [sanctions]);
+
+  const openSanction = (record: SanctionRecord) => {
+    setSelectedSanction(record);
+    setSanctionDate(nowInJakarta().date);
+    setSanctionNote('');
+  };
+
+  const handleIssueSanction = () => {
+    if (!selectedSanction) return;
+    onSaveSanction({
+      ...selectedSanction,
+      status: 'diberikan',
+      diberikan_pada: sanctionDate,
+      diberikan_oleh: currentUserName,
+      catatan: sanctionNote.trim(),
+    });
+    toast.success(`${selectedSanction.level_label} untuk ${selectedSanction.nama_lengkap} dicatat.`);
+    setSelectedSanction(null);
+  };
   
-  // Strict filtering for "Menunggu Tindak Lanjut"
-  // Using trim() to handle potential whitespace issues from CSV
-  const pendingViolations = useMemo(() => {
-    return violations.filter(v => {
-      const status = (v.status_tindak_lanjut || '').trim();
-      return status === 'Menunggu Tindak Lanjut';
-    }).sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime());
-  }, [violations]);
-
-  const handleSave = async () => {
-    if (!selectedViolation) return;
-    if (!resultText.trim()) {
+  const today = nowInJakarta().date;
+
+  // Open cases grouped by stage in workflow order; overdue cases first within a stage
+  const openCases = useMemo(() => {
+    return getCaseStates(workflow, violations, cases, today)
+      .filter(c => !c.stage.selesai)
+      .sort((a, b) => Number(b.overdue) - Number(a.overdue) || compareByIncidentDesc(a.violation, b.violation));
+  }, [workflow, violations, cases, today]);
+
+  const stageGroups = useMemo(() => {
+    return workflow.stages
+      .filter(stage => !stage.selesai)
+      .map(stage => ({ stage, items: openCases.filter(c => c.stage.id === stage.id) }))
+      .filter(group => group.items.length > 0);
+  }, [workflow, openCases]);
+
+  const followUpsByCode = useMemo(() => groupFollowUps(followUps), [followUps]);
+  const attachmentsByCode = useMemo(() => groupAttachments(attachments), [attachments]);
+  const contactCountByCode = useMemo(() => {
+    const counts = new Map<string, number>();
+    contactLogs.forEach(log => counts.set(log.kode_pelanggaran, (counts.get(log.kode_pelanggaran) || 0) + 1));
+    return counts;
+  }, [contactLogs]);
+  const selectedContactLogs = contactViolation
+    ? contactLogs
+        .filter(log => log.kode_pelanggaran === contactViolation.kode_pelanggaran)
+        .sort((a, b) => b.dihubungi_pada.localeCompare(a.dihubungi_pada))
+    : [];
+
+  const overdueCount = openCases.filter(c => c.overdue).length;
+  const nextStage = selectedCase ? getStage(workflow, nextStageId) : undefined;
+  const selectedStageOptions = selectedCase ? getNextStages(workflow, selectedCase.stage) : [];
+
+  const selectNextStage = (stageId: string) => {
+    setNextStageId(stageId);
+    const stage = getStage(workflow, stageId);
+    setDueDate(stage?.batas_hari ? addDays(today, stage.batas_hari) : '');
+  };
+
+  const openCase = (item: CaseState) => {
+    setSelectedCase(item);
+    setAssignee(item.record?.penanggung_jawab || currentUserName);
+    setResultText('');
+    const first = getNextStages(workflow, item.stage)[0];
+    setNextStageId(first?.id || '');
+    setDueDate(first?.batas_hari ? addDays(today, first.batas_hari) : '');
+  };
+
+  const handleSave = () => {
+    if (!selectedCase || !nextStage) return;
+    if (nextStage.selesai && resultText.trim().length < 5) {
       toast.error("Isi hasil tindak lanjut");
       return;
     }
+    const v = selectedCase.violation;
 
-    setIsSubmitting(true);
-    const loadingToast = toast.loading("Mengirim data ke Google Sheet...");
-
-    const payload = {
-      action: "update_tindak_lanjut",
-      kode_pelanggaran: selectedViolation.kode_pelanggaran,
-      status_tindak_lanjut: "Sudah Ditindak Lanjut",
-      hasil_tindak_lanjut: resultText
-    };
-
-    try {
-      await fetch(GOOGLE_SCRIPT_URL, {
-        method: "POST",
-        mode: "no-cors", // Standard for Google Apps Script Web App without proxy
-        headers: { "Content-Type": "text/plain" },
-        body: JSON.stringify(payload)
+    // Queued in the outbox; the badge on the record shows when the server has it
+    onSaveCase({
+      id: v.kode_pelanggaran,
+      kode_pelanggaran: v.kode_pelanggaran,
+      nis: v.nis,
+      tahap: nextStage.id,
+      penanggung_jawab: assignee.trim(),
+      tenggat: nextStage.selesai ? '' : dueDate,
+      catatan: resultText.trim(),
+      diperbarui_pada: new Date().toISOString(),
+      diperbarui_oleh: currentUserName,
+    });
+    if (nextStage.selesai) {
+      onUpdateViolation({
+        ...v,
+        status_tindak_lanjut: 'Sudah Ditindak Lanjut',
+        hasil_tindak_lanjut: resultText.trim(),
       });
+    }
+    toast.success(`Kasus ${v.nama_lengkap} dipindah ke "${nextStage.label}".`);
+    setSelectedCase(null);
+  };
+
+  const openSession = (v: Violation) => {
+    setSessionViolation(v);
+    setSessionDate(today);
+    setSessionCounselor(currentUserName);
+    setSessionAction('Konseling');
+    setSessionNote('');
+    setSessionOutcome('');
+  };
 
-      const updated = {
-        ...selectedViolation,
-        status_tindak_lanjut: 'Sudah Ditindak Lanjut' as const,
-        hasil_tindak_lanjut: resultText
-      };
-
-      onUpdateViolation(updated);
-      toast.success("Data berhasil dikirim & diperbarui!", { id: loadingToast });
-      setSelectedViolation(null);
-      setResultText('');
-    } catch (error) {
-       console.error(error);
-       toast.error("Gagal koneksi ke Google Sheet (Disimpan Lokal)", { id: loadingToast });
-       
-       // Still update locally in case of network error so user can continue working
-       const updated = {
-        ...selectedViolation,
-        status_tindak_lanjut: 'Sudah Ditindak Lanjut' as const,
-        hasil_tindak_lanjut: resultText
-      };
-      onUpdateViolation(updated);
-      setSelectedViolation(null);
-      setResultText('');
-    } finally {
-       setIsSubmitting(false);
+  const handleAddSession = () => {
+    if (!sessionViolation) return;
+    if (!sessionDate || !sessionCounselor.trim() || sessionNote.trim().length < 5) {
+      toast.error("Lengkapi tanggal, konselor dan catatan sesi");
+      return;
     }
+    onAddFollowUp({
+      id: createRecordId('TL'),
+      kode_pelanggaran: sessionViolation.kode_pelanggaran,
+      nis: sessionViolation.nis,
+      tanggal: sessionDate,
+      konselor: sessionCounselor.trim(),
+      jenis_tindakan: sessionAction,
+      catatan: sessionNote.trim(),
+      hasil: sessionOutcome.trim(),
+      dibuat_pada: new Date().toISOString(),
+    });
+    toast.success("Sesi tindak lanjut dicatat.");
+    setSessionViolation(null);
   };
 
   return (
     <div className="space-y-6">
+      <datalist id="followup-teachers">
+        {teacherNames.map(name => <option key={name} value={name} />)}
+      </datalist>
       <div className="flex items-center justify-between bg-white p-5 rounded-2xl shadow-sm border border-slate-100">
         <div>
           <h2 className="text-2xl font-bold text-slate-800 flex items-center gap-2">
@@ -88,13 +206,58 @@ export default function FollowUp({ violations, onUpdateViolation }: FollowUpProp
           </h2>
           <p className="text-slate-500 text-sm mt-1">Daftar siswa yang menunggu proses bimbingan/konseling.</p>
         </div>
-        <div className="bg-orange-100 text-orange-800 px-5 py-3 rounded-xl font-bold flex flex-col items-center border border-orange-200">
-          <span className="text-2xl leading-none">{pendingViolations.length}</span>
-          <span className="text-[10px] uppercase tracking-wider">Menunggu</span>
+        <div className="flex gap-3">
+          {pendingSanctions.length > 0 && (
+            <div className="bg-rose-100 text-rose-800 px-5 py-3 rounded-xl font-bold flex flex-col items-center border border-rose-200">
+              <span className="text-2xl leading-none">{pendingSanctions.length}</span>
+              <span className="text-[10px] uppercase tracking-wider">Sanksi</span>
+            </div>
+          )}
+          {overdueCount > 0 && (
+            <div className="bg-red-100 text-red-800 px-5 py-3 rounded-xl font-bold flex flex-col items-center border border-red-200">
+              <span className="text-2xl leading-none">{overdueCount}</span>
+              <span className="text-[10px] uppercase tracking-wider">Terlambat</span>
+            </div>
+          )}
+          <div className="bg-orange-100 text-orange-800 px-5 py-3 rounded-xl font-bold flex flex-col items-center border border-orange-200">
+            <span className="text-2xl leading-none">{openCases.length}</span>
+            <span className="text-[10px] uppercase tracking-wider">Menunggu</span>
+          </div>
         </div>
       </div>
 
-      {pendingViolations.length === 0 ? (
+      {pendingSanctions.length > 0 && (
+        <div className="space-y-3">
+          <h3 className="font-bold text-slate-700 flex items-center gap-2 text-sm uppercase tracking-wider">
+            <ShieldAlert className="w-4 h-4 text-rose-500" /> Sanksi Perlu Diberikan
+          </h3>
+          {pendingSanctions.map(r => (
+            <div key={r.id} className="bg-white rounded-xl p-4 shadow-sm border border-rose-100 flex flex-col md:flex-row md:items-center gap-4 relative overflow-hidden">
+              <div className="absolute left-0 top-0 bottom-0 w-1.5 bg-rose-500"></div>
+              <div className="flex-1 pl-2">
+                <div className="flex items-center gap-2 mb-1 flex-wrap">
+                  <span className="px-2 py-0.5 bg-rose-100 text-rose-700 text-xs font-black rounded">{r.level_label}</span>
+                  <h4 className="font-bold text-slate-800">{r.nama_lengkap}</h4>
+                  <span className="text-sm text-slate-500">{r.kelas} • {r.nis}</span>
+                  <SyncBadge status={r.sync_status} />
+                </div>
+                <p className="text-sm text-slate-600">{r.tindakan}</p>
+                <p className="text-xs text-slate-400 mt-1">
+                  Mencapai {r.poin_saat_tercapai} poin (batas {r.poin_minimal}) • {formatDate(r.dibuat_pada)}
+                </p>
+              </div>
+              <button
+                onClick={() => openSanction(r)}
+                className="px-4 py-2.5 bg-rose-600 hover:bg-rose-700 text-white text-sm font-bold rounded-xl transition-colors flex items-center justify-center gap-2 shrink-0"
+              >
+                <CheckCircle2 className="w-4 h-4" /> Tandai Diberikan
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {openCases.length === 0 && pendingSanctions.length === 0 ? (
         <div className="flex flex-col items-center justify-center py-20 bg-white rounded-2xl border border-dashed border-slate-200 text-center">
           <div className="w-20 h-20 bg-emerald-100 rounded-full flex items-center justify-center mb-4 animate-bounce">
              <CheckCircle2 className="w-10 h-10 text-emerald-600" />
@@ -102,19 +265,33 @@ export default function FollowUp({ violations, onUpdateViolation }: FollowUpProp
           <h3 className="text-xl font-bold text-slate-700">Semua Beres!</h3>
           <p className="text-slate-500 mt-2 max-w-md">Tidak ada pelanggaran yang menunggu tindak lanjut saat ini.</p>
         </div>
-      ) : (
-        <div className="grid gap-4">
-          {pendingViolations.map(v => (
-            <div key={v.id} className="bg-white rounded-xl p-5 shadow-sm border border-slate-100 hover:shadow-md transition-all hover:-translate-y-0.5 flex flex-col md:flex-row gap-6 relative overflow-hidden group">
-              <div className="absolute left-0 top-0 bottom-0 w-1.5 bg-orange-400 group-hover:bg-orange-500 transition-colors"></div>
+      ) : stageGroups.map(({ stage, items }) => (
+        <div key={stage.id} className="space-y-3">
+          <h3 className="font-bold text-slate-700 flex items-center gap-2 text-sm uppercase tracking-wider">
+            <Clock className="w-4 h-4 text-orange-500" /> {stage.label}
+            <span className="px-2 py-0.5 bg-slate-100 text-slate-500 rounded-full text-[10px]">{items.length}</span>
+          </h3>
+          <div className="grid gap-4">
+          {items.map(item => {
+            const { violation: v, record, tenggat, overdue } = item;
+            return (
+            <div key={v.id} className={`bg-white rounded-xl p-5 shadow-sm border hover:shadow-md transition-all hover:-translate-y-0.5 flex flex-col md:flex-row gap-6 relative overflow-hidden group ${
+              overdue ? 'border-red-200' : 'border-slate-100'
+            }`}>
+              <div className={`absolute left-0 top-0 bottom-0 w-1.5 transition-colors ${
+                overdue ? 'bg-red-500' : 'bg-orange-400 group-hover:bg-orange-500'
+              }`}></div>
               
               <div className="flex-1">
                 <div className="flex items-center gap-3 mb-3">
                   <span className="px-2 py-1 bg-slate-100 text-slate-600 text-xs font-bold rounded font-mono">{v.kode_pelanggaran}</span>
-                  <span className="flex items-center gap-1 text-xs text-orange-600 font-medium bg-orange-50 px-2 py-0.5 rounded-full border border-orange-100">
-                    <Clock className="w-3 h-3" /> Menunggu Penanganan
-                  </span>
-                  <span className="text-xs text-slate-400 ml-auto md:ml-0">{new Date(v.created_at).toLocaleDateString('id-ID', { day: 'numeric', month: 'long', year: 'numeric' })}</span>
+                  {overdue && (
+                    <span className="flex items-center gap-1 text-xs text-red-700 font-bold bg-red-50 px-2 py-0.5 rounded-full border border-red-200">
+                      <AlertTriangle className="w-3 h-3" /> Terlambat
+                    </span>
+                  )}
+                  <SyncBadge status={v.sync_status} />
+                  <span className="text-xs text-slate-400 ml-auto md:ml-0">{formatDate(v.tanggal_pelanggaran)}{v.jam_kejadian && `, ${v.jam_kejadian}`}</span>
                 </div>
                 
                 <div className="flex items-start gap-4 mb-3">
@@ -139,6 +316,37 @@ export default function FollowUp({ violations, onUpdateViolation }: FollowUpProp
                     </p>
                   </div>
                 </div>
+
+                {attachmentsByCode.has(v.kode_pelanggaran) && (
+                  <div className="mt-3">
+                    <AttachmentGallery attachments={attachmentsByCode.get(v.kode_pelanggaran) || []} onLoadAttachment={onLoadAttachment} />
+                  </div>
+                )}
+
+                {followUpsByCode.has(v.kode_pelanggaran) && (
+                  <div className="mt-3 bg-white p-3 rounded-lg border border-slate-100">
+                    <FollowUpTimeline entries={followUpsByCode.get(v.kode_pelanggaran) || []} />
+                  </div>
+                )}
+
+                {(record || tenggat || contactCountByCode.has(v.kode_pelanggaran)) && (
+                  <div className="flex flex-wrap gap-x-4 gap-y-1 mt-3 text-xs text-slate-500">
+                    {record?.penanggung_jawab && (
+                      <span className="flex items-center gap-1"><UserCheck className="w-3 h-3" /> {record.penanggung_jawab}</span>
+                    )}
+                    {tenggat && (
+                      <span className={`flex items-center gap-1 ${overdue ? 'text-red-600 font-bold' : ''}`}>
+                        <CalendarClock className="w-3 h-3" /> Tenggat {formatDate(tenggat)}
+                      </span>
+                    )}
+                    {contactCountByCode.has(v.kode_pelanggaran) && (
+                      <span className="flex items-center gap-1">
+                        <Phone className="w-3 h-3" /> Orang tua dihubungi {contactCountByCode.get(v.kode_pelanggaran)}x
+                      </span>
+                    )}
+                    {record?.catatan && <span className="italic">"{record.catatan}"</span>}
+                  </div>
+                )}
               </div>
 
               <div className="flex flex-col justify-between gap-4 min-w-[160px] border-t md:border-t-0 md:border-l pt-4 md:pt-0 md:pl-6 border-slate-100">
@@ -153,24 +361,47 @@ export default function FollowUp({ violations, onUpdateViolation }: FollowUpProp
                   <span className="text-sm font-bold text-slate-600">{v.poin_pelanggaran} Poin</span>
                 </div>
                 
-                <button 
-                  onClick={() => {
-                    setSelectedViolation(v);
-                    setResultText('');
-                  }}
-                  className="w-full px-4 py-3 bg-cyan-600 hover:bg-cyan-700 text-white text-sm font-bold rounded-xl transition-colors flex items-center justify-center gap-2 shadow-lg shadow-cyan-500/20"
-                >
-                  <CheckCircle2 className="w-4 h-4" /> Proses Tindak Lanjut
-                </button>
+                <div className="space-y-2">
+                  <div className="grid grid-cols-2 gap-2">
+                    <button
+                      onClick={() => setContactViolation(v)}
+                      className="px-3 py-2.5 text-emerald-700 bg-emerald-50 hover:bg-emerald-100 text-xs font-bold rounded-xl transition-colors flex items-center justify-center gap-1.5"
+                      title="Hubungi Orang Tua"
+                    >
+                      <Phone className="w-4 h-4" /> Orang Tua
+                    </button>
+                    <button
+                      onClick={() => setLetterViolation(v)}
+                      className="px-3 py-2.5 text-indigo-700 bg-indigo-50 hover:bg-indigo-100 text-xs font-bold rounded-xl transition-colors flex items-center justify-center gap-1.5"
+                      title="Buat Surat"
+                    >
+                      <FileText className="w-4 h-4" /> Surat
+                    </button>
+                  </div>
+                  <button
+                    onClick={() => openSession(v)}
+                    className="w-full px-4 py-2.5 text-cyan-700 bg-cyan-50 hover:bg-cyan-100 text-sm font-bold rounded-xl transition-colors flex items-center justify-center gap-2"
+                  >
+                    <MessageSquarePlus className="w-4 h-4" /> Catat Sesi
+                  </button>
+                  <button 
+                    onClick={() => openCase(item)}
+                    className="w-full px-4 py-3 bg-cyan-600 hover:bg-cyan-700 text-white text-sm font-bold rounded-xl transition-colors flex items-center justify-center gap-2 shadow-lg shadow-cyan-500/20"
+                  >
+                    <CheckCircle2 className="w-4 h-4" /> Proses Tindak Lanjut
+                  </button>
+                </div>
               </div>
             </div>
-          ))}
+            );
+          })}
+          </div>
         </div>
-      )}
+      ))}
 
       <Modal 
-        isOpen={!!selectedViolation} 
-        onClose={() => !isSubmitting && setSelectedViolation(null)}
+        isOpen={!!selectedCase} 
+        onClose={() => setSelectedCase(null)}
         title="📝 Form Tindak Lanjut"
       >
         <div className="space-y-5">
@@ -179,52 +410,250 @@ export default function FollowUp({ violations, onUpdateViolation }: FollowUpProp
               <ListTodo className="w-5 h-5" />
             </div>
             <div>
-              <h4 className="font-bold text-indigo-900 mb-1">{selectedViolation?.nama_lengkap}</h4>
-              <p className="text-indigo-700 mb-1">{selectedViolation?.jenis_pelanggaran}</p>
-              <p className="text-indigo-500 text-xs">{selectedViolation?.deskripsi}</p>
-              {selectedViolation?.pelapor && (
-                <p className="text-indigo-500 text-xs mt-1 font-medium">Pelapor: {selectedViolation.pelapor}</p>
+              <h4 className="font-bold text-indigo-900 mb-1">{selectedCase?.violation.nama_lengkap}</h4>
+              <p className="text-indigo-700 mb-1">{selectedCase?.violation.jenis_pelanggaran}</p>
+              <p className="text-indigo-500 text-xs">{selectedCase?.violation.deskripsi}</p>
+              {selectedCase?.violation.pelapor && (
+                <p className="text-indigo-500 text-xs mt-1 font-medium">Pelapor: {selectedCase.violation.pelapor}</p>
               )}
+              <p className="text-indigo-500 text-xs mt-1 font-medium">Tahap saat ini: {selectedCase?.stage.label}</p>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-bold text-slate-700 mb-2">Pindahkan ke Tahap</label>
+            <div className="flex flex-wrap gap-2">
+              {selectedStageOptions.map(stage => (
+                <button
+                  key={stage.id}
+                  type="button"
+                  onClick={() => selectNextStage(stage.id)}
+                  className={`px-3 py-2 rounded-lg text-sm font-medium border transition-colors ${
+                    nextStageId === stage.id
+                      ? 'bg-cyan-600 text-white border-cyan-600'
+                      : 'bg-white text-slate-600 border-slate-300 hover:bg-slate-50'
+                  }`}
+                >
+                  {stage.label}
+                </button>
+              ))}
             </div>
           </div>
 
+          {nextStage && !nextStage.selesai && (
+            <div className="grid md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-bold text-slate-700 mb-2">Penanggung Jawab</label>
+                <input
+                  list="followup-teachers"
+                  className="w-full p-3 bg-white text-slate-900 border border-slate-300 rounded-xl focus:ring-2 focus:ring-cyan-500 outline-none"
+                  value={assignee}
+                  onChange={(e) => setAssignee(e.target.value)}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-bold text-slate-700 mb-2">Tenggat</label>
+                <input
+                  type="date"
+                  className="w-full p-3 bg-white text-slate-900 border border-slate-300 rounded-xl focus:ring-2 focus:ring-cyan-500 outline-none"
+                  value={dueDate}
+                  onChange={(e) => setDueDate(e.target.value)}
+                />
+              </div>
+            </div>
+          )}
+
           <div>
-            <label className="block text-sm font-bold text-slate-700 mb-2">Hasil & Dokumentasi Tindak Lanjut</label>
+            <label className="block text-sm font-bold text-slate-700 mb-2">
+              {nextStage?.selesai ? 'Hasil & Dokumentasi Tindak Lanjut' : 'Catatan'}
+            </label>
             <textarea
               className="w-full p-4 bg-white text-slate-900 border border-slate-300 rounded-xl focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 outline-none min-h-[120px] shadow-sm"
               placeholder="Contoh: Siswa telah diberikan teguran lisan dan berjanji tidak mengulangi. Orang tua sudah dihubungi."
               value={resultText}
               onChange={(e) => setResultText(e.target.value)}
               autoFocus
-              disabled={isSubmitting}
             />
-            <p className="text-xs text-slate-400 mt-2 text-right">Minimal 5 karakter</p>
+            {nextStage?.selesai && <p className="text-xs text-slate-400 mt-2 text-right">Minimal 5 karakter</p>}
           </div>
           
           <div className="flex gap-3 justify-end pt-4 border-t border-slate-100">
             <button 
-              onClick={() => setSelectedViolation(null)}
-              disabled={isSubmitting}
+              onClick={() => setSelectedCase(null)}
               className="px-5 py-2.5 text-slate-600 hover:bg-slate-100 rounded-xl font-medium transition-colors disabled:opacity-50"
             >
               Batal
             </button>
             <button 
               onClick={handleSave}
-              disabled={isSubmitting || resultText.length < 5}
+              disabled={!nextStage || (nextStage.selesai && resultText.trim().length < 5)}
               className="px-6 py-2.5 bg-cyan-600 hover:bg-cyan-700 text-white rounded-xl font-bold shadow-lg shadow-cyan-500/30 transition-all hover:-translate-y-0.5 disabled:opacity-70 disabled:cursor-not-allowed flex items-center gap-2"
             >
-              {isSubmitting ? (
-                <>
-                  <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin" />
-                  Mengirim...
-                </>
-              ) : (
-                <>
-                  <Send className="w-4 h-4" />
-                  Kirim Data
-                </>
-              )}
+              <Send className="w-4 h-4" />
+              Kirim Data
+            </button>
+          </div>
+        </div>
+      </Modal>
+
+      <Modal
+        isOpen={!!sessionViolation}
+        onClose={() => setSessionViolation(null)}
+        title="🗒️ Catat Sesi Tindak Lanjut"
+      >
+        <div className="space-y-5">
+          <div className="bg-indigo-50 p-4 rounded-xl border border-indigo-100 text-sm">
+            <h4 className="font-bold text-indigo-900 mb-1">{sessionViolation?.nama_lengkap}</h4>
+            <p className="text-indigo-700">{sessionViolation?.jenis_pelanggaran}</p>
+          </div>
+
+          {sessionViolation && followUpsByCode.has(sessionViolation.kode_pelanggaran) && (
+            <div>
+              <p className="text-[10px] uppercase font-bold text-slate-400 mb-2">Sesi Sebelumnya</p>
+              <FollowUpTimeline entries={followUpsByCode.get(sessionViolation.kode_pelanggaran) || []} />
+            </div>
+          )}
+
+          <div className="grid md:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-bold text-slate-700 mb-2">Tanggal</label>
+              <input
+                type="date"
+                className="w-full p-3 bg-white text-slate-900 border border-slate-300 rounded-xl focus:ring-2 focus:ring-cyan-500 outline-none"
+                value={sessionDate}
+                onChange={(e) => setSessionDate(e.target.value)}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-bold text-slate-700 mb-2">Konselor</label>
+              <input
+                list="followup-teachers"
+                className="w-full p-3 bg-white text-slate-900 border border-slate-300 rounded-xl focus:ring-2 focus:ring-cyan-500 outline-none"
+                value={sessionCounselor}
+                onChange={(e) => setSessionCounselor(e.target.value)}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-bold text-slate-700 mb-2">Jenis Tindakan</label>
+              <select
+                className="w-full p-3 bg-white text-slate-900 border border-slate-300 rounded-xl focus:ring-2 focus:ring-cyan-500 outline-none"
+                value={sessionAction}
+                onChange={(e) => setSessionAction(e.target.value as FollowUpActionType)}
+              >
+                {FOLLOW_UP_ACTIONS.map(action => <option key={action} value={action}>{action}</option>)}
+              </select>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-bold text-slate-700 mb-2">Catatan Sesi</label>
+            <textarea
+              className="w-full p-4 bg-white text-slate-900 border border-slate-300 rounded-xl focus:ring-2 focus:ring-cyan-500 outline-none min-h-[100px]"
+              placeholder="Contoh: Siswa menceritakan alasan sering terlambat karena membantu orang tua berjualan."
+              value={sessionNote}
+              onChange={(e) => setSessionNote(e.target.value)}
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-bold text-slate-700 mb-2">Hasil</label>
+            <input
+              type="text"
+              className="w-full p-3 bg-white text-slate-900 border border-slate-300 rounded-xl focus:ring-2 focus:ring-cyan-500 outline-none"
+              placeholder="Contoh: Siswa berjanji datang tepat waktu, dipantau 2 minggu."
+              value={sessionOutcome}
+              onChange={(e) => setSessionOutcome(e.target.value)}
+            />
+          </div>
+
+          <div className="flex gap-3 justify-end pt-4 border-t border-slate-100">
+            <button
+              onClick={() => setSessionViolation(null)}
+              className="px-5 py-2.5 text-slate-600 hover:bg-slate-100 rounded-xl font-medium transition-colors"
+            >
+              Batal
+            </button>
+            <button
+              onClick={handleAddSession}
+              disabled={sessionNote.trim().length < 5}
+              className="px-6 py-2.5 bg-cyan-600 hover:bg-cyan-700 text-white rounded-xl font-bold shadow-lg shadow-cyan-500/30 transition-all disabled:opacity-70 disabled:cursor-not-allowed flex items-center gap-2"
+            >
+              <Send className="w-4 h-4" />
+              Simpan Sesi
+            </button>
+          </div>
+        </div>
+      </Modal>
+
+      <ParentContactModal
+        key={contactViolation?.id || 'none'}
+        violation={contactViolation}
+        phone={contactViolation?.kontak_ortu || ''}
+        templates={messageTemplates}
+        senderName={currentUserName}
+        logs={selectedContactLogs}
+        onLog={onLogContact}
+        onClose={() => setContactViolation(null)}
+      />
+
+      <LetterModal
+        key={letterViolation?.id || 'none'}
+        student={letterViolation}
+        violations={letterViolation ? violations.filter(v => v.nis === letterViolation.nis) : []}
+        preselectedCodes={letterViolation ? [letterViolation.kode_pelanggaran] : []}
+        letters={letters}
+        letterhead={letterhead}
+        issuerName={currentUserName}
+        onIssue={onIssueLetter}
+        onClose={() => setLetterViolation(null)}
+      />
+
+      <Modal
+        isOpen={!!selectedSanction}
+        onClose={() => setSelectedSanction(null)}
+        title="🛡️ Pemberian Sanksi"
+      >
+        <div className="space-y-5">
+          <div className="bg-rose-50 p-4 rounded-xl border border-rose-100 text-sm">
+            <h4 className="font-bold text-rose-900 mb-1">{selectedSanction?.nama_lengkap} ({selectedSanction?.kelas})</h4>
+            <p className="text-rose-700 font-bold">{selectedSanction?.level_label}</p>
+            <p className="text-rose-600 text-xs mt-1">{selectedSanction?.tindakan}</p>
+          </div>
+
+          <div>
+            <label className="block text-sm font-bold text-slate-700 mb-2">Tanggal Diberikan</label>
+            <input
+              type="date"
+              className="w-full p-3 bg-white text-slate-900 border border-slate-300 rounded-xl focus:ring-2 focus:ring-rose-500 outline-none"
+              value={sanctionDate}
+              onChange={(e) => setSanctionDate(e.target.value)}
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-bold text-slate-700 mb-2">Catatan</label>
+            <textarea
+              className="w-full p-4 bg-white text-slate-900 border border-slate-300 rounded-xl focus:ring-2 focus:ring-rose-500 outline-none min-h-[100px]"
+              placeholder="Contoh: Surat diserahkan kepada orang tua saat pemanggilan."
+              value={sanctionNote}
+              onChange={(e) => setSanctionNote(e.target.value)}
+            />
+          </div>
+
+          <div className="flex gap-3 justify-end pt-4 border-t border-slate-100">
+            <button
+              onClick={() => setSelectedSanction(null)}
+              className="px-5 py-2.5 text-slate-600 hover:bg-slate-100 rounded-xl font-medium transition-colors"
+            >
+              Batal
+            </button>
+            <button
+              onClick={handleIssueSanction}
+              disabled={!sanctionDate}
+              className="px-6 py-2.5 bg-rose-600 hover:bg-rose-700 text-white rounded-xl font-bold shadow-lg shadow-rose-500/30 transition-all disabled:opacity-70 disabled:cursor-not-allowed flex items-center gap-2"
+            >
+              <CheckCircle2 className="w-4 h-4" />
+              Simpan
             </button>
           </div>
         </div>
@@ -0,0 +1,32 @@
+import React from 'react';
+import { FollowUpEntry } from '../types';
+import SyncBadge from './ui/SyncBadge';
+import { formatDate } from '../utils/date';
+
+interface FollowUpTimelineProps {
+  // Sessions of one violation, oldest first
+  entries: FollowUpEntry[];
+}
+
+export default function FollowUpTimeline({ entries }: FollowUpTimelineProps) {
+  if (entries.length === 0) return null;
+
+  return (
+    <ol className="relative border-l-2 border-cyan-100 ml-1.5 space-y-3">
+      {entries.map(entry => (
+        <li key={entry.id} className="pl-4 relative">
+          <span className="absolute -left-[7px] top-1 w-3 h-3 rounded-full bg-cyan-500 ring-2 ring-white"></span>
+          <div className="flex items-center gap-2 flex-wrap text-xs">
+            <span className="font-bold text-slate-700">{entry.jenis_tindakan}</span>
+            <span className="text-slate-400">{formatDate(entry.tanggal, { day: 'numeric', month: 'short', year: 'numeric' })}</span>
+            <span className="text-slate-400">•</span>
+            <span className="text-slate-500 font-medium">{entry.konselor}</span>
+            <SyncBadge status={entry.sync_status} />
+          </div>
+          {entry.catatan && <p className="text-xs text-slate-600 mt-1 leading-relaxed">{entry.catatan}</p>}
+          {entry.hasil && <p className="text-xs text-emerald-700 mt-1"><span className="font-semibold">Hasil:</span> {entry.hasil}</p>}
+        </li>
+      ))}
+    </ol>
+  );
+}
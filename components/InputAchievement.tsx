@@ -0,0 +1,220 @@
+import React, { useState, useMemo } from 'react';
+import { AchievementCategory, AchievementRecord, AchievementType, Student } from '../types';
+import { nowInJakarta } from '../utils/date';
+import { createRecordId } from '../utils/records';
+import toast from 'react-hot-toast';
+import { Search, UserCircle2, BadgeCheck } from 'lucide-react';
+
+interface InputAchievementProps {
+  students: Student[];
+  catalog: AchievementType[];
+  // Default recorder (the logged-in user) and the names offered in the teacher picker
+  reporterName: string;
+  teacherNames: string[];
+  onAddAchievement: (record: AchievementRecord) => void;
+  onSuccess: () => void;
+}
+
+const CATEGORIES: AchievementCategory[] = ['Akademik', 'Non-Akademik', 'Sikap'];
+
+export default function InputAchievement({ students, catalog, reporterName, teacherNames, onAddAchievement, onSuccess }: InputAchievementProps) {
+  const [selectedClass, setSelectedClass] = useState('');
+  const [selectedStudentId, setSelectedStudentId] = useState('');
+
+  const [formData, setFormData] = useState(() => ({
+    tanggal: nowInJakarta().date,
+    jenis_prestasi: '',
+    dicatat_oleh: reporterName,
+    deskripsi: '',
+  }));
+
+  const classes = useMemo(() => {
+    const s = new Set(students.map(stu => stu.kelas));
+    return Array.from(s).sort();
+  }, [students]);
+
+  const studentsInClass = useMemo(() => {
+    if (!selectedClass) return [];
+    return students.filter(s => s.kelas === selectedClass).sort((a, b) => a.nama_lengkap.localeCompare(b.nama_lengkap));
+  }, [students, selectedClass]);
+
+  const selectedStudent = useMemo(() => students.find(s => s.nis === selectedStudentId), [students, selectedStudentId]);
+
+  const activeTypes = useMemo(() => catalog.filter(t => t.aktif), [catalog]);
+  const selectedType = useMemo(() => activeTypes.find(t => t.id === formData.jenis_prestasi), [activeTypes, formData.jenis_prestasi]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selectedStudent) {
+      toast.error("Pilih siswa terlebih dahulu");
+      return;
+    }
+    if (!selectedType) {
+      toast.error("Pilih jenis prestasi");
+      return;
+    }
+    if (!formData.dicatat_oleh.trim()) {
+      toast.error("Isi nama guru pencatat");
+      return;
+    }
+
+    onAddAchievement({
+      id: createRecordId('PRS'),
+      nis: selectedStudent.nis,
+      nama_lengkap: selectedStudent.nama_lengkap,
+      kelas: selectedStudent.kelas,
+      nama_wali_kelas: selectedStudent.nama_wali_kelas,
+      jenis_prestasi: selectedType.label,
+      kategori_prestasi: selectedType.kategori,
+      poin: selectedType.poin,
+      tanggal: formData.tanggal,
+      deskripsi: formData.deskripsi.trim(),
+      dicatat_oleh: formData.dicatat_oleh.trim(),
+      dibuat_pada: new Date().toISOString(),
+    });
+    toast.success(`Prestasi ${selectedStudent.nama_lengkap} tersimpan, sedang disinkronkan ke server.`);
+    onSuccess();
+  };
+
+  return (
+    <div className="max-w-3xl mx-auto">
+      <div className="bg-white rounded-2xl shadow-sm border border-slate-100 p-8">
+        <h2 className="text-2xl font-bold text-slate-800 mb-8 flex items-center gap-3">
+          <div className="p-2 bg-amber-100 rounded-lg text-amber-600">
+            🏆
+          </div>
+          Input Prestasi Siswa
+        </h2>
+
+        <form onSubmit={handleSubmit} className="space-y-8">
+          <div className="space-y-4">
+            <h3 className="text-lg font-semibold text-slate-700 border-b pb-2 border-slate-100">1. Data Siswa</h3>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-5">
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Pilih Kelas</label>
+                <select
+                  value={selectedClass}
+                  onChange={(e) => { setSelectedClass(e.target.value); setSelectedStudentId(''); }}
+                  className="w-full p-3 bg-slate-50 border border-slate-200 rounded-xl focus:ring-2 focus:ring-cyan-500 outline-none transition-all"
+                  required
+                >
+                  <option value="">-- Pilih Kelas --</option>
+                  {classes.map(c => <option key={c} value={c}>{c}</option>)}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Pilih Siswa</label>
+                <div className="relative">
+                  <select
+                    value={selectedStudentId}
+                    onChange={(e) => setSelectedStudentId(e.target.value)}
+                    className="w-full p-3 bg-slate-50 border border-slate-200 rounded-xl focus:ring-2 focus:ring-cyan-500 outline-none transition-all appearance-none disabled:opacity-50"
+                    disabled={!selectedClass}
+                    required
+                  >
+                    <option value="">-- Pilih Siswa --</option>
+                    {studentsInClass.map(s => <option key={s.nis} value={s.nis}>{s.nama_lengkap}</option>)}
+                  </select>
+                  <div className="absolute right-3 top-1/2 -translate-y-1/2 pointer-events-none text-slate-400">
+                    <Search className="w-4 h-4" />
+                  </div>
+                </div>
+              </div>
+            </div>
+
+            {selectedStudent && (
+              <div className="mt-4 p-4 bg-gradient-to-r from-amber-50 to-yellow-50 border border-amber-100 rounded-xl flex items-center gap-4 animate-fade-in">
+                <div className="p-3 bg-white rounded-full shadow-sm text-amber-600">
+                  <UserCircle2 className="w-8 h-8" />
+                </div>
+                <div>
+                  <p className="font-bold text-slate-800">{selectedStudent.nama_lengkap}</p>
+                  <p className="text-sm text-slate-500">{selectedStudent.kelas} • {selectedStudent.nis} • Wali kelas {selectedStudent.nama_wali_kelas || '-'}</p>
+                </div>
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-4">
+            <h3 className="text-lg font-semibold text-slate-700 border-b pb-2 border-slate-100">2. Detail Prestasi</h3>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-5">
+              <div className="md:col-span-2">
+                <label className="block text-sm font-medium text-slate-700 mb-1">Jenis Prestasi</label>
+                <select
+                  value={formData.jenis_prestasi}
+                  onChange={(e) => setFormData({...formData, jenis_prestasi: e.target.value})}
+                  className="w-full p-3 bg-slate-50 border border-slate-200 rounded-xl focus:ring-2 focus:ring-cyan-500 outline-none"
+                  required
+                >
+                  <option value="">-- Pilih Jenis Prestasi --</option>
+                  {CATEGORIES.map(cat => (
+                    <optgroup key={cat} label={cat}>
+                      {activeTypes.filter(t => t.kategori === cat).map(t => (
+                        <option key={t.id} value={t.id}>{t.label} (-{t.poin} poin)</option>
+                      ))}
+                    </optgroup>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Tanggal</label>
+                <input
+                  type="date"
+                  value={formData.tanggal}
+                  onChange={(e) => setFormData({...formData, tanggal: e.target.value})}
+                  className="w-full p-3 bg-slate-50 border border-slate-200 rounded-xl focus:ring-2 focus:ring-cyan-500 outline-none"
+                  required
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Poin Prestasi</label>
+                <div className="w-full p-3 rounded-xl border bg-emerald-50 text-emerald-700 border-emerald-200 font-bold text-center">
+                  {selectedType ? `${selectedType.poin} Poin` : '-'}
+                </div>
+              </div>
+
+              <div className="md:col-span-2">
+                <label className="block text-sm font-medium text-slate-700 mb-1">Guru Pencatat</label>
+                <div className="relative">
+                  <input
+                    type="text"
+                    list="achievement-teacher-directory"
+                    value={formData.dicatat_oleh}
+                    onChange={(e) => setFormData({...formData, dicatat_oleh: e.target.value})}
+                    className="w-full pl-11 p-3 bg-slate-50 border border-slate-200 rounded-xl focus:ring-2 focus:ring-cyan-500 outline-none"
+                    required
+                  />
+                  <BadgeCheck className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-400 w-5 h-5 pointer-events-none" />
+                  <datalist id="achievement-teacher-directory">
+                    {teacherNames.map(name => <option key={name} value={name} />)}
+                  </datalist>
+                </div>
+              </div>
+
+              <div className="md:col-span-2">
+                <label className="block text-sm font-medium text-slate-700 mb-1">Keterangan</label>
+                <textarea
+                  rows={3}
+                  value={formData.deskripsi}
+                  onChange={(e) => setFormData({...formData, deskripsi: e.target.value})}
+                  className="w-full p-3 bg-slate-50 border border-slate-200 rounded-xl focus:ring-2 focus:ring-cyan-500 outline-none resize-none"
+                  placeholder="Contoh: Juara 2 lomba cerdas cermat tingkat kota"
+                />
+              </div>
+            </div>
+          </div>
+
+          <div className="pt-4">
+            <button
+              type="submit"
+              className="w-full py-4 bg-amber-500 hover:bg-amber-600 text-white font-bold rounded-xl shadow-lg shadow-amber-500/30 transition-all hover:-translate-y-1 flex items-center justify-center gap-2"
+            >
+              🏆 Simpan Data Prestasi
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -1,41 +1,55 @@
 import React, { useState, useMemo } from 'react';
-import { Student, Violation, VIOLATION_TYPES, ViolationCategory } from '../types';
+import { LocationOption, RepeatRule, Student, Violation, ViolationCatalog, ViolationCategory } from '../types';
+import { nowInJakarta, formatDate } from '../utils/date';
+import { peekNextViolationCode, reserveViolationCode } from '../utils/violationCode';
+import { getActiveTypes } from '../utils/catalog';
+import { applyRepeatRules } from '../utils/repeatRules';
+import { ACCEPTED_ATTACHMENT_TYPES, formatFileSize, MAX_ATTACHMENTS, PreparedAttachment, prepareAttachment } from '../utils/attachments';
+import { createRecordId } from '../utils/records';
+import { AttachmentUpload } from '../services/repository';
+import LocationPicker from './LocationPicker';
 import toast from 'react-hot-toast';
-import { Search, UserCircle2 } from 'lucide-react';
+import { Search, UserCircle2, BadgeCheck, Repeat, Paperclip, X, FileText } from 'lucide-react';
 
 interface InputViolationProps {
   students: Student[];
-  violationsCount: number;
-  onAddViolation: (violation: Violation) => void;
+  // Codes already in use, so a freshly generated device tag never clashes with another device
+  existingCodes: string[];
+  // Live catalog from Pengaturan; points follow the version in force on the incident date
+  catalog: ViolationCatalog;
+  // Repeat-offense rules and every recorded violation they count occurrences in
+  repeatRules: RepeatRule[];
+  history: Violation[];
+  // Places offered for lokasi_kejadian, with free text for anywhere else
+  locations: LocationOption[];
+  // Default reporter (the logged-in user) and the names offered in the teacher picker
+  reporterName: string;
+  teacherNames: string[];
+  // Bytes of evidence the outbox can still take; files wait there until they are uploaded
+  attachmentRoom: number;
+  // Evidence files are uploaded after the violation itself
+  onAddViolation: (violation: Violation, attachments: AttachmentUpload[]) => void;
   onSuccess: () => void;
 }
 
-const GOOGLE_SCRIPT_URL = "https://script.google.com/macros/s/AKfycbx5RJHID-0QupEh0q3nT3-leg45UEntgvtmqAyLm8PnAN5-kbdYcnoixsILQTWbCLDy/exec";
-
-// Safe UUID generator fallback
-const generateUUID = () => {
-  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
-    return crypto.randomUUID();
-  }
-  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, function(c) {
-    var r = Math.random() * 16 | 0, v = c === 'x' ? r : (r & 0x3 | 0x8);
-    return v.toString(16);
-  });
-};
-
-export default function InputViolation({ students, violationsCount, onAddViolation, onSuccess }: InputViolationProps) {
+export default function InputViolation({ students, existingCodes, catalog, repeatRules, history, locations, reporterName, teacherNames, attachmentRoom, onAddViolation, onSuccess }: InputViolationProps) {
   const [selectedClass, setSelectedClass] = useState('');
   const [selectedStudentId, setSelectedStudentId] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [attachments, setAttachments] = useState<PreparedAttachment[]>([]);
+  const [isPreparing, setIsPreparing] = useState(false);
   
-  const [formData, setFormData] = useState({
-    tanggal_pelanggaran: new Date().toISOString().split('T')[0],
+  const [formData, setFormData] = useState(() => ({
+    // School clock (WIB), not the device timezone or UTC
+    tanggal_pelanggaran: nowInJakarta().date,
+    jam_kejadian: nowInJakarta().time,
     jenis_pelanggaran: '',
     lokasi_kejadian: '',
+    pelapor: reporterName,
     deskripsi: '',
     status_tindak_lanjut: 'Menunggu Tindak Lanjut',
     hasil_tindak_lanjut: ''
-  });
+  }));
 
   const classes = useMemo(() => {
     const s = new Set(students.map(stu => stu.kelas));
@@ -53,13 +67,48 @@ export default function InputViolation({ students, violationsCount, onAddViolati
     return students.find(s => s.nis === selectedStudentId);
   }, [students, studentsInClass, selectedStudentId]);
 
+  const violationTypes = useMemo(
+    () => getActiveTypes(catalog, formData.tanggal_pelanggaran),
+    [catalog, formData.tanggal_pelanggaran]
+  );
+
   const selectedViolationType = useMemo(() => {
-    return VIOLATION_TYPES.find(t => t.label === formData.jenis_pelanggaran);
-  }, [formData.jenis_pelanggaran]);
+    return violationTypes.find(t => t.label === formData.jenis_pelanggaran);
+  }, [violationTypes, formData.jenis_pelanggaran]);
+
+  // Points and kategori after repeat-offense rules, previewed before submit
+  const adjustment = useMemo(() => {
+    if (!selectedViolationType || !selectedStudent) return null;
+    return applyRepeatRules(repeatRules, selectedViolationType, history, selectedStudent.nis, formData.tanggal_pelanggaran);
+  }, [repeatRules, selectedViolationType, history, selectedStudent, formData.tanggal_pelanggaran]);
+
+  const previewKategori = adjustment?.kategori || selectedViolationType?.kategori;
+  const previewPoin = adjustment?.poin ?? selectedViolationType?.poin;
 
-  const generateCode = () => {
-    const num = violationsCount + 1;
-    return `CPS-${String(num).padStart(3, '0')}`;
+  const nextCode = useMemo(() => peekNextViolationCode(existingCodes), [existingCodes]);
+
+  const handleFiles = async (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+    const room = MAX_ATTACHMENTS - attachments.length;
+    if (files.length > room) toast.error(`Maksimal ${MAX_ATTACHMENTS} lampiran per pelanggaran.`);
+    setIsPreparing(true);
+    const prepared: PreparedAttachment[] = [];
+    let used = attachments.reduce((total, a) => total + a.ukuran, 0);
+    for (const file of Array.from(files).slice(0, Math.max(0, room))) {
+      try {
+        const attachment = await prepareAttachment(file);
+        if (used + attachment.ukuran > attachmentRoom) {
+          toast.error(`${file.name}: antrean lampiran penuh (sisa ${formatFileSize(Math.max(0, attachmentRoom - used))}). Tunggu lampiran sebelumnya terkirim.`);
+          continue;
+        }
+        used += attachment.ukuran;
+        prepared.push(attachment);
+      } catch (error) {
+        toast.error(error instanceof Error ? error.message : String(error));
+      }
+    }
+    setAttachments(prev => [...prev, ...prepared]);
+    setIsPreparing(false);
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -72,73 +121,66 @@ export default function InputViolation({ students, violationsCount, onAddViolati
       toast.error("Pilih jenis pelanggaran");
       return;
     }
+    if (!formData.pelapor.trim()) {
+      toast.error("Isi nama guru pelapor");
+      return;
+    }
+    // The queue may have taken other files since these were picked
+    if (attachments.reduce((total, a) => total + a.ukuran, 0) > attachmentRoom) {
+      toast.error(`Antrean lampiran tinggal ${formatFileSize(attachmentRoom)}. Hapus sebagian lampiran atau tunggu lampiran sebelumnya terkirim.`);
+      return;
+    }
 
     setIsSubmitting(true);
     const loadingToast = toast.loading("Menyimpan data...");
 
-    // Generate code once to use in both payload and local state
-    const violationCode = generateCode();
+    // Reserve the code once to use in both payload and local state
+    const violationCode = reserveViolationCode(existingCodes);
 
-    const sheetPayload = {
-      kode_pelanggaran: violationCode,
+    const newViolation: Violation = {
+      id: violationCode, // Same identity as the sheet copy (see parseViolationsCSV)
       nis: selectedStudent.nis,
-      nama: selectedStudent.nama_lengkap,
-      jk: selectedStudent.jenis_kelamin,
+      nama_lengkap: selectedStudent.nama_lengkap,
+      jenis_kelamin: selectedStudent.jenis_kelamin,
       kelas: selectedStudent.kelas,
-      wali_kelas: selectedStudent.nama_wali_kelas,
+      nama_wali_kelas: selectedStudent.nama_wali_kelas,
       kontak_ortu: selectedStudent.kontak_ortu,
-      tanggal: formData.tanggal_pelanggaran,
+      kode_pelanggaran: violationCode,
+      tanggal_pelanggaran: formData.tanggal_pelanggaran,
+      jam_kejadian: formData.jam_kejadian,
       jenis_pelanggaran: formData.jenis_pelanggaran,
-      kategori_pelanggaran: selectedViolationType.kategori,
-      lokasi: formData.lokasi_kejadian,
+      kategori_pelanggaran: adjustment?.kategori || selectedViolationType.kategori,
+      poin_pelanggaran: adjustment?.poin ?? selectedViolationType.poin,
+      poin_dasar: adjustment?.rule ? selectedViolationType.poin : undefined,
+      aturan_berulang: adjustment?.rule ? adjustment.keterangan : undefined,
+      lokasi_kejadian: formData.lokasi_kejadian.trim(),
+      pelapor: formData.pelapor.trim(),
       deskripsi: formData.deskripsi,
-      status_tindak_lanjut: formData.status_tindak_lanjut,
+      status_tindak_lanjut: formData.status_tindak_lanjut as any,
       hasil_tindak_lanjut: formData.hasil_tindak_lanjut,
-      poin_pelanggaran: selectedViolationType.poin
+      created_at: new Date().toISOString() // Real submission instant, written to the sheet
     };
 
-    try {
-      // Send to Google Apps Script
-      await fetch(GOOGLE_SCRIPT_URL, {
-        method: "POST",
-        mode: "no-cors",
-        headers: {
-          "Content-Type": "text/plain",
-        },
-        body: JSON.stringify(sheetPayload),
-      });
-      
-      toast.success("Data berhasil disimpan!", { id: loadingToast });
-    } catch (error) {
-      console.error("Error saving violation:", error);
-      // Fallback toast for offline support
-      toast("Koneksi server gagal. Data disimpan secara offline.", { id: loadingToast, icon: '⚠️' });
-    } finally {
-      // Always update local state (Optimistic UI + Offline Support)
-      const newViolation: Violation = {
-        id: generateUUID(),
-        nis: selectedStudent.nis,
-        nama_lengkap: selectedStudent.nama_lengkap,
-        jenis_kelamin: selectedStudent.jenis_kelamin,
-        kelas: selectedStudent.kelas,
-        nama_wali_kelas: selectedStudent.nama_wali_kelas,
-        kontak_ortu: selectedStudent.kontak_ortu,
+    const uploads: AttachmentUpload[] = attachments.map(a => ({
+      record: {
+        id: createRecordId('LMP'),
         kode_pelanggaran: violationCode,
-        tanggal_pelanggaran: formData.tanggal_pelanggaran,
-        jenis_pelanggaran: formData.jenis_pelanggaran,
-        kategori_pelanggaran: selectedViolationType.kategori,
-        poin_pelanggaran: selectedViolationType.poin,
-        lokasi_kejadian: formData.lokasi_kejadian,
-        deskripsi: formData.deskripsi,
-        status_tindak_lanjut: formData.status_tindak_lanjut as any,
-        hasil_tindak_lanjut: formData.hasil_tindak_lanjut,
-        created_at: new Date().toISOString()
-      };
+        nis: selectedStudent.nis,
+        nama_file: a.nama_file,
+        tipe: a.tipe,
+        ukuran: a.ukuran,
+        thumbnail: a.thumbnail,
+        diunggah_oleh: reporterName,
+        diunggah_pada: new Date().toISOString(),
+      },
+      data: a.data,
+    }));
 
-      onAddViolation(newViolation);
-      onSuccess();
-      setIsSubmitting(false);
-    }
+    // Queued in the outbox: saved on this device right away, sent to the server in the background
+    onAddViolation(newViolation, uploads);
+    toast.success("Data tersimpan, sedang disinkronkan ke server.", { id: loadingToast });
+    onSuccess();
+    setIsSubmitting(false);
   };
 
   return (
@@ -214,7 +256,7 @@ export default function InputViolation({ students, violationsCount, onAddViolati
                   </div>
                   <div>
                     <p className="text-xs text-slate-500 font-medium">Kontak Ortu</p>
-                    <p className="font-bold text-slate-800">{selectedStudent.kontak_ortu}</p>
+                    <p className="font-bold text-slate-800">{selectedStudent.kontak_ortu || '-'}</p>
                   </div>
                 </div>
               </div>
@@ -228,36 +270,47 @@ export default function InputViolation({ students, violationsCount, onAddViolati
             <div className="p-4 bg-slate-50 rounded-xl border border-slate-200 flex items-center justify-between">
               <div className="flex items-center gap-3">
                 <div className="bg-white p-2 rounded-lg border border-slate-200 text-cyan-600 font-mono font-bold text-lg tracking-wider">
-                  {generateCode()}
+                  {nextCode}
                 </div>
                 <span className="text-sm text-slate-500">Kode Pelanggaran</span>
               </div>
               <div className="text-sm text-slate-400">
-                {new Date().toLocaleDateString('id-ID', { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' })}
+                {formatDate(new Date().toISOString(), { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' })}
               </div>
             </div>
 
             <div className="grid grid-cols-1 md:grid-cols-2 gap-5">
-              <div>
-                <label className="block text-sm font-medium text-slate-700 mb-1">Tanggal Kejadian</label>
-                <input
-                  type="date"
-                  value={formData.tanggal_pelanggaran}
-                  onChange={(e) => setFormData({...formData, tanggal_pelanggaran: e.target.value})}
-                  className="w-full p-3 bg-slate-50 border border-slate-200 rounded-xl focus:ring-2 focus:ring-cyan-500 outline-none"
-                  required
-                  disabled={isSubmitting}
-                />
+              <div className="grid grid-cols-5 gap-3">
+                <div className="col-span-3">
+                  <label className="block text-sm font-medium text-slate-700 mb-1">Tanggal Kejadian</label>
+                  <input
+                    type="date"
+                    value={formData.tanggal_pelanggaran}
+                    onChange={(e) => setFormData({...formData, tanggal_pelanggaran: e.target.value})}
+                    className="w-full p-3 bg-slate-50 border border-slate-200 rounded-xl focus:ring-2 focus:ring-cyan-500 outline-none"
+                    required
+                    disabled={isSubmitting}
+                  />
+                </div>
+                <div className="col-span-2">
+                  <label className="block text-sm font-medium text-slate-700 mb-1">Jam (WIB)</label>
+                  <input
+                    type="time"
+                    value={formData.jam_kejadian}
+                    onChange={(e) => setFormData({...formData, jam_kejadian: e.target.value})}
+                    className="w-full p-3 bg-slate-50 border border-slate-200 rounded-xl focus:ring-2 focus:ring-cyan-500 outline-none"
+                    required
+                    disabled={isSubmitting}
+                  />
+                </div>
               </div>
               <div>
                 <label className="block text-sm font-medium text-slate-700 mb-1">Lokasi Kejadian</label>
-                <input
-                  type="text"
+                <LocationPicker
+                  locations={locations}
                   value={formData.lokasi_kejadian}
-                  onChange={(e) => setFormData({...formData, lokasi_kejadian: e.target.value})}
+                  onChange={(lokasi) => setFormData({...formData, lokasi_kejadian: lokasi})}
                   className="w-full p-3 bg-slate-50 border border-slate-200 rounded-xl focus:ring-2 focus:ring-cyan-500 outline-none"
-                  placeholder="Contoh: Kantin, Kelas 9A"
-                  required
                   disabled={isSubmitting}
                 />
               </div>
@@ -273,7 +326,7 @@ export default function InputViolation({ students, violationsCount, onAddViolati
                   <option value="">-- Pilih Jenis Pelanggaran --</option>
                   {['Ringan', 'Sedang', 'Berat'].map(cat => (
                     <optgroup key={cat} label={`Kategori ${cat}`}>
-                      {VIOLATION_TYPES.filter(t => t.kategori === cat).map(t => (
+                      {violationTypes.filter(t => t.kategori === cat).map(t => (
                         <option key={t.label} value={t.label}>{t.label} ({t.poin} poin)</option>
                       ))}
                     </optgroup>
@@ -286,22 +339,58 @@ export default function InputViolation({ students, violationsCount, onAddViolati
                   <div>
                     <label className="block text-sm font-medium text-slate-700 mb-1">Kategori</label>
                     <div className={`w-full p-3 rounded-xl border font-bold text-center ${
-                      selectedViolationType.kategori === 'Ringan' ? 'bg-emerald-50 text-emerald-700 border-emerald-200' :
-                      selectedViolationType.kategori === 'Sedang' ? 'bg-amber-50 text-amber-700 border-amber-200' :
+                      previewKategori === 'Ringan' ? 'bg-emerald-50 text-emerald-700 border-emerald-200' :
+                      previewKategori === 'Sedang' ? 'bg-amber-50 text-amber-700 border-amber-200' :
                       'bg-rose-50 text-rose-700 border-rose-200'
                     }`}>
-                      {selectedViolationType.kategori}
+                      {previewKategori !== selectedViolationType.kategori && (
+                        <span className="line-through opacity-50 mr-2">{selectedViolationType.kategori}</span>
+                      )}
+                      {previewKategori}
                     </div>
                   </div>
                   <div>
                     <label className="block text-sm font-medium text-slate-700 mb-1">Poin</label>
                     <div className="w-full p-3 rounded-xl border bg-slate-100 text-slate-700 border-slate-200 font-bold text-center">
-                      {selectedViolationType.poin} Poin
+                      {previewPoin !== selectedViolationType.poin && (
+                        <span className="line-through opacity-50 mr-2">{selectedViolationType.poin}</span>
+                      )}
+                      {previewPoin} Poin
                     </div>
                   </div>
+                  {adjustment?.rule && (
+                    <div className="md:col-span-2 p-3 bg-amber-50 border border-amber-200 rounded-xl text-sm text-amber-800 flex items-start gap-2">
+                      <Repeat className="w-4 h-4 mt-0.5 shrink-0" />
+                      <p>
+                        <span className="font-bold">Pelanggaran berulang.</span> {adjustment.keterangan}.
+                        Keterangan ini ikut disimpan pada data pelanggaran.
+                      </p>
+                    </div>
+                  )}
                 </>
               )}
 
+              <div className="md:col-span-2">
+                <label className="block text-sm font-medium text-slate-700 mb-1">Guru Pelapor</label>
+                <div className="relative">
+                  <input
+                    type="text"
+                    list="teacher-directory"
+                    value={formData.pelapor}
+                    onChange={(e) => setFormData({...formData, pelapor: e.target.value})}
+                    className="w-full pl-11 p-3 bg-slate-50 border border-slate-200 rounded-xl focus:ring-2 focus:ring-cyan-500 outline-none"
+                    placeholder="Nama guru yang melihat kejadian"
+                    required
+                    disabled={isSubmitting}
+                  />
+                  <BadgeCheck className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-400 w-5 h-5 pointer-events-none" />
+                  <datalist id="teacher-directory">
+                    {teacherNames.map(name => <option key={name} value={name} />)}
+                  </datalist>
+                </div>
+                <p className="text-xs text-slate-400 mt-1">Otomatis diisi nama Anda. Ganti bila melapor atas nama guru lain.</p>
+              </div>
+
               <div className="md:col-span-2">
                 <label className="block text-sm font-medium text-slate-700 mb-1">Deskripsi & Catatan</label>
                 <textarea
@@ -314,6 +403,57 @@ export default function InputViolation({ students, violationsCount, onAddViolati
                   disabled={isSubmitting}
                 />
               </div>
+
+              <div className="md:col-span-2">
+                <label className="block text-sm font-medium text-slate-700 mb-1">Lampiran Bukti (opsional)</label>
+                <div className="flex flex-wrap gap-3">
+                  {attachments.map((a, index) => (
+                    <div key={index} className="relative w-24 h-24 rounded-xl border border-slate-200 bg-slate-50 overflow-hidden flex items-center justify-center">
+                      {a.thumbnail ? (
+                        <img src={a.thumbnail} alt={a.nama_file} className="w-full h-full object-cover" />
+                      ) : (
+                        <div className="text-center px-1">
+                          <FileText className="w-6 h-6 text-slate-400 mx-auto" />
+                          <p className="text-[10px] text-slate-500 truncate w-20">{a.nama_file}</p>
+                        </div>
+                      )}
+                      <span className="absolute bottom-0 inset-x-0 bg-black/50 text-white text-[10px] text-center">{formatFileSize(a.ukuran)}</span>
+                      <button
+                        type="button"
+                        onClick={() => setAttachments(prev => prev.filter((_, i) => i !== index))}
+                        className="absolute top-1 right-1 p-0.5 bg-white/90 rounded-full text-slate-600 hover:text-rose-600"
+                        title="Hapus lampiran"
+                      >
+                        <X className="w-3 h-3" />
+                      </button>
+                    </div>
+                  ))}
+                  {attachments.length < MAX_ATTACHMENTS && (
+                    <label className={`w-24 h-24 rounded-xl border-2 border-dashed border-slate-300 flex flex-col items-center justify-center text-slate-400 text-xs gap-1 ${
+                      isSubmitting || isPreparing ? 'opacity-50' : 'cursor-pointer hover:border-cyan-400 hover:text-cyan-600'
+                    }`}>
+                      <Paperclip className="w-5 h-5" />
+                      {isPreparing ? 'Memproses...' : 'Foto / PDF'}
+                      <input
+                        type="file"
+                        accept={ACCEPTED_ATTACHMENT_TYPES}
+                        multiple
+                        className="hidden"
+                        disabled={isSubmitting || isPreparing}
+                        onChange={(e) => {
+                          handleFiles(e.target.files);
+                          e.target.value = '';
+                        }}
+                      />
+                    </label>
+                  )}
+                </div>
+                <p className="text-xs text-slate-400 mt-1">
+                  {previewKategori === 'Berat'
+                    ? 'Pelanggaran berat: sertakan foto atau dokumen bukti bila ada.'
+                    : 'Foto dikompres otomatis. Lampiran hanya dapat dilihat guru BK dan admin.'}
+                </p>
+              </div>
             </div>
           </div>
 
@@ -352,7 +492,7 @@ export default function InputViolation({ students, violationsCount, onAddViolati
           <div className="pt-4">
             <button
               type="submit"
-              disabled={isSubmitting}
+              disabled={isSubmitting || isPreparing}
               className="w-full py-4 bg-cyan-600 hover:bg-cyan-700 disabled:bg-slate-300 disabled:cursor-not-allowed text-white font-bold rounded-xl shadow-lg shadow-cyan-500/30 transition-all hover:-translate-y-1 flex items-center justify-center gap-2"
             >
               {isSubmitting ? (
@@ -1,21 +1,45 @@
 import React, { ReactNode } from 'react';
-import { LogOut, User, RefreshCw } from 'lucide-react';
+import { LogOut, User, RefreshCw, UploadCloud, CloudOff, Cloud, CalendarDays, Archive } from 'lucide-react';
+import { Session, Term, ROLE_LABELS } from '../types';
+import { TabId } from '../utils/permissions';
+import { formatTerm } from '../utils/terms';
+
+// Tabs whose content follows the semester selector
+const TERM_SCOPED_TABS: TabId[] = ['dashboard', 'tindak-lanjut', 'siswa'];
 
 interface LayoutProps {
   children?: ReactNode;
-  activeTab: string;
-  setActiveTab: (tab: string) => void;
+  activeTab: TabId;
+  setActiveTab: (tab: TabId) => void;
+  // Tabs the logged-in role may open
+  allowedTabs: TabId[];
+  session: Session;
   onLogout: () => void;
   onRefresh?: () => void;
   isRefreshing?: boolean;
+  pendingSyncCount?: number;
+  failedSyncCount?: number;
+  onRetrySync?: () => void;
+  dataWarningCount?: number;
+  // Semester selector (newest first)
+  terms: Term[];
+  selectedTerm: Term;
+  currentTermId: string;
+  onSelectTerm: (termId: string) => void;
 }
 
-export default function Layout({ children, activeTab, setActiveTab, onLogout, onRefresh, isRefreshing = false }: LayoutProps) {
-  const tabs = [
+export default function Layout({ children, activeTab, setActiveTab, allowedTabs, session, onLogout, onRefresh, isRefreshing = false, pendingSyncCount = 0, failedSyncCount = 0, onRetrySync, dataWarningCount = 0, terms, selectedTerm, currentTermId, onSelectTerm }: LayoutProps) {
+  const isArchive = selectedTerm.id !== currentTermId;
+
+  const tabs: { id: TabId, label: string, badge?: number }[] = [
     { id: 'dashboard', label: '📊 Dashboard' },
     { id: 'input', label: '📝 Input Pelanggaran' },
+    { id: 'prestasi', label: '🏆 Input Prestasi' },
     { id: 'tindak-lanjut', label: '✅ Tindak Lanjut' },
     { id: 'siswa', label: '👥 Data Siswa' },
+    { id: 'kualitas-data', label: '🧹 Kualitas Data', badge: dataWarningCount },
+    { id: 'audit', label: '🔏 Jejak Audit' },
+    { id: 'pengaturan', label: '⚙️ Pengaturan' },
   ];
 
   return (
@@ -38,10 +62,29 @@ export default function Layout({ children, activeTab, setActiveTab, onLogout, on
 
           <div className="flex items-center gap-3 bg-white/20 backdrop-blur-md px-5 py-3 rounded-xl border border-white/10">
             <div className="text-right mr-2 hidden sm:block">
-              <p className="text-xs text-cyan-100">Guru BK</p>
-              <p className="text-sm font-bold text-white">Admin</p>
+              <p className="text-xs text-cyan-100">{ROLE_LABELS[session.role]}</p>
+              <p className="text-sm font-bold text-white">{session.nama}</p>
             </div>
             
+            {/* Global sync counter: writes still waiting in the outbox */}
+            {failedSyncCount > 0 ? (
+              <button
+                onClick={onRetrySync}
+                className="flex items-center gap-1.5 px-3 py-1.5 bg-rose-500/90 hover:bg-rose-500 rounded-lg text-white text-xs font-bold transition-colors active:scale-95"
+                title="Kirim ulang data yang gagal"
+              >
+                <CloudOff className="w-4 h-4" /> {failedSyncCount} gagal • Coba lagi
+              </button>
+            ) : pendingSyncCount > 0 ? (
+              <div className="flex items-center gap-1.5 px-3 py-1.5 bg-white/20 rounded-lg text-white text-xs font-bold" title="Data menunggu sinkronisasi">
+                <UploadCloud className="w-4 h-4 animate-pulse" /> {pendingSyncCount} pending
+              </div>
+            ) : (
+              <div className="flex items-center gap-1.5 px-2 py-1.5 text-cyan-100 text-xs font-medium" title="Semua data tersinkron">
+                <Cloud className="w-4 h-4" /> <span className="hidden md:inline">Tersinkron</span>
+              </div>
+            )}
+
             {onRefresh && (
               <>
                 <button 
@@ -71,7 +114,7 @@ export default function Layout({ children, activeTab, setActiveTab, onLogout, on
       <main className="flex-1 overflow-hidden flex flex-col max-w-7xl mx-auto w-full p-6">
         {/* Tabs */}
         <div className="bg-white rounded-xl shadow-sm border border-slate-100 mb-6 p-1 flex overflow-x-auto shrink-0 no-scrollbar">
-          {tabs.map((tab) => (
+          {tabs.filter(tab => allowedTabs.includes(tab.id)).map((tab) => (
             <button
               key={tab.id}
               onClick={() => setActiveTab(tab.id)}
@@ -82,10 +125,47 @@ export default function Layout({ children, activeTab, setActiveTab, onLogout, on
               }`}
             >
               {tab.label}
+              {!!tab.badge && (
+                <span className="ml-2 px-1.5 py-0.5 rounded-full bg-amber-100 text-amber-700 text-[10px] font-bold">{tab.badge}</span>
+              )}
             </button>
           ))}
         </div>
 
+        {TERM_SCOPED_TABS.includes(activeTab) && (
+          <div className={`mb-6 px-4 py-3 rounded-xl border flex flex-wrap items-center gap-3 shrink-0 ${
+            isArchive ? 'bg-amber-50 border-amber-200' : 'bg-white border-slate-100 shadow-sm'
+          }`}>
+            <CalendarDays className={`w-4 h-4 ${isArchive ? 'text-amber-600' : 'text-cyan-600'}`} />
+            <label htmlFor="term-selector" className="text-sm font-semibold text-slate-600">Semester</label>
+            <select
+              id="term-selector"
+              value={selectedTerm.id}
+              onChange={(e) => onSelectTerm(e.target.value)}
+              className="px-3 py-1.5 bg-white border border-slate-200 rounded-lg text-sm font-medium text-slate-700 focus:ring-2 focus:ring-cyan-500 outline-none cursor-pointer"
+            >
+              {terms.map(term => (
+                <option key={term.id} value={term.id}>
+                  {formatTerm(term)}{term.id === currentTermId ? ' (berjalan)' : ''}
+                </option>
+              ))}
+            </select>
+            {isArchive && (
+              <>
+                <span className="flex items-center gap-1.5 text-xs font-bold text-amber-700">
+                  <Archive className="w-4 h-4" /> Arsip
+                </span>
+                <button
+                  onClick={() => onSelectTerm(currentTermId)}
+                  className="ml-auto text-xs font-bold text-amber-700 hover:underline"
+                >
+                  Kembali ke semester berjalan
+                </button>
+              </>
+            )}
+          </div>
+        )}
+
         {/* Content Area */}
         <div className="flex-1 overflow-y-auto pr-2 pb-20">
           <div className="animate-fade-in">
@@ -0,0 +1,175 @@
+import React, { useState } from 'react';
+import { IssuedLetter, Letterhead, LetterType, Student, Violation } from '../types';
+import Modal from './ui/Modal';
+import { compareByIncidentDesc, formatDate, nowInJakarta } from '../utils/date';
+import { buildLetterHtml, formatLetterNumber, LETTER_TYPE_LABELS, peekLetterSequence, printLetter, reserveLetterSequence } from '../utils/letters';
+import { createRecordId } from '../utils/records';
+import { getDeviceId } from '../utils/violationCode';
+import toast from 'react-hot-toast';
+import { Printer, AlertTriangle } from 'lucide-react';
+
+interface LetterModalProps {
+  student: Pick<Student, 'nis' | 'nama_lengkap' | 'kelas'> | null;
+  // Violations of the student that can be listed in the letter
+  violations: Violation[];
+  preselectedCodes: string[];
+  // Every issued letter, for the next number
+  letters: IssuedLetter[];
+  letterhead: Letterhead;
+  issuerName: string;
+  onIssue: (letter: IssuedLetter) => void;
+  onClose: () => void;
+}
+
+// Issues an official letter and opens it for printing. Render with key={student.nis} so the form starts fresh.
+export default function LetterModal({ student, violations, preselectedCodes, letters, letterhead, issuerName, onIssue, onClose }: LetterModalProps) {
+  const [jenis, setJenis] = useState<LetterType>('panggilan_ortu');
+  const [tanggal, setTanggal] = useState(() => nowInJakarta().date);
+  const [pertemuan, setPertemuan] = useState('');
+  const [codes, setCodes] = useState<string[]>(preselectedCodes);
+
+  const sorted = [...violations].sort(compareByIncidentDesc);
+  const included = sorted.filter(v => codes.includes(v.kode_pelanggaran));
+  const totalPoin = included.reduce((sum, v) => sum + v.poin_pelanggaran, 0);
+  const tahun = Number(tanggal.slice(0, 4));
+  const perangkat = getDeviceId();
+  const urutan = peekLetterSequence(letters, tahun, perangkat);
+  const nomorSurat = tanggal ? formatLetterNumber(letterhead.format_nomor, jenis, perangkat, urutan, tanggal) : '';
+
+  const toggleCode = (kode: string) => {
+    setCodes(prev => prev.includes(kode) ? prev.filter(c => c !== kode) : [...prev, kode]);
+  };
+
+  const handleIssue = () => {
+    if (!student || !tanggal) return;
+    if (included.length === 0) {
+      toast.error("Pilih minimal satu pelanggaran");
+      return;
+    }
+    // Reserved only now, so a letter opened and closed again does not use up a number
+    const reserved = reserveLetterSequence(letters, tahun, perangkat);
+    const nomor = formatLetterNumber(letterhead.format_nomor, jenis, perangkat, reserved, tanggal);
+    const letter: IssuedLetter = {
+      id: createRecordId('SRT'),
+      jenis,
+      nomor_surat: nomor,
+      perangkat,
+      urutan: reserved,
+      tahun,
+      nis: student.nis,
+      nama_lengkap: student.nama_lengkap,
+      kelas: student.kelas,
+      // Oldest first, as listed in the letter
+      kode_pelanggaran: [...included].reverse().map(v => v.kode_pelanggaran),
+      total_poin: totalPoin,
+      tanggal,
+      pertemuan: jenis === 'panggilan_ortu' ? pertemuan.trim() : undefined,
+      dibuat_oleh: issuerName,
+      dibuat_pada: new Date().toISOString(),
+    };
+    onIssue(letter);
+    if (!printLetter(buildLetterHtml(letterhead, letter, [...included].reverse()))) {
+      toast.error("Pop-up diblokir browser. Surat tersimpan, cetak ulang dari data siswa.");
+    } else {
+      toast.success(`Surat ${nomor} diterbitkan.`);
+    }
+    onClose();
+  };
+
+  return (
+    <Modal isOpen={!!student} onClose={onClose} title="🖨️ Buat Surat Resmi">
+      <div className="space-y-5">
+        {!letterhead.nama_sekolah && (
+          <div className="bg-amber-50 p-3 rounded-xl border border-amber-200 text-xs text-amber-800 flex items-start gap-2">
+            <AlertTriangle className="w-4 h-4 shrink-0" />
+            Kop surat belum diatur. Minta admin mengisinya di Pengaturan &gt; Kop Surat.
+          </div>
+        )}
+
+        <div className="bg-indigo-50 p-4 rounded-xl border border-indigo-100 text-sm">
+          <h4 className="font-bold text-indigo-900">{student?.nama_lengkap}</h4>
+          <p className="text-indigo-700">{student?.kelas} • {student?.nis}</p>
+        </div>
+
+        <div className="grid md:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-bold text-slate-700 mb-2">Jenis Surat</label>
+            <select
+              className="w-full p-3 bg-white text-slate-900 border border-slate-300 rounded-xl focus:ring-2 focus:ring-cyan-500 outline-none"
+              value={jenis}
+              onChange={(e) => setJenis(e.target.value as LetterType)}
+            >
+              {(Object.keys(LETTER_TYPE_LABELS) as LetterType[]).map(type => (
+                <option key={type} value={type}>{LETTER_TYPE_LABELS[type]}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-bold text-slate-700 mb-2">Tanggal Surat</label>
+            <input
+              type="date"
+              className="w-full p-3 bg-white text-slate-900 border border-slate-300 rounded-xl focus:ring-2 focus:ring-cyan-500 outline-none"
+              value={tanggal}
+              onChange={(e) => setTanggal(e.target.value)}
+            />
+          </div>
+        </div>
+
+        {jenis === 'panggilan_ortu' && (
+          <div>
+            <label className="block text-sm font-bold text-slate-700 mb-2">Waktu & Tempat Pertemuan</label>
+            <input
+              type="text"
+              className="w-full p-3 bg-white text-slate-900 border border-slate-300 rounded-xl focus:ring-2 focus:ring-cyan-500 outline-none"
+              placeholder="Contoh: Senin, 20 Oktober 2026 pukul 09.00 WIB di Ruang BK"
+              value={pertemuan}
+              onChange={(e) => setPertemuan(e.target.value)}
+            />
+          </div>
+        )}
+
+        <div>
+          <label className="block text-sm font-bold text-slate-700 mb-2">Pelanggaran yang Dicantumkan</label>
+          <div className="max-h-48 overflow-y-auto space-y-1 border border-slate-200 rounded-xl p-2">
+            {sorted.map(v => (
+              <label key={v.id} className="flex items-center gap-3 p-2 rounded-lg hover:bg-slate-50 text-sm cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={codes.includes(v.kode_pelanggaran)}
+                  onChange={() => toggleCode(v.kode_pelanggaran)}
+                  className="accent-cyan-600"
+                />
+                <span className="flex-1 text-slate-700">{v.jenis_pelanggaran}</span>
+                <span className="text-xs text-slate-400">{formatDate(v.tanggal_pelanggaran, { day: 'numeric', month: 'short', year: 'numeric' })}</span>
+                <span className="text-xs font-bold text-slate-600 w-10 text-right">+{v.poin_pelanggaran}</span>
+              </label>
+            ))}
+          </div>
+          <p className="text-xs text-slate-500 mt-2 text-right">Total poin dalam surat: <b>{totalPoin}</b></p>
+        </div>
+
+        <div className="bg-slate-50 p-3 rounded-xl border border-slate-200 text-sm">
+          <span className="text-slate-500">Nomor surat: </span>
+          <span className="font-mono font-bold text-slate-800">{nomorSurat || '-'}</span>
+        </div>
+
+        <div className="flex gap-3 justify-end pt-4 border-t border-slate-100">
+          <button
+            onClick={onClose}
+            className="px-5 py-2.5 text-slate-600 hover:bg-slate-100 rounded-xl font-medium transition-colors"
+          >
+            Batal
+          </button>
+          <button
+            onClick={handleIssue}
+            disabled={!tanggal || included.length === 0}
+            className="px-6 py-2.5 bg-cyan-600 hover:bg-cyan-700 text-white rounded-xl font-bold shadow-lg shadow-cyan-500/30 transition-all disabled:opacity-70 disabled:cursor-not-allowed flex items-center gap-2"
+          >
+            <Printer className="w-4 h-4" />
+            Terbitkan & Cetak
+          </button>
+        </div>
+      </div>
+    </Modal>
+  );
+}
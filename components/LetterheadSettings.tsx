@@ -0,0 +1,91 @@
+import React, { useState, useEffect } from 'react';
+import { Letterhead } from '../types';
+import { formatLetterNumber } from '../utils/letters';
+import { nowInJakarta } from '../utils/date';
+import toast from 'react-hot-toast';
+import { Save } from 'lucide-react';
+
+interface LetterheadSettingsProps {
+  letterhead: Letterhead;
+  onChange: (letterhead: Letterhead) => void;
+}
+
+const FIELDS: { key: Exclude<keyof Letterhead, 'format_nomor'>, label: string, placeholder: string }[] = [
+  { key: 'nama_sekolah', label: 'Nama Sekolah', placeholder: 'Contoh: SMP Negeri 1 Bandung' },
+  { key: 'alamat', label: 'Alamat', placeholder: 'Contoh: Jl. Merdeka No. 1, Bandung 40111' },
+  { key: 'telepon', label: 'Telepon', placeholder: 'Contoh: (022) 1234567' },
+  { key: 'kota', label: 'Kota (baris tanggal)', placeholder: 'Contoh: Bandung' },
+  { key: 'kepala_sekolah', label: 'Nama Kepala Sekolah', placeholder: 'Contoh: Drs. Ahmad Suryadi, M.Pd.' },
+  { key: 'nip_kepala_sekolah', label: 'NIP Kepala Sekolah', placeholder: 'Boleh dikosongkan' },
+];
+
+// Admin editor for the school identity and numbering printed on official letters
+export default function LetterheadSettings({ letterhead, onChange }: LetterheadSettingsProps) {
+  const [draft, setDraft] = useState<Letterhead>(letterhead);
+
+  useEffect(() => {
+    setDraft(letterhead);
+  }, [letterhead]);
+
+  const handleSave = () => {
+    if (!draft.nama_sekolah.trim()) {
+      toast.error('Nama sekolah wajib diisi.');
+      return;
+    }
+    if (!draft.format_nomor.includes('{nomor}')) {
+      toast.error('Format nomor surat harus memuat {nomor}.');
+      return;
+    }
+    const cleaned = Object.fromEntries(
+      Object.entries(draft).map(([key, value]) => [key, value.trim()])
+    ) as unknown as Letterhead;
+    onChange(cleaned);
+    toast.success("Kop surat disimpan.");
+  };
+
+  return (
+    <div className="space-y-5">
+      <div>
+        <h3 className="text-lg font-bold text-slate-800">🏫 Kop Surat</h3>
+        <p className="text-sm text-slate-500">Dipakai pada surat panggilan, surat peringatan dan surat pernyataan.</p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-5">
+        {FIELDS.map(field => (
+          <div key={field.key}>
+            <label className="block text-sm font-bold text-slate-700 mb-2">{field.label}</label>
+            <input
+              type="text"
+              value={draft[field.key]}
+              placeholder={field.placeholder}
+              onChange={(e) => setDraft({ ...draft, [field.key]: e.target.value })}
+              className="w-full p-3 bg-slate-50 border border-slate-200 rounded-xl focus:ring-2 focus:ring-cyan-500 outline-none"
+            />
+          </div>
+        ))}
+        <div className="md:col-span-2">
+          <label className="block text-sm font-bold text-slate-700 mb-2">Format Nomor Surat</label>
+          <input
+            type="text"
+            value={draft.format_nomor}
+            onChange={(e) => setDraft({ ...draft, format_nomor: e.target.value })}
+            className="w-full p-3 bg-slate-50 border border-slate-200 rounded-xl focus:ring-2 focus:ring-cyan-500 outline-none font-mono"
+          />
+          <p className="text-xs text-slate-400 mt-1">
+            {'{nomor}'} kode perangkat dan urutan per tahun, {'{kode}'} jenis surat, {'{bulan}'} bulan romawi, {'{tahun}'} tahun.
+            Contoh: {formatLetterNumber(draft.format_nomor, 'sp1', 'K7QM', 7, nowInJakarta().date)}
+          </p>
+        </div>
+      </div>
+
+      <div className="flex justify-end">
+        <button
+          onClick={handleSave}
+          className="px-6 py-2.5 bg-cyan-600 hover:bg-cyan-700 text-white rounded-xl font-bold shadow-lg shadow-cyan-500/30 transition-all flex items-center gap-2"
+        >
+          <Save className="w-4 h-4" /> Simpan Kop Surat
+        </button>
+      </div>
+    </div>
+  );
+}
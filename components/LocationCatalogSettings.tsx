@@ -0,0 +1,178 @@
+import React, { useState, useMemo } from 'react';
+import { LocationOption, Violation } from '../types';
+import { saveLocation, summarizeRecordedLocations, validateLocation } from '../utils/locations';
+import Modal from './ui/Modal';
+import toast from 'react-hot-toast';
+import { Plus, Pencil, Archive, RotateCcw } from 'lucide-react';
+
+interface LocationCatalogSettingsProps {
+  locations: LocationOption[];
+  // Recorded violations, to show how their free-text locations are matched
+  violations: Violation[];
+  onChange: (locations: LocationOption[]) => void;
+}
+
+// Alias list as typed in the form: comma separated
+interface LocationDraft extends Omit<LocationOption, 'alias'> {
+  alias: string;
+}
+
+const emptyDraft = (): LocationDraft => ({ id: '', label: '', alias: '', aktif: true });
+
+const RECORDED_LIMIT = 30;
+
+// Admin editor for the location catalog. Aliases decide which older free-text locations
+// count as the place on the Dashboard; recorded violations are never rewritten.
+export default function LocationCatalogSettings({ locations, violations, onChange }: LocationCatalogSettingsProps) {
+  const [showRetired, setShowRetired] = useState(false);
+  const [draft, setDraft] = useState<LocationDraft | null>(null);
+
+  const items = useMemo(
+    () => locations.filter(l => showRetired || l.aktif).sort((a, b) => a.label.localeCompare(b.label, 'id')),
+    [locations, showRetired]
+  );
+  const recorded = useMemo(() => summarizeRecordedLocations(locations, violations), [locations, violations]);
+  const unmatchedCount = recorded.filter(r => !r.match).length;
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft) return;
+    const item: LocationOption = { ...draft, alias: draft.alias.split(',') };
+    const error = validateLocation(locations, item);
+    if (error) {
+      toast.error(error);
+      return;
+    }
+    onChange(saveLocation(locations, item));
+    toast.success(draft.id ? "Lokasi diperbarui." : "Lokasi ditambahkan.");
+    setDraft(null);
+  };
+
+  const toggleActive = (item: LocationOption) => {
+    onChange(saveLocation(locations, { ...item, aktif: !item.aktif }));
+    toast.success(item.aktif ? `"${item.label}" dipensiunkan.` : `"${item.label}" diaktifkan kembali.`);
+  };
+
+  return (
+    <div className="space-y-5">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-bold text-slate-800">📍 Katalog Lokasi</h3>
+          <p className="text-sm text-slate-500">Pilihan lokasi kejadian. Pelapor tetap bisa menulis lokasi lain.</p>
+        </div>
+        <button
+          onClick={() => setDraft(emptyDraft())}
+          className="px-5 py-2.5 bg-cyan-600 hover:bg-cyan-700 text-white rounded-xl font-bold shadow-lg shadow-cyan-500/30 transition-all flex items-center justify-center gap-2"
+        >
+          <Plus className="w-4 h-4" /> Tambah Lokasi
+        </button>
+      </div>
+
+      <label className="flex items-center gap-2 text-sm text-slate-600 font-medium px-2">
+        <input type="checkbox" checked={showRetired} onChange={(e) => setShowRetired(e.target.checked)} className="rounded" />
+        Tampilkan yang dipensiunkan
+      </label>
+
+      <div className="bg-white rounded-2xl border border-slate-100 overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-[10px] uppercase tracking-wider text-slate-400 border-b border-slate-100">
+              <th className="px-4 py-3">Lokasi</th>
+              <th className="px-4 py-3">Nama lain</th>
+              <th className="px-4 py-3 text-right">Aksi</th>
+            </tr>
+          </thead>
+          <tbody>
+            {items.map(item => (
+              <tr key={item.id} className={`border-b border-slate-50 hover:bg-slate-50 ${item.aktif ? '' : 'opacity-50'}`}>
+                <td className="px-4 py-3">
+                  <p className="font-medium text-slate-800">{item.label}</p>
+                  {!item.aktif && <span className="text-[10px] font-bold uppercase text-slate-400">Dipensiunkan</span>}
+                </td>
+                <td className="px-4 py-3 text-slate-500">{item.alias.join(', ') || '-'}</td>
+                <td className="px-4 py-3">
+                  <div className="flex justify-end gap-1">
+                    <button onClick={() => setDraft({ ...item, alias: item.alias.join(', ') })} className="p-2 text-slate-400 hover:text-cyan-600 hover:bg-cyan-50 rounded-lg transition-colors" title="Ubah">
+                      <Pencil className="w-4 h-4" />
+                    </button>
+                    <button onClick={() => toggleActive(item)} className="p-2 text-slate-400 hover:text-amber-600 hover:bg-amber-50 rounded-lg transition-colors" title={item.aktif ? 'Pensiunkan' : 'Aktifkan kembali'}>
+                      {item.aktif ? <Archive className="w-4 h-4" /> : <RotateCcw className="w-4 h-4" />}
+                    </button>
+                  </div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {items.length === 0 && (
+          <p className="text-center text-slate-400 py-10">Belum ada lokasi.</p>
+        )}
+      </div>
+
+      <div>
+        <h4 className="font-bold text-slate-800">Lokasi yang sudah tercatat</h4>
+        <p className="text-sm text-slate-500 mb-3">
+          Cara lokasi pada data lama dibaca di Dashboard. {unmatchedCount > 0 && `${unmatchedCount} belum dikenali; tambahkan sebagai nama lain bila yang dimaksud sudah ada di katalog.`}
+        </p>
+        <div className="bg-white rounded-2xl border border-slate-100 divide-y divide-slate-50 max-h-[320px] overflow-y-auto">
+          {recorded.slice(0, RECORDED_LIMIT).map(r => (
+            <div key={r.text} className="flex items-center justify-between gap-3 px-4 py-2 text-sm">
+              <span className="text-slate-700 truncate">"{r.text}" <span className="text-xs text-slate-400">({r.count})</span></span>
+              {r.match ? (
+                <span className="text-xs font-bold text-emerald-700 bg-emerald-50 px-2 py-0.5 rounded shrink-0">{r.match.label}</span>
+              ) : (
+                <span className="text-xs font-bold text-amber-700 bg-amber-50 px-2 py-0.5 rounded shrink-0">Belum dikenali</span>
+              )}
+            </div>
+          ))}
+          {recorded.length === 0 && <p className="text-center text-slate-400 py-6">Belum ada data.</p>}
+        </div>
+      </div>
+
+      <Modal isOpen={draft !== null} onClose={() => setDraft(null)} title={draft?.id ? '✏️ Ubah Lokasi' : '➕ Lokasi Baru'}>
+        {draft && (
+          <form onSubmit={handleSave} className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">Nama Lokasi</label>
+              <input
+                type="text"
+                value={draft.label}
+                onChange={(e) => setDraft({ ...draft, label: e.target.value })}
+                className="w-full p-3 bg-slate-50 border border-slate-200 rounded-xl focus:ring-2 focus:ring-cyan-500 outline-none"
+                placeholder="Contoh: Toilet lt. 2"
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">Nama lain (pisahkan dengan koma)</label>
+              <input
+                type="text"
+                value={draft.alias}
+                onChange={(e) => setDraft({ ...draft, alias: e.target.value })}
+                className="w-full p-3 bg-slate-50 border border-slate-200 rounded-xl focus:ring-2 focus:ring-cyan-500 outline-none"
+                placeholder="Contoh: wc lt 2, kamar mandi atas"
+              />
+              <p className="text-xs text-slate-500 mt-1">Huruf besar, tanda baca, "sekolah"/"ruang" dan salah ketik kecil sudah diabaikan.</p>
+            </div>
+
+            <div className="flex gap-3 justify-end pt-4 border-t border-slate-100">
+              <button
+                type="button"
+                onClick={() => setDraft(null)}
+                className="px-5 py-2.5 text-slate-600 hover:bg-slate-100 rounded-xl font-medium transition-colors"
+              >
+                Batal
+              </button>
+              <button
+                type="submit"
+                className="px-6 py-2.5 bg-cyan-600 hover:bg-cyan-700 text-white rounded-xl font-bold shadow-lg shadow-cyan-500/30 transition-all"
+              >
+                Simpan
+              </button>
+            </div>
+          </form>
+        )}
+      </Modal>
+    </div>
+  );
+}
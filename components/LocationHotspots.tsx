@@ -0,0 +1,91 @@
+import React, { useMemo } from 'react';
+import { LocationOption, Violation } from '../types';
+import { MapPin } from 'lucide-react';
+import { buildHotspots, HOUR_SLOTS, topHotspotCells } from '../utils/locations';
+
+interface LocationHotspotsProps {
+  // Already narrowed to the Dashboard period and reporter
+  violations: Violation[];
+  locations: LocationOption[];
+}
+
+const MAX_PLACES = 10;
+
+const cellColor = (count: number, max: number) => {
+  if (count === 0 || max === 0) return undefined;
+  return `rgba(124, 58, 237, ${0.12 + (count / max) * 0.78})`;
+};
+
+// Where and at what hour incidents happen, to plan piket duty
+export default function LocationHotspots({ violations, locations }: LocationHotspotsProps) {
+  const hotspots = useMemo(() => buildHotspots(locations, violations), [locations, violations]);
+  const places = hotspots.slice(0, MAX_PLACES);
+  const topCells = useMemo(() => topHotspotCells(hotspots), [hotspots]);
+  const max = Math.max(0, ...places.flatMap(p => p.perJam));
+
+  return (
+    <div className="bg-white rounded-2xl p-6 shadow-sm border border-slate-100">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+          <MapPin className="w-5 h-5 text-violet-600" /> Titik Rawan
+        </h3>
+        <span className="text-xs font-medium text-slate-400">Lokasi × jam kejadian (WIB)</span>
+      </div>
+
+      {places.length === 0 ? (
+        <p className="text-center py-12 text-slate-400 text-sm">Tidak ada pelanggaran pada periode ini</p>
+      ) : (
+        <>
+          {topCells.length > 0 && (
+            <div className="flex flex-wrap gap-2 mb-5">
+              <span className="text-xs font-bold text-slate-500 self-center">Prioritas piket:</span>
+              {topCells.map(cell => (
+                <span key={`${cell.label}-${cell.slot}`} className="px-3 py-1 rounded-full bg-violet-50 text-violet-700 border border-violet-100 text-xs font-bold">
+                  {cell.label}, jam {cell.slot} ({cell.count})
+                </span>
+              ))}
+            </div>
+          )}
+          <div className="overflow-x-auto">
+            <table className="text-xs border-separate border-spacing-0.5 w-full">
+              <thead>
+                <tr>
+                  <th className="text-left font-medium text-slate-400 pr-2">Lokasi</th>
+                  {HOUR_SLOTS.map(slot => (
+                    <th key={slot} className="font-medium text-slate-500 px-1 whitespace-nowrap">{slot}</th>
+                  ))}
+                  <th className="text-right font-medium text-slate-400 pl-2">Total</th>
+                </tr>
+              </thead>
+              <tbody>
+                {places.map(place => (
+                  <tr key={place.key}>
+                    <th className={`text-left pr-2 whitespace-nowrap max-w-[160px] truncate ${place.key ? 'font-bold text-slate-700' : 'font-medium italic text-slate-400'}`} title={place.label}>
+                      {place.label}
+                    </th>
+                    {place.perJam.map((count, i) => (
+                      <td
+                        key={HOUR_SLOTS[i]}
+                        title={`${place.label}, jam ${HOUR_SLOTS[i]}: ${count}`}
+                        style={{ backgroundColor: cellColor(count, max) }}
+                        className={`h-8 min-w-[2.25rem] rounded text-center font-bold ${
+                          count === 0 ? 'bg-slate-50 text-slate-300' : count / max > 0.5 ? 'text-white' : 'text-violet-900'
+                        }`}
+                      >
+                        {count || '·'}
+                      </td>
+                    ))}
+                    <td className="text-right pl-2 font-bold text-slate-800">{place.total}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          {hotspots.length > MAX_PLACES && (
+            <p className="text-xs text-slate-400 mt-3">{hotspots.length - MAX_PLACES} lokasi lain tidak ditampilkan.</p>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+import React, { useState } from 'react';
+import { LocationOption } from '../types';
+import { OTHER_LOCATION } from '../utils/locations';
+
+interface LocationPickerProps {
+  locations: LocationOption[];
+  value: string;
+  onChange: (value: string) => void;
+  className: string;
+  disabled?: boolean;
+}
+
+// Active catalog places, with free text for anywhere else. A value that is not a catalog
+// label (older rows, retired places) opens on the free-text field.
+export default function LocationPicker({ locations, value, onChange, className, disabled }: LocationPickerProps) {
+  const active = locations.filter(l => l.aktif);
+  const [isOther, setIsOther] = useState(() => !!value && !active.some(l => l.label === value));
+
+  const handleSelect = (selected: string) => {
+    if (selected === OTHER_LOCATION) {
+      setIsOther(true);
+      onChange('');
+      return;
+    }
+    setIsOther(false);
+    onChange(selected);
+  };
+
+  return (
+    <div className="space-y-2">
+      <select
+        value={isOther ? OTHER_LOCATION : value}
+        onChange={(e) => handleSelect(e.target.value)}
+        className={className}
+        required
+        disabled={disabled}
+      >
+        <option value="">-- Pilih Lokasi --</option>
+        {active.map(l => <option key={l.id} value={l.label}>{l.label}</option>)}
+        <option value={OTHER_LOCATION}>Lainnya...</option>
+      </select>
+      {isOther && (
+        <input
+          type="text"
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          className={className}
+          placeholder="Tulis lokasinya"
+          required
+          disabled={disabled}
+          autoFocus
+        />
+      )}
+    </div>
+  );
+}
@@ -1,31 +1,39 @@
 import React, { useState } from 'react';
 import { User, Lock, Eye, EyeOff } from 'lucide-react';
 import toast from 'react-hot-toast';
+import { Session } from '../types';
+import { DataRepository } from '../services/repository';
+import { AuthError } from '../services/auth';
 
 interface LoginProps {
-  onLogin: () => void;
+  repository: DataRepository;
+  onLogin: (session: Session) => void;
 }
 
-export default function Login({ onLogin }: LoginProps) {
+export default function Login({ repository, onLogin }: LoginProps) {
   const [username, setUsername] = useState('');
   const [password, setPassword] = useState('');
   const [showPassword, setShowPassword] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsLoading(true);
 
-    // Simulate API call
-    setTimeout(() => {
-      if (username === 'admin' && password === 'admin') {
-        toast.success('Login Berhasil!');
-        onLogin();
+    try {
+      const session = await repository.login(username, password);
+      toast.success(`Selamat datang, ${session.nama}!`);
+      onLogin(session);
+    } catch (error) {
+      console.error("Login failed", error);
+      if (error instanceof AuthError) {
+        toast.error(error.message);
       } else {
-        toast.error('Username atau password salah!');
-        setIsLoading(false);
+        // The password is checked on the server, so logging in needs a connection
+        toast.error("Gagal menghubungi server: " + (error instanceof Error ? error.message : 'coba lagi.'));
       }
-    }, 800);
+      setIsLoading(false);
+    }
   };
 
   return (
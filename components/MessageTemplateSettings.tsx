@@ -0,0 +1,140 @@
+import React, { useState } from 'react';
+import { MessageTemplate } from '../types';
+import { TEMPLATE_PLACEHOLDERS, validateTemplate } from '../utils/parentContact';
+import Modal from './ui/Modal';
+import toast from 'react-hot-toast';
+import { Plus, Pencil, Trash2 } from 'lucide-react';
+
+interface MessageTemplateSettingsProps {
+  templates: MessageTemplate[];
+  onChange: (templates: MessageTemplate[]) => void;
+}
+
+// Admin editor for the messages sent to parents. The first template is preselected.
+export default function MessageTemplateSettings({ templates, onChange }: MessageTemplateSettingsProps) {
+  const [draft, setDraft] = useState<MessageTemplate | null>(null);
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft) return;
+    const cleaned = { ...draft, label: draft.label.trim(), isi: draft.isi.trim() };
+    const error = validateTemplate(templates, cleaned);
+    if (error) {
+      toast.error(error);
+      return;
+    }
+    if (cleaned.id) {
+      onChange(templates.map(t => t.id === cleaned.id ? cleaned : t));
+    } else {
+      onChange([...templates, { ...cleaned, id: `template-${Date.now().toString(36)}` }]);
+    }
+    toast.success("Template pesan disimpan.");
+    setDraft(null);
+  };
+
+  const handleDelete = (template: MessageTemplate) => {
+    if (!window.confirm(`Hapus template "${template.label}"?`)) return;
+    onChange(templates.filter(t => t.id !== template.id));
+  };
+
+  const insertPlaceholder = (key: string) => {
+    if (draft) setDraft({ ...draft, isi: `${draft.isi}{${key}}` });
+  };
+
+  return (
+    <div className="space-y-5">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-bold text-slate-800">📞 Template Pesan Orang Tua</h3>
+          <p className="text-sm text-slate-500">Pesan WhatsApp/SMS yang diisi otomatis dari data siswa dan pelanggaran.</p>
+        </div>
+        <button
+          onClick={() => setDraft({ id: '', label: '', isi: '' })}
+          className="px-5 py-2.5 bg-cyan-600 hover:bg-cyan-700 text-white rounded-xl font-bold shadow-lg shadow-cyan-500/30 transition-all flex items-center justify-center gap-2"
+        >
+          <Plus className="w-4 h-4" /> Tambah Template
+        </button>
+      </div>
+
+      <div className="space-y-2">
+        {templates.map(template => (
+          <div key={template.id} className="p-4 rounded-xl border border-slate-100 bg-white flex items-start gap-4">
+            <div className="flex-1 text-sm">
+              <p className="font-medium text-slate-800">{template.label}</p>
+              <p className="text-xs text-slate-500 mt-1 whitespace-pre-line line-clamp-3">{template.isi}</p>
+            </div>
+            <div className="flex gap-1">
+              <button onClick={() => setDraft(template)} className="p-2 text-slate-400 hover:text-cyan-600 hover:bg-cyan-50 rounded-lg transition-colors" title="Ubah">
+                <Pencil className="w-4 h-4" />
+              </button>
+              <button onClick={() => handleDelete(template)} className="p-2 text-slate-400 hover:text-rose-600 hover:bg-rose-50 rounded-lg transition-colors" title="Hapus">
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+        ))}
+        {templates.length === 0 && (
+          <p className="text-center text-slate-400 py-10 bg-slate-50 rounded-xl border border-dashed border-slate-200">
+            Belum ada template. Pesan harus diketik manual setiap kali menghubungi orang tua.
+          </p>
+        )}
+      </div>
+
+      <Modal isOpen={draft !== null} onClose={() => setDraft(null)} title={draft?.id ? '✏️ Ubah Template' : '➕ Template Baru'}>
+        {draft && (
+          <form onSubmit={handleSave} className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">Nama Template</label>
+              <input
+                type="text"
+                value={draft.label}
+                onChange={(e) => setDraft({ ...draft, label: e.target.value })}
+                className="w-full p-3 bg-slate-50 border border-slate-200 rounded-xl focus:ring-2 focus:ring-cyan-500 outline-none"
+                placeholder="Contoh: Undangan ke sekolah"
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">Isi Pesan</label>
+              <textarea
+                value={draft.isi}
+                onChange={(e) => setDraft({ ...draft, isi: e.target.value })}
+                className="w-full p-3 bg-slate-50 border border-slate-200 rounded-xl focus:ring-2 focus:ring-cyan-500 outline-none min-h-[160px] text-sm"
+                required
+              />
+              <div className="flex flex-wrap gap-1 mt-2">
+                {Object.keys(TEMPLATE_PLACEHOLDERS).map(key => (
+                  <button
+                    key={key}
+                    type="button"
+                    onClick={() => insertPlaceholder(key)}
+                    className="px-2 py-1 text-[11px] font-mono bg-slate-100 hover:bg-cyan-50 hover:text-cyan-700 text-slate-600 rounded"
+                    title={TEMPLATE_PLACEHOLDERS[key]}
+                  >
+                    {`{${key}}`}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div className="flex gap-3 justify-end pt-4 border-t border-slate-100">
+              <button
+                type="button"
+                onClick={() => setDraft(null)}
+                className="px-5 py-2.5 text-slate-600 hover:bg-slate-100 rounded-xl font-medium transition-colors"
+              >
+                Batal
+              </button>
+              <button
+                type="submit"
+                className="px-6 py-2.5 bg-cyan-600 hover:bg-cyan-700 text-white rounded-xl font-bold shadow-lg shadow-cyan-500/30 transition-all"
+              >
+                Simpan
+              </button>
+            </div>
+          </form>
+        )}
+      </Modal>
+    </div>
+  );
+}
@@ -0,0 +1,164 @@
+import React, { useState } from 'react';
+import { ContactChannel, ContactLogEntry, ContactResult, CONTACT_RESULTS, MessageTemplate, Violation } from '../types';
+import Modal from './ui/Modal';
+import SyncBadge from './ui/SyncBadge';
+import { formatDate } from '../utils/date';
+import { buildContactUrl, CONTACT_CHANNEL_LABELS, fillTemplate, normalizePhone } from '../utils/parentContact';
+import { createRecordId } from '../utils/records';
+import toast from 'react-hot-toast';
+import { MessageCircle, Smartphone, Save } from 'lucide-react';
+
+interface ParentContactModalProps {
+  violation: Violation | null;
+  phone: string; // kontak_ortu as stored
+  templates: MessageTemplate[];
+  senderName: string;
+  // Earlier attempts for this violation
+  logs: ContactLogEntry[];
+  onLog: (entry: ContactLogEntry) => void;
+  onClose: () => void;
+}
+
+// Opens WhatsApp or SMS with a filled-in template, then asks how the attempt went so it is logged on the case.
+// Render with key={violation.id} so the form starts fresh for every violation.
+export default function ParentContactModal({ violation, phone, templates, senderName, logs, onLog, onClose }: ParentContactModalProps) {
+  const [templateId, setTemplateId] = useState(templates[0]?.id || '');
+  const [message, setMessage] = useState(() => (violation && templates[0] ? fillTemplate(templates[0].isi, violation, senderName) : ''));
+  const [channel, setChannel] = useState<ContactChannel | null>(null);
+  const [result, setResult] = useState<ContactResult>('Pesan Terkirim');
+  const [note, setNote] = useState('');
+
+  const normalized = normalizePhone(phone);
+
+  const selectTemplate = (id: string) => {
+    setTemplateId(id);
+    const template = templates.find(t => t.id === id);
+    if (template && violation) setMessage(fillTemplate(template.isi, violation, senderName));
+  };
+
+  const handleOpen = (target: ContactChannel) => {
+    if (!normalized) return;
+    window.open(buildContactUrl(target, normalized, message), '_blank', 'noopener');
+    setChannel(target);
+  };
+
+  const handleLog = () => {
+    if (!violation || !channel || !normalized) return;
+    onLog({
+      id: createRecordId('KTK'),
+      kode_pelanggaran: violation.kode_pelanggaran,
+      nis: violation.nis,
+      kanal: channel,
+      nomor: normalized,
+      template_id: templateId,
+      hasil: result,
+      catatan: note.trim(),
+      dihubungi_oleh: senderName,
+      dihubungi_pada: new Date().toISOString(),
+    });
+    toast.success("Kontak orang tua dicatat.");
+    onClose();
+  };
+
+  return (
+    <Modal isOpen={!!violation} onClose={onClose} title="📞 Hubungi Orang Tua">
+      <div className="space-y-5">
+        <div className="bg-indigo-50 p-4 rounded-xl border border-indigo-100 text-sm">
+          <h4 className="font-bold text-indigo-900 mb-1">{violation?.nama_lengkap} ({violation?.kelas})</h4>
+          <p className="text-indigo-700">{violation?.jenis_pelanggaran}</p>
+          <p className="text-indigo-500 text-xs mt-1 font-medium">
+            {normalized ? `Nomor orang tua: ${normalized}` : `Nomor orang tua tidak valid: "${phone || '-'}"`}
+          </p>
+        </div>
+
+        {templates.length > 0 && (
+          <div>
+            <label className="block text-sm font-bold text-slate-700 mb-2">Template Pesan</label>
+            <select
+              className="w-full p-3 bg-white text-slate-900 border border-slate-300 rounded-xl focus:ring-2 focus:ring-cyan-500 outline-none"
+              value={templateId}
+              onChange={(e) => selectTemplate(e.target.value)}
+            >
+              {templates.map(t => <option key={t.id} value={t.id}>{t.label}</option>)}
+            </select>
+          </div>
+        )}
+
+        <div>
+          <label className="block text-sm font-bold text-slate-700 mb-2">Isi Pesan</label>
+          <textarea
+            className="w-full p-4 bg-white text-slate-900 border border-slate-300 rounded-xl focus:ring-2 focus:ring-cyan-500 outline-none min-h-[140px] text-sm"
+            value={message}
+            onChange={(e) => setMessage(e.target.value)}
+          />
+        </div>
+
+        <div className="grid grid-cols-2 gap-3">
+          <button
+            onClick={() => handleOpen('whatsapp')}
+            disabled={!normalized || !message.trim()}
+            className="px-4 py-3 bg-emerald-600 hover:bg-emerald-700 text-white text-sm font-bold rounded-xl transition-colors flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <MessageCircle className="w-4 h-4" /> WhatsApp
+          </button>
+          <button
+            onClick={() => handleOpen('sms')}
+            disabled={!normalized || !message.trim()}
+            className="px-4 py-3 bg-slate-700 hover:bg-slate-800 text-white text-sm font-bold rounded-xl transition-colors flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Smartphone className="w-4 h-4" /> SMS
+          </button>
+        </div>
+
+        {channel && (
+          <div className="bg-slate-50 p-4 rounded-xl border border-slate-200 space-y-3">
+            <p className="text-sm font-bold text-slate-700">Hasil kontak via {CONTACT_CHANNEL_LABELS[channel]}</p>
+            <select
+              className="w-full p-3 bg-white text-slate-900 border border-slate-300 rounded-xl focus:ring-2 focus:ring-cyan-500 outline-none"
+              value={result}
+              onChange={(e) => setResult(e.target.value as ContactResult)}
+            >
+              {CONTACT_RESULTS.map(r => <option key={r} value={r}>{r}</option>)}
+            </select>
+            <input
+              type="text"
+              className="w-full p-3 bg-white text-slate-900 border border-slate-300 rounded-xl focus:ring-2 focus:ring-cyan-500 outline-none"
+              placeholder="Catatan (opsional), contoh: Ibu akan datang hari Senin"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+            />
+            <div className="flex justify-end">
+              <button
+                onClick={handleLog}
+                className="px-6 py-2.5 bg-cyan-600 hover:bg-cyan-700 text-white rounded-xl font-bold shadow-lg shadow-cyan-500/30 transition-all flex items-center gap-2"
+              >
+                <Save className="w-4 h-4" /> Simpan Catatan Kontak
+              </button>
+            </div>
+          </div>
+        )}
+
+        {logs.length > 0 && (
+          <div>
+            <p className="text-[10px] uppercase font-bold text-slate-400 mb-2">Riwayat Kontak</p>
+            <div className="space-y-2">
+              {logs.map(log => (
+                <div key={log.id} className="text-xs bg-white p-3 rounded-lg border border-slate-100">
+                  <div className="flex items-center gap-2 flex-wrap">
+                    <span className="font-bold text-slate-700">{CONTACT_CHANNEL_LABELS[log.kanal]}</span>
+                    <span className="px-2 py-0.5 rounded-full bg-slate-100 text-slate-600 font-medium">{log.hasil}</span>
+                    <SyncBadge status={log.sync_status} />
+                  </div>
+                  <p className="text-slate-400 mt-1">
+                    {formatDate(log.dihubungi_pada, { day: 'numeric', month: 'short', year: 'numeric', hour: '2-digit', minute: '2-digit' })} • {log.dihubungi_oleh}
+                  </p>
+                  {log.catatan && <p className="text-slate-600 mt-1">{log.catatan}</p>}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </Modal>
+  );
+}
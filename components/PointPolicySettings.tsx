@@ -0,0 +1,77 @@
+import React, { useState, useEffect } from 'react';
+import { PointPolicy, PointResetRule } from '../types';
+import { POINT_RESET_LABELS } from '../utils/terms';
+import toast from 'react-hot-toast';
+import { Save } from 'lucide-react';
+
+interface PointPolicySettingsProps {
+  policy: PointPolicy;
+  onChange: (policy: PointPolicy) => void;
+}
+
+// Admin editor for when accumulated points start over. Violations are never deleted:
+// earlier semesters stay readable through the semester selector.
+export default function PointPolicySettings({ policy, onChange }: PointPolicySettingsProps) {
+  const [draft, setDraft] = useState<PointPolicy>(policy);
+
+  useEffect(() => {
+    setDraft(policy);
+  }, [policy]);
+
+  const handleSave = () => {
+    if (!Number.isInteger(draft.persen_bawaan) || draft.persen_bawaan < 0 || draft.persen_bawaan > 100) {
+      toast.error('Poin bawaan harus bilangan bulat 0 sampai 100.');
+      return;
+    }
+    onChange(draft);
+    toast.success("Aturan periode poin disimpan.");
+  };
+
+  return (
+    <div className="space-y-5">
+      <div>
+        <h3 className="text-lg font-bold text-slate-800">📅 Periode Poin</h3>
+        <p className="text-sm text-slate-500">
+          Semester Ganjil berjalan Juli–Desember, Genap Januari–Juni. Riwayat semester sebelumnya tetap bisa dibuka.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-5">
+        <div>
+          <label className="block text-sm font-bold text-slate-700 mb-2">Poin direset</label>
+          <select
+            value={draft.reset}
+            onChange={(e) => setDraft({ ...draft, reset: e.target.value as PointResetRule })}
+            className="w-full p-3 bg-slate-50 border border-slate-200 rounded-xl focus:ring-2 focus:ring-cyan-500 outline-none"
+          >
+            {(Object.keys(POINT_RESET_LABELS) as PointResetRule[]).map(rule => (
+              <option key={rule} value={rule}>{POINT_RESET_LABELS[rule]}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-bold text-slate-700 mb-2">Poin bawaan ke periode berikutnya (%)</label>
+          <input
+            type="number"
+            min={0}
+            max={100}
+            value={draft.persen_bawaan}
+            disabled={draft.reset === 'tidak_direset'}
+            onChange={(e) => setDraft({ ...draft, persen_bawaan: Number(e.target.value) })}
+            className="w-full p-3 bg-slate-50 border border-slate-200 rounded-xl focus:ring-2 focus:ring-cyan-500 outline-none disabled:opacity-50"
+          />
+          <p className="text-xs text-slate-400 mt-1">0 = mulai dari nol, 50 = separuh poin terbawa, 100 = poin terus berlanjut.</p>
+        </div>
+      </div>
+
+      <div className="flex justify-end">
+        <button
+          onClick={handleSave}
+          className="px-6 py-2.5 bg-cyan-600 hover:bg-cyan-700 text-white rounded-xl font-bold shadow-lg shadow-cyan-500/30 transition-all flex items-center gap-2"
+        >
+          <Save className="w-4 h-4" /> Simpan Aturan
+        </button>
+      </div>
+    </div>
+  );
+}
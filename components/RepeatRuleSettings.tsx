@@ -0,0 +1,183 @@
+import React, { useState } from 'react';
+import { RepeatRule } from '../types';
+import { describeRepeatRule, REPEAT_SCOPE_LABELS, validateRepeatRule } from '../utils/repeatRules';
+import Modal from './ui/Modal';
+import toast from 'react-hot-toast';
+import { Plus, Pencil, Trash2, Power } from 'lucide-react';
+
+interface RepeatRuleSettingsProps {
+  rules: RepeatRule[];
+  // Labels of the active violation types, offered when a rule targets one type
+  typeLabels: string[];
+  onChange: (rules: RepeatRule[]) => void;
+}
+
+const emptyRule = (): RepeatRule => ({
+  id: '',
+  jenis_pelanggaran: '',
+  kejadian_ke: 3,
+  lingkup: 'semester',
+  pengali_poin: 2,
+  naikkan_kategori: false,
+  aktif: true,
+});
+
+// Admin editor for repeat-offense rules. A rule only affects violations recorded after it is
+// saved; the rule applied is stored on each violation.
+export default function RepeatRuleSettings({ rules, typeLabels, onChange }: RepeatRuleSettingsProps) {
+  const [draft, setDraft] = useState<RepeatRule | null>(null);
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft) return;
+    const error = validateRepeatRule(draft);
+    if (error) {
+      toast.error(error);
+      return;
+    }
+    if (draft.id) {
+      onChange(rules.map(r => r.id === draft.id ? draft : r));
+    } else {
+      onChange([...rules, { ...draft, id: `aturan-${Date.now().toString(36)}` }]);
+    }
+    toast.success("Aturan pelanggaran berulang disimpan.");
+    setDraft(null);
+  };
+
+  const handleToggle = (rule: RepeatRule) => {
+    onChange(rules.map(r => r.id === rule.id ? { ...r, aktif: !r.aktif } : r));
+  };
+
+  const handleDelete = (rule: RepeatRule) => {
+    if (!window.confirm(`Hapus aturan "${describeRepeatRule(rule)}"?`)) return;
+    onChange(rules.filter(r => r.id !== rule.id));
+  };
+
+  return (
+    <div className="space-y-5">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-bold text-slate-800">🔁 Pelanggaran Berulang</h3>
+          <p className="text-sm text-slate-500">Poin atau kategori naik bila siswa mengulangi jenis pelanggaran yang sama.</p>
+        </div>
+        <button
+          onClick={() => setDraft(emptyRule())}
+          className="px-5 py-2.5 bg-cyan-600 hover:bg-cyan-700 text-white rounded-xl font-bold shadow-lg shadow-cyan-500/30 transition-all flex items-center justify-center gap-2"
+        >
+          <Plus className="w-4 h-4" /> Tambah Aturan
+        </button>
+      </div>
+
+      <div className="space-y-2">
+        {rules.map(rule => (
+          <div key={rule.id} className={`p-4 rounded-xl border border-slate-100 bg-white flex items-center gap-4 ${rule.aktif ? '' : 'opacity-50'}`}>
+            <div className="flex-1 text-sm">
+              <p className="font-medium text-slate-800">{describeRepeatRule(rule)}</p>
+              {!rule.aktif && <span className="text-[10px] font-bold uppercase text-slate-400">Nonaktif</span>}
+            </div>
+            <div className="flex gap-1">
+              <button onClick={() => setDraft(rule)} className="p-2 text-slate-400 hover:text-cyan-600 hover:bg-cyan-50 rounded-lg transition-colors" title="Ubah">
+                <Pencil className="w-4 h-4" />
+              </button>
+              <button onClick={() => handleToggle(rule)} className="p-2 text-slate-400 hover:text-amber-600 hover:bg-amber-50 rounded-lg transition-colors" title={rule.aktif ? 'Nonaktifkan' : 'Aktifkan'}>
+                <Power className="w-4 h-4" />
+              </button>
+              <button onClick={() => handleDelete(rule)} className="p-2 text-slate-400 hover:text-rose-600 hover:bg-rose-50 rounded-lg transition-colors" title="Hapus">
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+        ))}
+        {rules.length === 0 && (
+          <p className="text-center text-slate-400 py-10 bg-slate-50 rounded-xl border border-dashed border-slate-200">
+            Belum ada aturan. Setiap pelanggaran diberi poin sesuai katalog.
+          </p>
+        )}
+      </div>
+
+      <Modal isOpen={draft !== null} onClose={() => setDraft(null)} title={draft?.id ? '✏️ Ubah Aturan' : '➕ Aturan Baru'}>
+        {draft && (
+          <form onSubmit={handleSave} className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">Jenis Pelanggaran</label>
+              <select
+                value={draft.jenis_pelanggaran}
+                onChange={(e) => setDraft({ ...draft, jenis_pelanggaran: e.target.value })}
+                className="w-full p-3 bg-slate-50 border border-slate-200 rounded-xl focus:ring-2 focus:ring-cyan-500 outline-none"
+              >
+                <option value="">Semua jenis (dihitung per jenis)</option>
+                {draft.jenis_pelanggaran && !typeLabels.includes(draft.jenis_pelanggaran) && (
+                  <option value={draft.jenis_pelanggaran}>{draft.jenis_pelanggaran}</option>
+                )}
+                {typeLabels.map(label => <option key={label} value={label}>{label}</option>)}
+              </select>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Mulai Kejadian Ke-</label>
+                <input
+                  type="number"
+                  min={2}
+                  value={draft.kejadian_ke}
+                  onChange={(e) => setDraft({ ...draft, kejadian_ke: parseInt(e.target.value) })}
+                  className="w-full p-3 bg-slate-50 border border-slate-200 rounded-xl focus:ring-2 focus:ring-cyan-500 outline-none"
+                  required
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Dihitung Dalam</label>
+                <select
+                  value={draft.lingkup}
+                  onChange={(e) => setDraft({ ...draft, lingkup: e.target.value as RepeatRule['lingkup'] })}
+                  className="w-full p-3 bg-slate-50 border border-slate-200 rounded-xl focus:ring-2 focus:ring-cyan-500 outline-none"
+                >
+                  {(Object.keys(REPEAT_SCOPE_LABELS) as RepeatRule['lingkup'][]).map(l => (
+                    <option key={l} value={l}>{REPEAT_SCOPE_LABELS[l]}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Pengali Poin</label>
+                <input
+                  type="number"
+                  min={1}
+                  step={0.5}
+                  value={draft.pengali_poin}
+                  onChange={(e) => setDraft({ ...draft, pengali_poin: parseFloat(e.target.value) })}
+                  className="w-full p-3 bg-slate-50 border border-slate-200 rounded-xl focus:ring-2 focus:ring-cyan-500 outline-none"
+                  required
+                />
+              </div>
+              <label className="flex items-center gap-2 text-sm text-slate-700 font-medium pt-6">
+                <input
+                  type="checkbox"
+                  checked={draft.naikkan_kategori}
+                  onChange={(e) => setDraft({ ...draft, naikkan_kategori: e.target.checked })}
+                  className="rounded"
+                />
+                Naikkan kategori satu tingkat
+              </label>
+            </div>
+            <p className="text-xs text-slate-500 bg-slate-50 p-3 rounded-xl border border-slate-200">{describeRepeatRule(draft)}</p>
+
+            <div className="flex gap-3 justify-end pt-4 border-t border-slate-100">
+              <button
+                type="button"
+                onClick={() => setDraft(null)}
+                className="px-5 py-2.5 text-slate-600 hover:bg-slate-100 rounded-xl font-medium transition-colors"
+              >
+                Batal
+              </button>
+              <button
+                type="submit"
+                className="px-6 py-2.5 bg-cyan-600 hover:bg-cyan-700 text-white rounded-xl font-bold shadow-lg shadow-cyan-500/30 transition-all"
+              >
+                Simpan
+              </button>
+            </div>
+          </form>
+        )}
+      </Modal>
+    </div>
+  );
+}
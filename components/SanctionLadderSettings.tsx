@@ -0,0 +1,123 @@
+import React, { useState, useEffect } from 'react';
+import { SanctionLevel } from '../types';
+import { sortLadder, validateLadder } from '../utils/sanctions';
+import toast from 'react-hot-toast';
+import { Plus, Trash2, Save } from 'lucide-react';
+
+interface SanctionLadderSettingsProps {
+  ladder: SanctionLevel[];
+  onChange: (ladder: SanctionLevel[]) => void;
+}
+
+// Admin editor for the cumulative-point sanction ladder. Level ids are kept when a row is
+// edited, so sanctions already issued stay linked to their level.
+export default function SanctionLadderSettings({ ladder, onChange }: SanctionLadderSettingsProps) {
+  const [rows, setRows] = useState<SanctionLevel[]>(() => sortLadder(ladder));
+
+  useEffect(() => {
+    setRows(sortLadder(ladder));
+  }, [ladder]);
+
+  const updateRow = (index: number, patch: Partial<SanctionLevel>) => {
+    setRows(prev => prev.map((row, i) => i === index ? { ...row, ...patch } : row));
+  };
+
+  const addRow = () => {
+    const highest = rows.reduce((max, r) => Math.max(max, r.poin_minimal), 0);
+    setRows(prev => [...prev, { id: `tingkat-${Date.now()}`, poin_minimal: highest + 25, label: '', tindakan: '' }]);
+  };
+
+  const handleSave = () => {
+    const cleaned = rows.map(r => ({ ...r, label: r.label.trim(), tindakan: r.tindakan.trim() }));
+    const error = validateLadder(cleaned);
+    if (error) {
+      toast.error(error);
+      return;
+    }
+    onChange(sortLadder(cleaned));
+    toast.success("Tangga sanksi disimpan.");
+  };
+
+  return (
+    <div className="space-y-5">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-bold text-slate-800">🛡️ Tangga Sanksi</h3>
+          <p className="text-sm text-slate-500">
+            Saat total poin siswa mencapai batas, tugas sanksi dibuat otomatis di menu Tindak Lanjut.
+          </p>
+        </div>
+        <button
+          onClick={addRow}
+          className="px-5 py-2.5 text-cyan-700 bg-cyan-50 hover:bg-cyan-100 rounded-xl font-bold transition-colors flex items-center justify-center gap-2"
+        >
+          <Plus className="w-4 h-4" /> Tambah Tingkat
+        </button>
+      </div>
+
+      <div className="bg-white rounded-2xl border border-slate-100 overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-[10px] uppercase tracking-wider text-slate-400 border-b border-slate-100">
+              <th className="px-4 py-3 w-28">Batas Poin</th>
+              <th className="px-4 py-3 w-40">Tingkat</th>
+              <th className="px-4 py-3">Tindakan</th>
+              <th className="px-4 py-3 text-right">Aksi</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row, index) => (
+              <tr key={row.id} className="border-b border-slate-50">
+                <td className="px-4 py-2">
+                  <input
+                    type="number"
+                    min={1}
+                    value={row.poin_minimal}
+                    onChange={(e) => updateRow(index, { poin_minimal: Number(e.target.value) })}
+                    className="w-full p-2 bg-slate-50 border border-slate-200 rounded-lg focus:ring-2 focus:ring-cyan-500 outline-none"
+                  />
+                </td>
+                <td className="px-4 py-2">
+                  <input
+                    type="text"
+                    value={row.label}
+                    placeholder="Contoh: SP1"
+                    onChange={(e) => updateRow(index, { label: e.target.value })}
+                    className="w-full p-2 bg-slate-50 border border-slate-200 rounded-lg focus:ring-2 focus:ring-cyan-500 outline-none"
+                  />
+                </td>
+                <td className="px-4 py-2">
+                  <input
+                    type="text"
+                    value={row.tindakan}
+                    placeholder="Contoh: Surat peringatan dan panggilan orang tua"
+                    onChange={(e) => updateRow(index, { tindakan: e.target.value })}
+                    className="w-full p-2 bg-slate-50 border border-slate-200 rounded-lg focus:ring-2 focus:ring-cyan-500 outline-none"
+                  />
+                </td>
+                <td className="px-4 py-2 text-right">
+                  <button
+                    onClick={() => setRows(prev => prev.filter((_, i) => i !== index))}
+                    className="p-2 text-slate-400 hover:text-rose-600 hover:bg-rose-50 rounded-lg transition-colors"
+                    title="Hapus tingkat"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex justify-end">
+        <button
+          onClick={handleSave}
+          className="px-6 py-2.5 bg-cyan-600 hover:bg-cyan-700 text-white rounded-xl font-bold shadow-lg shadow-cyan-500/30 transition-all flex items-center gap-2"
+        >
+          <Save className="w-4 h-4" /> Simpan Tangga Sanksi
+        </button>
+      </div>
+    </div>
+  );
+}
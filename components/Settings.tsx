@@ -0,0 +1,111 @@
+import React, { useState } from 'react';
+import { AchievementType, AppSettings, CaseWorkflow, Letterhead, LocationOption, MessageTemplate, PointPolicy, RepeatRule, SanctionLevel, SettingKey, Violation, ViolationCatalog } from '../types';
+import CatalogSettings from './CatalogSettings';
+import SanctionLadderSettings from './SanctionLadderSettings';
+import PointPolicySettings from './PointPolicySettings';
+import AchievementCatalogSettings from './AchievementCatalogSettings';
+import RepeatRuleSettings from './RepeatRuleSettings';
+import CaseWorkflowSettings from './CaseWorkflowSettings';
+import MessageTemplateSettings from './MessageTemplateSettings';
+import LetterheadSettings from './LetterheadSettings';
+import LocationCatalogSettings from './LocationCatalogSettings';
+import { getActiveTypes } from '../utils/catalog';
+import { nowInJakarta } from '../utils/date';
+import { Settings as SettingsIcon } from 'lucide-react';
+
+interface SettingsProps {
+  catalog: ViolationCatalog;
+  sanctionLadder: SanctionLevel[];
+  pointPolicy: PointPolicy;
+  achievementCatalog: AchievementType[];
+  repeatRules: RepeatRule[];
+  caseWorkflow: CaseWorkflow;
+  messageTemplates: MessageTemplate[];
+  letterhead: Letterhead;
+  locationCatalog: LocationOption[];
+  // Checked against the location catalog to show how older entries are read
+  recordedViolations: Violation[];
+  onSave: <K extends SettingKey>(key: K, value: AppSettings[K]) => void;
+}
+
+type SectionId = 'katalog' | 'berulang' | 'lokasi' | 'prestasi' | 'sanksi' | 'alur' | 'pesan' | 'surat' | 'periode';
+
+const SECTIONS: { id: SectionId, label: string }[] = [
+  { id: 'katalog', label: 'Katalog Pelanggaran' },
+  { id: 'berulang', label: 'Pelanggaran Berulang' },
+  { id: 'lokasi', label: 'Katalog Lokasi' },
+  { id: 'prestasi', label: 'Katalog Prestasi' },
+  { id: 'sanksi', label: 'Tangga Sanksi' },
+  { id: 'alur', label: 'Alur Tindak Lanjut' },
+  { id: 'pesan', label: 'Template Pesan' },
+  { id: 'surat', label: 'Kop Surat' },
+  { id: 'periode', label: 'Periode Poin' },
+];
+
+// Admin-only screen. Every section edits one key of the settings sheet.
+export default function Settings({ catalog, sanctionLadder, pointPolicy, achievementCatalog, repeatRules, caseWorkflow, messageTemplates, letterhead, locationCatalog, recordedViolations, onSave }: SettingsProps) {
+  const [section, setSection] = useState<SectionId>('katalog');
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white p-5 rounded-2xl shadow-sm border border-slate-100">
+        <h2 className="text-2xl font-bold text-slate-800 flex items-center gap-2">
+          <SettingsIcon className="w-7 h-7 text-cyan-600" />
+          Pengaturan
+        </h2>
+        <p className="text-slate-500 text-sm mt-1">Perubahan disimpan ke server dan berlaku untuk semua pengguna.</p>
+        <div className="flex flex-wrap gap-2 mt-4">
+          {SECTIONS.map(s => (
+            <button
+              key={s.id}
+              onClick={() => setSection(s.id)}
+              className={`px-4 py-2 rounded-lg text-sm font-semibold transition-colors ${
+                section === s.id ? 'bg-cyan-50 text-cyan-700 ring-1 ring-cyan-200' : 'text-slate-500 hover:bg-slate-50'
+              }`}
+            >
+              {s.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="bg-white p-6 rounded-2xl shadow-sm border border-slate-100">
+        {section === 'katalog' && (
+          <CatalogSettings catalog={catalog} onChange={(value) => onSave('violation_catalog', value)} />
+        )}
+        {section === 'berulang' && (
+          <RepeatRuleSettings
+            rules={repeatRules}
+            typeLabels={getActiveTypes(catalog, nowInJakarta().date).map(t => t.label)}
+            onChange={(value) => onSave('repeat_rules', value)}
+          />
+        )}
+        {section === 'lokasi' && (
+          <LocationCatalogSettings
+            locations={locationCatalog}
+            violations={recordedViolations}
+            onChange={(value) => onSave('location_catalog', value)}
+          />
+        )}
+        {section === 'prestasi' && (
+          <AchievementCatalogSettings catalog={achievementCatalog} onChange={(value) => onSave('achievement_catalog', value)} />
+        )}
+        {section === 'sanksi' && (
+          <SanctionLadderSettings ladder={sanctionLadder} onChange={(value) => onSave('sanction_ladder', value)} />
+        )}
+        {section === 'alur' && (
+          <CaseWorkflowSettings workflow={caseWorkflow} onChange={(value) => onSave('case_workflow', value)} />
+        )}
+        {section === 'pesan' && (
+          <MessageTemplateSettings templates={messageTemplates} onChange={(value) => onSave('message_templates', value)} />
+        )}
+        {section === 'surat' && (
+          <LetterheadSettings letterhead={letterhead} onChange={(value) => onSave('letterhead', value)} />
+        )}
+        {section === 'periode' && (
+          <PointPolicySettings policy={pointPolicy} onChange={(value) => onSave('point_policy', value)} />
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,138 +1,68 @@
 import React, { useState, useMemo } from 'react';
-import { Student, Violation } from '../types';
-import { Search, Filter, Trophy, AlertCircle, ChevronDown } from 'lucide-react';
+import { AchievementRecord, AttachmentRecord, ContactLogEntry, FollowUpEntry, IssuedLetter, Letterhead, MessageTemplate, PointPolicy, SanctionLevel, SanctionRecord, Student, Term, Violation } from '../types';
+import { Search, Filter, Trophy, AlertCircle, ChevronDown, ShieldAlert, Award, Phone, FileText, Printer, Eye, Ban } from 'lucide-react';
 import Modal from './ui/Modal';
-
-// --- HELPER FUNCTIONS ---
-
-// Normalize class string to a strict ID for comparison
-// Removes all non-alphanumeric characters to prevent issues with spaces, dashes, etc.
-const normalizeClass = (cls: any) => {
-  if (!cls) return '';
-  // Only allow A-Z and 0-9. This prevents "7 A" and "7-A" from being treated differently
-  // and ensures "7B" doesn't partially match "7 A" via regex errors
-  return String(cls).toUpperCase().replace(/[^A-Z0-9]/g, '');
-};
-
-// Helper to extract numeric value from class string for sorting
-// Handles "7A" -> 7, "VIIA" -> 7
-const getClassRank = (clsLabel: string): number => {
-  const normalized = normalizeClass(clsLabel);
-  
-  // Match Roman numerals or Arabic numbers at the start
-  // Example: "VIIA" -> match "VII", "7A" -> match "7"
-  const match = normalized.match(/^((?:X{0,3})(?:IX|IV|V?I{0,3})|\d+)/);
-  
-  if (!match) return 999; 
-  
-  const prefix = match[0];
-  
-  // Roman Map
-  const romans: Record<string, number> = {
-    'I': 1, 'II': 2, 'III': 3, 'IV': 4, 'V': 5, 'VI': 6,
-    'VII': 7, 'VIII': 8, 'IX': 9, 'X': 10, 'XI': 11, 'XII': 12
-  };
-
-  if (romans[prefix]) return romans[prefix];
-  
-  const num = parseInt(prefix);
-  return isNaN(num) ? 999 : num;
-};
-
-// Format normalized ID to readable label
-// Tries to insert space between Grade and Suffix (e.g. "7A" -> "7 A") for better readability
-const formatClassLabel = (id: string) => {
-  // Roman Numerals
-  const romanMatch = id.match(/^((?:X{0,3})(?:IX|IV|V?I{0,3}))(.+)$/);
-  if (romanMatch) {
-    return `${romanMatch[1]} ${romanMatch[2]}`;
-  }
-
-  // Numeric
-  const numMatch = id.match(/^(\d+)(.+)$/);
-  if (numMatch) {
-    return `${numMatch[1]} ${numMatch[2]}`;
-  }
-
-  return id;
-};
-
-// Comparator function for sorting classes
-const compareClasses = (classA: string, classB: string) => {
-  const normA = normalizeClass(classA);
-  const normB = normalizeClass(classB);
-
-  // 1. Compare by Rank (Grade Level)
-  const rankA = getClassRank(normA);
-  const rankB = getClassRank(normB);
-
-  if (rankA !== rankB) {
-    return rankA - rankB;
-  }
-
-  // 2. If Grade Level is same, Natural Sort the rest of the string
-  // This handles "7A" vs "7B" correctly
-  return normA.localeCompare(normB, 'en', { numeric: true });
-};
+import SyncBadge from './ui/SyncBadge';
+import FollowUpTimeline from './FollowUpTimeline';
+import ParentContactModal from './ParentContactModal';
+import LetterModal from './LetterModal';
+import AttachmentGallery from './AttachmentGallery';
+import { compareByIncidentDesc, formatDate } from '../utils/date';
+import { computeTermPoints, EMPTY_POINTS } from '../utils/points';
+import { getSanctionLevel, getSanctionTerm } from '../utils/sanctions';
+import { groupFollowUps } from '../utils/caseWorkflow';
+import { groupAttachments } from '../utils/attachments';
+import { buildLetterHtml, LETTER_TYPE_LABELS, printLetter } from '../utils/letters';
+import toast from 'react-hot-toast';
+import { formatTerm } from '../utils/terms';
+import { compareClasses, formatClassLabel, listClasses, normalizeClass } from '../utils/classes';
 
 interface StudentListProps {
   students: Student[];
   violations: Violation[];
+  // Kept apart: shown for the record, never counted
+  voidedViolations: Violation[];
+  // Opens the violation detail (edit, void, reopen)
+  onViewViolation: (violation: Violation) => void;
+  // Reward points offset violation points
+  achievements: AchievementRecord[];
+  ladder: SanctionLevel[];
+  sanctions: SanctionRecord[];
+  followUps: FollowUpEntry[];
+  // Parent contact from a violation; only offered when canContact
+  canContact: boolean;
+  messageTemplates: MessageTemplate[];
+  contactLogs: ContactLogEntry[];
+  onLogContact: (entry: ContactLogEntry) => void;
+  currentUserName: string;
+  // Official letters issued to students; new ones only when canIssueLetters
+  canIssueLetters: boolean;
+  letters: IssuedLetter[];
+  letterhead: Letterhead;
+  onIssueLetter: (letter: IssuedLetter) => void;
+  // Evidence files; empty for roles that may not view them
+  attachments: AttachmentRecord[];
+  onLoadAttachment: (id: string) => Promise<string>;
+  // Points are those at the end of this term under the reset policy
+  pointPolicy: PointPolicy;
+  term: Term;
 }
 
-export default function StudentList({ students, violations }: StudentListProps) {
+export default function StudentList({ students, violations, voidedViolations, onViewViolation, achievements, ladder, sanctions, followUps, canContact, messageTemplates, contactLogs, onLogContact, currentUserName, canIssueLetters, letters, letterhead, onIssueLetter, attachments, onLoadAttachment, pointPolicy, term }: StudentListProps) {
   const [searchTerm, setSearchTerm] = useState('');
+  const [contactViolation, setContactViolation] = useState<Violation | null>(null);
+  const [isLetterOpen, setIsLetterOpen] = useState(false);
   const [filterClass, setFilterClass] = useState('');
   const [selectedStudentNis, setSelectedStudentNis] = useState<string | null>(null);
 
   // Calculate points map
-  const studentPoints = useMemo(() => {
-    const points: Record<string, { total: number, count: number, violations: Violation[] }> = {};
-    
-    // Initialize all students with 0
-    students.forEach(s => {
-      points[s.nis] = { total: 0, count: 0, violations: [] };
-    });
-
-    // Accumulate violations
-    violations.forEach(v => {
-      if (!points[v.nis]) {
-         points[v.nis] = { total: 0, count: 0, violations: [] };
-      }
-      points[v.nis].total += v.poin_pelanggaran;
-      points[v.nis].count += 1;
-      points[v.nis].violations.push(v);
-    });
-
-    return points;
-  }, [students, violations]);
+  const studentPoints = useMemo(
+    () => computeTermPoints(violations, achievements, pointPolicy, term),
+    [violations, achievements, pointPolicy, term]
+  );
 
   // Generate Dropdown Options
-  const classOptions = useMemo(() => {
-    const uniqueIDs = new Set<string>();
-    const labelMap = new Map<string, string>();
-    
-    students.forEach(s => {
-      const id = normalizeClass(s.kelas);
-      // Only add if valid class string exists
-      if (id) {
-        uniqueIDs.add(id);
-        // Store the most readable version found, or format it
-        if (!labelMap.has(id)) {
-           // Try to use original class if it's clean, otherwise format the ID
-           const original = s.kelas?.trim();
-           labelMap.set(id, (original && original.length < 10) ? original : formatClassLabel(id));
-        }
-      }
-    });
-
-    return Array.from(uniqueIDs)
-      .map(id => ({
-        value: id,
-        label: labelMap.get(id) || id
-      }))
-      .sort((a, b) => compareClasses(a.value, b.value)); // Sort options using class comparator
-  }, [students]);
+  const classOptions = useMemo(() => listClasses(students), [students]);
 
   // Filter and Sort logic
   const filteredStudents = useMemo(() => {
@@ -171,7 +101,33 @@ export default function StudentList({ students, violations }: StudentListProps)
   }, [students, searchTerm, filterClass]);
 
   const selectedStudentData = selectedStudentNis ? students.find(s => s.nis === selectedStudentNis) : null;
-  const selectedStudentStats = selectedStudentNis ? studentPoints[selectedStudentNis] : null;
+  const selectedStudentStats = selectedStudentNis ? studentPoints.get(selectedStudentNis) : null;
+  const selectedStudentLevel = selectedStudentStats ? getSanctionLevel(ladder, selectedStudentStats.total) : null;
+  const selectedStudentSanctions = selectedStudentNis
+    ? sanctions.filter(r => r.nis === selectedStudentNis).sort((a, b) => b.dibuat_pada.localeCompare(a.dibuat_pada))
+    : [];
+  const followUpsByCode = useMemo(() => groupFollowUps(followUps), [followUps]);
+  const attachmentsByCode = useMemo(() => groupAttachments(attachments), [attachments]);
+  const selectedStudentVoided = selectedStudentNis
+    ? voidedViolations.filter(v => v.nis === selectedStudentNis).sort(compareByIncidentDesc)
+    : [];
+  const selectedStudentLetters = selectedStudentNis
+    ? letters.filter(l => l.nis === selectedStudentNis).sort((a, b) => b.dibuat_pada.localeCompare(a.dibuat_pada))
+    : [];
+
+  const handleReprint = (letter: IssuedLetter) => {
+    const listed = letter.kode_pelanggaran
+      .map(kode => violations.find(v => v.kode_pelanggaran === kode) || voidedViolations.find(v => v.kode_pelanggaran === kode))
+      .filter((v): v is Violation => !!v);
+    if (!printLetter(buildLetterHtml(letterhead, letter, listed))) {
+      toast.error("Pop-up diblokir browser. Izinkan pop-up untuk mencetak surat.");
+    }
+  };
+  const selectedContactLogs = contactViolation
+    ? contactLogs
+        .filter(log => log.kode_pelanggaran === contactViolation.kode_pelanggaran)
+        .sort((a, b) => b.dihubungi_pada.localeCompare(a.dihubungi_pada))
+    : [];
 
   return (
     <div className="space-y-6">
@@ -213,10 +169,11 @@ export default function StudentList({ students, violations }: StudentListProps)
         </div>
 
         {filteredStudents.map((s, index) => {
-          const stats = studentPoints[s.nis] || { total: 0, count: 0, violations: [] };
+          const stats = studentPoints.get(s.nis) || EMPTY_POINTS;
+          const level = getSanctionLevel(ladder, stats.total);
+          // Red once the first step of the sanction ladder is reached
           const isSafe = stats.total === 0;
-          const isWarning = stats.total > 0 && stats.total <= 50;
-          const isDanger = stats.total > 50;
+          const isWarning = stats.total > 0 && !level;
           
           // Display Class Label cleanly - use original if avail or fallback to formatted
           const displayClass = s.kelas || formatClassLabel(normalizeClass(s.kelas));
@@ -240,6 +197,11 @@ export default function StudentList({ students, violations }: StudentListProps)
                     <span className="font-bold text-slate-700 bg-slate-100 px-1.5 py-0.5 rounded mr-1">{displayClass}</span> 
                     • {s.nis}
                   </p>
+                  {level && (
+                    <span className="inline-flex items-center gap-1 mt-1 px-2 py-0.5 bg-rose-100 text-rose-700 text-[10px] font-black rounded uppercase tracking-wide">
+                      <ShieldAlert className="w-3 h-3" /> {level.label}
+                    </span>
+                  )}
                 </div>
               </div>
 
@@ -248,8 +210,14 @@ export default function StudentList({ students, violations }: StudentListProps)
                   <p className="text-[10px] text-slate-400 font-bold uppercase tracking-wider">Kasus</p>
                   <p className="font-bold text-slate-700">{stats.count}</p>
                 </div>
+                {stats.poin_prestasi > 0 && (
+                  <div className="text-center hidden xs:block">
+                    <p className="text-[10px] text-slate-400 font-bold uppercase tracking-wider">Prestasi</p>
+                    <p className="font-bold text-emerald-600">-{stats.poin_prestasi}</p>
+                  </div>
+                )}
                 <div className="text-center min-w-[60px]">
-                  <p className="text-[10px] text-slate-400 font-bold uppercase tracking-wider whitespace-nowrap">Total Poin</p>
+                  <p className="text-[10px] text-slate-400 font-bold uppercase tracking-wider whitespace-nowrap">Skor Bersih</p>
                   <p className={`text-xl font-black ${
                     isSafe ? 'text-emerald-600' : isWarning ? 'text-amber-600' : 'text-rose-600'
                   }`}>{stats.total}</p>
@@ -304,15 +272,30 @@ export default function StudentList({ students, violations }: StudentListProps)
                 <h3 className="text-xl font-bold">{selectedStudentData.nama_lengkap}</h3>
                 <p className="text-cyan-100 opacity-90 font-medium">{selectedStudentData.kelas} • {selectedStudentData.nis}</p>
                 
-                <div className="flex justify-center gap-8 mt-6">
+                <div className="flex justify-center flex-wrap gap-3 mt-6">
                   <div className="bg-white/10 px-4 py-2 rounded-xl backdrop-blur-sm">
-                    <p className="text-[10px] uppercase tracking-wider opacity-80 font-bold">Total Poin</p>
+                    <p className="text-[10px] uppercase tracking-wider opacity-80 font-bold">Pelanggaran</p>
+                    <p className="text-2xl font-black">{selectedStudentStats?.poin_pelanggaran || 0}</p>
+                  </div>
+                  <div className="bg-white/10 px-4 py-2 rounded-xl backdrop-blur-sm">
+                    <p className="text-[10px] uppercase tracking-wider opacity-80 font-bold">Prestasi</p>
+                    <p className="text-2xl font-black">-{selectedStudentStats?.poin_prestasi || 0}</p>
+                  </div>
+                  <div className="bg-white/10 px-4 py-2 rounded-xl backdrop-blur-sm">
+                    <p className="text-[10px] uppercase tracking-wider opacity-80 font-bold">Skor Bersih</p>
                     <p className="text-2xl font-black">{selectedStudentStats?.total || 0}</p>
+                    {!!selectedStudentStats?.bawaan && (
+                      <p className="text-[10px] opacity-80">termasuk {selectedStudentStats.bawaan} bawaan</p>
+                    )}
                   </div>
                   <div className="bg-white/10 px-4 py-2 rounded-xl backdrop-blur-sm">
                     <p className="text-[10px] uppercase tracking-wider opacity-80 font-bold">Kasus</p>
                     <p className="text-2xl font-black">{selectedStudentStats?.count || 0}</p>
                   </div>
+                  <div className="bg-white/10 px-4 py-2 rounded-xl backdrop-blur-sm">
+                    <p className="text-[10px] uppercase tracking-wider opacity-80 font-bold">Tingkat Sanksi</p>
+                    <p className="text-2xl font-black">{selectedStudentLevel?.label || '-'}</p>
+                  </div>
                 </div>
               </div>
             </div>
@@ -330,7 +313,7 @@ export default function StudentList({ students, violations }: StudentListProps)
                    </div>
                  ) : (
                    selectedStudentStats.violations
-                    .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime())
+                    .sort(compareByIncidentDesc)
                     .map(v => (
                      <div key={v.id} className="bg-white p-4 rounded-xl border border-slate-100 shadow-sm hover:shadow-md transition-shadow text-sm group">
                        <div className="flex justify-between items-start mb-2">
@@ -343,7 +326,8 @@ export default function StudentList({ students, violations }: StudentListProps)
                        </div>
                        <p className="text-slate-400 text-xs mb-3 flex items-center gap-2 flex-wrap">
                          <span className="bg-slate-100 px-1.5 py-0.5 rounded text-slate-500 font-medium">{v.kode_pelanggaran}</span>
-                         <span>{new Date(v.created_at).toLocaleDateString('id-ID', { day: 'numeric', month: 'short', year: 'numeric' })}</span>
+                         <SyncBadge status={v.sync_status} showSynced />
+                         <span>{formatDate(v.tanggal_pelanggaran, { day: 'numeric', month: 'short', year: 'numeric' })}{v.jam_kejadian && `, ${v.jam_kejadian}`}</span>
                          <span>•</span>
                          <span>{v.lokasi_kejadian}</span>
                          {v.pelapor && (
@@ -353,6 +337,9 @@ export default function StudentList({ students, violations }: StudentListProps)
                             </>
                          )}
                        </p>
+                       {v.aturan_berulang && (
+                         <p className="text-amber-700 text-xs mb-2">🔁 {v.aturan_berulang}</p>
+                       )}
                        <div className="bg-slate-50 p-3 rounded-lg border border-slate-100">
                          <p className="text-slate-600 text-xs italic leading-relaxed">"{v.deskripsi}"</p>
                          {v.status_tindak_lanjut === 'Sudah Ditindak Lanjut' && (
@@ -366,12 +353,164 @@ export default function StudentList({ students, violations }: StudentListProps)
                            </div>
                          )}
                        </div>
+                       {attachmentsByCode.has(v.kode_pelanggaran) && (
+                         <div className="mt-3">
+                           <AttachmentGallery attachments={attachmentsByCode.get(v.kode_pelanggaran) || []} onLoadAttachment={onLoadAttachment} />
+                         </div>
+                       )}
+                       {followUpsByCode.has(v.kode_pelanggaran) && (
+                         <div className="mt-3">
+                           <FollowUpTimeline entries={followUpsByCode.get(v.kode_pelanggaran) || []} />
+                         </div>
+                       )}
+                       <div className="mt-3 flex flex-wrap gap-4">
+                         <button
+                           onClick={() => onViewViolation(v)}
+                           className="text-xs font-bold text-cyan-700 hover:text-cyan-800 flex items-center gap-1"
+                         >
+                           <Eye className="w-3 h-3" /> Detail
+                         </button>
+                         {canContact && (
+                           <button
+                             onClick={() => setContactViolation(v)}
+                             className="text-xs font-bold text-emerald-700 hover:text-emerald-800 flex items-center gap-1"
+                           >
+                             <Phone className="w-3 h-3" /> Hubungi Orang Tua
+                           </button>
+                         )}
+                       </div>
                      </div>
                    ))
                  )}
                </div>
             </div>
 
+            {selectedStudentVoided.length > 0 && (
+              <div className="space-y-2">
+                <h4 className="font-bold text-slate-700 flex items-center gap-2 text-sm uppercase tracking-wider">
+                  <Ban className="w-4 h-4 text-slate-400" /> Dibatalkan (tidak dihitung)
+                </h4>
+                {selectedStudentVoided.map(v => (
+                  <button
+                    key={v.id}
+                    onClick={() => onViewViolation(v)}
+                    className="w-full text-left bg-slate-50 p-3 rounded-xl border border-dashed border-slate-200 text-sm hover:bg-slate-100 transition-colors"
+                  >
+                    <div className="flex justify-between items-start gap-2">
+                      <span className="font-medium text-slate-500 line-through">{v.jenis_pelanggaran}</span>
+                      <span className="text-xs text-slate-400">{v.kode_pelanggaran}</span>
+                    </div>
+                    <p className="text-xs text-slate-500 mt-1">Alasan: {v.alasan_batal}</p>
+                  </button>
+                ))}
+              </div>
+            )}
+
+            {selectedStudentStats && selectedStudentStats.achievements.length > 0 && (
+              <div className="space-y-3">
+                <h4 className="font-bold text-slate-700 flex items-center gap-2 text-sm uppercase tracking-wider">
+                  <Award className="w-4 h-4 text-amber-500" /> Riwayat Prestasi
+                </h4>
+                {[...selectedStudentStats.achievements]
+                  .sort((a, b) => b.tanggal.localeCompare(a.tanggal))
+                  .map(a => (
+                    <div key={a.id} className="bg-white p-3 rounded-xl border border-slate-100 shadow-sm text-sm">
+                      <div className="flex justify-between items-start gap-2">
+                        <span className="font-bold text-slate-800">{a.jenis_prestasi}</span>
+                        <span className="font-bold px-2 py-1 rounded text-xs bg-emerald-100 text-emerald-700">-{a.poin}</span>
+                      </div>
+                      <p className="text-slate-400 text-xs mt-1 flex items-center gap-2 flex-wrap">
+                        <SyncBadge status={a.sync_status} />
+                        <span>{formatDate(a.tanggal, { day: 'numeric', month: 'short', year: 'numeric' })}</span>
+                        <span>•</span>
+                        <span>{a.kategori_prestasi}</span>
+                        <span>•</span>
+                        <span className="text-slate-600 font-medium">Oleh: {a.dicatat_oleh}</span>
+                      </p>
+                      {a.deskripsi && <p className="text-slate-500 text-xs mt-1 italic">{a.deskripsi}</p>}
+                    </div>
+                  ))}
+              </div>
+            )}
+
+            {selectedStudentSanctions.length > 0 && (
+              <div className="space-y-3">
+                <h4 className="font-bold text-slate-700 flex items-center gap-2 text-sm uppercase tracking-wider">
+                  <ShieldAlert className="w-4 h-4 text-rose-500" /> Riwayat Sanksi
+                </h4>
+                {selectedStudentSanctions.map(r => (
+                  <div key={r.id} className="bg-white p-3 rounded-xl border border-slate-100 shadow-sm text-sm">
+                    <div className="flex justify-between items-start gap-2">
+                      <span className="font-bold text-slate-800">
+                        {r.level_label} <span className="text-xs font-medium text-slate-400">• {formatTerm(getSanctionTerm(r))}</span>
+                      </span>
+                      <span className={`px-2 py-0.5 rounded text-xs font-bold ${
+                        r.status === 'diberikan' ? 'bg-emerald-100 text-emerald-700' : 'bg-orange-100 text-orange-700'
+                      }`}>
+                        {r.status === 'diberikan' ? 'Diberikan' : 'Menunggu'}
+                      </span>
+                    </div>
+                    <p className="text-slate-500 text-xs mt-1">{r.tindakan}</p>
+                    <p className="text-slate-400 text-xs mt-2 flex items-center gap-2 flex-wrap">
+                      <SyncBadge status={r.sync_status} />
+                      <span>Tercapai {formatDate(r.dibuat_pada, { day: 'numeric', month: 'short', year: 'numeric' })} ({r.poin_saat_tercapai} poin)</span>
+                      {r.diberikan_pada && (
+                        <>
+                          <span>•</span>
+                          <span className="text-slate-600 font-medium">
+                            Diberikan {formatDate(r.diberikan_pada, { day: 'numeric', month: 'short', year: 'numeric' })}
+                            {r.diberikan_oleh && ` oleh ${r.diberikan_oleh}`}
+                          </span>
+                        </>
+                      )}
+                    </p>
+                    {r.catatan && <p className="text-slate-500 text-xs mt-1 italic">{r.catatan}</p>}
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {(selectedStudentLetters.length > 0 || canIssueLetters) && (
+              <div className="space-y-3">
+                <div className="flex items-center justify-between">
+                  <h4 className="font-bold text-slate-700 flex items-center gap-2 text-sm uppercase tracking-wider">
+                    <FileText className="w-4 h-4 text-indigo-500" /> Riwayat Surat
+                  </h4>
+                  {canIssueLetters && (
+                    <button
+                      onClick={() => setIsLetterOpen(true)}
+                      className="px-3 py-1.5 text-xs font-bold text-indigo-700 bg-indigo-50 hover:bg-indigo-100 rounded-lg transition-colors"
+                    >
+                      + Buat Surat
+                    </button>
+                  )}
+                </div>
+                {selectedStudentLetters.map(letter => (
+                  <div key={letter.id} className="bg-white p-3 rounded-xl border border-slate-100 shadow-sm text-sm flex items-start gap-3">
+                    <div className="flex-1">
+                      <p className="font-bold text-slate-800">{LETTER_TYPE_LABELS[letter.jenis]}</p>
+                      <p className="text-slate-400 text-xs mt-1 flex items-center gap-2 flex-wrap">
+                        <span className="font-mono text-slate-600">{letter.nomor_surat}</span>
+                        <SyncBadge status={letter.sync_status} />
+                        <span>{formatDate(letter.tanggal, { day: 'numeric', month: 'short', year: 'numeric' })}</span>
+                        <span>•</span>
+                        <span>{letter.total_poin} poin</span>
+                        <span>•</span>
+                        <span>{letter.dibuat_oleh}</span>
+                      </p>
+                    </div>
+                    <button
+                      onClick={() => handleReprint(letter)}
+                      className="p-2 text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 rounded-lg transition-colors"
+                      title="Cetak ulang"
+                    >
+                      <Printer className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+
             <div className="bg-slate-50 p-4 rounded-xl border border-slate-200 text-sm grid grid-cols-2 gap-4">
               <div>
                 <p className="text-slate-400 text-xs font-bold uppercase mb-1">Wali Kelas</p>
@@ -379,12 +518,35 @@ export default function StudentList({ students, violations }: StudentListProps)
               </div>
               <div>
                 <p className="text-slate-400 text-xs font-bold uppercase mb-1">Kontak Ortu</p>
-                <p className="font-medium text-slate-700">{selectedStudentData.kontak_ortu}</p>
+                <p className="font-medium text-slate-700">{selectedStudentData.kontak_ortu || '-'}</p>
               </div>
             </div>
           </div>
         </Modal>
       )}
+
+      <LetterModal
+        key={isLetterOpen ? selectedStudentNis || 'none' : 'none'}
+        student={isLetterOpen && selectedStudentData ? selectedStudentData : null}
+        violations={selectedStudentStats?.violations || []}
+        preselectedCodes={(selectedStudentStats?.violations || []).map(v => v.kode_pelanggaran)}
+        letters={letters}
+        letterhead={letterhead}
+        issuerName={currentUserName}
+        onIssue={onIssueLetter}
+        onClose={() => setIsLetterOpen(false)}
+      />
+
+      <ParentContactModal
+        key={contactViolation?.id || 'none'}
+        violation={contactViolation}
+        phone={selectedStudentData?.kontak_ortu || contactViolation?.kontak_ortu || ''}
+        templates={messageTemplates}
+        senderName={currentUserName}
+        logs={selectedContactLogs}
+        onLog={onLogContact}
+        onClose={() => setContactViolation(null)}
+      />
     </div>
   );
 }
\ No newline at end of file
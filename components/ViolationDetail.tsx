@@ -0,0 +1,281 @@
+import React, { useState, useMemo } from 'react';
+import { AttachmentRecord, LocationOption, RepeatRule, Violation, ViolationCatalog, ViolationChanges, ViolationRevision } from '../types';
+import Modal from './ui/Modal';
+import SyncBadge from './ui/SyncBadge';
+import AttachmentGallery from './AttachmentGallery';
+import LocationPicker from './LocationPicker';
+import { formatDate } from '../utils/date';
+import { getActiveTypes } from '../utils/catalog';
+import { diffChanges, EDITABLE_FIELD_LABELS, getEditableFields, isVoided, rescoreViolation, REVISION_ACTION_LABELS, validateReason } from '../utils/violationEdits';
+import toast from 'react-hot-toast';
+import { Pencil, Ban, RotateCcw, History, Save, MapPin, Clock } from 'lucide-react';
+
+type DetailMode = 'lihat' | 'ubah' | 'batalkan' | 'buka_kembali';
+
+interface ViolationDetailProps {
+  violation: Violation | null;
+  // Corrections of this violation, any order
+  revisions: ViolationRevision[];
+  // Evidence files; empty for roles that may not view them
+  attachments: AttachmentRecord[];
+  onLoadAttachment: (id: string) => Promise<string>;
+  catalog: ViolationCatalog;
+  repeatRules: RepeatRule[];
+  // Active violations, for repeat-offense counts when the type or date is corrected
+  history: Violation[];
+  teacherNames: string[];
+  locations: LocationOption[];
+  // Edit, void and reopen are only offered when canEdit
+  canEdit: boolean;
+  onEdit: (violation: Violation, changes: ViolationChanges, alasan: string) => void;
+  onVoid: (violation: Violation, alasan: string) => void;
+  onReopen: (violation: Violation, alasan: string) => void;
+  onClose: () => void;
+}
+
+const inputClass = "w-full p-3 bg-white text-slate-900 border border-slate-300 rounded-xl focus:ring-2 focus:ring-cyan-500 outline-none";
+
+// Full record of one violation with its correction history. Render with key={violation.id} so the forms start fresh.
+export default function ViolationDetail({ violation, revisions, attachments, onLoadAttachment, catalog, repeatRules, history, teacherNames, locations, canEdit, onEdit, onVoid, onReopen, onClose }: ViolationDetailProps) {
+  const [mode, setMode] = useState<DetailMode>('lihat');
+  const [draft, setDraft] = useState<ViolationChanges | null>(() => violation ? getEditableFields(violation) : null);
+  const [alasan, setAlasan] = useState('');
+
+  const types = useMemo(
+    () => (draft ? getActiveTypes(catalog, draft.tanggal_pelanggaran) : []),
+    [catalog, draft]
+  );
+  const sortedRevisions = useMemo(() => [...revisions].sort((a, b) => b.pada.localeCompare(a.pada)), [revisions]);
+
+  if (!violation || !draft) return null;
+
+  const voided = isVoided(violation);
+  const isDone = violation.status_tindak_lanjut === 'Sudah Ditindak Lanjut';
+  const changes = diffChanges(getEditableFields(violation), draft);
+  // A retired type stays selectable for the record that already uses it
+  const typeLabels = types.some(t => t.label === draft.jenis_pelanggaran)
+    ? types.map(t => t.label)
+    : [draft.jenis_pelanggaran, ...types.map(t => t.label)];
+
+  const openMode = (next: DetailMode) => {
+    setMode(next);
+    setAlasan('');
+    setDraft(getEditableFields(violation));
+  };
+
+  // Type and date both decide the catalog version and the repeat-offense count
+  const updateScored = (next: ViolationChanges) => {
+    setDraft(rescoreViolation(violation, next, catalog, repeatRules, history));
+  };
+
+  const handleConfirm = () => {
+    const error = validateReason(alasan);
+    if (error) {
+      toast.error(error);
+      return;
+    }
+    if (mode === 'ubah') {
+      if (changes.length === 0) {
+        toast.error("Belum ada data yang diubah.");
+        return;
+      }
+      if (!draft.tanggal_pelanggaran || !draft.lokasi_kejadian.trim()) {
+        toast.error("Tanggal dan lokasi wajib diisi.");
+        return;
+      }
+      onEdit(violation, { ...draft, lokasi_kejadian: draft.lokasi_kejadian.trim(), deskripsi: draft.deskripsi.trim() }, alasan.trim());
+      toast.success("Perubahan disimpan, sedang disinkronkan.");
+    } else if (mode === 'batalkan') {
+      onVoid(violation, alasan.trim());
+      toast.success(`Pelanggaran ${violation.kode_pelanggaran} dibatalkan.`);
+    } else if (mode === 'buka_kembali') {
+      onReopen(violation, alasan.trim());
+      toast.success("Kasus dibuka kembali dan masuk antrian tindak lanjut.");
+    }
+    setMode('lihat');
+  };
+
+  return (
+    <Modal isOpen={!!violation} onClose={onClose} title={`📄 Detail Pelanggaran ${violation.kode_pelanggaran}`}>
+      <div className="space-y-5">
+        <div className="bg-indigo-50 p-4 rounded-xl border border-indigo-100 text-sm flex justify-between items-start gap-3">
+          <div>
+            <h4 className="font-bold text-indigo-900">{violation.nama_lengkap}</h4>
+            <p className="text-indigo-700">{violation.kelas} • {violation.nis}</p>
+          </div>
+          <SyncBadge status={violation.sync_status} />
+        </div>
+
+        {voided && (
+          <div className="bg-rose-50 p-3 rounded-xl border border-rose-200 text-sm text-rose-800">
+            <p className="font-bold flex items-center gap-2"><Ban className="w-4 h-4" /> Dibatalkan, tidak dihitung poin</p>
+            <p className="mt-1">{violation.alasan_batal}</p>
+            <p className="text-xs text-rose-600 mt-1">
+              {violation.dibatalkan_oleh} • {formatDate(violation.dibatalkan_pada || '', { day: 'numeric', month: 'short', year: 'numeric' })}
+            </p>
+          </div>
+        )}
+
+        {mode === 'ubah' ? (
+          <div className="grid md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-bold text-slate-700 mb-2">Tanggal</label>
+              <input type="date" className={inputClass} value={draft.tanggal_pelanggaran}
+                onChange={(e) => updateScored({ ...draft, tanggal_pelanggaran: e.target.value })} />
+            </div>
+            <div>
+              <label className="block text-sm font-bold text-slate-700 mb-2">Jam</label>
+              <input type="time" className={inputClass} value={draft.jam_kejadian || ''}
+                onChange={(e) => setDraft({ ...draft, jam_kejadian: e.target.value || undefined })} />
+            </div>
+            <div className="md:col-span-2">
+              <label className="block text-sm font-bold text-slate-700 mb-2">Jenis Pelanggaran</label>
+              <select className={inputClass} value={draft.jenis_pelanggaran} onChange={(e) => updateScored({ ...draft, jenis_pelanggaran: e.target.value })}>
+                {typeLabels.map(label => <option key={label} value={label}>{label}</option>)}
+              </select>
+              <p className="text-xs text-slate-500 mt-1">{draft.kategori_pelanggaran} • {draft.poin_pelanggaran} poin</p>
+            </div>
+            <div>
+              <label className="block text-sm font-bold text-slate-700 mb-2">Lokasi</label>
+              <LocationPicker locations={locations} value={draft.lokasi_kejadian} className={inputClass}
+                onChange={(lokasi) => setDraft({ ...draft, lokasi_kejadian: lokasi })} />
+            </div>
+            <div>
+              <label className="block text-sm font-bold text-slate-700 mb-2">Pelapor</label>
+              <input type="text" list="detail-teachers" className={inputClass} value={draft.pelapor || ''}
+                onChange={(e) => setDraft({ ...draft, pelapor: e.target.value })} />
+              <datalist id="detail-teachers">
+                {teacherNames.map(name => <option key={name} value={name} />)}
+              </datalist>
+            </div>
+            <div className="md:col-span-2">
+              <label className="block text-sm font-bold text-slate-700 mb-2">Deskripsi</label>
+              <textarea rows={3} className={inputClass} value={draft.deskripsi}
+                onChange={(e) => setDraft({ ...draft, deskripsi: e.target.value })} />
+            </div>
+          </div>
+        ) : (
+          <div className="bg-slate-50 p-4 rounded-xl border border-slate-200 grid grid-cols-2 gap-4 text-sm">
+            <div>
+              <p className="text-[10px] uppercase text-slate-400 font-bold mb-1">Jenis Pelanggaran</p>
+              <p className={`font-medium text-slate-700 ${voided ? 'line-through' : ''}`}>{violation.jenis_pelanggaran}</p>
+              <p className="text-xs text-slate-500">{violation.kategori_pelanggaran} • {violation.poin_pelanggaran} poin</p>
+              {violation.aturan_berulang && <p className="text-xs text-amber-700 mt-1">{violation.aturan_berulang}</p>}
+            </div>
+            <div>
+              <p className="text-[10px] uppercase text-slate-400 font-bold mb-1">Waktu & Lokasi</p>
+              <p className="font-medium text-slate-700 flex items-center gap-1">
+                <Clock className="w-3 h-3 text-slate-400" />
+                {formatDate(violation.tanggal_pelanggaran, { day: 'numeric', month: 'short', year: 'numeric' })}
+                {violation.jam_kejadian && `, ${violation.jam_kejadian}`}
+              </p>
+              <p className="font-medium text-slate-700 flex items-center gap-1">
+                <MapPin className="w-3 h-3 text-slate-400" /> {violation.lokasi_kejadian}
+              </p>
+            </div>
+            <div className="col-span-2">
+              <p className="text-[10px] uppercase text-slate-400 font-bold mb-1">Kronologi</p>
+              <p className="text-slate-600 italic">"{violation.deskripsi}"</p>
+              <p className="text-xs text-slate-400 mt-1">Pelapor: {violation.pelapor || '-'}</p>
+            </div>
+            <div className="col-span-2">
+              <p className="text-[10px] uppercase text-slate-400 font-bold mb-1">Tindak Lanjut</p>
+              <p className={`font-medium ${isDone ? 'text-emerald-700' : 'text-amber-700'}`}>{violation.status_tindak_lanjut}</p>
+              {violation.hasil_tindak_lanjut && <p className="text-xs text-slate-500 mt-1">{violation.hasil_tindak_lanjut}</p>}
+            </div>
+          </div>
+        )}
+
+        {mode === 'lihat' && <AttachmentGallery attachments={attachments} onLoadAttachment={onLoadAttachment} />}
+
+        {mode !== 'lihat' && (
+          <div>
+            {mode === 'ubah' && (
+              <p className="text-xs text-slate-500 mb-2">
+                {changes.length === 0 ? 'Belum ada perubahan.' : `Diubah: ${changes.map(c => EDITABLE_FIELD_LABELS[c.field as keyof ViolationChanges]).join(', ')}.`}
+              </p>
+            )}
+            {mode === 'batalkan' && (
+              <p className="text-xs text-rose-700 mb-2">
+                Data tetap tersimpan untuk arsip, tetapi tidak lagi dihitung dalam poin, statistik dan antrian tindak lanjut.
+              </p>
+            )}
+            <label className="block text-sm font-bold text-slate-700 mb-2">Alasan</label>
+            <textarea
+              rows={2}
+              className={inputClass}
+              placeholder={mode === 'batalkan' ? 'Contoh: salah input siswa, seharusnya NIS 12345' : 'Wajib diisi untuk riwayat koreksi'}
+              value={alasan}
+              onChange={(e) => setAlasan(e.target.value)}
+            />
+          </div>
+        )}
+
+        {sortedRevisions.length > 0 && mode === 'lihat' && (
+          <div>
+            <p className="text-[10px] uppercase text-slate-400 font-bold mb-2 flex items-center gap-1">
+              <History className="w-3 h-3" /> Riwayat Koreksi
+            </p>
+            <ol className="space-y-2">
+              {sortedRevisions.map(r => (
+                <li key={r.id} className="text-xs bg-white border border-slate-100 rounded-lg p-2">
+                  <div className="flex items-center gap-2 flex-wrap">
+                    <span className="font-bold text-slate-700">{REVISION_ACTION_LABELS[r.aksi]}</span>
+                    <span className="text-slate-400">{formatDate(r.pada, { day: 'numeric', month: 'short', year: 'numeric' })} • {r.oleh}</span>
+                    <SyncBadge status={r.sync_status} />
+                  </div>
+                  <p className="text-slate-600 mt-1">{r.alasan}</p>
+                  {r.perubahan.map(c => (
+                    <p key={c.field} className="text-slate-500">
+                      {EDITABLE_FIELD_LABELS[c.field as keyof ViolationChanges] || c.field}: <span className="line-through">{c.sebelum || '-'}</span> → {c.sesudah || '-'}
+                    </p>
+                  ))}
+                </li>
+              ))}
+            </ol>
+          </div>
+        )}
+
+        {canEdit && (
+          <div className="flex flex-wrap gap-3 justify-end pt-4 border-t border-slate-100">
+            {mode === 'lihat' ? (
+              <>
+                {!voided && isDone && (
+                  <button onClick={() => openMode('buka_kembali')} className="px-4 py-2 text-amber-700 hover:bg-amber-50 rounded-xl font-medium flex items-center gap-2">
+                    <RotateCcw className="w-4 h-4" /> Buka Kembali
+                  </button>
+                )}
+                {!voided && (
+                  <button onClick={() => openMode('batalkan')} className="px-4 py-2 text-rose-700 hover:bg-rose-50 rounded-xl font-medium flex items-center gap-2">
+                    <Ban className="w-4 h-4" /> Batalkan
+                  </button>
+                )}
+                {!voided && (
+                  <button onClick={() => openMode('ubah')} className="px-5 py-2 bg-cyan-600 hover:bg-cyan-700 text-white rounded-xl font-bold flex items-center gap-2">
+                    <Pencil className="w-4 h-4" /> Ubah Data
+                  </button>
+                )}
+              </>
+            ) : (
+              <>
+                <button onClick={() => setMode('lihat')} className="px-5 py-2.5 text-slate-600 hover:bg-slate-100 rounded-xl font-medium transition-colors">
+                  Batal
+                </button>
+                <button
+                  onClick={handleConfirm}
+                  disabled={!!validateReason(alasan) || (mode === 'ubah' && changes.length === 0)}
+                  className={`px-6 py-2.5 text-white rounded-xl font-bold transition-all disabled:opacity-70 disabled:cursor-not-allowed flex items-center gap-2 ${
+                    mode === 'batalkan' ? 'bg-rose-600 hover:bg-rose-700' : 'bg-cyan-600 hover:bg-cyan-700'
+                  }`}
+                >
+                  <Save className="w-4 h-4" />
+                  {mode === 'ubah' ? 'Simpan Perubahan' : mode === 'batalkan' ? 'Batalkan Pelanggaran' : 'Buka Kembali'}
+                </button>
+              </>
+            )}
+          </div>
+        )}
+      </div>
+    </Modal>
+  );
+}
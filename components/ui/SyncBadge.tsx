@@ -0,0 +1,35 @@
+import React from 'react';
+import { CloudOff, UploadCloud, Cloud } from 'lucide-react';
+import { SyncStatus } from '../../types';
+
+interface SyncBadgeProps {
+  status?: SyncStatus;
+  // Synced records are the normal case, so the badge is hidden for them unless asked
+  showSynced?: boolean;
+}
+
+export default function SyncBadge({ status = 'synced', showSynced = false }: SyncBadgeProps) {
+  if (status === 'synced' && !showSynced) return null;
+
+  if (status === 'pending') {
+    return (
+      <span className="inline-flex items-center gap-1 text-[10px] font-bold px-2 py-0.5 rounded-full bg-sky-50 text-sky-700 border border-sky-200" title="Menunggu sinkronisasi ke server">
+        <UploadCloud className="w-3 h-3" /> Pending
+      </span>
+    );
+  }
+
+  if (status === 'failed') {
+    return (
+      <span className="inline-flex items-center gap-1 text-[10px] font-bold px-2 py-0.5 rounded-full bg-rose-50 text-rose-700 border border-rose-200" title="Gagal dikirim ke server">
+        <CloudOff className="w-3 h-3" /> Gagal Sinkron
+      </span>
+    );
+  }
+
+  return (
+    <span className="inline-flex items-center gap-1 text-[10px] font-bold px-2 py-0.5 rounded-full bg-emerald-50 text-emerald-700 border border-emerald-200" title="Tersimpan di server">
+      <Cloud className="w-3 h-3" /> Tersinkron
+    </span>
+  );
+}
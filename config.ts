@@ -0,0 +1,50 @@
+import { ColumnAliases, StudentColumn, ViolationColumn } from './utils/csv';
+
+// Central place for deployment specific settings.
+// Every value can be overridden at build time through VITE_* variables (see .env.example),
+// so a second school can point the app at its own sheet without touching the code.
+
+export type DataSourceKind = 'google-sheet' | 'local';
+
+export interface GoogleSheetConfig {
+  // Apps Script Web App that checks logins and serves every read and write. The sheets themselves
+  // stay private: the script scopes what it returns to the role in the login token.
+  scriptUrl: string;
+  // Extra header names for sheets whose columns are labelled differently
+  columnAliases: {
+    students: ColumnAliases<StudentColumn>;
+    violations: ColumnAliases<ViolationColumn>;
+  };
+}
+
+export interface AppConfig {
+  dataSource: DataSourceKind;
+  googleSheet: GoogleSheetConfig;
+}
+
+const env = import.meta.env;
+
+// VITE_COLUMN_ALIASES='{"students":{"nis":["Nomor Induk"]},"violations":{"pelapor":["Guru"]}}'
+const parseColumnAliases = (value?: string): GoogleSheetConfig['columnAliases'] => {
+  const empty = { students: {}, violations: {} };
+  if (!value) return empty;
+  try {
+    const parsed = JSON.parse(value);
+    return { students: parsed.students || {}, violations: parsed.violations || {} };
+  } catch (e) {
+    console.error("VITE_COLUMN_ALIASES is not valid JSON, ignoring it", e);
+    return empty;
+  }
+};
+
+const resolveDataSource = (value?: string): DataSourceKind => {
+  return value === 'local' ? 'local' : 'google-sheet';
+};
+
+export const APP_CONFIG: AppConfig = {
+  dataSource: resolveDataSource(env.VITE_DATA_SOURCE),
+  googleSheet: {
+    scriptUrl: env.VITE_APPS_SCRIPT_URL || 'https://script.google.com/macros/s/AKfycbx5RJHID-0QupEh0q3nT3-leg45UEntgvtmqAyLm8PnAN5-kbdYcnoixsILQTWbCLDy/exec',
+    columnAliases: parseColumnAliases(env.VITE_COLUMN_ALIASES),
+  },
+};
@@ -0,0 +1,17 @@
+// Usage: npm run hash-password -- <password>
+// Prints a value for the password_hash column of the users sheet, which the Apps Script checks on login.
+// Must stay in sync with the script's check and with derive() and verifyPassword() in services/auth.ts
+// (PBKDF2-SHA256, 32-byte key, salt used as UTF-8 text).
+import { pbkdf2Sync, randomBytes } from 'node:crypto';
+
+const ITERATIONS = 100000;
+
+const password = process.argv[2];
+if (!password) {
+  console.error('Usage: npm run hash-password -- <password>');
+  process.exit(1);
+}
+
+const salt = randomBytes(16).toString('hex');
+const hash = pbkdf2Sync(password, salt, ITERATIONS, 32, 'sha256').toString('hex');
+console.log(`pbkdf2$${ITERATIONS}$${salt}$${hash}`);
@@ -0,0 +1,72 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { createAuditEntry, getDeviceHead, hashAuditEntry, verifyAuditChain } from './audit';
+import { createMemoryStorage } from '../test/fixtures';
+import { AuditEntry, Session } from '../types';
+
+const SESSION: Session = {
+  username: 'rina',
+  nama: 'Rina',
+  role: 'guru_bk',
+  token: 'token-uji',
+  issued_at: '2025-08-05T00:00:00.000Z',
+  expires_at: '2025-08-05T08:00:00.000Z',
+};
+
+beforeEach(() => {
+  vi.stubGlobal('localStorage', createMemoryStorage());
+  localStorage.setItem('simpas_device_id', 'K7QM');
+});
+
+// Three chained entries of this device, as the sheet would return them
+const makeChain = async (): Promise<AuditEntry[]> => {
+  const entries: AuditEntry[] = [];
+  for (const objek of ['pelanggaran:CPS-K7QM-0001', 'pelanggaran:CPS-K7QM-0002', 'pengaturan:point_policy']) {
+    entries.push(await createAuditEntry(SESSION, { aksi: 'buat', objek, sesudah: { catatan: objek } }));
+  }
+  return entries;
+};
+
+describe('verifyAuditChain', () => {
+  it('accepts an untouched chain', async () => {
+    const entries = await makeChain();
+    expect(entries.map(e => e.urutan)).toEqual([1, 2, 3]);
+    const checks = await verifyAuditChain(entries, null, getDeviceHead());
+    expect(Array.from(checks.checks.values())).toEqual(['ok', 'ok', 'ok']);
+  });
+
+  it('flags an edited row', async () => {
+    const entries = await makeChain();
+    entries[1] = { ...entries[1], objek: 'pelanggaran:CPS-K7QM-0009' };
+    const checks = await verifyAuditChain(entries, null, getDeviceHead());
+    expect(checks.checks.get(entries[1].id)).toBe('hash_salah');
+  });
+
+  it('flags the entry after a deleted one', async () => {
+    const [first, , third] = await makeChain();
+    const checks = await verifyAuditChain([first, third], null, getDeviceHead());
+    expect(checks.checks.get(first.id)).toBe('ok');
+    expect(checks.checks.get(third.id)).toBe('rantai_putus');
+  });
+
+  it('hashes the row as the sheet stores it', async () => {
+    const [entry] = await makeChain();
+    const { sebelum, ...fromSheet } = entry;
+    expect(await hashAuditEntry({ ...fromSheet, sync_status: 'synced', nomor: 41, tanda: 'ab12' })).toBe(entry.hash);
+  });
+
+  it('flags rows whose server signature fails and passes on the numbers the script misses', async () => {
+    const entries = await makeChain();
+    const seal = { terakhir: 9, tanda_salah: [entries[2].id], hilang: [[7, 9]] as [number, number][] };
+    const result = await verifyAuditChain(entries, seal, getDeviceHead());
+    expect(result.checks.get(entries[2].id)).toBe('tanda_salah');
+    expect(result.missing).toEqual([[7, 9]]);
+  });
+
+  it('notices when the last entry of this device is gone', async () => {
+    const entries = await makeChain();
+    expect((await verifyAuditChain(entries, null, getDeviceHead())).headMissing).toBe(false);
+    const result = await verifyAuditChain(entries.slice(0, 2), null, getDeviceHead());
+    expect(result.headMissing).toBe(true);
+    expect(Array.from(result.checks.values())).toEqual(['ok', 'ok']);
+  });
+});
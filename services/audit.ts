@@ -0,0 +1,180 @@
+import { AppSettings, AuditAction, AuditEntry, RecordStore, Session, Violation } from '../types';
+import { getDeviceId } from '../utils/violationCode';
+import { serializeRecord } from '../utils/records';
+import { WriteOperation, getViolationPatch, isViolationUpdate } from './outbox';
+import { AuditSeal } from './repository';
+
+// Append-only audit log. Entries are chained per device: every entry holds the hash of the
+// previous one from the same device, so deleting or editing a row in the Audit sheet breaks
+// the chain. A single global chain is not possible because devices write while offline.
+// Anyone with edit access to the sheet could recompute such a chain, so the Apps Script also
+// numbers and signs every entry it inserts (see AuditSeal); only the script can check those.
+
+const HEAD_KEY = 'simpas_audit_head';
+
+interface ChainHead {
+  urutan: number;
+  hash: string;
+}
+
+// Last entry this device made, which the log must contain (in the sheet or still queued)
+export interface DeviceHead extends ChainHead {
+  perangkat: string;
+}
+
+export interface AuditInput {
+  aksi: AuditAction;
+  objek: string;
+  sebelum?: unknown;
+  sesudah?: unknown;
+}
+
+// Current data the "before" values are read from
+export interface AuditState {
+  violations: Violation[];
+  records: RecordStore;
+  settings: AppSettings;
+}
+
+const sha256 = async (text: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+// Hashed as the sheet stores it, so a row read back from the CSV gives the same hash.
+// The columns the script adds on insert are left out.
+export const hashAuditEntry = (entry: AuditEntry): Promise<string> => {
+  const { sync_status, nomor, tanda, ...rest } = entry;
+  return sha256(JSON.stringify(serializeRecord('audit', { ...rest, hash: '' })));
+};
+
+const loadHead = (): ChainHead => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(HEAD_KEY) || 'null');
+    if (parsed && typeof parsed.urutan === 'number' && typeof parsed.hash === 'string') return parsed;
+  } catch (e) {
+    console.error("Error parsing audit chain head", e);
+  }
+  return { urutan: 0, hash: '' };
+};
+
+export const getDeviceHead = (): DeviceHead => ({ ...loadHead(), perangkat: getDeviceId() });
+
+// Entries are created one at a time so two quick changes never claim the same place in the chain
+let queue: Promise<unknown> = Promise.resolve();
+
+export const createAuditEntry = (session: Session, input: AuditInput): Promise<AuditEntry> => {
+  const next = queue.then(async () => {
+    const head = loadHead();
+    const perangkat = getDeviceId();
+    const urutan = head.urutan + 1;
+    const entry: AuditEntry = {
+      // urutan keeps ids apart when several entries are made within one millisecond
+      id: `AUD-${perangkat}-${urutan}-${Date.now().toString(36)}`,
+      waktu: new Date().toISOString(),
+      pengguna: session.username,
+      nama: session.nama,
+      peran: session.role,
+      perangkat,
+      urutan,
+      aksi: input.aksi,
+      objek: input.objek,
+      sebelum: input.sebelum ?? undefined,
+      sesudah: input.sesudah ?? undefined,
+      hash_sebelumnya: head.hash,
+      hash: '',
+    };
+    entry.hash = await hashAuditEntry(entry);
+    localStorage.setItem(HEAD_KEY, JSON.stringify({ urutan, hash: entry.hash }));
+    return entry;
+  });
+  queue = next.catch(() => undefined);
+  return next;
+};
+
+const pick = (source: object | undefined, keys: string[]): Record<string, unknown> | undefined => {
+  if (!source) return undefined;
+  const values = source as Record<string, unknown>;
+  return Object.fromEntries(keys.map(key => [key, values[key]]));
+};
+
+// Client-only fields that say nothing about the data
+const stripLocal = <T extends object>(row: T): Omit<T, 'sync_status' | 'sheet_row'> => {
+  const { sync_status, sheet_row, ...rest } = row as T & { sync_status?: unknown; sheet_row?: unknown };
+  return rest;
+};
+
+// Audit entry for a queued write, with the values it replaces
+export const describeWrite = (op: WriteOperation, state: AuditState): AuditInput => {
+  if (isViolationUpdate(op)) {
+    const { kode_pelanggaran, patch } = getViolationPatch(op);
+    const current = state.violations.find(v => v.kode_pelanggaran === kode_pelanggaran);
+    const aksi: AuditAction = op.type === 'update_follow_up' ? 'tindak_lanjut' : op.type === 'edit_violation' ? 'ubah' : 'batalkan';
+    return { aksi, objek: `pelanggaran:${kode_pelanggaran}`, sebelum: pick(current, Object.keys(patch)), sesudah: patch };
+  }
+  switch (op.type) {
+    case 'create_violation':
+      return { aksi: 'buat', objek: `pelanggaran:${op.violation.kode_pelanggaran}`, sesudah: stripLocal(op.violation) };
+    case 'rename_code':
+      return {
+        aksi: 'ganti_kode',
+        objek: `pelanggaran:${op.rename.old_code}`,
+        sebelum: { kode_pelanggaran: op.rename.old_code },
+        sesudah: { kode_pelanggaran: op.rename.new_code, baris: op.rename.sheet_row },
+      };
+    case 'save_setting':
+      return { aksi: 'pengaturan', objek: `pengaturan:${op.update.key}`, sebelum: state.settings[op.update.key], sesudah: op.update.value };
+    case 'save_record': {
+      const { table, record } = op.write;
+      const rows = state.records[table] as typeof record[];
+      const current = rows.find(r => r.id === record.id);
+      return { aksi: current ? 'ubah' : 'buat', objek: `${table}:${record.id}`, sebelum: current && stripLocal(current), sesudah: stripLocal(record) };
+    }
+    case 'upload_attachment': {
+      // The preview is a copy of the file; name, type and size identify it
+      const { thumbnail, ...record } = stripLocal(op.upload.record);
+      return { aksi: 'unggah', objek: `lampiran:${record.id}`, sesudah: record };
+    }
+  }
+};
+
+export type AuditCheck = 'ok' | 'hash_salah' | 'tanda_salah' | 'rantai_putus';
+
+export interface AuditVerification {
+  checks: Map<string, AuditCheck>;
+  // Entry numbers the script gave out that have no row left: removed rows, a removed tail or
+  // the whole chain of a device. Inclusive ranges.
+  missing: [number, number][];
+  // The last entry of this device is neither in the sheet nor queued
+  headMissing: boolean;
+}
+
+// Recompute every hash and walk the chain of each device. An entry is "rantai_putus" when the
+// entry before it is missing or differs from what it was chained to. The script's findings
+// (seal, null without a signing backend) cover what the chains cannot: rows whose signature
+// fails, and numbers with no row.
+export const verifyAuditChain = async (entries: AuditEntry[], seal: AuditSeal | null, head: DeviceHead): Promise<AuditVerification> => {
+  const checks = new Map<string, AuditCheck>();
+  const unsigned = new Set(seal?.tanda_salah || []);
+  const byDevice = new Map<string, AuditEntry[]>();
+  entries.forEach(entry => byDevice.set(entry.perangkat, [...(byDevice.get(entry.perangkat) || []), entry]));
+
+  for (const chain of Array.from(byDevice.values())) {
+    chain.sort((a, b) => a.urutan - b.urutan);
+    let previous: AuditEntry | null = null;
+    for (const entry of chain) {
+      // Empty cells come back from the sheet as absent fields
+      const chainedTo = entry.hash_sebelumnya || '';
+      const expectedPrevious = previous && previous.urutan === entry.urutan - 1 ? previous.hash : null;
+      const linked = entry.urutan === 1 ? chainedTo === '' : expectedPrevious === chainedTo;
+      if (await hashAuditEntry(entry) !== entry.hash) checks.set(entry.id, 'hash_salah');
+      else if (unsigned.has(entry.id)) checks.set(entry.id, 'tanda_salah');
+      else checks.set(entry.id, linked ? 'ok' : 'rantai_putus');
+      previous = entry;
+    }
+  }
+
+  const headMissing = head.urutan > 0
+    && !entries.some(e => e.perangkat === head.perangkat && e.urutan === head.urutan && e.hash === head.hash);
+  return { checks, missing: seal?.hilang || [], headMissing };
+};
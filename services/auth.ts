@@ -0,0 +1,114 @@
+import { Session } from '../types';
+
+const SESSION_KEY = 'simpas_session';
+const LAST_ACTIVITY_KEY = 'simpas_last_activity';
+const CACHE_KEY_PREFIX = 'simpas_cache_';
+
+// A session lasts one school day at most, and ends earlier when nobody touches the app
+export const SESSION_DURATION_MS = 8 * 60 * 60 * 1000;
+export const IDLE_TIMEOUT_MS = 15 * 60 * 1000;
+
+export class AuthError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AuthError';
+  }
+}
+
+const toHex = (buffer: ArrayBuffer) => Array.from(new Uint8Array(buffer))
+  .map(b => b.toString(16).padStart(2, '0'))
+  .join('');
+
+// PBKDF2-SHA256, same parameters as scripts/hash-password.mjs. The Apps Script checks passwords the
+// same way on login; in the browser this is only used by the local backend.
+const derive = async (password: string, salt: string, iterations: number): Promise<string> => {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey('raw', encoder.encode(password), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt: encoder.encode(salt), iterations },
+    key,
+    256
+  );
+  return toHex(bits);
+};
+
+// Compare without bailing out on the first differing character
+const safeEqual = (a: string, b: string) => {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  return diff === 0;
+};
+
+// stored: "pbkdf2$<iterations>$<salt>$<hash>"
+export const verifyPassword = async (password: string, stored: string): Promise<boolean> => {
+  const [scheme, iterations, salt, hash] = stored.split('$');
+  if (scheme !== 'pbkdf2' || !salt || !hash || !(+iterations > 0)) return false;
+  return safeEqual(await derive(password, salt, +iterations), hash.toLowerCase());
+};
+
+// Same message for unknown users and wrong passwords, so usernames cannot be probed
+export const WRONG_CREDENTIALS_MESSAGE = 'Username atau password salah!';
+export const INACTIVE_ACCOUNT_MESSAGE = 'Akun ini sudah dinonaktifkan. Hubungi admin sekolah.';
+
+export const recordActivity = () => {
+  localStorage.setItem(LAST_ACTIVITY_KEY, String(Date.now()));
+};
+
+const getLastActivity = (): number => Number(localStorage.getItem(LAST_ACTIVITY_KEY)) || 0;
+
+// Why a session is no longer usable, or null while it is still valid
+export const getSessionEndReason = (session: Session): 'expired' | 'idle' | null => {
+  const now = Date.now();
+  if (now >= new Date(session.expires_at).getTime()) return 'expired';
+  if (now - getLastActivity() >= IDLE_TIMEOUT_MS) return 'idle';
+  return null;
+};
+
+export const saveSession = (session: Session) => {
+  localStorage.setItem(SESSION_KEY, JSON.stringify(session));
+  recordActivity();
+};
+
+// Offline copies of the data were scoped to this user by the backend; the next user must not see them
+const clearCachedData = () => {
+  Object.keys(localStorage)
+    .filter(key => key.startsWith(CACHE_KEY_PREFIX))
+    .forEach(key => localStorage.removeItem(key));
+};
+
+export const clearSession = () => {
+  localStorage.removeItem(SESSION_KEY);
+  localStorage.removeItem(LAST_ACTIVITY_KEY);
+  clearCachedData();
+};
+
+// Token of the stored session, read when a request is sent. Expiry and idle time are left to
+// loadSession and the backend; an outdated token is simply refused there.
+export const getSessionToken = (): string | undefined => {
+  try {
+    const stored = localStorage.getItem(SESSION_KEY);
+    return stored ? JSON.parse(stored).token || undefined : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+// Restore the session after a reload, dropping it when it has expired or sat idle
+export const loadSession = (): Session | null => {
+  try {
+    const stored = localStorage.getItem(SESSION_KEY);
+    if (!stored) return null;
+    const session: Session = JSON.parse(stored);
+    // Sessions saved before logins went through the backend have no token and cannot be used
+    if (!session.username || !session.role || !session.token || getSessionEndReason(session)) {
+      clearSession();
+      return null;
+    }
+    return session;
+  } catch (e) {
+    console.error("Session corrupted", e);
+    clearSession();
+    return null;
+  }
+};
@@ -0,0 +1,120 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createGoogleSheetRepository } from './googleSheetRepository';
+import { makeViolation } from '../test/fixtures';
+import { AuthError } from './auth';
+
+const config = {
+  scriptUrl: 'https://script.example/exec',
+  columnAliases: { students: {}, violations: {} },
+};
+
+const postedBodies = () => {
+  const fetchMock = vi.fn().mockResolvedValue(new Response(''));
+  vi.stubGlobal('fetch', fetchMock);
+  return () => fetchMock.mock.calls.map(([, init]) => JSON.parse(init.body));
+};
+
+const answering = (answer: unknown) => {
+  const fetchMock = vi.fn().mockResolvedValue(new Response(JSON.stringify(answer)));
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+};
+
+const repositoryWithToken = (token?: string) => createGoogleSheetRepository(config, () => token);
+
+afterEach(() => vi.unstubAllGlobals());
+
+describe('login', () => {
+  it('takes the session from the signed token the script returns', async () => {
+    const fetchMock = answering({
+      ok: true,
+      token: 'payload.tanda',
+      pengguna: { username: 'bk', nama: 'Rina Kusuma', role: 'guru_bk' },
+      berlaku_sampai: '2025-08-05T08:00:00.000Z',
+    });
+    const session = await repositoryWithToken().login(' BK ', 'rahasia');
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body)).toEqual({ action: 'login', username: 'bk', password: 'rahasia' });
+    expect(session).toMatchObject({ username: 'bk', role: 'guru_bk', token: 'payload.tanda', expires_at: '2025-08-05T08:00:00.000Z' });
+  });
+
+  it('reports refused credentials as an AuthError', async () => {
+    answering({ ok: false, kode: 'login_ditolak', error: 'Username atau password salah!' });
+    await expect(repositoryWithToken().login('bk', 'salah')).rejects.toBeInstanceOf(AuthError);
+  });
+});
+
+describe('reads', () => {
+  it('ask the script for the sheet with the token', async () => {
+    const fetchMock = answering({ ok: true, csv: 'nis,nama_lengkap,kelas\n1001,Budi Santoso,7A' });
+    const { data } = await repositoryWithToken('payload.tanda').loadStudents();
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body)).toEqual({ action: 'baca', sheet: 'Siswa', token: 'payload.tanda' });
+    expect(data.map(s => s.nis)).toEqual(['1001']);
+  });
+
+  it('give up on a record table only once the script reports its sheet missing', async () => {
+    const repository = repositoryWithToken('payload.tanda');
+    expect(repository.canLoadRecords('audit')).toBe(true);
+
+    vi.stubGlobal('fetch', vi.fn().mockRejectedValue(new TypeError('Failed to fetch')));
+    await expect(repository.loadRecords('audit')).rejects.toThrow();
+    expect(repository.canLoadRecords('audit')).toBe(true);
+
+    answering({ ok: false, kode: 'sheet_tidak_ada', error: 'Sheet Audit tidak ada.' });
+    await expect(repository.loadRecords('audit')).rejects.toThrow('Sheet Audit tidak ada.');
+    expect(repository.canLoadRecords('audit')).toBe(false);
+  });
+
+  it('report a refused token as an AuthError', async () => {
+    answering({ ok: false, kode: 'token_tidak_sah', error: 'Sesi tidak berlaku.' });
+    await expect(repositoryWithToken('kedaluwarsa').loadViolations()).rejects.toBeInstanceOf(AuthError);
+  });
+});
+
+describe('checkAudit', () => {
+  it("returns the script's counter, failed signatures and missing numbers", async () => {
+    const fetchMock = answering({ ok: true, terakhir: 57, tanda_salah: ['AUD-K7QM-3-x'], hilang: [[12, 15]] });
+    await expect(repositoryWithToken('payload.tanda').checkAudit()).resolves.toEqual({ terakhir: 57, tanda_salah: ['AUD-K7QM-3-x'], hilang: [[12, 15]] });
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body)).toEqual({ action: 'periksa_audit', token: 'payload.tanda' });
+  });
+});
+
+describe('loadAttachment', () => {
+  it('asks the script with the token and refuses anything but a data URL', async () => {
+    const fetchMock = answering({ ok: true, isi: 'data:image/jpeg;base64,AAAA' });
+    await expect(repositoryWithToken('payload.tanda').loadAttachment('LMP-1')).resolves.toBe('data:image/jpeg;base64,AAAA');
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body)).toEqual({ action: 'lampiran', id: 'LMP-1', token: 'payload.tanda' });
+
+    answering({ ok: true, isi: '<html>' });
+    await expect(repositoryWithToken('payload.tanda').loadAttachment('LMP-1')).rejects.toThrow('Lampiran tidak dapat dibaca dari server.');
+  });
+
+  it('passes on a refusal for roles without access', async () => {
+    answering({ ok: false, kode: 'ditolak', error: 'Tidak berhak melihat lampiran.' });
+    await expect(repositoryWithToken('payload.tanda').loadAttachment('LMP-1')).rejects.toThrow('Tidak berhak melihat lampiran.');
+  });
+});
+
+describe('token', () => {
+  it('goes with every write', async () => {
+    const bodies = postedBodies();
+    await repositoryWithToken('payload.tanda').updateFollowUp({ kode_pelanggaran: 'CPS-AB12-0001', status_tindak_lanjut: 'Sudah Ditindak Lanjut', hasil_tindak_lanjut: 'Dinasihati' });
+    expect(bodies()[0]).toMatchObject({ action: 'update_tindak_lanjut', token: 'payload.tanda' });
+  });
+});
+
+describe('createViolation payload', () => {
+  it('leaves the void columns out so a re-sent create cannot un-void a row', async () => {
+    const bodies = postedBodies();
+    await repositoryWithToken().createViolation(makeViolation());
+    expect(bodies()[0]).not.toHaveProperty('dibatalkan_pada');
+    expect(bodies()[0]).not.toHaveProperty('alasan_batal');
+  });
+
+  it('sends them for a record voided before its first send', async () => {
+    const bodies = postedBodies();
+    await repositoryWithToken().createViolation(makeViolation({
+      dibatalkan_pada: '2025-08-05T01:00:00.000Z', dibatalkan_oleh: 'Admin', alasan_batal: 'Salah siswa dipilih',
+    }));
+    expect(bodies()[0]).toMatchObject({ dibatalkan_pada: '2025-08-05T01:00:00.000Z', dibatalkan_oleh: 'Admin', alasan_batal: 'Salah siswa dipilih' });
+  });
+});
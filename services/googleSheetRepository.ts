@@ -0,0 +1,242 @@
+import { RecordTable, UserRole, Violation } from '../types';
+import { GoogleSheetConfig } from '../config';
+import { parseStudentsCSV, parseViolationsCSV, parseSettingsCSV, parseRecordsCSV } from '../utils/csv';
+import { RECORD_SHEET_NAMES, serializeRecord } from '../utils/records';
+import { DataRepository, FollowUpUpdate, ViolationEdit, ViolationVoid, CodeRename, SettingUpdate, RecordWrite, AttachmentUpload, AuditSeal } from './repository';
+import { AuthError } from './auth';
+
+// Map an app-side violation to the column names the Apps Script expects
+const toSheetPayload = (v: Violation) => ({
+  kode_pelanggaran: v.kode_pelanggaran,
+  nis: v.nis,
+  nama: v.nama_lengkap,
+  jk: v.jenis_kelamin,
+  kelas: v.kelas,
+  wali_kelas: v.nama_wali_kelas,
+  kontak_ortu: v.kontak_ortu,
+  tanggal: v.tanggal_pelanggaran,
+  jam_kejadian: v.jam_kejadian || '',
+  jenis_pelanggaran: v.jenis_pelanggaran,
+  kategori_pelanggaran: v.kategori_pelanggaran,
+  lokasi: v.lokasi_kejadian,
+  pelapor: v.pelapor || '',
+  deskripsi: v.deskripsi,
+  status_tindak_lanjut: v.status_tindak_lanjut,
+  hasil_tindak_lanjut: v.hasil_tindak_lanjut,
+  poin_pelanggaran: v.poin_pelanggaran,
+  poin_dasar: v.poin_dasar ?? '',
+  aturan_berulang: v.aturan_berulang || '',
+  waktu_input: v.created_at,
+  // Only sent when the record was voided before its first send; never blanks these columns
+  ...(v.dibatalkan_pada ? {
+    dibatalkan_pada: v.dibatalkan_pada,
+    dibatalkan_oleh: v.dibatalkan_oleh || '',
+    alasan_batal: v.alasan_batal || ''
+  } : {})
+});
+
+// Answer of an action that is read back: { ok: true, ...data } or { ok: false, error, kode }
+type ScriptAnswer<T> = ({ ok: true } & T) | { ok: false; error?: string; kode?: string };
+
+interface LoginAnswer {
+  token: string;
+  pengguna: { username: string; nama: string; role: UserRole };
+  berlaku_sampai: string; // ISO timestamp, end of the token
+}
+
+// kode of answers that mean the credentials or the token were refused
+const AUTH_REFUSALS = ['login_ditolak', 'token_tidak_sah'];
+// kode of a read from a sheet that does not exist in the spreadsheet
+const MISSING_SHEET = 'sheet_tidak_ada';
+
+// Any other refusal the script explained
+class ScriptError extends Error {
+  kode: string;
+
+  constructor(message: string, kode: string) {
+    super(message);
+    this.name = 'ScriptError';
+    this.kode = kode;
+  }
+}
+
+// Sheet names the script reads from (record tables use RECORD_SHEET_NAMES)
+const STUDENTS_SHEET = 'Siswa';
+const VIOLATIONS_SHEET = 'Pelanggaran';
+const SETTINGS_SHEET = 'Pengaturan';
+
+// getToken is read on every request, so a queued write goes out with the token of the session sending it
+export const createGoogleSheetRepository = (config: GoogleSheetConfig, getToken: () => string | undefined): DataRepository => {
+  const postToScript = async (payload: Record<string, unknown>) => {
+    await fetch(config.scriptUrl, {
+      method: "POST",
+      mode: "no-cors", // Standard for Google Apps Script Web App without proxy
+      headers: { "Content-Type": "text/plain" },
+      body: JSON.stringify({ ...payload, token: getToken() })
+    });
+  };
+
+  // Actions whose answer is needed. A text/plain POST is a simple request (no preflight) and
+  // Apps Script answers it with CORS headers, so the JSON can be read without no-cors.
+  const callScript = async <T,>(payload: Record<string, unknown>): Promise<T> => {
+    const response = await fetch(config.scriptUrl, {
+      method: "POST",
+      credentials: 'omit',
+      cache: 'no-store',
+      headers: { "Content-Type": "text/plain" },
+      body: JSON.stringify({ ...payload, token: getToken() })
+    });
+    if (!response.ok) throw new Error(`HTTP error! status: ${response.status}`);
+
+    let answer: ScriptAnswer<T>;
+    try {
+      answer = JSON.parse(await response.text());
+    } catch {
+      throw new Error("Jawaban server tidak dapat dibaca. Cek URL Apps Script.");
+    }
+    if (!answer.ok) {
+      const message = answer.error || "Permintaan ditolak server.";
+      throw AUTH_REFUSALS.includes(answer.kode || '') ? new AuthError(message) : new ScriptError(message, answer.kode || '');
+    }
+    return answer;
+  };
+
+  // Sheets are never published: the script reads them for the token's user, leaving out or blanking
+  // what the role may not see, and answers with CSV text in the layout of the sheet
+  const readSheet = async (sheet: string): Promise<string> => {
+    return (await callScript<{ csv: string }>({ action: "baca", sheet })).csv;
+  };
+
+  // Record tables the script reported missing; writes to them can never be confirmed
+  const missingTables = new Set<RecordTable>();
+
+  return {
+    label: 'Google Sheet',
+
+    loadStudents: async () => parseStudentsCSV(await readSheet(STUDENTS_SHEET), config.columnAliases.students),
+
+    loadViolations: async () => parseViolationsCSV(await readSheet(VIOLATIONS_SHEET), config.columnAliases.violations),
+
+    // The script checks the password against the users sheet, which is never published
+    login: async (username, password) => {
+      const answer = await callScript<LoginAnswer>({ action: "login", username: username.trim().toLowerCase(), password });
+      return {
+        username: answer.pengguna.username,
+        nama: answer.pengguna.nama,
+        role: answer.pengguna.role,
+        token: answer.token,
+        issued_at: new Date().toISOString(),
+        expires_at: answer.berlaku_sampai,
+      };
+    },
+
+    loadTeacherNames: async () => (await callScript<{ nama: string[] }>({ action: "daftar_guru" })).nama,
+
+    loadSettings: async () => parseSettingsCSV(await readSheet(SETTINGS_SHEET)),
+
+    loadRecords: async (table) => {
+      try {
+        const csv = await readSheet(RECORD_SHEET_NAMES[table]);
+        missingTables.delete(table);
+        return parseRecordsCSV(table, csv);
+      } catch (error) {
+        if (error instanceof ScriptError && error.kode === MISSING_SHEET) missingTables.add(table);
+        throw error;
+      }
+    },
+
+    // Unknown until the first read; a table is only given up on once the script said it is missing
+    canLoadRecords: (table) => !missingTables.has(table),
+
+    createViolation: async (violation) => {
+      await postToScript(toSheetPayload(violation));
+    },
+
+    updateFollowUp: async (update: FollowUpUpdate) => {
+      await postToScript({
+        action: "update_tindak_lanjut",
+        kode_pelanggaran: update.kode_pelanggaran,
+        status_tindak_lanjut: update.status_tindak_lanjut,
+        hasil_tindak_lanjut: update.hasil_tindak_lanjut
+      });
+    },
+
+    editViolation: async ({ kode_pelanggaran, changes }: ViolationEdit) => {
+      await postToScript({
+        action: "ubah_pelanggaran",
+        kode_pelanggaran,
+        tanggal: changes.tanggal_pelanggaran,
+        jam_kejadian: changes.jam_kejadian || '',
+        jenis_pelanggaran: changes.jenis_pelanggaran,
+        kategori_pelanggaran: changes.kategori_pelanggaran,
+        poin_pelanggaran: changes.poin_pelanggaran,
+        poin_dasar: changes.poin_dasar ?? '',
+        aturan_berulang: changes.aturan_berulang || '',
+        lokasi: changes.lokasi_kejadian,
+        pelapor: changes.pelapor || '',
+        deskripsi: changes.deskripsi
+      });
+    },
+
+    voidViolation: async (voiding: ViolationVoid) => {
+      await postToScript({
+        action: "batalkan_pelanggaran",
+        kode_pelanggaran: voiding.kode_pelanggaran,
+        dibatalkan_pada: voiding.dibatalkan_pada,
+        dibatalkan_oleh: voiding.dibatalkan_oleh,
+        alasan_batal: voiding.alasan_batal
+      });
+    },
+
+    renameViolationCode: async (rename: CodeRename) => {
+      await postToScript({
+        action: "rename_kode",
+        baris: rename.sheet_row,
+        kode_lama: rename.old_code,
+        kode_baru: rename.new_code
+      });
+    },
+
+    saveSetting: async (update: SettingUpdate) => {
+      await postToScript({
+        action: "simpan_pengaturan",
+        kunci: update.key,
+        nilai: JSON.stringify(update.value)
+      });
+    },
+
+    saveRecord: async (write: RecordWrite) => {
+      await postToScript({
+        action: "simpan_record",
+        tabel: RECORD_SHEET_NAMES[write.table],
+        data: serializeRecord(write.table, write.record)
+      });
+    },
+
+    // The script saves the file to its Drive folder, then upserts the row in the Lampiran sheet
+    saveAttachment: async ({ record, data }: AttachmentUpload) => {
+      await postToScript({
+        action: "simpan_lampiran",
+        data: serializeRecord('lampiran', record),
+        isi: data
+      });
+    },
+
+    // Only answered for a token of a role that may view evidence (admin, guru_bk)
+    loadAttachment: async (id: string) => {
+      const { isi } = await callScript<{ isi: string }>({ action: "lampiran", id });
+      if (typeof isi !== 'string' || !isi.startsWith('data:')) throw new Error("Lampiran tidak dapat dibaca dari server.");
+      return isi;
+    },
+
+    // The script checks every signature and its own counter against the Audit sheet
+    checkAudit: async () => {
+      const answer = await callScript<Partial<AuditSeal>>({ action: "periksa_audit" });
+      return {
+        terakhir: Number(answer.terakhir) || 0,
+        tanda_salah: Array.isArray(answer.tanda_salah) ? answer.tanda_salah : [],
+        hilang: Array.isArray(answer.hilang) ? answer.hilang : [],
+      };
+    },
+  };
+};
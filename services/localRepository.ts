@@ -0,0 +1,165 @@
+import { Student, Violation, UserAccount, AppSettings, RecordStore, RecordTables } from '../types';
+import { DataRepository } from './repository';
+import { AuthError, INACTIVE_ACCOUNT_MESSAGE, SESSION_DURATION_MS, verifyPassword, WRONG_CREDENTIALS_MESSAGE } from './auth';
+import { emptyRecordStore } from '../utils/records';
+
+export interface LocalDatabase {
+  students: Student[];
+  violations: Violation[];
+  users: UserAccount[];
+  settings: AppSettings;
+  records: RecordStore;
+  attachments: Record<string, string>; // id -> data URL
+}
+
+interface LocalRepositoryOptions {
+  seed: LocalDatabase;
+  // When set, the database survives page reloads. Leave empty for a pure in-memory store (demos, tests).
+  storageKey?: string;
+}
+
+const clone = <T,>(value: T): T => JSON.parse(JSON.stringify(value));
+
+// Backend that keeps everything in the browser. Useful for training sessions and
+// for running the app against test data without touching the school's real sheet.
+export const createLocalRepository = ({ seed, storageKey }: LocalRepositoryOptions): DataRepository => {
+  const load = (): LocalDatabase => {
+    if (storageKey) {
+      try {
+        const stored = localStorage.getItem(storageKey);
+        if (stored) {
+          const parsed = JSON.parse(stored);
+          if (parsed && Array.isArray(parsed.students) && Array.isArray(parsed.violations)) {
+            // Databases saved by older versions get the seed values for what they lack
+            return {
+              ...parsed,
+              users: Array.isArray(parsed.users) ? parsed.users : clone(seed.users),
+              settings: parsed.settings || clone(seed.settings),
+              records: { ...emptyRecordStore(), ...clone(seed.records), ...parsed.records },
+              attachments: parsed.attachments || {},
+            };
+          }
+        }
+      } catch (e) {
+        console.error("Local database corrupted, falling back to seed data", e);
+      }
+    }
+    return clone(seed);
+  };
+
+  const db = load();
+
+  const persist = () => {
+    if (!storageKey) return;
+    try {
+      localStorage.setItem(storageKey, JSON.stringify(db));
+    } catch (e) {
+      console.error("Failed to persist local database", e);
+    }
+  };
+
+  return {
+    label: 'Penyimpanan Lokal',
+
+    loadStudents: async () => ({ data: clone(db.students), warnings: [] }),
+
+    // Row numbers mimic a sheet with a header row so sheet_row means the same for both backends
+    loadViolations: async () => ({
+      data: clone(db.violations).map((v, i) => ({ ...v, sheet_row: i + 2 })),
+      warnings: [],
+    }),
+
+    // Nothing to sign for: the whole database is in this browser, so the token is a placeholder
+    login: async (username, password) => {
+      const user = db.users.find(u => u.username === username.trim().toLowerCase());
+      if (!user || !(await verifyPassword(password, user.password_hash))) throw new AuthError(WRONG_CREDENTIALS_MESSAGE);
+      if (!user.aktif) throw new AuthError(INACTIVE_ACCOUNT_MESSAGE);
+      const now = Date.now();
+      return {
+        username: user.username,
+        nama: user.nama,
+        role: user.role,
+        token: `lokal:${user.username}`,
+        issued_at: new Date(now).toISOString(),
+        expires_at: new Date(now + SESSION_DURATION_MS).toISOString(),
+      };
+    },
+
+    loadTeacherNames: async () => db.users.filter(u => u.aktif).map(u => u.nama),
+
+    loadSettings: async () => clone(db.settings),
+
+    loadRecords: async (table) => clone(db.records[table]),
+
+    canLoadRecords: () => true,
+
+    // Insert only: a re-sent create must not overwrite a row that was changed since
+    createViolation: async (violation) => {
+      if (db.violations.some(v => v.kode_pelanggaran === violation.kode_pelanggaran)) return;
+      db.violations.push(clone(violation));
+      persist();
+    },
+
+    updateFollowUp: async (update) => {
+      const target = db.violations.find(v => v.kode_pelanggaran === update.kode_pelanggaran);
+      if (!target) throw new Error(`Pelanggaran ${update.kode_pelanggaran} tidak ditemukan`);
+      target.status_tindak_lanjut = update.status_tindak_lanjut;
+      target.hasil_tindak_lanjut = update.hasil_tindak_lanjut;
+      persist();
+    },
+
+    editViolation: async ({ kode_pelanggaran, changes }) => {
+      const target = db.violations.find(v => v.kode_pelanggaran === kode_pelanggaran);
+      if (!target) throw new Error(`Pelanggaran ${kode_pelanggaran} tidak ditemukan`);
+      Object.assign(target, clone(changes));
+      persist();
+    },
+
+    voidViolation: async ({ kode_pelanggaran, ...voiding }) => {
+      const target = db.violations.find(v => v.kode_pelanggaran === kode_pelanggaran);
+      if (!target) throw new Error(`Pelanggaran ${kode_pelanggaran} tidak ditemukan`);
+      Object.assign(target, voiding);
+      persist();
+    },
+
+    renameViolationCode: async (rename) => {
+      const target = db.violations[rename.sheet_row - 2];
+      if (!target || target.kode_pelanggaran !== rename.old_code) {
+        throw new Error(`Baris ${rename.sheet_row} tidak berisi kode ${rename.old_code}`);
+      }
+      target.kode_pelanggaran = rename.new_code;
+      target.id = rename.new_code;
+      persist();
+    },
+
+    saveSetting: async (update) => {
+      db.settings = { ...db.settings, [update.key]: clone(update.value) };
+      persist();
+    },
+
+    saveRecord: async ({ table, record }) => {
+      const rows = db.records[table] as RecordTables[typeof table][];
+      const { sync_status, ...stored } = clone(record);
+      const index = rows.findIndex(r => r.id === record.id);
+      if (index === -1) rows.push(stored);
+      else rows[index] = stored;
+      persist();
+    },
+
+    saveAttachment: async ({ record, data }) => {
+      db.attachments[record.id] = data;
+      const { sync_status, ...stored } = clone(record);
+      db.records.lampiran = [...db.records.lampiran.filter(r => r.id !== record.id), stored];
+      persist();
+    },
+
+    loadAttachment: async (id) => {
+      const data = db.attachments[id];
+      if (!data) throw new Error(`Lampiran ${id} tidak ditemukan`);
+      return data;
+    },
+
+    // The database sits on this device next to the app; there is no independent copy to vouch for it
+    checkAudit: async () => null,
+  };
+};
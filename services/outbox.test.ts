@@ -0,0 +1,249 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { applyOutbox, applyOutboxSettings, createOutboxItem, enqueueOperation, getQueuedAttachmentBytes, getSyncStatusByCode, OutboxItem, reconcileOutbox, retryFailedItems, saveOutbox, sendDueItems, withPreviousValues } from './outbox';
+import { makeViolation } from '../test/fixtures';
+import { AttachmentUpload, DataRepository } from './repository';
+
+const HOUR = 60 * 60 * 1000;
+const NOW = Date.parse('2025-08-05T08:00:00.000Z');
+
+const sentItem = (item: OutboxItem, sentAt: number): OutboxItem => ({ ...item, status: 'sent', lastSentAt: sentAt });
+
+describe('create confirmation', () => {
+  it('confirms a create once its code is in the sheet, whatever the follow-up columns say', () => {
+    const queued = makeViolation();
+    const closedElsewhere = makeViolation({ status_tindak_lanjut: 'Sudah Ditindak Lanjut', hasil_tindak_lanjut: 'Dipanggil', sheet_row: 2 });
+    const items = [sentItem(createOutboxItem({ type: 'create_violation', violation: queued }, NOW - 24 * HOUR), NOW - 24 * HOUR)];
+
+    expect(reconcileOutbox(items, { violations: [closedElsewhere] }, NOW)).toEqual([]);
+  });
+
+  it('never lays a queued create over a row that is already in the sheet', () => {
+    const queued = makeViolation();
+    const closedElsewhere = makeViolation({ status_tindak_lanjut: 'Sudah Ditindak Lanjut', dibatalkan_pada: '2025-08-05T01:00:00.000Z', sheet_row: 2 });
+    const items = [sentItem(createOutboxItem({ type: 'create_violation', violation: queued }, NOW - 24 * HOUR), NOW - 24 * HOUR)];
+
+    const [shown] = applyOutbox([closedElsewhere], items);
+    expect(shown.status_tindak_lanjut).toBe('Sudah Ditindak Lanjut');
+    expect(shown.dibatalkan_pada).toBe('2025-08-05T01:00:00.000Z');
+  });
+
+  it('re-sends a create that never showed up', () => {
+    const items = [sentItem(createOutboxItem({ type: 'create_violation', violation: makeViolation() }, NOW - HOUR), NOW - HOUR)];
+    const [item] = reconcileOutbox(items, { violations: [] }, NOW);
+    expect(item.status).toBe('pending');
+    expect(item.lastError).toBe('Data belum muncul di server');
+  });
+
+  it('waits when the violations were not fetched', () => {
+    const items = [sentItem(createOutboxItem({ type: 'create_violation', violation: makeViolation() }, NOW - HOUR), NOW - HOUR)];
+    expect(reconcileOutbox(items, {}, NOW)).toEqual(items);
+  });
+});
+
+describe('update confirmation', () => {
+  const open = makeViolation({ sheet_row: 2 });
+  const closeCase = withPreviousValues({
+    type: 'update_follow_up',
+    update: { kode_pelanggaran: open.kode_pelanggaran, status_tindak_lanjut: 'Sudah Ditindak Lanjut', hasil_tindak_lanjut: 'Dinasihati' },
+  }, [open]);
+
+  it('remembers what the update replaces', () => {
+    expect(closeCase).toMatchObject({ sebelum: { status_tindak_lanjut: open.status_tindak_lanjut, hasil_tindak_lanjut: open.hasil_tindak_lanjut } });
+  });
+
+  it('re-sends while the row still holds the old values', () => {
+    const items = [sentItem(createOutboxItem(closeCase, NOW - HOUR), NOW - HOUR)];
+    expect(reconcileOutbox(items, { violations: [open] }, NOW)[0].status).toBe('pending');
+  });
+
+  it('never re-sends over a newer change from another device', () => {
+    const changedElsewhere = { ...open, status_tindak_lanjut: 'Sudah Ditindak Lanjut' as const, hasil_tindak_lanjut: 'Orang tua dipanggil' };
+    const items = [sentItem(createOutboxItem(closeCase, NOW - HOUR), NOW - HOUR)];
+    expect(reconcileOutbox(items, { violations: [changedElsewhere] }, NOW)).toEqual([]);
+  });
+
+  it('keeps waiting for the confirmation until the resend would be due', () => {
+    const changedElsewhere = { ...open, hasil_tindak_lanjut: 'Orang tua dipanggil' };
+    const items = [sentItem(createOutboxItem(closeCase, NOW - 60 * 1000), NOW - 60 * 1000)];
+    expect(reconcileOutbox(items, { violations: [changedElsewhere] }, NOW)).toEqual(items);
+  });
+});
+
+describe('enqueueOperation', () => {
+  const followUp = { type: 'update_follow_up' as const, update: { kode_pelanggaran: 'CPS-AB12-0001', status_tindak_lanjut: 'Sudah Ditindak Lanjut' as const, hasil_tindak_lanjut: 'Dinasihati' } };
+
+  it('folds an update into a create that was not sent yet', () => {
+    const items = enqueueOperation([], { type: 'create_violation', violation: makeViolation() }, NOW);
+    const next = enqueueOperation(items, followUp, NOW);
+    expect(next).toHaveLength(1);
+    expect(next[0].op).toMatchObject({ type: 'create_violation', violation: { status_tindak_lanjut: 'Sudah Ditindak Lanjut', hasil_tindak_lanjut: 'Dinasihati' } });
+  });
+
+  it('queues the update itself behind a create that was already sent', () => {
+    const items = [sentItem(createOutboxItem({ type: 'create_violation', violation: makeViolation() }, NOW), NOW)];
+    const next = enqueueOperation(items, followUp, NOW);
+    expect(next.map(i => i.op.type)).toEqual(['create_violation', 'update_follow_up']);
+    expect(next[0]).toBe(items[0]);
+  });
+
+  it('replaces an unsent value of the same setting, but keeps one that is on its way', () => {
+    const policy = (persen_bawaan: number) => ({ type: 'save_setting' as const, update: { key: 'point_policy' as const, value: { reset: 'semester' as const, persen_bawaan } } });
+    const unsent = enqueueOperation(enqueueOperation([], policy(10), NOW), policy(20), NOW);
+    expect(unsent).toHaveLength(1);
+    expect(applyOutboxSettings({}, unsent).point_policy?.persen_bawaan).toBe(20);
+
+    const afterSend = enqueueOperation([sentItem(unsent[0], NOW)], policy(30), NOW);
+    expect(afterSend).toHaveLength(2);
+    expect(applyOutboxSettings({}, afterSend).point_policy?.persen_bawaan).toBe(30);
+  });
+});
+
+describe('sync status', () => {
+  it('shows a record as failed while any of its writes failed, until it is retried', () => {
+    const create = createOutboxItem({ type: 'create_violation', violation: makeViolation() }, NOW);
+    const items: OutboxItem[] = [
+      { ...create, status: 'failed', attempts: 8 },
+      createOutboxItem({ type: 'update_follow_up', update: { kode_pelanggaran: 'CPS-AB12-0001', status_tindak_lanjut: 'Sudah Ditindak Lanjut', hasil_tindak_lanjut: 'Dinasihati' } }, NOW),
+    ];
+    expect(getSyncStatusByCode(items).get('CPS-AB12-0001')).toBe('failed');
+    expect(applyOutbox([], items)[0]).toMatchObject({ sync_status: 'failed', status_tindak_lanjut: 'Sudah Ditindak Lanjut' });
+
+    const retried = retryFailedItems(items, NOW);
+    expect(retried[0]).toMatchObject({ status: 'pending', attempts: 0 });
+    expect(getSyncStatusByCode(retried).get('CPS-AB12-0001')).toBe('pending');
+  });
+});
+
+describe('outbox storage', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const upload = (id: string, ukuran: number): AttachmentUpload => ({
+    record: {
+      id,
+      kode_pelanggaran: 'CPS-AB12-0001',
+      nis: '1001',
+      nama_file: `${id}.jpg`,
+      tipe: 'image/jpeg',
+      ukuran,
+      thumbnail: '',
+      diunggah_oleh: 'Agus',
+      diunggah_pada: '2025-08-05T08:00:00.000Z',
+    },
+    data: 'data:image/jpeg;base64,AAAA',
+  });
+
+  it('counts the bytes of queued files only', () => {
+    const items = [
+      createOutboxItem({ type: 'create_violation', violation: makeViolation() }, NOW),
+      createOutboxItem({ type: 'upload_attachment', upload: upload('LMP-1', 300_000) }, NOW),
+      createOutboxItem({ type: 'upload_attachment', upload: upload('LMP-2', 200_000) }, NOW),
+    ];
+    expect(getQueuedAttachmentBytes(items)).toBe(500_000);
+  });
+
+  it('reports a write the browser refused', () => {
+    vi.stubGlobal('localStorage', {
+      setItem: () => { throw new DOMException('Quota exceeded', 'QuotaExceededError'); },
+    });
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    expect(saveOutbox([createOutboxItem({ type: 'create_violation', violation: makeViolation() }, NOW)])).toBe(false);
+    vi.restoreAllMocks();
+  });
+});
+
+describe('record writes that cannot be confirmed', () => {
+  const auditWrite = () => createOutboxItem({
+    type: 'save_record',
+    write: {
+      table: 'audit',
+      record: {
+        id: 'AUD-AB12-1',
+        waktu: '2025-08-03T08:00:00.000Z',
+        pengguna: 'agus',
+        nama: 'Agus',
+        peran: 'guru',
+        perangkat: 'AB12',
+        urutan: 1,
+        aksi: 'login',
+        objek: 'pengguna:agus',
+        hash_sebelumnya: '',
+        hash: 'abc',
+      },
+    },
+  }, NOW - 2 * 24 * HOUR);
+
+  it('drops a sent write once its table has had no readable source for a day', () => {
+    const items = [sentItem(auditWrite(), NOW - 25 * HOUR)];
+    expect(reconcileOutbox(items, { violations: [], unreadableTables: ['audit'] }, NOW)).toEqual([]);
+  });
+
+  it('keeps it while it is recent or not sent yet', () => {
+    const items = [sentItem(auditWrite(), NOW - HOUR), auditWrite()];
+    expect(reconcileOutbox(items, { violations: [], unreadableTables: ['audit'] }, NOW)).toEqual(items);
+  });
+
+  it('keeps it when a configured table only failed to load', () => {
+    const items = [sentItem(auditWrite(), NOW - 25 * HOUR)];
+    expect(reconcileOutbox(items, { violations: [], records: {} }, NOW)).toEqual(items);
+  });
+
+  it('never drops a violation write that way', () => {
+    const items = [sentItem(createOutboxItem({ type: 'create_violation', violation: makeViolation() }, NOW - 2 * 24 * HOUR), NOW - 25 * HOUR)];
+    expect(reconcileOutbox(items, {}, NOW)).toEqual(items);
+  });
+});
+
+describe('sendDueItems', () => {
+  const recordingRepository = () => {
+    const sent: string[] = [];
+    const repository = {
+      createViolation: async (v: { kode_pelanggaran: string }) => { sent.push(`create:${v.kode_pelanggaran}`); },
+      updateFollowUp: async (u: { kode_pelanggaran: string }) => { sent.push(`update:${u.kode_pelanggaran}`); },
+    } as unknown as DataRepository;
+    return { sent, repository };
+  };
+
+  const followUp = (kode_pelanggaran: string) => ({
+    type: 'update_follow_up' as const,
+    update: { kode_pelanggaran, status_tindak_lanjut: 'Sudah Ditindak Lanjut' as const, hasil_tindak_lanjut: 'Dinasihati' },
+  });
+
+  it('holds back later writes for a record whose earlier write failed', async () => {
+    const { sent, repository } = recordingRepository();
+    const failedCreate: OutboxItem = { ...createOutboxItem({ type: 'create_violation', violation: makeViolation() }, NOW), status: 'failed', attempts: 8 };
+    const items = [
+      failedCreate,
+      createOutboxItem(followUp('CPS-AB12-0001'), NOW),
+      createOutboxItem({ type: 'create_violation', violation: makeViolation({ kode_pelanggaran: 'CPS-AB12-0002' }) }, NOW),
+    ];
+
+    const changed = await sendDueItems(repository, items, 'bk', NOW);
+    expect(sent).toEqual(['create:CPS-AB12-0002']);
+    expect(changed.has(items[1].id)).toBe(false);
+  });
+
+  it('sends them in order once the failed write is retried', async () => {
+    const { sent, repository } = recordingRepository();
+    const items = [
+      createOutboxItem({ type: 'create_violation', violation: makeViolation() }, NOW),
+      createOutboxItem(followUp('CPS-AB12-0001'), NOW),
+    ];
+
+    await sendDueItems(repository, items, 'bk', NOW);
+    expect(sent).toEqual(['create:CPS-AB12-0001', 'update:CPS-AB12-0001']);
+  });
+
+  it('leaves the writes of another user on this device for their next login', async () => {
+    const { sent, repository } = recordingRepository();
+    const items = [
+      createOutboxItem({ type: 'create_violation', violation: makeViolation() }, NOW, 'agus'),
+      createOutboxItem(followUp('CPS-AB12-0001'), NOW, 'bk'),
+      createOutboxItem({ type: 'create_violation', violation: makeViolation({ kode_pelanggaran: 'CPS-AB12-0002' }) }, NOW, 'bk'),
+    ];
+
+    await sendDueItems(repository, items, 'bk', NOW);
+    expect(sent).toEqual(['create:CPS-AB12-0002']);
+  });
+});
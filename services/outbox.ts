@@ -0,0 +1,475 @@
+import { Violation, SyncStatus, AppSettings, RecordStore, RecordTable, RecordTables } from '../types';
+import { DataRepository, FollowUpUpdate, ViolationEdit, ViolationVoid, CodeRename, SettingUpdate, RecordWrite, AttachmentUpload } from './repository';
+import { RECORD_TABLES, recordsEqual } from '../utils/records';
+
+// Persistent queue of writes that still have to reach the backend.
+// Every create/update is queued here first, sent with retry + backoff, and only
+// removed once the next data fetch shows the change actually landed in the sheet.
+// Apps Script is called with mode "no-cors", so a resolved fetch only means "sent", never "saved".
+
+// sebelum: on a violation update, what the updated fields held when this device made it (see withPreviousValues)
+export type WriteOperation =
+  | { type: 'create_violation'; violation: Violation }
+  | { type: 'update_follow_up'; update: FollowUpUpdate; sebelum?: Partial<Violation> }
+  | { type: 'edit_violation'; edit: ViolationEdit; sebelum?: Partial<Violation> }
+  | { type: 'void_violation'; voiding: ViolationVoid; sebelum?: Partial<Violation> }
+  | { type: 'rename_code'; rename: CodeRename }
+  | { type: 'save_setting'; update: SettingUpdate }
+  | { type: 'save_record'; write: RecordWrite }
+  | { type: 'upload_attachment'; upload: AttachmentUpload };
+
+// pending: waiting to be sent, sent: waiting for confirmation, failed: gave up, needs a manual retry
+export type OutboxItemStatus = 'pending' | 'sent' | 'failed';
+
+export interface OutboxItem {
+  id: string;
+  op: WriteOperation;
+  status: OutboxItemStatus;
+  attempts: number;
+  enqueuedAt: number;
+  nextAttemptAt: number;
+  lastSentAt?: number;
+  lastError?: string;
+  // Username of whoever queued it. The item is only sent while that user is logged in, so it always
+  // goes out with their token and is checked against their role.
+  pengguna?: string;
+}
+
+const OUTBOX_KEY = 'simpas_outbox';
+// Pre-outbox versions kept optimistic records here
+const LEGACY_LOCAL_KEY = 'simpas_local_violations';
+
+const MAX_ATTEMPTS = 8;
+const BASE_BACKOFF_MS = 5 * 1000;
+const MAX_BACKOFF_MS = 5 * 60 * 1000;
+// The script may still be working through a write (or the connection dropped it unseen), so wait
+// before assuming a send was lost
+const CONFIRM_TIMEOUT_MS = 15 * 60 * 1000;
+// A sent record write to a table the backend has no readable source for is dropped after this long
+// rather than kept forever
+const UNCONFIRMED_RECORD_TTL_MS = 24 * 60 * 60 * 1000;
+
+const generateId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+const backoffDelay = (attempts: number) => Math.min(BASE_BACKOFF_MS * 2 ** Math.max(0, attempts - 1), MAX_BACKOFF_MS);
+
+export const getOperationCode = (op: WriteOperation): string => {
+  switch (op.type) {
+    case 'create_violation':
+      return op.violation.kode_pelanggaran;
+    case 'update_follow_up':
+      return op.update.kode_pelanggaran;
+    case 'edit_violation':
+      return op.edit.kode_pelanggaran;
+    case 'void_violation':
+      return op.voiding.kode_pelanggaran;
+    case 'rename_code':
+      return op.rename.new_code;
+    case 'save_setting':
+      return `setting:${op.update.key}`;
+    case 'save_record':
+      return `${op.write.table}:${op.write.record.id}`;
+    case 'upload_attachment':
+      return `lampiran:${op.upload.record.id}`;
+  }
+};
+
+export const loadOutbox = (): OutboxItem[] => {
+  let items: OutboxItem[] = [];
+  try {
+    const stored = localStorage.getItem(OUTBOX_KEY);
+    const parsed = stored ? JSON.parse(stored) : [];
+    if (Array.isArray(parsed)) items = parsed;
+  } catch (e) {
+    console.error("Error parsing outbox", e);
+  }
+
+  // One-time migration of records saved by the old optimistic-update logic
+  try {
+    const legacyStr = localStorage.getItem(LEGACY_LOCAL_KEY);
+    if (legacyStr) {
+      const legacy = JSON.parse(legacyStr);
+      if (Array.isArray(legacy)) {
+        legacy.forEach((v: any) => {
+          if (!v || !v.kode_pelanggaran) return;
+          const { _localTimestamp, ...violation } = v;
+          items.push(createOutboxItem({ type: 'create_violation', violation }, _localTimestamp || Date.now()));
+        });
+      }
+      localStorage.removeItem(LEGACY_LOCAL_KEY);
+    }
+  } catch (e) {
+    console.error("Error migrating local violations", e);
+  }
+
+  return items;
+};
+
+// False when the browser refused the write (storage full): the queue then only lives until a reload
+export const saveOutbox = (items: OutboxItem[]): boolean => {
+  try {
+    localStorage.setItem(OUTBOX_KEY, JSON.stringify(items));
+    return true;
+  } catch (e) {
+    console.error("Failed to persist outbox", e);
+    return false;
+  }
+};
+
+// Bytes of evidence files still held in the queue (until the sheet shows them)
+export const getQueuedAttachmentBytes = (items: OutboxItem[]): number => {
+  return items.reduce((total, item) => total + (item.op.type === 'upload_attachment' ? item.op.upload.record.ukuran : 0), 0);
+};
+
+export const createOutboxItem = (op: WriteOperation, now = Date.now(), pengguna?: string): OutboxItem => ({
+  id: generateId(),
+  op,
+  status: 'pending',
+  attempts: 0,
+  enqueuedAt: now,
+  nextAttemptAt: now,
+  pengguna,
+});
+
+const applyWrite = async (repository: DataRepository, op: WriteOperation) => {
+  switch (op.type) {
+    case 'create_violation':
+      return repository.createViolation(op.violation);
+    case 'update_follow_up':
+      return repository.updateFollowUp(op.update);
+    case 'edit_violation':
+      return repository.editViolation(op.edit);
+    case 'void_violation':
+      return repository.voidViolation(op.voiding);
+    case 'rename_code':
+      return repository.renameViolationCode(op.rename);
+    case 'save_setting':
+      return repository.saveSetting(op.update);
+    case 'save_record':
+      return repository.saveRecord(op.write);
+    case 'upload_attachment':
+      return repository.saveAttachment(op.upload);
+  }
+};
+
+// Records a write touches: its own code, plus the violation a file belongs to or the row a rename replaces
+const getDependencyKeys = (op: WriteOperation): string[] => {
+  if (op.type === 'upload_attachment') return [getOperationCode(op), op.upload.record.kode_pelanggaran];
+  if (op.type === 'rename_code') return [op.rename.new_code, op.rename.old_code];
+  return [getOperationCode(op)];
+};
+
+// Send every due item of the logged-in user in queue order. Stops at the first network failure so that
+// an update is never delivered before the create it depends on. Items behind a failed item, or behind
+// an item another user queued on this device, for the same record wait until that one is sent.
+// Items from before writes were tied to a user go out with the current token.
+// Returns the items that changed, keyed by id.
+export const sendDueItems = async (
+  repository: DataRepository,
+  items: OutboxItem[],
+  pengguna: string,
+  now = Date.now()
+): Promise<Map<string, OutboxItem>> => {
+  const changed = new Map<string, OutboxItem>();
+  const blocked = new Set<string>();
+
+  for (const item of items) {
+    const keys = getDependencyKeys(item.op);
+    if (item.status === 'failed' || (item.status === 'pending' && item.pengguna && item.pengguna !== pengguna)) {
+      keys.forEach(key => blocked.add(key));
+      continue;
+    }
+    if (item.status !== 'pending') continue;
+    if (keys.some(key => blocked.has(key))) {
+      // Whatever depends on this item has to wait too
+      keys.forEach(key => blocked.add(key));
+      continue;
+    }
+    if (item.nextAttemptAt > now) break;
+
+    try {
+      await applyWrite(repository, item.op);
+      changed.set(item.id, { ...item, status: 'sent', lastSentAt: Date.now(), lastError: undefined });
+    } catch (error) {
+      const attempts = item.attempts + 1;
+      changed.set(item.id, {
+        ...item,
+        attempts,
+        status: attempts >= MAX_ATTEMPTS ? 'failed' : 'pending',
+        nextAttemptAt: Date.now() + backoffDelay(attempts),
+        lastError: error instanceof Error ? error.message : String(error),
+      });
+      break;
+    }
+  }
+
+  return changed;
+};
+
+// Fields an update writes onto an existing violation
+export type ViolationUpdateOp = Extract<WriteOperation, { type: 'update_follow_up' | 'edit_violation' | 'void_violation' }>;
+
+export const isViolationUpdate = (op: WriteOperation): op is ViolationUpdateOp => {
+  return op.type === 'update_follow_up' || op.type === 'edit_violation' || op.type === 'void_violation';
+};
+
+export const getViolationPatch = (op: ViolationUpdateOp): { kode_pelanggaran: string; patch: Partial<Violation> } => {
+  switch (op.type) {
+    case 'update_follow_up': {
+      const { kode_pelanggaran, ...patch } = op.update;
+      return { kode_pelanggaran, patch };
+    }
+    case 'edit_violation':
+      return { kode_pelanggaran: op.edit.kode_pelanggaran, patch: op.edit.changes };
+    case 'void_violation': {
+      const { kode_pelanggaran, ...patch } = op.voiding;
+      return { kode_pelanggaran, patch };
+    }
+  }
+};
+
+// Remember what a violation update replaces, as this device shows the row now
+export const withPreviousValues = (op: WriteOperation, violations: Violation[]): WriteOperation => {
+  if (!isViolationUpdate(op)) return op;
+  const { kode_pelanggaran, patch } = getViolationPatch(op);
+  const current = violations.find(v => v.kode_pelanggaran === kode_pelanggaran);
+  if (!current) return op;
+  const sebelum: Partial<Violation> = Object.fromEntries(
+    (Object.keys(patch) as (keyof Violation)[]).map(key => [key, current[key]])
+  );
+  return { ...op, sebelum };
+};
+
+// Values are compared as the CSV shows them. The sheet may reformat the void timestamp,
+// so for that column only its presence counts.
+const hasValues = (sheetV: Violation, expected: Partial<Violation>) => {
+  return (Object.keys(expected) as (keyof Violation)[]).every(key => {
+    if (key === 'dibatalkan_pada') return !!sheetV.dibatalkan_pada === !!expected.dibatalkan_pada;
+    return String(sheetV[key] ?? '').trim() === String(expected[key] ?? '').trim();
+  });
+};
+
+// Freshly fetched backend data. A part is left out when it came from the offline cache,
+// because cached data may predate a write and cannot confirm it.
+export interface BackendSnapshot {
+  violations?: Violation[];
+  settings?: AppSettings;
+  records?: Partial<RecordStore>;
+  // Record tables that are never fetched, so their writes can never be confirmed. A table missing from
+  // `records` only because its fetch failed is not listed here and its writes wait for the next fetch.
+  unreadableTables?: RecordTable[];
+}
+
+interface SnapshotIndex {
+  sheetByCode: Map<string, Violation>;
+  sheetByRow: Map<number, Violation>;
+  settings?: AppSettings;
+  records: Partial<RecordStore>;
+  hasViolations: boolean;
+}
+
+// true/false once the snapshot can tell, null when the relevant data was not fetched
+const isConfirmed = (op: WriteOperation, { sheetByCode, sheetByRow, settings, records, hasViolations }: SnapshotIndex): boolean | null => {
+  if (op.type === 'save_setting') {
+    if (!settings) return null;
+    return JSON.stringify(settings[op.update.key]) === JSON.stringify(op.update.value);
+  }
+  if (op.type === 'save_record') {
+    const { table, record } = op.write;
+    const rows = records[table] as typeof record[] | undefined;
+    if (!rows) return null;
+    const stored = rows.find(r => r.id === record.id);
+    return !!stored && recordsEqual(table, stored, record);
+  }
+  if (op.type === 'upload_attachment') {
+    // The row is only written once the file is stored
+    if (!records.lampiran) return null;
+    return records.lampiran.some(r => r.id === op.upload.record.id);
+  }
+  if (!hasViolations) return null;
+
+  switch (op.type) {
+    // The row exists: the create landed. Its other columns may already have been changed by
+    // another device, so they are not compared (and the create is never sent over them again).
+    case 'create_violation':
+      return sheetByCode.has(op.violation.kode_pelanggaran);
+    case 'update_follow_up':
+    case 'edit_violation':
+    case 'void_violation': {
+      const { kode_pelanggaran, patch } = getViolationPatch(op);
+      const sheetV = sheetByCode.get(kode_pelanggaran);
+      return !!sheetV && hasValues(sheetV, patch);
+    }
+    case 'rename_code':
+      return sheetByRow.get(op.rename.sheet_row)?.kode_pelanggaran === op.rename.new_code;
+  }
+};
+
+// The row holds neither what a sent update replaced nor what it wrote: another device changed it
+// afterwards. That change is newer, so the update must not be sent over it again.
+const isChangedElsewhere = (op: WriteOperation, { sheetByCode }: SnapshotIndex): boolean => {
+  if (!isViolationUpdate(op) || !op.sebelum) return false;
+  const sheetV = sheetByCode.get(getViolationPatch(op).kode_pelanggaran);
+  return !!sheetV && !hasValues(sheetV, op.sebelum);
+};
+
+// Compare the queue with freshly fetched sheet data: drop confirmed items and
+// schedule a resend for items that were sent long ago but never showed up. A violation update is
+// dropped instead when another device has changed the row since.
+// Record writes (including files) to a table the backend cannot read cannot be confirmed; once sent they
+// are given up on after a day. Violations are never given up on: their sheet is always configured.
+export const reconcileOutbox = (items: OutboxItem[], snapshot: BackendSnapshot, now = Date.now()): OutboxItem[] => {
+  const index: SnapshotIndex = {
+    sheetByCode: new Map(),
+    sheetByRow: new Map(),
+    settings: snapshot.settings,
+    records: snapshot.records || {},
+    hasViolations: !!snapshot.violations,
+  };
+  (snapshot.violations || []).forEach(v => {
+    index.sheetByCode.set(v.kode_pelanggaran, v);
+    if (v.sheet_row !== undefined) index.sheetByRow.set(v.sheet_row, v);
+  });
+
+  return items.reduce<OutboxItem[]>((acc, item) => {
+    const confirmed = isConfirmed(item.op, index);
+    if (confirmed) return acc;
+
+    const table = item.op.type === 'save_record' ? item.op.write.table : item.op.type === 'upload_attachment' ? 'lampiran' : null;
+    const unreadable = !!table && (snapshot.unreadableTables || []).includes(table);
+    if (confirmed === null && unreadable && item.status === 'sent' && item.lastSentAt && now - item.lastSentAt > UNCONFIRMED_RECORD_TTL_MS) {
+      return acc;
+    }
+
+    const overdue = confirmed === false && !!item.lastSentAt && now - item.lastSentAt > CONFIRM_TIMEOUT_MS;
+    if (overdue && isChangedElsewhere(item.op, index)) return acc;
+
+    if (overdue && item.status === 'sent') {
+      const attempts = item.attempts + 1;
+      acc.push({
+        ...item,
+        attempts,
+        status: attempts >= MAX_ATTEMPTS ? 'failed' : 'pending',
+        nextAttemptAt: now,
+        lastError: 'Data belum muncul di server',
+      });
+      return acc;
+    }
+
+    acc.push(item);
+    return acc;
+  }, []);
+};
+
+// Add a write to the queue. An update (follow-up, edit, void) of a record whose create has not been
+// sent yet by the same user is folded into that create. Otherwise it is queued on its own, behind the create.
+export const enqueueOperation = (items: OutboxItem[], op: WriteOperation, now = Date.now(), pengguna?: string): OutboxItem[] => {
+  if (op.type === 'save_setting' || op.type === 'save_record') {
+    // Settings and records are replaced as a whole, so an older unsent value of the same one is obsolete
+    const code = getOperationCode(op);
+    const remaining = items.filter(item => !(
+      item.op.type === op.type && getOperationCode(item.op) === code && item.status === 'pending' && !item.lastSentAt
+    ));
+    return [...remaining, createOutboxItem(op, now, pengguna)];
+  }
+  if (isViolationUpdate(op)) {
+    const { kode_pelanggaran, patch } = getViolationPatch(op);
+    let createIdx = -1;
+    items.forEach((item, i) => {
+      if (item.op.type === 'create_violation' && item.op.violation.kode_pelanggaran === kode_pelanggaran) {
+        createIdx = i;
+      }
+    });
+    const createItem = items[createIdx];
+    if (createItem && createItem.status === 'pending' && !createItem.lastSentAt && createItem.pengguna === pengguna) {
+      const createOp = createItem.op as Extract<WriteOperation, { type: 'create_violation' }>;
+      const violation = { ...createOp.violation, ...patch };
+      return items.map((item, i) => i === createIdx ? { ...item, op: { type: 'create_violation', violation } } : item);
+    }
+  }
+  return [...items, createOutboxItem(op, now, pengguna)];
+};
+
+// Put failed items back in the queue (manual "coba lagi")
+export const retryFailedItems = (items: OutboxItem[], now = Date.now()): OutboxItem[] => {
+  return items.map(item => item.status === 'failed'
+    ? { ...item, status: 'pending', attempts: 0, nextAttemptAt: now }
+    : item
+  );
+};
+
+export const getSyncStatusByCode = (items: OutboxItem[]): Map<string, SyncStatus> => {
+  const statuses = new Map<string, SyncStatus>();
+  items.forEach(item => {
+    const code = getOperationCode(item.op);
+    if (item.status === 'failed' || statuses.get(code) === 'failed') {
+      statuses.set(code, 'failed');
+    } else {
+      statuses.set(code, 'pending');
+    }
+  });
+  return statuses;
+};
+
+// Overlay queued writes on top of the sheet data so the UI shows what the user entered
+export const applyOutbox = (sheetViolations: Violation[], items: OutboxItem[]): Violation[] => {
+  const statuses = getSyncStatusByCode(items);
+  const merged = sheetViolations.map(v => ({ ...v }));
+  const indexByCode = new Map<string, number>();
+  merged.forEach((v, i) => indexByCode.set(v.kode_pelanggaran, i));
+
+  items.forEach(item => {
+    const op = item.op;
+    if (op.type === 'create_violation') {
+      // Once the row is in the sheet the sheet is newer: other devices may have changed it since
+      if (indexByCode.has(op.violation.kode_pelanggaran)) return;
+      indexByCode.set(op.violation.kode_pelanggaran, merged.length);
+      // The code is the identity of a violation, on this device and in the sheet
+      merged.push({ ...op.violation, id: op.violation.kode_pelanggaran });
+    } else if (op.type === 'rename_code') {
+      const idx = merged.findIndex(v => v.sheet_row === op.rename.sheet_row && v.kode_pelanggaran === op.rename.old_code);
+      if (idx === -1) return;
+      merged[idx] = { ...merged[idx], id: op.rename.new_code, kode_pelanggaran: op.rename.new_code };
+      indexByCode.set(op.rename.new_code, idx);
+    } else if (isViolationUpdate(op)) {
+      const { kode_pelanggaran, patch } = getViolationPatch(op);
+      const idx = indexByCode.get(kode_pelanggaran);
+      if (idx === undefined) return;
+      merged[idx] = { ...merged[idx], ...patch };
+    }
+  });
+
+  return merged.map(v => ({ ...v, sync_status: statuses.get(v.kode_pelanggaran) || 'synced' }));
+};
+
+// Settings as the admin last saved them, before the backend confirms
+export const applyOutboxSettings = (sheetSettings: AppSettings, items: OutboxItem[]): AppSettings => {
+  return items.reduce<AppSettings>((settings, item) => {
+    if (item.op.type !== 'save_setting') return settings;
+    return { ...settings, [item.op.update.key]: item.op.update.value };
+  }, sheetSettings);
+};
+
+// Record tables with queued upserts applied, each row tagged with its sync status
+export const applyOutboxRecords = (sheetRecords: RecordStore, items: OutboxItem[]): RecordStore => {
+  const statuses = getSyncStatusByCode(items);
+  const result = { ...sheetRecords };
+
+  RECORD_TABLES.forEach(<K extends RecordTable>(table: K) => {
+    const rows = [...sheetRecords[table]] as RecordTables[K][];
+    items.forEach(item => {
+      // Uploads show their row (with preview) straight away
+      const queued = item.op.type === 'save_record' && item.op.write.table === table ? item.op.write.record
+        : item.op.type === 'upload_attachment' && table === 'lampiran' ? item.op.upload.record
+        : null;
+      if (!queued) return;
+      const record = queued as RecordTables[K];
+      const index = rows.findIndex(r => r.id === record.id);
+      if (index === -1) rows.push(record);
+      else rows[index] = record;
+    });
+    result[table] = rows.map(r => ({ ...r, sync_status: statuses.get(`${table}:${r.id}`) || 'synced' })) as RecordStore[K];
+  });
+
+  return result;
+};
@@ -0,0 +1,99 @@
+import { Student, Violation, ViolationChanges, ParseResult, Session, AppSettings, SettingKey, RecordTable, RecordTables, AttachmentRecord } from '../types';
+import { AppConfig } from '../config';
+import { createGoogleSheetRepository } from './googleSheetRepository';
+import { createLocalRepository } from './localRepository';
+import { SAMPLE_STUDENTS, SAMPLE_VIOLATIONS, SAMPLE_USERS } from './sampleData';
+import { emptyRecordStore } from '../utils/records';
+import { getSessionToken } from './auth';
+
+export interface FollowUpUpdate {
+  kode_pelanggaran: string;
+  status_tindak_lanjut: Violation['status_tindak_lanjut'];
+  hasil_tindak_lanjut: string;
+}
+
+// Corrects the editable fields of a violation; every field is sent, changed or not
+export interface ViolationEdit {
+  kode_pelanggaran: string;
+  changes: ViolationChanges;
+}
+
+// Soft delete: the row stays in the sheet with who voided it and why
+export interface ViolationVoid {
+  kode_pelanggaran: string;
+  dibatalkan_pada: string;
+  dibatalkan_oleh: string;
+  alasan_batal: string;
+}
+
+// Gives one sheet row a new kode_pelanggaran (duplicate code repair)
+export interface CodeRename {
+  sheet_row: number;
+  old_code: string;
+  new_code: string;
+}
+
+// Replaces one admin setting as a whole
+export interface SettingUpdate {
+  key: SettingKey;
+  value: AppSettings[SettingKey];
+}
+
+// Inserts or replaces one row (matched by id) of a record table
+export type RecordWrite = { [K in RecordTable]: { table: K; record: RecordTables[K] } }[RecordTable];
+
+// An evidence file with its description row. The backend stores the file and then writes the row,
+// so a row in the Lampiran table means the file can be loaded.
+export interface AttachmentUpload {
+  record: AttachmentRecord;
+  data: string; // data URL
+}
+
+// What the backend vouches for in the Audit sheet. The script numbers every entry it inserts and
+// signs it, so rows removed or edited in the sheet show up even with the rest of the chain gone.
+export interface AuditSeal {
+  terakhir: number; // Number given to the last entry inserted
+  tanda_salah: string[]; // Ids of rows whose signature does not match (edited, or never inserted by the script)
+  hilang: [number, number][]; // Numbers with no row left, as inclusive ranges
+}
+
+// Single entry point for reading and writing SIMPAS data.
+// Components never talk to Google Sheet / Apps Script directly, they go through this interface.
+export interface DataRepository {
+  // Short name used in logs and notifications
+  readonly label: string;
+  // Loaders also report row-level data problems for the "Kualitas Data" screen
+  loadStudents(): Promise<ParseResult<Student>>;
+  loadViolations(): Promise<ParseResult<Violation>>;
+  // Checks the password on the backend and returns a session with the backend's signed token.
+  // Rejects with AuthError when the backend refuses the credentials.
+  login(username: string, password: string): Promise<Session>;
+  // Names of active accounts, offered as reporters. Never credentials.
+  loadTeacherNames(): Promise<string[]>;
+  loadSettings(): Promise<AppSettings>;
+  loadRecords<K extends RecordTable>(table: K): Promise<RecordTables[K][]>;
+  // False when the table has nowhere to be read from, so writes to it can never be confirmed
+  canLoadRecords(table: RecordTable): boolean;
+  createViolation(violation: Violation): Promise<void>;
+  updateFollowUp(update: FollowUpUpdate): Promise<void>;
+  editViolation(edit: ViolationEdit): Promise<void>;
+  voidViolation(voiding: ViolationVoid): Promise<void>;
+  renameViolationCode(rename: CodeRename): Promise<void>;
+  saveSetting(update: SettingUpdate): Promise<void>;
+  saveRecord(write: RecordWrite): Promise<void>;
+  saveAttachment(upload: AttachmentUpload): Promise<void>;
+  // The file as a data URL
+  loadAttachment(id: string): Promise<string>;
+  // Null when the backend does not sign audit entries
+  checkAudit(): Promise<AuditSeal | null>;
+}
+
+export const createRepository = (config: AppConfig): DataRepository => {
+  if (config.dataSource === 'local') {
+    return createLocalRepository({
+      storageKey: 'simpas_local_db',
+      seed: { students: SAMPLE_STUDENTS, violations: SAMPLE_VIOLATIONS, users: SAMPLE_USERS, settings: {}, records: emptyRecordStore(), attachments: {} },
+    });
+  }
+  return createGoogleSheetRepository(config.googleSheet, getSessionToken);
+};
@@ -0,0 +1,59 @@
+import { Student, Violation, UserAccount } from '../types';
+
+// Fictional data used by the local backend (VITE_DATA_SOURCE=local)
+
+export const SAMPLE_STUDENTS: Student[] = [
+  { nis: '2401001', nama_lengkap: 'Ahmad Fauzi', jenis_kelamin: 'L', kelas: '7 A', nama_wali_kelas: 'Siti Rahmawati', kontak_ortu: '081234567801' },
+  { nis: '2401002', nama_lengkap: 'Bunga Lestari', jenis_kelamin: 'P', kelas: '7 A', nama_wali_kelas: 'Siti Rahmawati', kontak_ortu: '081234567802' },
+  { nis: '2401003', nama_lengkap: 'Dimas Pratama', jenis_kelamin: 'L', kelas: '7 B', nama_wali_kelas: 'Budi Santoso', kontak_ortu: '081234567803' },
+  { nis: '2301004', nama_lengkap: 'Intan Permata', jenis_kelamin: 'P', kelas: '8 A', nama_wali_kelas: 'Dewi Anggraini', kontak_ortu: '081234567804' },
+  { nis: '2301005', nama_lengkap: 'Rizky Ramadhan', jenis_kelamin: 'L', kelas: '8 A', nama_wali_kelas: 'Dewi Anggraini', kontak_ortu: '081234567805' },
+  { nis: '2201006', nama_lengkap: 'Nadia Putri', jenis_kelamin: 'P', kelas: '9 A', nama_wali_kelas: 'Hendra Wijaya', kontak_ortu: '081234567806' },
+];
+
+const sampleViolation = (
+  student: Student,
+  kode: string,
+  tanggal: string,
+  jenis: string,
+  kategori: Violation['kategori_pelanggaran'],
+  poin: number,
+  lokasi: string,
+  deskripsi: string,
+  selesai = false
+): Violation => ({
+  id: kode,
+  nis: student.nis,
+  nama_lengkap: student.nama_lengkap,
+  jenis_kelamin: student.jenis_kelamin,
+  kelas: student.kelas,
+  nama_wali_kelas: student.nama_wali_kelas,
+  kontak_ortu: student.kontak_ortu,
+  kode_pelanggaran: kode,
+  tanggal_pelanggaran: tanggal,
+  jenis_pelanggaran: jenis,
+  kategori_pelanggaran: kategori,
+  poin_pelanggaran: poin,
+  lokasi_kejadian: lokasi,
+  pelapor: 'Guru Piket',
+  deskripsi,
+  status_tindak_lanjut: selesai ? 'Sudah Ditindak Lanjut' : 'Menunggu Tindak Lanjut',
+  hasil_tindak_lanjut: selesai ? 'Siswa diberi teguran lisan dan berjanji tidak mengulangi.' : '',
+  created_at: new Date(`${tanggal}T07:30:00+07:00`).toISOString(),
+});
+
+export const SAMPLE_VIOLATIONS: Violation[] = [
+  sampleViolation(SAMPLE_STUDENTS[0], 'CPS-001', '2025-01-06', 'Terlambat masuk kelas', 'Ringan', 5, 'Gerbang', 'Datang pukul 07.20.', true),
+  sampleViolation(SAMPLE_STUDENTS[2], 'CPS-002', '2025-01-08', 'Membawa HP tanpa izin', 'Sedang', 15, 'Kelas 7 B', 'HP digunakan saat pelajaran.'),
+  sampleViolation(SAMPLE_STUDENTS[4], 'CPS-003', '2025-01-10', 'Berkelahi dengan teman', 'Berat', 50, 'Lapangan', 'Berkelahi saat jam istirahat.'),
+  sampleViolation(SAMPLE_STUDENTS[0], 'CPS-004', '2025-01-13', 'Tidak mengerjakan PR', 'Ringan', 5, 'Kelas 7 A', 'PR Matematika tidak dikerjakan.'),
+];
+
+// Demo accounts, passwords: admin123, bk123, wali123, guru123, kepsek123 (see README)
+export const SAMPLE_USERS: UserAccount[] = [
+  { username: 'admin', nama: 'Admin Sekolah', role: 'admin', aktif: true, password_hash: 'pbkdf2$100000$fb509714574835c2aad8e8701a8e34f3$de38cefd0b7dc7cf82d3d44a6417806404ec29bbaad8052ebf019de62586ffe8' },
+  { username: 'bk', nama: 'Rina Kusuma', role: 'guru_bk', aktif: true, password_hash: 'pbkdf2$100000$0b5196bcd4632df7b2b3774d87cea520$6e230cfa2189865b2732bd3e21c8e8b27ff2021ad0757730b52d7267e810e7ac' },
+  { username: 'siti', nama: 'Siti Rahmawati', role: 'wali_kelas', aktif: true, password_hash: 'pbkdf2$100000$41214b842c9e3583f0642c5adab7fa52$39d02c9bf55597146e736fea7187e9eb4eddb94494eb00432df5b85f877e31fc' },
+  { username: 'agus', nama: 'Agus Salim', role: 'guru', aktif: true, password_hash: 'pbkdf2$100000$a4a52a8f273ffddbba83bda5fd612239$0a85d104b1d79dc4724e65dfaee3ff9c6a3a0e6196a176e997577a35d68ff98e' },
+  { username: 'kepsek', nama: 'Hartono', role: 'kepala_sekolah', aktif: true, password_hash: 'pbkdf2$100000$d62a5564485a38d5b0792edbeb7735a7$5132871e7b43edb25dfa9eea45455bffff006d00ae2b24a7920fd441e440a2c8' },
+];
@@ -0,0 +1,64 @@
+import { AchievementRecord, Student, Violation } from '../types';
+
+// Shared test data. Tests run in Node, so browser storage is replaced with an in-memory one.
+
+export const createMemoryStorage = (): Storage => {
+  const values = new Map<string, string>();
+  return {
+    get length() { return values.size; },
+    clear: () => values.clear(),
+    getItem: (key: string) => values.get(key) ?? null,
+    key: (index: number) => Array.from(values.keys())[index] ?? null,
+    removeItem: (key: string) => { values.delete(key); },
+    setItem: (key: string, value: string) => { values.set(key, String(value)); },
+  };
+};
+
+export const makeStudent = (overrides: Partial<Student> = {}): Student => ({
+  nis: '1001',
+  nama_lengkap: 'Budi Santoso',
+  jenis_kelamin: 'L',
+  kelas: '7A',
+  nama_wali_kelas: 'Siti Rahmawati',
+  kontak_ortu: '081234567890',
+  ...overrides,
+});
+
+export const makeAchievement = (overrides: Partial<AchievementRecord> = {}): AchievementRecord => ({
+  id: 'PRS-AB12-1',
+  nis: '1001',
+  nama_lengkap: 'Budi Santoso',
+  kelas: '7A',
+  nama_wali_kelas: 'Siti Rahmawati',
+  jenis_prestasi: 'Juara lomba',
+  kategori_prestasi: 'Akademik',
+  poin: 10,
+  tanggal: '2025-08-04',
+  deskripsi: '',
+  dicatat_oleh: 'Agus',
+  dibuat_pada: '2025-08-04T03:00:00.000Z',
+  ...overrides,
+});
+
+export const makeViolation = (overrides: Partial<Violation> = {}): Violation => ({
+  id: 'CPS-AB12-0001',
+  nis: '1001',
+  nama_lengkap: 'Budi Santoso',
+  jenis_kelamin: 'L',
+  kelas: '7A',
+  nama_wali_kelas: 'Siti Rahmawati',
+  kontak_ortu: '081234567890',
+  kode_pelanggaran: 'CPS-AB12-0001',
+  tanggal_pelanggaran: '2025-08-04',
+  jam_kejadian: '07:15',
+  jenis_pelanggaran: 'Terlambat masuk kelas',
+  kategori_pelanggaran: 'Ringan',
+  poin_pelanggaran: 5,
+  lokasi_kejadian: 'Gerbang',
+  pelapor: 'Agus',
+  deskripsi: '',
+  status_tindak_lanjut: 'Menunggu Tindak Lanjut',
+  hasil_tindak_lanjut: '',
+  created_at: '2025-08-04T00:15:00.000Z',
+  ...overrides,
+});
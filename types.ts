@@ -16,26 +16,236 @@ export interface Violation {
   nama_wali_kelas: string;
   kontak_ortu: string;
   kode_pelanggaran: string;
-  tanggal_pelanggaran: string;
+  tanggal_pelanggaran: string; // YYYY-MM-DD (school-local date)
+  jam_kejadian?: string; // HH:mm, time of the incident (jam kejadian)
   jenis_pelanggaran: string;
   kategori_pelanggaran: 'Ringan' | 'Sedang' | 'Berat';
   poin_pelanggaran: number;
+  poin_dasar?: number; // Catalog points before a repeat-offense rule raised them
+  aturan_berulang?: string; // Explanation of the repeat-offense rule that was applied
   lokasi_kejadian: string;
   pelapor?: string; // New field for Teacher Name
   deskripsi: string;
   status_tindak_lanjut: 'Menunggu Tindak Lanjut' | 'Sudah Ditindak Lanjut';
   hasil_tindak_lanjut: string;
-  created_at: string;
+  created_at: string; // ISO timestamp of when the record was submitted
+  sheet_row?: number; // 1-based row in the backend sheet, used to address rows that share a code
+  // Voided (dibatalkan) records stay in the sheet for audit but count for nothing
+  dibatalkan_pada?: string; // ISO timestamp
+  dibatalkan_oleh?: string;
+  alasan_batal?: string;
+  sync_status?: SyncStatus; // Derived on the client from the outbox, never written to the sheet
 }
 
+// Fields of a violation that can be corrected after it was recorded
+export type ViolationChanges = Pick<Violation,
+  | 'tanggal_pelanggaran' | 'jam_kejadian' | 'jenis_pelanggaran' | 'kategori_pelanggaran' | 'poin_pelanggaran'
+  | 'poin_dasar' | 'aturan_berulang' | 'lokasi_kejadian' | 'pelapor' | 'deskripsi'
+>;
+
+export type SyncStatus = 'pending' | 'synced' | 'failed';
+
 export type ViolationCategory = Violation['kategori_pelanggaran'];
 
+export type ImportWarningCode =
+  | 'missing_field'
+  | 'missing_code'
+  | 'duplicate_code'
+  | 'duplicate_nis'
+  | 'invalid_date'
+  | 'invalid_time'
+  | 'invalid_category'
+  | 'invalid_status'
+  | 'invalid_points'
+  | 'points_mismatch'
+  | 'unknown_type'
+  | 'unknown_nis';
+
+// One problem found while importing a sheet row, shown on the "Kualitas Data" screen
+export interface ImportWarning {
+  sheet: 'Siswa' | 'Pelanggaran';
+  row: number; // Row number as shown in Google Sheet (header is row 1)
+  code: ImportWarningCode;
+  field?: string;
+  value?: string;
+  message: string;
+}
+
+export interface ParseResult<T> {
+  data: T[];
+  warnings: ImportWarning[];
+}
+
+export type UserRole = 'admin' | 'guru_bk' | 'wali_kelas' | 'guru' | 'kepala_sekolah';
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  admin: 'Administrator',
+  guru_bk: 'Guru BK',
+  wali_kelas: 'Wali Kelas',
+  guru: 'Guru',
+  kepala_sekolah: 'Kepala Sekolah',
+};
+
+// One row of the users sheet
+export interface UserAccount {
+  username: string;
+  nama: string;
+  role: UserRole;
+  password_hash: string; // "pbkdf2$<iterations>$<salt>$<hash>", never the plain password
+  aktif: boolean;
+}
+
+// Logged-in user, persisted in localStorage until it expires or the user goes idle.
+// Only the token counts for the backend: it is signed by the Apps Script and carries the username,
+// role and expiry, so editing the other fields in the browser gains nothing.
+export interface Session {
+  username: string;
+  nama: string;
+  role: UserRole;
+  token: string;
+  issued_at: string; // ISO timestamp
+  expires_at: string; // ISO timestamp
+}
+
 export interface ViolationTypeOption {
   label: string;
   kategori: ViolationCategory;
   poin: number;
+  kode?: string;
+  deskripsi?: string;
+}
+
+// Points and category of a catalog entry from a given date on
+export interface ViolationTypeVersion {
+  kategori: ViolationCategory;
+  poin: number;
+  berlaku_mulai: string; // YYYY-MM-DD
+}
+
+// One entry of the admin-managed violation catalog
+export interface ViolationTypeDefinition {
+  id: string; // Stable, survives renames
+  label: string;
+  label_lama?: string[]; // Earlier labels, so rows written before a rename still match
+  kode?: string;
+  deskripsi?: string;
+  aktif: boolean; // Retired types are no longer offered but still validate old rows
+  versions: ViolationTypeVersion[]; // Oldest first
+}
+
+export interface ViolationCatalog {
+  versi: number; // Incremented on every save
+  diperbarui: string; // ISO timestamp
+  items: ViolationTypeDefinition[];
+}
+
+// One step of the sanction ladder, reached when a student's points hit poin_minimal
+export interface SanctionLevel {
+  id: string;
+  poin_minimal: number;
+  label: string; // e.g. "SP1"
+  tindakan: string; // What has to be done, e.g. "Surat peringatan 1 dan panggilan orang tua"
+}
+
+export type AchievementCategory = 'Akademik' | 'Non-Akademik' | 'Sikap';
+
+// Achievement or good deed that earns reward points (offsetting violation points)
+export interface AchievementType {
+  id: string;
+  label: string;
+  kategori: AchievementCategory;
+  poin: number;
+  aktif: boolean; // Retired types stay so older records keep their label
+}
+
+// A place incidents are recorded at. Aliases are other ways the place gets written,
+// used to match free-text locations typed before the catalog existed.
+export interface LocationOption {
+  id: string;
+  label: string;
+  alias: string[];
+  aktif: boolean;
+}
+
+// Raises points when the same violation type keeps coming back
+export interface RepeatRule {
+  id: string;
+  jenis_pelanggaran: string; // Empty: applies to every type
+  kejadian_ke: number; // Applies from this occurrence on (3 = the third time and later)
+  lingkup: 'semester' | 'tahun_ajaran'; // Window in which occurrences are counted
+  pengali_poin: number; // 2 = double the catalog points
+  naikkan_kategori: boolean; // Ringan -> Sedang -> Berat
+  aktif: boolean;
+}
+
+// One stage of the follow-up workflow of a violation
+export interface CaseStage {
+  id: string;
+  label: string; // e.g. "Pemanggilan orang tua"
+  selesai: boolean; // Final stage: the violation counts as followed up
+  lanjut_ke: string[]; // Ids of the stages a case may move to from here
+  batas_hari?: number; // Default due date, in days after entering the stage
+}
+
+// Stages in display order; the first one is where every new violation starts
+export interface CaseWorkflow {
+  stages: CaseStage[];
+}
+
+// Message sent to parents; placeholders like {nama_siswa} are filled from the violation
+export interface MessageTemplate {
+  id: string;
+  label: string;
+  isi: string;
+}
+
+// School identity printed at the top of official letters
+export interface Letterhead {
+  nama_sekolah: string;
+  alamat: string;
+  telepon: string;
+  kota: string; // Place in the date line, e.g. "Bandung, 5 Januari 2026"
+  kepala_sekolah: string;
+  nip_kepala_sekolah: string;
+  // Letter number pattern; {nomor}, {kode}, {bulan} (roman) and {tahun} are filled in
+  format_nomor: string;
+}
+
+// Semester of the Indonesian school year: Ganjil runs July–December, Genap January–June
+export interface Term {
+  id: string; // "<tahun_mulai>-<semester>", e.g. "2025-1"; sorts chronologically
+  tahun_mulai: number; // 2025 for 2025/2026
+  tahun_ajaran: string; // "2025/2026"
+  semester: 1 | 2; // 1 = Ganjil, 2 = Genap
+  mulai: string; // YYYY-MM-DD
+  selesai: string; // YYYY-MM-DD
+}
+
+// When accumulated points start over
+export type PointResetRule = 'semester' | 'tahun_ajaran' | 'tidak_direset';
+
+export interface PointPolicy {
+  reset: PointResetRule;
+  // Share of the points at the end of a period that is carried into the next one (0 = full reset)
+  persen_bawaan: number;
+}
+
+// Admin settings stored in the backend, one JSON value per key
+export interface AppSettings {
+  violation_catalog?: ViolationCatalog;
+  sanction_ladder?: SanctionLevel[];
+  point_policy?: PointPolicy;
+  achievement_catalog?: AchievementType[];
+  repeat_rules?: RepeatRule[];
+  case_workflow?: CaseWorkflow;
+  message_templates?: MessageTemplate[];
+  letterhead?: Letterhead;
+  location_catalog?: LocationOption[];
 }
 
+export type SettingKey = keyof AppSettings;
+
+// Built-in catalog, used until an admin saves one in Pengaturan
 export const VIOLATION_TYPES: ViolationTypeOption[] = [
   // Ringan
   { label: "Terlambat masuk kelas", kategori: "Ringan", poin: 5 },
@@ -60,4 +270,217 @@ export const VIOLATION_TYPES: ViolationTypeOption[] = [
   { label: "Memalsukan tanda tangan", kategori: "Berat", poin: 30 },
   { label: "Mencuri", kategori: "Berat", poin: 75 },
   { label: "Melawan/Kasar kepada guru", kategori: "Berat", poin: 100 },
-];
\ No newline at end of file
+];
+
+// Built-in achievement list, used until an admin saves one in Pengaturan
+export const ACHIEVEMENT_TYPES: AchievementType[] = [
+  // Akademik
+  { id: 'juara-lomba-sekolah', label: "Juara lomba tingkat sekolah", kategori: "Akademik", poin: 10, aktif: true },
+  { id: 'juara-lomba-kota', label: "Juara lomba tingkat kota/provinsi", kategori: "Akademik", poin: 25, aktif: true },
+  { id: 'juara-lomba-nasional', label: "Juara lomba tingkat nasional", kategori: "Akademik", poin: 50, aktif: true },
+  // Non-Akademik
+  { id: 'juara-olahraga-seni', label: "Juara lomba olahraga/seni", kategori: "Non-Akademik", poin: 20, aktif: true },
+  { id: 'pengurus-osis', label: "Aktif sebagai pengurus OSIS", kategori: "Non-Akademik", poin: 10, aktif: true },
+  // Sikap
+  { id: 'membantu-guru', label: "Membantu guru", kategori: "Sikap", poin: 5, aktif: true },
+  { id: 'menemukan-barang', label: "Mengembalikan barang temuan", kategori: "Sikap", poin: 10, aktif: true },
+  { id: 'menjaga-kebersihan', label: "Menjaga kebersihan kelas/sekolah", kategori: "Sikap", poin: 5, aktif: true },
+];
+
+// Built-in location list, used until an admin saves one in Pengaturan
+export const SCHOOL_LOCATIONS: LocationOption[] = [
+  { id: 'ruang-kelas', label: "Ruang kelas", alias: ["kelas", "dalam kelas"], aktif: true },
+  { id: 'kantin', label: "Kantin", alias: ["warung", "koperasi"], aktif: true },
+  { id: 'toilet-lt-1', label: "Toilet lt. 1", alias: ["wc lt 1", "kamar mandi lt 1"], aktif: true },
+  { id: 'toilet-lt-2', label: "Toilet lt. 2", alias: ["wc lt 2", "kamar mandi lt 2"], aktif: true },
+  { id: 'lapangan', label: "Lapangan", alias: ["lapangan upacara", "lapangan olahraga"], aktif: true },
+  { id: 'gerbang', label: "Gerbang", alias: ["gerbang depan", "pintu gerbang", "pos satpam"], aktif: true },
+  { id: 'koridor', label: "Koridor", alias: ["lorong", "selasar", "depan kelas"], aktif: true },
+  { id: 'musala', label: "Musala", alias: ["mushola", "masjid"], aktif: true },
+  { id: 'perpustakaan', label: "Perpustakaan", alias: ["perpus"], aktif: true },
+  { id: 'laboratorium', label: "Laboratorium", alias: ["lab"], aktif: true },
+  { id: 'parkiran', label: "Parkiran", alias: ["tempat parkir"], aktif: true },
+  { id: 'luar-sekolah', label: "Luar sekolah", alias: ["luar lingkungan sekolah"], aktif: true },
+];
+
+// --- Record tables ---
+// Append/upsert tables kept next to the violation sheet (one sheet per table, rows addressed by id)
+
+export interface BaseRecord {
+  id: string;
+  sync_status?: SyncStatus; // Derived on the client from the outbox, never written to the sheet
+}
+
+export type SanctionStatus = 'menunggu' | 'diberikan';
+
+// A sanction level reached by a student: a task in the follow-up queue until it is issued
+export interface SanctionRecord extends BaseRecord {
+  nis: string;
+  nama_lengkap: string;
+  kelas: string;
+  level_id: string;
+  level_label: string;
+  tindakan: string;
+  poin_minimal: number;
+  poin_saat_tercapai: number; // Student's points when the threshold was crossed
+  periode?: string; // Term id the level was reached in; older rows fall back to dibuat_pada
+  status: SanctionStatus;
+  dibuat_pada: string; // ISO timestamp
+  diberikan_pada?: string; // YYYY-MM-DD
+  diberikan_oleh?: string;
+  catatan?: string;
+}
+
+// Reward points earned by a student. Points are copied from the catalog when recorded.
+export interface AchievementRecord extends BaseRecord {
+  nis: string;
+  nama_lengkap: string;
+  kelas: string;
+  nama_wali_kelas: string;
+  jenis_prestasi: string;
+  kategori_prestasi: AchievementCategory;
+  poin: number;
+  tanggal: string; // YYYY-MM-DD
+  deskripsi: string;
+  dicatat_oleh: string;
+  dibuat_pada: string; // ISO timestamp
+}
+
+// Workflow state of the case behind one violation (id = kode_pelanggaran).
+// Violations without a row are in the first stage.
+export interface CaseRecord extends BaseRecord {
+  kode_pelanggaran: string;
+  nis: string;
+  tahap: string; // CaseStage id
+  penanggung_jawab: string; // Assignee
+  tenggat: string; // YYYY-MM-DD, empty when there is no due date
+  catatan: string;
+  diperbarui_pada: string; // ISO timestamp
+  diperbarui_oleh: string;
+}
+
+export type FollowUpActionType = 'Teguran Lisan' | 'Konseling' | 'Home Visit' | 'Panggilan Telepon';
+
+export const FOLLOW_UP_ACTIONS: FollowUpActionType[] = ['Teguran Lisan', 'Konseling', 'Home Visit', 'Panggilan Telepon'];
+
+// One session in the follow-up timeline of a violation; a case can have many
+export interface FollowUpEntry extends BaseRecord {
+  kode_pelanggaran: string;
+  nis: string;
+  tanggal: string; // YYYY-MM-DD
+  konselor: string;
+  jenis_tindakan: FollowUpActionType;
+  catatan: string;
+  hasil: string;
+  dibuat_pada: string; // ISO timestamp
+}
+
+export type ContactChannel = 'whatsapp' | 'sms';
+
+export type ContactResult = 'Terhubung' | 'Pesan Terkirim' | 'Tidak Dijawab' | 'Nomor Salah';
+
+export const CONTACT_RESULTS: ContactResult[] = ['Terhubung', 'Pesan Terkirim', 'Tidak Dijawab', 'Nomor Salah'];
+
+// One attempt to reach a student's parents about a violation
+export interface ContactLogEntry extends BaseRecord {
+  kode_pelanggaran: string;
+  nis: string;
+  kanal: ContactChannel;
+  nomor: string; // +62 format
+  template_id: string;
+  hasil: ContactResult;
+  catatan: string;
+  dihubungi_oleh: string;
+  dihubungi_pada: string; // ISO timestamp
+}
+
+export type LetterType = 'panggilan_ortu' | 'sp1' | 'sp2' | 'sp3' | 'pernyataan';
+
+// An official letter issued to a student; enough is stored to print it again
+export interface IssuedLetter extends BaseRecord {
+  jenis: LetterType;
+  nomor_surat: string;
+  perangkat?: string; // Device tag (see getDeviceId); empty on letters issued before it was recorded
+  urutan: number; // Sequence within tahun on that device
+  tahun: number;
+  nis: string;
+  nama_lengkap: string;
+  kelas: string;
+  kode_pelanggaran: string[]; // Violations listed in the letter
+  total_poin: number;
+  tanggal: string; // YYYY-MM-DD, date on the letter
+  pertemuan?: string; // Date, time and place of the meeting (surat panggilan)
+  dibuat_oleh: string;
+  dibuat_pada: string; // ISO timestamp
+}
+
+// Evidence file of a violation. The file itself goes to the backend's file storage;
+// this row only holds its description and a small preview.
+export interface AttachmentRecord extends BaseRecord {
+  kode_pelanggaran: string;
+  nis: string;
+  nama_file: string;
+  tipe: string; // MIME type
+  ukuran: number; // Bytes after compression
+  thumbnail: string; // Small JPEG data URL, empty for documents
+  diunggah_oleh: string;
+  diunggah_pada: string; // ISO timestamp
+}
+
+export type RevisionAction = 'ubah' | 'batalkan' | 'buka_kembali';
+
+export interface FieldChange {
+  field: string;
+  sebelum: string;
+  sesudah: string;
+}
+
+// Why and by whom a violation was corrected, voided or reopened
+export interface ViolationRevision extends BaseRecord {
+  kode_pelanggaran: string;
+  nis: string;
+  aksi: RevisionAction;
+  alasan: string;
+  perubahan: FieldChange[]; // Edited fields; empty for void and reopen
+  oleh: string;
+  pada: string; // ISO timestamp
+}
+
+export type AuditAction =
+  | 'login' | 'logout' | 'buat' | 'ubah' | 'tindak_lanjut' | 'batalkan' | 'ganti_kode' | 'pengaturan' | 'unggah';
+
+// One entry of the append-only audit log. Entries of a device form a hash chain
+// (urutan 1, 2, 3... each holding the hash of the one before), so a removed or edited row shows up.
+export interface AuditEntry extends BaseRecord {
+  waktu: string; // ISO timestamp
+  pengguna: string; // username
+  nama: string;
+  peran: UserRole;
+  perangkat: string; // Device id (see getDeviceId)
+  urutan: number; // Position in the chain of this device
+  aksi: AuditAction;
+  objek: string; // What was touched, e.g. "pelanggaran:K7QM-0012" or "sanksi:SNK-..."
+  sebelum?: unknown; // Values before the change, absent for creates
+  sesudah?: unknown; // Values after the change
+  hash_sebelumnya: string; // Empty for the first entry of a device
+  hash: string; // SHA-256 of the row with hash left empty
+  // Filled in by the Apps Script on insert, so absent while the entry is queued
+  nomor?: number; // Position among all entries of the Audit sheet, counted by the script
+  tanda?: string; // HMAC of the row with a secret only the script holds
+}
+
+export interface RecordTables {
+  sanksi: SanctionRecord;
+  prestasi: AchievementRecord;
+  kasus: CaseRecord;
+  tindak_lanjut: FollowUpEntry;
+  kontak: ContactLogEntry;
+  surat: IssuedLetter;
+  lampiran: AttachmentRecord;
+  koreksi: ViolationRevision;
+  audit: AuditEntry;
+}
+
+export type RecordTable = keyof RecordTables;
+
+export type RecordStore = { [K in RecordTable]: RecordTables[K][] };
@@ -0,0 +1,25 @@
+import { AchievementType } from '../types';
+
+const slugify = (label: string) => label.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+
+// Returns an error message, or null when the type can be saved
+export const validateAchievementType = (catalog: AchievementType[], draft: AchievementType): string | null => {
+  if (!draft.label.trim()) return 'Nama prestasi wajib diisi.';
+  if (!Number.isInteger(draft.poin) || draft.poin <= 0) return 'Poin prestasi harus bilangan bulat lebih dari 0.';
+  const wanted = draft.label.trim().toLowerCase();
+  const clash = catalog.find(t => t.id !== draft.id && t.label.trim().toLowerCase() === wanted);
+  if (clash) return `"${clash.label}" sudah ada di katalog.`;
+  return null;
+};
+
+// Add a type (empty id) or replace the one with the same id. Recorded achievements keep
+// the points they were given, so a change only affects new entries.
+export const saveAchievementType = (catalog: AchievementType[], draft: AchievementType): AchievementType[] => {
+  const item = { ...draft, label: draft.label.trim() };
+  if (catalog.some(t => t.id === item.id)) {
+    return catalog.map(t => t.id === item.id ? item : t);
+  }
+  let id = slugify(item.label) || 'prestasi';
+  while (catalog.some(t => t.id === id)) id = `${id}-${catalog.length}`;
+  return [...catalog, { ...item, id }];
+};
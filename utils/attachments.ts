@@ -0,0 +1,114 @@
+import { AttachmentRecord } from '../types';
+
+// Evidence files are shrunk in the browser before they are queued: photos from a phone camera
+// are several MB, while the outbox lives in localStorage and the backend takes one request per file.
+
+export const ACCEPTED_ATTACHMENT_TYPES = 'image/*,application/pdf';
+export const MAX_ATTACHMENTS = 5;
+export const MAX_DOCUMENT_BYTES = 1024 * 1024;
+// Files waiting in the outbox, all violations together. localStorage holds about 5 MB of text per
+// site and base64 grows a file by a third, so this leaves room for the rest of the queue.
+export const MAX_QUEUED_ATTACHMENT_BYTES = 2 * 1024 * 1024;
+
+const IMAGE_MAX_SIDE = 1280;
+const IMAGE_QUALITY = 0.7;
+const THUMBNAIL_SIDE = 160;
+const THUMBNAIL_QUALITY = 0.6;
+
+export interface PreparedAttachment {
+  nama_file: string;
+  tipe: string;
+  ukuran: number;
+  data: string; // data URL
+  thumbnail: string;
+}
+
+export const isImageType = (tipe: string) => tipe.startsWith('image/');
+
+// Decoded size of a base64 data URL
+export const dataUrlSize = (dataUrl: string) => {
+  const base64 = dataUrl.slice(dataUrl.indexOf(',') + 1);
+  return Math.floor(base64.length * 3 / 4) - (base64.endsWith('==') ? 2 : base64.endsWith('=') ? 1 : 0);
+};
+
+export const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const readAsDataUrl = (file: Blob): Promise<string> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(String(reader.result));
+  reader.onerror = () => reject(reader.error || new Error('Berkas tidak dapat dibaca.'));
+  reader.readAsDataURL(file);
+});
+
+const loadImage = (src: string): Promise<HTMLImageElement> => new Promise((resolve, reject) => {
+  const img = new Image();
+  img.onload = () => resolve(img);
+  img.onerror = () => reject(new Error('Gambar tidak dapat dibuka.'));
+  img.src = src;
+});
+
+// JPEG no larger than maxSide on either edge
+const drawScaled = (img: HTMLImageElement, maxSide: number, quality: number): string => {
+  const scale = Math.min(1, maxSide / Math.max(img.naturalWidth, img.naturalHeight));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(img.naturalWidth * scale));
+  canvas.height = Math.max(1, Math.round(img.naturalHeight * scale));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Browser tidak mendukung kompresi gambar.');
+  // Transparent PNGs would turn black as JPEG
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/jpeg', quality);
+};
+
+// Compress images and read documents. Throws with a message for the user when a file is not accepted.
+export const prepareAttachment = async (file: File): Promise<PreparedAttachment> => {
+  if (isImageType(file.type)) {
+    const img = await loadImage(await readAsDataUrl(file));
+    const data = drawScaled(img, IMAGE_MAX_SIDE, IMAGE_QUALITY);
+    return {
+      nama_file: file.name.replace(/\.[^.]+$/, '') + '.jpg',
+      tipe: 'image/jpeg',
+      ukuran: dataUrlSize(data),
+      data,
+      thumbnail: drawScaled(img, THUMBNAIL_SIDE, THUMBNAIL_QUALITY),
+    };
+  }
+  if (file.type !== 'application/pdf') {
+    throw new Error(`${file.name}: hanya foto atau PDF yang bisa dilampirkan.`);
+  }
+  if (file.size > MAX_DOCUMENT_BYTES) {
+    throw new Error(`${file.name}: ukuran PDF maksimal ${formatFileSize(MAX_DOCUMENT_BYTES)}.`);
+  }
+  return { nama_file: file.name, tipe: file.type, ukuran: file.size, data: await readAsDataUrl(file), thumbnail: '' };
+};
+
+// Attachments per violation code, in upload order
+export const groupAttachments = (attachments: AttachmentRecord[]): Map<string, AttachmentRecord[]> => {
+  const byCode = new Map<string, AttachmentRecord[]>();
+  [...attachments]
+    .sort((a, b) => a.diunggah_pada.localeCompare(b.diunggah_pada))
+    .forEach(attachment => {
+      const list = byCode.get(attachment.kode_pelanggaran) || [];
+      list.push(attachment);
+      byCode.set(attachment.kode_pelanggaran, list);
+    });
+  return byCode;
+};
+
+// Browsers refuse to navigate to data URLs, so files are opened through a blob URL
+export const openDataUrl = (dataUrl: string): boolean => {
+  const [header, base64] = dataUrl.split(',');
+  const tipe = header.slice(5).split(';')[0];
+  const bytes = Uint8Array.from(atob(base64), c => c.charCodeAt(0));
+  const url = URL.createObjectURL(new Blob([bytes], { type: tipe }));
+  const win = window.open(url, '_blank');
+  // Give the new tab time to load before the URL is released
+  setTimeout(() => URL.revokeObjectURL(url), 60 * 1000);
+  return !!win;
+};
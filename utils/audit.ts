@@ -0,0 +1,61 @@
+import { AuditAction, AuditEntry } from '../types';
+import { formatCSV } from './csv';
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  login: 'Masuk',
+  logout: 'Keluar',
+  buat: 'Tambah data',
+  ubah: 'Ubah data',
+  tindak_lanjut: 'Tindak lanjut',
+  batalkan: 'Pembatalan',
+  ganti_kode: 'Ganti kode',
+  pengaturan: 'Pengaturan',
+  unggah: 'Unggah lampiran',
+};
+
+const MAX_VALUE_LENGTH = 80;
+
+const formatValue = (value: unknown): string => {
+  if (value === undefined || value === null || value === '') return '-';
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return text.length > MAX_VALUE_LENGTH ? `${text.slice(0, MAX_VALUE_LENGTH)}…` : text;
+};
+
+// "field: before → after" lines for the fields that differ. Creates list the new values only.
+export const summarizeAuditChange = (entry: AuditEntry): string[] => {
+  const before = entry.sebelum;
+  const after = entry.sesudah;
+  const isObject = (value: unknown): value is Record<string, unknown> =>
+    !!value && typeof value === 'object' && !Array.isArray(value);
+
+  if (!isObject(after) || (before !== undefined && !isObject(before))) {
+    if (before === undefined && after === undefined) return [];
+    return [`${formatValue(before)} → ${formatValue(after)}`];
+  }
+  return Object.keys(after)
+    .filter(key => !before || JSON.stringify(before[key]) !== JSON.stringify(after[key]))
+    .map(key => before ? `${key}: ${formatValue(before[key])} → ${formatValue(after[key])}` : `${key}: ${formatValue(after[key])}`);
+};
+
+// Full entries for an inspection, values exactly as stored so the hashes can be checked again
+export const auditToCsv = (entries: AuditEntry[]): string => {
+  const header = ['id', 'waktu', 'pengguna', 'nama', 'peran', 'perangkat', 'urutan', 'aksi', 'objek', 'sebelum', 'sesudah', 'hash_sebelumnya', 'hash', 'nomor', 'tanda'];
+  const rows = entries.map(e => [
+    e.id,
+    e.waktu,
+    e.pengguna,
+    e.nama,
+    e.peran,
+    e.perangkat,
+    String(e.urutan),
+    e.aksi,
+    e.objek,
+    e.sebelum === undefined ? '' : JSON.stringify(e.sebelum),
+    e.sesudah === undefined ? '' : JSON.stringify(e.sesudah),
+    e.hash_sebelumnya,
+    e.hash,
+    e.nomor === undefined ? '' : String(e.nomor),
+    e.tanda || '',
+  ]);
+  return formatCSV([header, ...rows]);
+};
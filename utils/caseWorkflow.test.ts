@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_CASE_WORKFLOW, getCaseStates, validateWorkflow } from './caseWorkflow';
+import { makeViolation } from '../test/fixtures';
+import { CaseRecord } from '../types';
+
+const TODAY = '2025-08-10';
+
+const caseRecord = (overrides: Partial<CaseRecord> = {}): CaseRecord => ({
+  id: 'CPS-AB12-0001',
+  kode_pelanggaran: 'CPS-AB12-0001',
+  nis: '1001',
+  tahap: 'konseling',
+  penanggung_jawab: 'Bu Rina',
+  tenggat: '2025-08-12',
+  catatan: '',
+  diperbarui_pada: '2025-08-05T03:00:00.000Z',
+  diperbarui_oleh: 'rina',
+  ...overrides,
+});
+
+describe('getCaseStates', () => {
+  it('starts a case without a row at the first stage, due batas_hari after the incident', () => {
+    const [state] = getCaseStates(DEFAULT_CASE_WORKFLOW, [makeViolation({ tanggal_pelanggaran: '2025-08-04' })], [], TODAY);
+    expect(state.stage.id).toBe('baru');
+    expect(state.tenggat).toBe('2025-08-07');
+    expect(state.overdue).toBe(true);
+  });
+
+  it('follows the case row and its own due date', () => {
+    const [state] = getCaseStates(DEFAULT_CASE_WORKFLOW, [makeViolation()], [caseRecord()], TODAY);
+    expect(state.stage.id).toBe('konseling');
+    expect(state).toMatchObject({ tenggat: '2025-08-12', overdue: false });
+  });
+
+  it('lets the violation status decide whether the case is done', () => {
+    const closed = makeViolation({ status_tindak_lanjut: 'Sudah Ditindak Lanjut' });
+    const [done] = getCaseStates(DEFAULT_CASE_WORKFLOW, [closed], [caseRecord()], TODAY);
+    expect(done.stage.id).toBe('selesai');
+    expect(done).toMatchObject({ tenggat: '', overdue: false });
+
+    const [reopened] = getCaseStates(DEFAULT_CASE_WORKFLOW, [makeViolation()], [caseRecord({ tahap: 'selesai' })], TODAY);
+    expect(reopened.stage.id).toBe('baru');
+  });
+
+  it('falls back to the start when the stage was removed from the workflow', () => {
+    const [state] = getCaseStates(DEFAULT_CASE_WORKFLOW, [makeViolation()], [caseRecord({ tahap: 'dihapus' })], TODAY);
+    expect(state.stage.id).toBe('baru');
+  });
+});
+
+describe('validateWorkflow', () => {
+  it('accepts the default workflow', () => {
+    expect(validateWorkflow(DEFAULT_CASE_WORKFLOW)).toBeNull();
+  });
+
+  it('rejects a stage that leads nowhere', () => {
+    const stages = DEFAULT_CASE_WORKFLOW.stages.map(s => s.id === 'konseling' ? { ...s, lanjut_ke: ['hilang'] } : s);
+    expect(validateWorkflow({ stages })).toBe('Tahap "Dijadwalkan konseling" belum punya tahap lanjutan.');
+  });
+});
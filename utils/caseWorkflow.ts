@@ -0,0 +1,90 @@
+import { CaseRecord, CaseStage, CaseWorkflow, FollowUpEntry, Violation } from '../types';
+import { addDays, parseDate } from './date';
+
+export const DEFAULT_CASE_WORKFLOW: CaseWorkflow = {
+  stages: [
+    { id: 'baru', label: 'Menunggu tindak lanjut', selesai: false, lanjut_ke: ['konseling', 'panggilan_ortu', 'eskalasi', 'selesai'], batas_hari: 3 },
+    { id: 'konseling', label: 'Dijadwalkan konseling', selesai: false, lanjut_ke: ['panggilan_ortu', 'surat_pernyataan', 'eskalasi', 'selesai'], batas_hari: 7 },
+    { id: 'panggilan_ortu', label: 'Pemanggilan orang tua', selesai: false, lanjut_ke: ['surat_pernyataan', 'eskalasi', 'selesai'], batas_hari: 7 },
+    { id: 'surat_pernyataan', label: 'Menunggu surat pernyataan', selesai: false, lanjut_ke: ['eskalasi', 'selesai'], batas_hari: 7 },
+    { id: 'eskalasi', label: 'Eskalasi ke kepala sekolah', selesai: false, lanjut_ke: ['panggilan_ortu', 'selesai'], batas_hari: 14 },
+    { id: 'selesai', label: 'Selesai', selesai: true, lanjut_ke: [] },
+  ],
+};
+
+export interface CaseState {
+  violation: Violation;
+  stage: CaseStage;
+  record?: CaseRecord;
+  tenggat: string; // "YYYY-MM-DD", empty when the stage has no deadline
+  overdue: boolean;
+}
+
+export const getStartStage = (workflow: CaseWorkflow): CaseStage => workflow.stages[0];
+
+export const getDoneStage = (workflow: CaseWorkflow): CaseStage => {
+  return workflow.stages.find(s => s.selesai) || workflow.stages[workflow.stages.length - 1];
+};
+
+export const getStage = (workflow: CaseWorkflow, id: string): CaseStage | undefined => {
+  return workflow.stages.find(s => s.id === id);
+};
+
+export const getNextStages = (workflow: CaseWorkflow, stage: CaseStage): CaseStage[] => {
+  return stage.lanjut_ke.map(id => getStage(workflow, id)).filter((s): s is CaseStage => !!s);
+};
+
+// Stage of every violation. A followed-up violation without a case row is in the final stage,
+// and a row pointing at a stage that was removed from the workflow falls back to the start.
+// A new case without a row is due batas_hari days after the incident.
+export const getCaseStates = (
+  workflow: CaseWorkflow,
+  violations: Violation[],
+  records: CaseRecord[],
+  today: string
+): CaseState[] => {
+  const byCode = new Map(records.map(r => [r.kode_pelanggaran, r]));
+  return violations.map(violation => {
+    const record = byCode.get(violation.kode_pelanggaran);
+    const isDone = violation.status_tindak_lanjut === 'Sudah Ditindak Lanjut';
+    let stage = (record && getStage(workflow, record.tahap)) || getStartStage(workflow);
+    // The violation status is authoritative for done/not done (it may be edited in the sheet)
+    if (isDone && !stage.selesai) stage = getDoneStage(workflow);
+    if (!isDone && stage.selesai) stage = getStartStage(workflow);
+    const incidentDate = parseDate(violation.tanggal_pelanggaran);
+    const tenggat = stage.selesai ? ''
+      : record ? record.tenggat
+      : stage.batas_hari && incidentDate ? addDays(incidentDate, stage.batas_hari) : '';
+    const overdue = !!tenggat && tenggat < today;
+    return { violation, stage, record, tenggat, overdue };
+  });
+};
+
+// Follow-up sessions per kode_pelanggaran, oldest first
+export const groupFollowUps = (entries: FollowUpEntry[]): Map<string, FollowUpEntry[]> => {
+  const byCode = new Map<string, FollowUpEntry[]>();
+  [...entries]
+    .sort((a, b) => a.tanggal.localeCompare(b.tanggal) || a.dibuat_pada.localeCompare(b.dibuat_pada))
+    .forEach(entry => {
+      const list = byCode.get(entry.kode_pelanggaran) || [];
+      list.push(entry);
+      byCode.set(entry.kode_pelanggaran, list);
+    });
+  return byCode;
+};
+
+// Returns an error message, or null when the workflow can be saved
+export const validateWorkflow = (workflow: CaseWorkflow): string | null => {
+  const { stages } = workflow;
+  if (stages.length < 2) return 'Alur minimal terdiri dari dua tahap.';
+  if (stages.some(s => !s.label.trim())) return 'Nama tahap wajib diisi.';
+  if (stages[0].selesai) return 'Tahap pertama tidak boleh tahap selesai.';
+  if (!stages.some(s => s.selesai)) return 'Alur harus memiliki tahap selesai.';
+  const ids = new Set(stages.map(s => s.id));
+  for (const stage of stages) {
+    if (!stage.selesai && stage.lanjut_ke.filter(id => ids.has(id)).length === 0) {
+      return `Tahap "${stage.label}" belum punya tahap lanjutan.`;
+    }
+  }
+  return null;
+};
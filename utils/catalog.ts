@@ -0,0 +1,114 @@
+import { ViolationCatalog, ViolationTypeDefinition, ViolationTypeOption, ViolationTypeVersion, VIOLATION_TYPES } from '../types';
+
+// Versions of the built-in list apply to every date
+export const CATALOG_START_DATE = '2000-01-01';
+
+const slugify = (label: string) => label.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+
+export const DEFAULT_CATALOG: ViolationCatalog = {
+  versi: 0,
+  diperbarui: new Date(0).toISOString(),
+  items: VIOLATION_TYPES.map(t => ({
+    id: slugify(t.label),
+    label: t.label,
+    aktif: true,
+    versions: [{ kategori: t.kategori, poin: t.poin, berlaku_mulai: CATALOG_START_DATE }],
+  })),
+};
+
+const normalizeLabel = (label: string) => label.trim().toLowerCase();
+
+// Version in force on a "YYYY-MM-DD" date. Dates before the first version use the first one.
+export const getVersionAt = (item: ViolationTypeDefinition, date: string): ViolationTypeVersion => {
+  let current = item.versions[0];
+  item.versions.forEach(v => {
+    if (v.berlaku_mulai <= date) current = v;
+  });
+  return current;
+};
+
+const toOption = (item: ViolationTypeDefinition, date: string): ViolationTypeOption => {
+  const version = getVersionAt(item, date);
+  return { label: item.label, kategori: version.kategori, poin: version.poin, kode: item.kode, deskripsi: item.deskripsi };
+};
+
+// Types offered in the input form, with the points that apply on the incident date
+export const getActiveTypes = (catalog: ViolationCatalog, date: string): ViolationTypeOption[] => {
+  return catalog.items.filter(item => item.aktif).map(item => toOption(item, date));
+};
+
+// Look up a type by its current or a former label, retired types included
+export const findTypeAt = (catalog: ViolationCatalog, label: string, date: string): ViolationTypeOption | undefined => {
+  const wanted = normalizeLabel(label);
+  const item = catalog.items.find(i =>
+    normalizeLabel(i.label) === wanted || (i.label_lama || []).some(old => normalizeLabel(old) === wanted)
+  );
+  return item ? toOption(item, date) : undefined;
+};
+
+export interface CatalogItemDraft {
+  id?: string; // Empty for a new type
+  label: string;
+  kode?: string;
+  deskripsi?: string;
+  kategori: ViolationTypeVersion['kategori'];
+  poin: number;
+  berlaku_mulai: string; // From when a changed kategori/poin applies
+}
+
+// Returns an error message, or null when the draft can be saved
+export const validateDraft = (catalog: ViolationCatalog, draft: CatalogItemDraft): string | null => {
+  if (!draft.label.trim()) return 'Nama jenis pelanggaran wajib diisi.';
+  if (!Number.isInteger(draft.poin) || draft.poin < 0) return 'Poin harus bilangan bulat 0 atau lebih.';
+  if (!draft.berlaku_mulai) return 'Tanggal berlaku wajib diisi.';
+  const wanted = normalizeLabel(draft.label);
+  const clash = catalog.items.find(i => i.id !== draft.id && normalizeLabel(i.label) === wanted);
+  if (clash) return `"${clash.label}" sudah ada di katalog.`;
+  const kode = (draft.kode || '').trim().toLowerCase();
+  if (kode && catalog.items.some(i => i.id !== draft.id && (i.kode || '').toLowerCase() === kode)) {
+    return `Kode ${draft.kode} sudah dipakai.`;
+  }
+  return null;
+};
+
+const bump = (catalog: ViolationCatalog, items: ViolationTypeDefinition[]): ViolationCatalog => ({
+  versi: catalog.versi + 1,
+  diperbarui: new Date().toISOString(),
+  items,
+});
+
+// Add a type or edit one. A changed kategori/poin becomes a new version from berlaku_mulai,
+// so violations recorded earlier keep being checked against the points they were given.
+export const saveCatalogItem = (catalog: ViolationCatalog, draft: CatalogItemDraft): ViolationCatalog => {
+  const label = draft.label.trim();
+  const kode = (draft.kode || '').trim() || undefined;
+  const deskripsi = (draft.deskripsi || '').trim() || undefined;
+  const version: ViolationTypeVersion = { kategori: draft.kategori, poin: draft.poin, berlaku_mulai: draft.berlaku_mulai };
+
+  const existing = catalog.items.find(i => i.id === draft.id);
+  if (!existing) {
+    let id = slugify(label) || 'jenis';
+    while (catalog.items.some(i => i.id === id)) id = `${id}-${catalog.items.length}`;
+    return bump(catalog, [...catalog.items, { id, label, kode, deskripsi, aktif: true, versions: [version] }]);
+  }
+
+  const current = getVersionAt(existing, draft.berlaku_mulai);
+  const versions = current.kategori === version.kategori && current.poin === version.poin
+    ? existing.versions
+    : [...existing.versions.filter(v => v.berlaku_mulai !== version.berlaku_mulai), version]
+        .sort((a, b) => a.berlaku_mulai.localeCompare(b.berlaku_mulai));
+  const renamed = existing.label !== label;
+  const updated: ViolationTypeDefinition = {
+    ...existing,
+    label,
+    label_lama: renamed ? Array.from(new Set([...(existing.label_lama || []), existing.label])) : existing.label_lama,
+    kode,
+    deskripsi,
+    versions,
+  };
+  return bump(catalog, catalog.items.map(i => i.id === existing.id ? updated : i));
+};
+
+export const setCatalogItemActive = (catalog: ViolationCatalog, id: string, aktif: boolean): ViolationCatalog => {
+  return bump(catalog, catalog.items.map(i => i.id === id ? { ...i, aktif } : i));
+};
@@ -0,0 +1,85 @@
+import { Student, Violation } from '../types';
+import { ClassOption, listClasses, normalizeClass } from './classes';
+
+// Rows whose kelas is empty are kept under their own heading
+export const NO_CLASS: ClassOption = { value: '', label: '(Tanpa kelas)' };
+
+const jenisOf = (v: Violation) => (v.jenis_pelanggaran || '').trim() || '(Tanpa jenis)';
+
+// Classes of the master data plus those only seen on violations, so clean classes are listed too
+const collectClasses = (violations: Violation[], students: Student[]): ClassOption[] => {
+  const classes = listClasses([...students, ...violations]);
+  return violations.some(v => !normalizeClass(v.kelas)) ? [...classes, NO_CLASS] : classes;
+};
+
+export interface ClassHeatmap {
+  classes: ClassOption[];
+  // Most frequent first
+  jenis: string[];
+  // Class id -> jenis -> number of violations
+  counts: Map<string, Map<string, number>>;
+  max: number;
+}
+
+export const buildClassHeatmap = (violations: Violation[], students: Student[]): ClassHeatmap => {
+  const counts = new Map<string, Map<string, number>>();
+  const jenisTotals = new Map<string, number>();
+  let max = 0;
+
+  violations.forEach(v => {
+    const kelas = normalizeClass(v.kelas);
+    const jenis = jenisOf(v);
+    const row = counts.get(kelas) || new Map<string, number>();
+    const count = (row.get(jenis) || 0) + 1;
+    row.set(jenis, count);
+    counts.set(kelas, row);
+    jenisTotals.set(jenis, (jenisTotals.get(jenis) || 0) + 1);
+    max = Math.max(max, count);
+  });
+
+  const jenis = Array.from(jenisTotals.entries())
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0], 'id'))
+    .map(([name]) => name);
+  return { classes: collectClasses(violations, students), jenis, counts, max };
+};
+
+export interface ClassRanking extends ClassOption {
+  siswa: number;
+  pelanggaran: number;
+  poin: number;
+  poin_per_siswa: number;
+  menunggu: number;
+}
+
+export type ClassRankingMetric = 'poin' | 'poin_per_siswa' | 'menunggu';
+
+export const CLASS_RANKING_LABELS: Record<ClassRankingMetric, string> = {
+  poin: 'Total poin',
+  poin_per_siswa: 'Poin per siswa',
+  menunggu: 'Menunggu tindak lanjut',
+};
+
+// Per class totals. Class size comes from the master data; classes missing there
+// fall back to the number of students with violations.
+export const rankClasses = (violations: Violation[], students: Student[], metric: ClassRankingMetric): ClassRanking[] => {
+  const rows = collectClasses(violations, students).map(option => {
+    const own = violations.filter(v => normalizeClass(v.kelas) === option.value);
+    const enrolled = students.filter(s => normalizeClass(s.kelas) === option.value).length;
+    const siswa = enrolled || new Set(own.map(v => v.nis)).size;
+    const poin = own.reduce((sum, v) => sum + (Number(v.poin_pelanggaran) || 0), 0);
+    return {
+      ...option,
+      siswa,
+      pelanggaran: own.length,
+      poin,
+      poin_per_siswa: siswa > 0 ? Math.round((poin / siswa) * 10) / 10 : 0,
+      menunggu: own.filter(v => v.status_tindak_lanjut === 'Menunggu Tindak Lanjut').length,
+    };
+  });
+  return rows.sort((a, b) => b[metric] - a[metric] || b.pelanggaran - a.pelanggaran || a.label.localeCompare(b.label, 'id'));
+};
+
+// Violations behind a heatmap cell, or a whole class when no jenis is given
+export const filterByClassCell = (violations: Violation[], kelas: string, jenis?: string): Violation[] => {
+  return violations.filter(v => normalizeClass(v.kelas) === kelas && (jenis === undefined || jenisOf(v) === jenis));
+};
@@ -0,0 +1,101 @@
+// Normalize class string to a strict ID for comparison
+// Removes all non-alphanumeric characters to prevent issues with spaces, dashes, etc.
+export const normalizeClass = (cls: any) => {
+  if (!cls) return '';
+  // Only allow A-Z and 0-9. This prevents "7 A" and "7-A" from being treated differently
+  // and ensures "7B" doesn't partially match "7 A" via regex errors
+  return String(cls).toUpperCase().replace(/[^A-Z0-9]/g, '');
+};
+
+// Helper to extract numeric value from class string for sorting
+// Handles "7A" -> 7, "VIIA" -> 7
+const getClassRank = (clsLabel: string): number => {
+  const normalized = normalizeClass(clsLabel);
+  
+  // Match Roman numerals or Arabic numbers at the start
+  // Example: "VIIA" -> match "VII", "7A" -> match "7"
+  const match = normalized.match(/^((?:X{0,3})(?:IX|IV|V?I{0,3})|\d+)/);
+  
+  if (!match) return 999; 
+  
+  const prefix = match[0];
+  
+  // Roman Map
+  const romans: Record<string, number> = {
+    'I': 1, 'II': 2, 'III': 3, 'IV': 4, 'V': 5, 'VI': 6,
+    'VII': 7, 'VIII': 8, 'IX': 9, 'X': 10, 'XI': 11, 'XII': 12
+  };
+
+  if (romans[prefix]) return romans[prefix];
+  
+  const num = parseInt(prefix);
+  return isNaN(num) ? 999 : num;
+};
+
+// Format normalized ID to readable label
+// Tries to insert space between Grade and Suffix (e.g. "7A" -> "7 A") for better readability
+export const formatClassLabel = (id: string) => {
+  // Roman Numerals
+  const romanMatch = id.match(/^((?:X{0,3})(?:IX|IV|V?I{0,3}))(.+)$/);
+  if (romanMatch) {
+    return `${romanMatch[1]} ${romanMatch[2]}`;
+  }
+
+  // Numeric
+  const numMatch = id.match(/^(\d+)(.+)$/);
+  if (numMatch) {
+    return `${numMatch[1]} ${numMatch[2]}`;
+  }
+
+  return id;
+};
+
+// Comparator function for sorting classes
+export const compareClasses = (classA: string, classB: string) => {
+  const normA = normalizeClass(classA);
+  const normB = normalizeClass(classB);
+
+  // 1. Compare by Rank (Grade Level)
+  const rankA = getClassRank(normA);
+  const rankB = getClassRank(normB);
+
+  if (rankA !== rankB) {
+    return rankA - rankB;
+  }
+
+  // 2. If Grade Level is same, Natural Sort the rest of the string
+  // This handles "7A" vs "7B" correctly
+  return normA.localeCompare(normB, 'en', { numeric: true });
+};
+
+export interface ClassOption {
+  value: string; // normalized id
+  label: string;
+}
+
+// Distinct classes of students or violations, in class order
+export const listClasses = (rows: { kelas?: string }[]): ClassOption[] => {
+  const uniqueIDs = new Set<string>();
+  const labelMap = new Map<string, string>();
+
+  rows.forEach(row => {
+    const id = normalizeClass(row.kelas);
+    // Only add if valid class string exists
+    if (id) {
+      uniqueIDs.add(id);
+      // Store the most readable version found, or format it
+      if (!labelMap.has(id)) {
+        // Try to use original class if it's clean, otherwise format the ID
+        const original = row.kelas?.trim();
+        labelMap.set(id, (original && original.length < 10) ? original : formatClassLabel(id));
+      }
+    }
+  });
+
+  return Array.from(uniqueIDs)
+    .map(id => ({
+      value: id,
+      label: labelMap.get(id) || id
+    }))
+    .sort((a, b) => compareClasses(a.value, b.value)); // Sort options using class comparator
+};
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { CsvSchemaError, formatCSV, parseCSV, parseStudentsCSV, parseViolationsCSV } from './csv';
+
+describe('parseCSV', () => {
+  it('handles quoted separators, escaped quotes and line breaks', () => {
+    const text = 'a,b,c\n"1,5","say ""hi""","line\nbreak"\n';
+    expect(parseCSV(text)).toEqual([['a', 'b', 'c'], ['1,5', 'say "hi"', 'line\nbreak']]);
+  });
+
+  it('accepts CRLF and CR endings, a BOM and a missing final newline', () => {
+    expect(parseCSV('\uFEFFa,b\r\n1,2\r3,4')).toEqual([['a', 'b'], ['1', '2'], ['3', '4']]);
+  });
+
+  it('trims unquoted values but keeps quoted ones as written', () => {
+    expect(parseCSV(' a , " b "')).toEqual([['a', ' b ']]);
+  });
+
+  it('keeps empty trailing fields', () => {
+    expect(parseCSV('a,,\n')).toEqual([['a', '', '']]);
+  });
+
+  it('round-trips through formatCSV', () => {
+    const rows = [['kode', 'catatan'], ['X-1', 'koma, "kutip"\nbaris baru'], ['', '']];
+    expect(parseCSV(formatCSV(rows))).toEqual(rows);
+  });
+});
+
+describe('parseStudentsCSV', () => {
+  it('maps headers by alias and reports duplicate NIS', () => {
+    const text = 'NISN,Nama Siswa,Rombel,Wali\n1001,Budi,7A,Siti\n1001,Budi Lagi,7A,Siti\n,Tanpa NIS,7B,Agus';
+    const { data, warnings } = parseStudentsCSV(text);
+    expect(data.map(s => s.nama_lengkap)).toEqual(['Budi', 'Budi Lagi']);
+    expect(data[0].nama_wali_kelas).toBe('Siti');
+    expect(warnings.map(w => [w.code, w.row])).toEqual([['duplicate_nis', 3], ['missing_field', 4]]);
+  });
+
+  it('throws a schema error when a required column is missing', () => {
+    expect(() => parseStudentsCSV('nis,nama\n1,Budi')).toThrow(CsvSchemaError);
+  });
+});
+
+describe('parseViolationsCSV', () => {
+  const header = 'kode,nis,nama,kelas,tanggal,jam,jenis,kategori,poin,status,waktu_input,dibatalkan_pada';
+
+  it('parses dates, times and timestamps in school time', () => {
+    const { data, warnings } = parseViolationsCSV(`${header}\nCPS-1,1001,Budi,7A,05/01/2025,7.30,Terlambat,sedang,5,,,`);
+    expect(warnings).toEqual([]);
+    expect(data[0]).toMatchObject({
+      kode_pelanggaran: 'CPS-1',
+      tanggal_pelanggaran: '2025-01-05',
+      jam_kejadian: '07:30',
+      kategori_pelanggaran: 'Sedang',
+      status_tindak_lanjut: 'Menunggu Tindak Lanjut',
+      created_at: '2025-01-05T00:30:00.000Z',
+      sheet_row: 2,
+    });
+  });
+
+  it('keeps bad rows with a warning and falls back to safe values', () => {
+    const { data, warnings } = parseViolationsCSV(`${header}\n,1001,Budi,7A,31/02/2025,25:00,Terlambat,Parah,x,Selesai,,`);
+    expect(data[0]).toMatchObject({ kode_pelanggaran: 'SHEET-2', kategori_pelanggaran: 'Ringan', poin_pelanggaran: 0 });
+    expect(warnings.map(w => w.code)).toEqual([
+      'missing_code', 'invalid_date', 'invalid_time', 'invalid_category', 'invalid_points', 'invalid_status',
+    ]);
+  });
+
+  it('gives rows that share a code distinct ids', () => {
+    const { data, warnings } = parseViolationsCSV(`${header}\nCPS-1,1001,A,7A,2025-01-05,,T,Ringan,5,,,\nCPS-1,1002,B,7A,2025-01-05,,T,Ringan,5,,,`);
+    expect(data.map(v => v.id)).toEqual(['CPS-1', 'CPS-1#3']);
+    expect(warnings[0].code).toBe('duplicate_code');
+  });
+
+  it('treats any text in dibatalkan_pada as voided', () => {
+    const { data } = parseViolationsCSV(`${header}\nCPS-1,1001,A,7A,2025-01-05,,T,Ringan,5,,,ya`);
+    expect(data[0].dibatalkan_pada).toBe('ya');
+  });
+});
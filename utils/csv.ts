@@ -1,137 +1,411 @@
-import { Student, Violation } from '../types';
+import { parseDate, parseTime, parseTimestamp, jakartaDateTime } from './date';
+import { Student, Violation, ViolationCategory, ImportWarning, ImportWarningCode, ParseResult, AppSettings, RecordTable, RecordTables } from '../types';
+import { RECORD_SCHEMAS, RECORD_SHEET_NAMES, deserializeRecord } from './records';
 
-// Helper for robust CSV parsing that handles quotes and trimming
-const parseCSVLine = (text: string): string[] => {
-  const values: string[] = [];
-  let currentValue = '';
+// Thrown when the sheet layout cannot be mapped safely (e.g. a required column is missing).
+// Callers should surface it to the user instead of guessing positions.
+export class CsvSchemaError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CsvSchemaError';
+  }
+}
+
+// RFC 4180 parser: quoted fields may contain separators, escaped quotes ("") and line breaks.
+// Accepts CRLF, LF or CR line endings and ignores a leading UTF-8 BOM.
+// Unquoted values are trimmed, quoted values are kept exactly as written.
+export const parseCSV = (text: string, delimiter = ','): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
   let inQuotes = false;
+  let wasQuoted = false;
+
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  const pushField = () => {
+    row.push(wasQuoted ? field : field.trim());
+    field = '';
+    wasQuoted = false;
+  };
 
-  for (let i = 0; i < text.length; i++) {
-    const char = text[i];
-    
-    if (char === '"') {
-      inQuotes = !inQuotes;
-    }
-    
-    // If it's a comma and we're NOT inside quotes, it's a separator
-    if (char === ',' && !inQuotes) {
-      values.push(currentValue);
-      currentValue = '';
+  const pushRow = () => {
+    pushField();
+    rows.push(row);
+    row = [];
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && field.trim() === '') {
+      // Opening quote (whitespace before it is not part of the value)
+      inQuotes = true;
+      wasQuoted = true;
+      field = '';
+    } else if (char === delimiter) {
+      pushField();
+    } else if (char === '\r' || char === '\n') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      pushRow();
     } else {
-      currentValue += char;
+      // Also keeps stray text after a closing quote ("abc" def) rather than dropping data
+      field += char;
     }
   }
-  // Push the last value
-  values.push(currentValue);
-
-  // Post-process values: trim whitespace and handle quotes
-  return values.map(val => {
-    let cleaned = val.trim();
-    
-    // If the value starts and ends with a quote, strip them
-    if (cleaned.startsWith('"') && cleaned.endsWith('"')) {
-      cleaned = cleaned.substring(1, cleaned.length - 1);
-      // Handle escaped quotes: in CSV, double double-quotes ("") mean a single quote (")
-      cleaned = cleaned.replace(/""/g, '"');
-    }
-    
-    return cleaned;
+
+  // Last record when the file does not end with a newline
+  if (field !== '' || wasQuoted || row.length > 0) pushRow();
+
+  return rows;
+};
+
+// Inverse of parseCSV. Every value is quoted, so separators, quotes and line breaks survive.
+export const formatCSV = (rows: string[][], delimiter = ','): string => {
+  return rows.map(row => row.map(value => `"${value.replace(/"/g, '""')}"`).join(delimiter)).join('\r\n');
+};
+
+// --- Header mapping ---
+
+export type StudentColumn = keyof Student;
+export type ViolationColumn =
+  | 'nis' | 'nama_lengkap' | 'jenis_kelamin' | 'kelas' | 'nama_wali_kelas' | 'kontak_ortu'
+  | 'kode_pelanggaran' | 'tanggal_pelanggaran' | 'jenis_pelanggaran' | 'kategori_pelanggaran'
+  | 'lokasi_kejadian' | 'deskripsi' | 'status_tindak_lanjut' | 'hasil_tindak_lanjut'
+  | 'poin_pelanggaran' | 'poin_dasar' | 'aturan_berulang' | 'pelapor' | 'jam_kejadian' | 'created_at'
+  | 'dibatalkan_pada' | 'dibatalkan_oleh' | 'alasan_batal';
+
+export interface ColumnSpec {
+  aliases: string[];
+  required?: boolean;
+}
+
+export type ColumnSchema<K extends string> = Record<K, ColumnSpec>;
+
+// Extra header names per field, e.g. { nis: ['Nomor Induk'] }, merged with the defaults below
+export type ColumnAliases<K extends string> = Partial<Record<K, string[]>>;
+
+// Header names are compared case-insensitively, ignoring spaces and punctuation
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+export const STUDENT_COLUMNS: ColumnSchema<StudentColumn> = {
+  nis: { aliases: ['nis', 'nisn', 'nomor induk'], required: true },
+  nama_lengkap: { aliases: ['nama_lengkap', 'nama', 'nama siswa'], required: true },
+  jenis_kelamin: { aliases: ['jenis_kelamin', 'jk', 'l/p', 'gender'] },
+  kelas: { aliases: ['kelas', 'rombel'], required: true },
+  nama_wali_kelas: { aliases: ['nama_wali_kelas', 'wali_kelas', 'wali kelas', 'wali'] },
+  kontak_ortu: { aliases: ['kontak_ortu', 'kontak orang tua', 'no hp ortu', 'telepon ortu', 'kontak'] },
+};
+
+export const VIOLATION_COLUMNS: ColumnSchema<ViolationColumn> = {
+  nis: { aliases: ['nis', 'nisn'], required: true },
+  nama_lengkap: { aliases: ['nama_lengkap', 'nama', 'nama siswa'] },
+  jenis_kelamin: { aliases: ['jenis_kelamin', 'jk', 'l/p'] },
+  kelas: { aliases: ['kelas', 'rombel'] },
+  nama_wali_kelas: { aliases: ['nama_wali_kelas', 'wali_kelas', 'wali kelas', 'wali'] },
+  kontak_ortu: { aliases: ['kontak_ortu', 'kontak orang tua', 'kontak'] },
+  kode_pelanggaran: { aliases: ['kode_pelanggaran', 'kode'], required: true },
+  tanggal_pelanggaran: { aliases: ['tanggal_pelanggaran', 'tanggal', 'tgl'], required: true },
+  jenis_pelanggaran: { aliases: ['jenis_pelanggaran', 'jenis', 'pelanggaran'], required: true },
+  kategori_pelanggaran: { aliases: ['kategori_pelanggaran', 'kategori'] },
+  lokasi_kejadian: { aliases: ['lokasi_kejadian', 'lokasi', 'tempat'] },
+  deskripsi: { aliases: ['deskripsi', 'keterangan', 'kronologi'] },
+  status_tindak_lanjut: { aliases: ['status_tindak_lanjut', 'status'] },
+  hasil_tindak_lanjut: { aliases: ['hasil_tindak_lanjut', 'hasil', 'tindak lanjut'] },
+  poin_pelanggaran: { aliases: ['poin_pelanggaran', 'poin', 'point'], required: true },
+  poin_dasar: { aliases: ['poin_dasar', 'poin awal'] },
+  aturan_berulang: { aliases: ['aturan_berulang', 'aturan pengulangan'] },
+  pelapor: { aliases: ['pelapor', 'guru pelapor', 'dilaporkan oleh'] },
+  jam_kejadian: { aliases: ['jam_kejadian', 'jam', 'waktu kejadian'] },
+  created_at: { aliases: ['created_at', 'waktu_input', 'timestamp', 'dibuat pada'] },
+  dibatalkan_pada: { aliases: ['dibatalkan_pada', 'waktu_batal'] },
+  dibatalkan_oleh: { aliases: ['dibatalkan_oleh'] },
+  alasan_batal: { aliases: ['alasan_batal', 'alasan pembatalan'] },
+};
+
+// Find the column index of every field. Optional fields that are absent resolve to -1.
+// Throws CsvSchemaError when a required field is missing or two fields claim the same column.
+export const resolveColumns = <K extends string>(
+  header: string[],
+  schema: ColumnSchema<K>,
+  sheetName: string,
+  extraAliases: ColumnAliases<K> = {}
+): Record<K, number> => {
+  const normalizedHeader = header.map(normalizeHeader);
+  const result = {} as Record<K, number>;
+  const claimedBy = new Map<number, K>();
+  const missing: string[] = [];
+
+  (Object.keys(schema) as K[]).forEach(field => {
+    const aliases = [...(extraAliases[field] || []), ...schema[field].aliases].map(normalizeHeader);
+    const index = aliases.reduce((found, alias) => found !== -1 ? found : normalizedHeader.indexOf(alias), -1);
+
+    if (index === -1) {
+      if (schema[field].required) missing.push(field);
+      result[field] = -1;
+      return;
+    }
+
+    const owner = claimedBy.get(index);
+    if (owner) {
+      throw new CsvSchemaError(`Sheet ${sheetName}: kolom "${header[index]}" cocok untuk "${owner}" dan "${field}". Ubah nama kolom atau atur alias.`);
+    }
+    claimedBy.set(index, field);
+    result[field] = index;
   });
+
+  if (missing.length > 0) {
+    throw new CsvSchemaError(`Sheet ${sheetName}: kolom wajib tidak ditemukan (${missing.join(', ')}). Header terbaca: ${header.filter(Boolean).join(', ') || '-'}`);
+  }
+
+  return result;
+};
+
+// Split parsed records into header + data rows, each data row tagged with its sheet row number (1-based)
+const readTable = (csvText: string) => {
+  const records = parseCSV(csvText);
+  const headerIndex = records.findIndex(r => r.some(cell => cell !== ''));
+  if (headerIndex === -1) return { header: [] as string[], rows: [] as { row: number, values: string[] }[] };
+
+  const rows = records
+    .map((values, index) => ({ row: index + 1, values }))
+    .slice(headerIndex + 1)
+    .filter(r => r.values.some(cell => cell !== ''));
+
+  return { header: records[headerIndex], rows };
 };
 
-export const parseStudentsCSV = (csvText: string): Student[] => {
-  const lines = csvText.split('\n');
+const cell = (values: string[], index: number) => index === -1 ? '' : (values[index] || '');
+
+const VALID_CATEGORIES: ViolationCategory[] = ['Ringan', 'Sedang', 'Berat'];
+const VALID_STATUSES: Violation['status_tindak_lanjut'][] = ['Menunggu Tindak Lanjut', 'Sudah Ditindak Lanjut'];
+
+export const parseStudentsCSV = (csvText: string, aliases: ColumnAliases<StudentColumn> = {}): ParseResult<Student> => {
+  const { header, rows } = readTable(csvText);
+  if (header.length === 0) return { data: [], warnings: [] };
+
+  const col = resolveColumns(header, STUDENT_COLUMNS, 'Siswa', aliases);
   const students: Student[] = [];
-  
-  // Skip header row (index 0) and start reading from row 2 (index 1) as requested
-  for (let i = 1; i < lines.length; i++) {
-    const line = lines[i].trim();
-    if (!line) continue;
-    
-    const values = parseCSVLine(line);
-    
-    if (values.length >= 6 && values[0] && values[1]) {
-      students.push({
-        nis: values[0],
-        nama_lengkap: values[1],
-        jenis_kelamin: values[2],
-        kelas: values[3],
-        nama_wali_kelas: values[4],
-        kontak_ortu: values[5]
-      });
+  const warnings: ImportWarning[] = [];
+  const firstRowByNis = new Map<string, number>();
+
+  rows.forEach(({ row, values }) => {
+    const warn = (code: ImportWarningCode, field: string, value: string, message: string) => {
+      warnings.push({ sheet: 'Siswa', row, code, field, value, message });
+    };
+
+    const nis = cell(values, col.nis);
+    const nama = cell(values, col.nama_lengkap);
+    if (!nis || !nama) {
+      warn('missing_field', !nis ? 'nis' : 'nama_lengkap', '', `Baris dilewati: ${!nis ? 'NIS' : 'nama siswa'} kosong.`);
+      return;
     }
-  }
-  return students;
+
+    const firstRow = firstRowByNis.get(nis);
+    if (firstRow !== undefined) {
+      warn('duplicate_nis', 'nis', nis, `NIS sudah dipakai di baris ${firstRow}.`);
+    } else {
+      firstRowByNis.set(nis, row);
+    }
+
+    if (!cell(values, col.kelas)) {
+      warn('missing_field', 'kelas', '', 'Kelas kosong.');
+    }
+
+    students.push({
+      nis,
+      nama_lengkap: nama,
+      jenis_kelamin: cell(values, col.jenis_kelamin),
+      kelas: cell(values, col.kelas),
+      nama_wali_kelas: cell(values, col.nama_wali_kelas),
+      kontak_ortu: cell(values, col.kontak_ortu)
+    });
+  });
+
+  return { data: students, warnings };
 };
 
-export const parseViolationsCSV = (csvText: string): Violation[] => {
-  const lines = csvText.split('\n');
+export const parseViolationsCSV = (csvText: string, aliases: ColumnAliases<ViolationColumn> = {}): ParseResult<Violation> => {
+  const { header, rows } = readTable(csvText);
+  if (header.length === 0) return { data: [], warnings: [] };
+
+  const col = resolveColumns(header, VIOLATION_COLUMNS, 'Pelanggaran', aliases);
   const violations: Violation[] = [];
-  
-  // Start loop at 1 to skip the Header row (Row 0)
-  for (let i = 1; i < lines.length; i++) {
-    const line = lines[i].trim();
-    if (!line) continue;
-    
-    const values = parseCSVLine(line);
-    
-    // Mapping based on Google Sheet Columns:
-    // 0:nis, 1:nama, 2:jk, 3:kelas, 4:wali, 5:kontak, 
-    // 6:kode_pelanggaran, 7:tanggal, 8:jenis, 9:kategori, 
-    // 10:lokasi, 11:deskripsi, 12:status, 13:hasil, 14:poin
-    // 15: pelapor (Column P)
-    
-    if (values.length >= 10 && values[0]) {
-      const kode = values[6] || `SHEET-${i}`;
-      const tanggal = values[7];
-      
-      let dateBase = Date.now();
-      
-      // Robust Date Parsing
-      if (tanggal) {
-          const standardParse = Date.parse(tanggal);
-          if (!isNaN(standardParse)) {
-              dateBase = standardParse;
-          } else {
-              const parts = tanggal.split(/[/-]/);
-              if (parts.length === 3) {
-                  const p1 = parseInt(parts[0]);
-                  const p2 = parseInt(parts[1]);
-                  const p3 = parseInt(parts[2]);
-                  
-                  if (p1 <= 31 && p2 <= 12 && p3 > 1000) {
-                      dateBase = new Date(p3, p2 - 1, p1).getTime();
-                  } 
-                  else if (p1 > 1000 && p2 <= 12 && p3 <= 31) {
-                      dateBase = new Date(p1, p2 - 1, p3).getTime();
-                  }
-              }
-          }
-      }
-      
-      const stableDate = new Date(dateBase + i * 1000).toISOString();
-
-      violations.push({
-        id: kode, 
-        nis: values[0],
-        nama_lengkap: values[1],
-        jenis_kelamin: values[2],
-        kelas: values[3],
-        nama_wali_kelas: values[4],
-        kontak_ortu: values[5],
-        kode_pelanggaran: kode,
-        tanggal_pelanggaran: tanggal,
-        jenis_pelanggaran: values[8],
-        kategori_pelanggaran: (values[9] as any) || 'Ringan',
-        lokasi_kejadian: values[10],
-        deskripsi: values[11],
-        status_tindak_lanjut: (values[12] as any) || 'Menunggu Tindak Lanjut',
-        hasil_tindak_lanjut: values[13] || '',
-        poin_pelanggaran: parseInt(values[14]) || 0,
-        pelapor: values[15] || '', // Reading from column 15 (P)
-        created_at: stableDate 
-      });
+  const warnings: ImportWarning[] = [];
+  const seenIds = new Set<string>();
+  const firstRowByCode = new Map<string, number>();
+
+  rows.forEach(({ row, values }) => {
+    const warn = (code: ImportWarningCode, field: string, value: string, message: string) => {
+      warnings.push({ sheet: 'Pelanggaran', row, code, field, value, message });
+    };
+
+    const nis = cell(values, col.nis);
+    if (!nis) {
+      warn('missing_field', 'nis', '', 'Baris dilewati: NIS kosong.');
+      return;
     }
-  }
-  return violations;
-};
\ No newline at end of file
+
+    const rawKode = cell(values, col.kode_pelanggaran);
+    const kode = rawKode || `SHEET-${row}`;
+    if (!rawKode) {
+      warn('missing_code', 'kode_pelanggaran', '', `Kode kosong, sementara dipakai ${kode}.`);
+    }
+
+    const firstRow = firstRowByCode.get(kode);
+    if (firstRow !== undefined) {
+      warn('duplicate_code', 'kode_pelanggaran', kode, `Kode sama dengan baris ${firstRow}.`);
+    } else {
+      firstRowByCode.set(kode, row);
+    }
+
+    const tanggal = cell(values, col.tanggal_pelanggaran);
+
+    const tanggalIso = parseDate(tanggal);
+    if (!tanggalIso) {
+      warn('invalid_date', 'tanggal_pelanggaran', tanggal, tanggal ? 'Format tanggal tidak dikenali (pakai DD/MM/YYYY atau "5 Januari 2025").' : 'Tanggal kosong.');
+    }
+
+    const rawJam = cell(values, col.jam_kejadian);
+    const jam = parseTime(rawJam);
+    if (rawJam && !jam) {
+      warn('invalid_time', 'jam_kejadian', rawJam, 'Format jam tidak dikenali (pakai HH:MM).');
+    }
+
+    // Real submission time when the sheet has it; older rows only know the incident date
+    const createdAt = parseTimestamp(cell(values, col.created_at)) ||
+      (tanggalIso ? jakartaDateTime(tanggalIso, jam || '00:00').toISOString() : new Date(0).toISOString());
+
+    const jenis = cell(values, col.jenis_pelanggaran);
+    const rawKategori = cell(values, col.kategori_pelanggaran);
+    const kategori = VALID_CATEGORIES.find(c => c.toLowerCase() === rawKategori.toLowerCase());
+    if (!kategori) {
+      warn('invalid_category', 'kategori_pelanggaran', rawKategori, `Kategori harus ${VALID_CATEGORIES.join('/')}, dianggap Ringan.`);
+    }
+
+    const rawPoin = cell(values, col.poin_pelanggaran);
+    const poin = parseInt(rawPoin);
+    if (isNaN(poin)) {
+      warn('invalid_points', 'poin_pelanggaran', rawPoin, 'Poin bukan angka, dianggap 0.');
+    }
+
+    // Only set on rows a repeat-offense rule raised
+    const poinDasar = parseInt(cell(values, col.poin_dasar));
+
+    // Jenis/poin are checked against the live catalog afterwards (findCatalogMismatches)
+
+    const rawStatus = cell(values, col.status_tindak_lanjut);
+    const status = VALID_STATUSES.find(st => st.toLowerCase() === rawStatus.toLowerCase());
+    if (rawStatus && !status) {
+      warn('invalid_status', 'status_tindak_lanjut', rawStatus, 'Status tidak dikenali, dianggap Menunggu Tindak Lanjut.');
+    }
+
+    const rawVoided = cell(values, col.dibatalkan_pada);
+
+    // kode_pelanggaran is the identity of a violation; legacy duplicate codes get the row appended
+    const id = seenIds.has(kode) ? `${kode}#${row}` : kode;
+    seenIds.add(id);
+
+    violations.push({
+      id,
+      nis,
+      nama_lengkap: cell(values, col.nama_lengkap),
+      jenis_kelamin: cell(values, col.jenis_kelamin),
+      kelas: cell(values, col.kelas),
+      nama_wali_kelas: cell(values, col.nama_wali_kelas),
+      kontak_ortu: cell(values, col.kontak_ortu),
+      kode_pelanggaran: kode,
+      tanggal_pelanggaran: tanggalIso || tanggal,
+      jam_kejadian: jam || undefined,
+      jenis_pelanggaran: jenis,
+      kategori_pelanggaran: kategori || 'Ringan',
+      lokasi_kejadian: cell(values, col.lokasi_kejadian),
+      deskripsi: cell(values, col.deskripsi),
+      status_tindak_lanjut: status || 'Menunggu Tindak Lanjut',
+      hasil_tindak_lanjut: cell(values, col.hasil_tindak_lanjut),
+      poin_pelanggaran: isNaN(poin) ? 0 : poin,
+      poin_dasar: isNaN(poinDasar) ? undefined : poinDasar,
+      aturan_berulang: cell(values, col.aturan_berulang) || undefined,
+      pelapor: cell(values, col.pelapor),
+      created_at: createdAt,
+      sheet_row: row,
+      // Any text in the column voids the row, even when the sheet reformatted the timestamp
+      dibatalkan_pada: rawVoided ? (parseTimestamp(rawVoided) || rawVoided) : undefined,
+      dibatalkan_oleh: cell(values, col.dibatalkan_oleh) || undefined,
+      alasan_batal: cell(values, col.alasan_batal) || undefined,
+    });
+  });
+
+  return { data: violations, warnings };
+};
+
+export type SettingColumn = 'kunci' | 'nilai';
+
+export const SETTING_COLUMNS: ColumnSchema<SettingColumn> = {
+  kunci: { aliases: ['kunci', 'key', 'pengaturan'], required: true },
+  nilai: { aliases: ['nilai', 'value', 'json'], required: true },
+};
+
+// Settings sheet: one row per key, the value is JSON written by the Apps Script.
+// A later row with the same key wins, so the script may append instead of overwrite.
+export const parseSettingsCSV = (csvText: string): AppSettings => {
+  const { header, rows } = readTable(csvText);
+  if (header.length === 0) return {};
+
+  const col = resolveColumns(header, SETTING_COLUMNS, 'Pengaturan');
+  const settings: Record<string, unknown> = {};
+
+  rows.forEach(({ row, values }) => {
+    const key = cell(values, col.kunci);
+    if (!key) return;
+    try {
+      settings[key] = JSON.parse(cell(values, col.nilai));
+    } catch (e) {
+      console.warn(`Sheet Pengaturan baris ${row} dilewati: nilai "${key}" bukan JSON yang valid.`);
+    }
+  });
+
+  return settings as AppSettings;
+};
+
+// Record tables (sanksi, ...): headers are the field names, rows without an id are skipped
+export const parseRecordsCSV = <K extends RecordTable>(table: K, csvText: string): RecordTables[K][] => {
+  const { header, rows } = readTable(csvText);
+  if (header.length === 0) return [];
+
+  const fields = Object.keys(RECORD_SCHEMAS[table]);
+  const schema = fields.reduce<ColumnSchema<string>>((acc, field) => ({
+    ...acc,
+    [field]: { aliases: [field], required: field === 'id' },
+  }), {});
+  const col = resolveColumns(header, schema, RECORD_SHEET_NAMES[table]);
+  const records: RecordTables[K][] = [];
+
+  rows.forEach(({ row, values }) => {
+    const cells: Record<string, string> = {};
+    fields.forEach(field => { cells[field] = cell(values, col[field]); });
+    if (!cells.id) return;
+    const record = deserializeRecord(table, cells);
+    if (!record) {
+      console.warn(`Sheet ${RECORD_SHEET_NAMES[table]} baris ${row} dilewati: kolom JSON tidak valid.`);
+      return;
+    }
+    records.push(record);
+  });
+
+  return records;
+};
@@ -0,0 +1,70 @@
+import { ImportWarning, Student, Violation, ViolationCatalog } from '../types';
+import { findTypeAt } from './catalog';
+import { parseDate } from './date';
+
+// Checks that need more than one source (other sheet, admin catalog), so they cannot run inside a single CSV parser
+
+export const findUnknownStudents = (violations: Violation[], students: Student[]): ImportWarning[] => {
+  if (students.length === 0) return [];
+  const knownNis = new Set(students.map(s => s.nis));
+
+  return violations
+    .filter(v => v.sheet_row !== undefined && !knownNis.has(v.nis))
+    .map(v => ({
+      sheet: 'Pelanggaran' as const,
+      row: v.sheet_row as number,
+      code: 'unknown_nis' as const,
+      field: 'nis',
+      value: v.nis,
+      message: `NIS tidak ada di data siswa (${v.nama_lengkap || 'tanpa nama'}).`,
+    }));
+};
+
+// Jenis and poin of every sheet row, compared with the catalog version in force on the incident date.
+// Rows the parser already flagged for an unreadable kategori or poin are not flagged twice.
+export const findCatalogMismatches = (
+  violations: Violation[],
+  catalog: ViolationCatalog,
+  parseWarnings: ImportWarning[] = []
+): ImportWarning[] => {
+  const flagged = new Set(parseWarnings
+    .filter(w => w.sheet === 'Pelanggaran')
+    .map(w => `${w.code}:${w.row}`));
+  const warnings: ImportWarning[] = [];
+
+  violations.forEach(v => {
+    if (v.sheet_row === undefined) return;
+    const row = v.sheet_row;
+    const type = findTypeAt(catalog, v.jenis_pelanggaran, parseDate(v.tanggal_pelanggaran) || v.tanggal_pelanggaran);
+    if (!type) {
+      warnings.push({ sheet: 'Pelanggaran', row, code: 'unknown_type', field: 'jenis_pelanggaran', value: v.jenis_pelanggaran, message: 'Jenis pelanggaran tidak ada di katalog.' });
+      return;
+    }
+    // Rows raised by a repeat-offense rule are checked on their base points; their kategori may be upgraded
+    const basePoints = v.poin_dasar ?? v.poin_pelanggaran;
+    if (!flagged.has(`invalid_points:${row}`) && basePoints !== type.poin) {
+      const field = v.poin_dasar === undefined ? 'poin_pelanggaran' : 'poin_dasar';
+      warnings.push({ sheet: 'Pelanggaran', row, code: 'points_mismatch', field, value: String(basePoints), message: `Poin seharusnya ${type.poin} untuk "${type.label}" pada tanggal tersebut.` });
+    }
+    if (!flagged.has(`invalid_category:${row}`) && !v.aturan_berulang && v.kategori_pelanggaran !== type.kategori) {
+      warnings.push({ sheet: 'Pelanggaran', row, code: 'invalid_category', field: 'kategori_pelanggaran', value: v.kategori_pelanggaran, message: `Kategori seharusnya ${type.kategori} untuk "${type.label}".` });
+    }
+  });
+
+  return warnings;
+};
+
+export const WARNING_LABELS: Record<ImportWarning['code'], string> = {
+  missing_field: 'Data wajib kosong',
+  missing_code: 'Kode kosong',
+  duplicate_code: 'Kode ganda',
+  duplicate_nis: 'NIS ganda',
+  invalid_date: 'Tanggal tidak valid',
+  invalid_time: 'Jam tidak valid',
+  invalid_category: 'Kategori salah',
+  invalid_status: 'Status tidak dikenali',
+  invalid_points: 'Poin bukan angka',
+  points_mismatch: 'Poin tidak sesuai',
+  unknown_type: 'Jenis tidak dikenal',
+  unknown_nis: 'NIS tidak terdaftar',
+};
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { addDays, daysBetween, formatDate, jakartaDateTime, parseDate, parseTime, parseTimestamp, startOfWeek, toJakartaParts } from './date';
+
+describe('parseDate', () => {
+  it('reads numeric dates day-first', () => {
+    expect(parseDate('05/01/2025')).toBe('2025-01-05');
+    expect(parseDate('5-1-25')).toBe('2025-01-05');
+    expect(parseDate('05.01.2025 13:45:00')).toBe('2025-01-05');
+  });
+
+  it('reads ISO and Indonesian month names', () => {
+    expect(parseDate('2025-01-05')).toBe('2025-01-05');
+    expect(parseDate('2025-01-05T10:00:00Z')).toBe('2025-01-05');
+    expect(parseDate('5 Januari 2025')).toBe('2025-01-05');
+    expect(parseDate('Senin, 5 Jan 2025')).toBe('2025-01-05');
+    expect(parseDate('17 Agt 2025')).toBe('2025-08-17');
+  });
+
+  it('rejects impossible dates instead of rolling them over', () => {
+    expect(parseDate('31/02/2025')).toBeNull();
+    expect(parseDate('29/02/2025')).toBeNull();
+    expect(parseDate('29/02/2024')).toBe('2024-02-29');
+    expect(parseDate('13/13/2025')).toBeNull();
+    expect(parseDate('')).toBeNull();
+    expect(parseDate('kemarin')).toBeNull();
+  });
+});
+
+describe('parseTime', () => {
+  it('accepts the usual ways of writing a time', () => {
+    expect(parseTime('7:30')).toBe('07:30');
+    expect(parseTime('07.30')).toBe('07:30');
+    expect(parseTime('07:30:15')).toBe('07:30');
+    expect(parseTime('13.45 WIB')).toBe('13:45');
+  });
+
+  it('rejects out-of-range values', () => {
+    expect(parseTime('24:00')).toBeNull();
+    expect(parseTime('12:60')).toBeNull();
+    expect(parseTime('pagi')).toBeNull();
+  });
+});
+
+describe('parseTimestamp', () => {
+  it('keeps ISO instants', () => {
+    expect(parseTimestamp('2025-01-05T06:45:00.000Z')).toBe('2025-01-05T06:45:00.000Z');
+    expect(parseTimestamp('2025-01-05T13:45:00+07:00')).toBe('2025-01-05T06:45:00.000Z');
+  });
+
+  it('reads sheet timestamps as Jakarta time', () => {
+    expect(parseTimestamp('05/01/2025 13:45:00')).toBe('2025-01-05T06:45:00.000Z');
+    expect(parseTimestamp('05/01/2025')).toBe('2025-01-04T17:00:00.000Z');
+    expect(parseTimestamp('')).toBeNull();
+  });
+});
+
+describe('calendar helpers', () => {
+  it('adds days across month and year ends', () => {
+    expect(addDays('2025-01-31', 1)).toBe('2025-02-01');
+    expect(addDays('2025-01-01', -1)).toBe('2024-12-31');
+    expect(daysBetween('2025-02-27', '2025-03-01')).toBe(2);
+    expect(daysBetween('2025-03-01', '2025-02-27')).toBe(-2);
+  });
+
+  it('starts weeks on Monday', () => {
+    expect(startOfWeek('2026-10-19')).toBe('2026-10-19'); // Monday
+    expect(startOfWeek('2026-10-25')).toBe('2026-10-19'); // Sunday
+    expect(startOfWeek('2026-10-01')).toBe('2026-09-28');
+  });
+
+  it('uses the school clock regardless of the device timezone', () => {
+    expect(jakartaDateTime('2025-01-05', '06:30').toISOString()).toBe('2025-01-04T23:30:00.000Z');
+    expect(toJakartaParts(new Date('2025-01-04T23:30:00.000Z'))).toEqual({ date: '2025-01-05', time: '06:30' });
+  });
+
+  it('formats dates in Indonesian and leaves unreadable values alone', () => {
+    expect(formatDate('2025-08-17')).toBe('17 Agustus 2025');
+    expect(formatDate('')).toBe('-');
+    expect(formatDate('bukan tanggal')).toBe('bukan tanggal');
+  });
+});
@@ -0,0 +1,146 @@
+import { Violation } from '../types';
+
+// All dates in SIMPAS are school-local: Asia/Jakarta (WIB, UTC+7, no daylight saving).
+// Incident dates are stored as plain "YYYY-MM-DD" plus an optional "HH:mm" incident time;
+// created_at is the real submission instant as an ISO timestamp.
+
+export const SCHOOL_TIMEZONE = 'Asia/Jakarta';
+const JAKARTA_OFFSET = '+07:00';
+
+const MONTHS: Record<string, number> = {
+  januari: 1, jan: 1, january: 1,
+  februari: 2, feb: 2, pebruari: 2, february: 2,
+  maret: 3, mar: 3, march: 3,
+  april: 4, apr: 4,
+  mei: 5, may: 5,
+  juni: 6, jun: 6, june: 6,
+  juli: 7, jul: 7, july: 7,
+  agustus: 8, agu: 8, agt: 8, ags: 8, aug: 8, august: 8,
+  september: 9, sep: 9, sept: 9,
+  oktober: 10, okt: 10, oct: 10, october: 10,
+  november: 11, nov: 11, nop: 11,
+  desember: 12, des: 12, dec: 12, december: 12,
+};
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+const toIsoDate = (year: number, month: number, day: number): string | null => {
+  if (year < 100) year += 2000;
+  if (month < 1 || month > 12 || day < 1) return null;
+  const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  if (day > daysInMonth) return null;
+  return `${year}-${pad(month)}-${pad(day)}`;
+};
+
+// Parse a date the way Indonesian users write it. Numeric dates are always day-first
+// (05/01/2025 is 5 January), never guessed. Returns "YYYY-MM-DD" or null.
+// Accepts: 2025-01-05, 05/01/2025, 5-1-25, 05.01.2025, "5 Januari 2025", "Senin, 5 Jan 2025",
+// optionally followed by a time ("05/01/2025 13:45:00").
+export const parseDate = (input: string): string | null => {
+  const text = (input || '').trim().toLowerCase();
+  if (!text) return null;
+
+  const iso = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})(?:[t\s].*)?$/);
+  if (iso) return toIsoDate(+iso[1], +iso[2], +iso[3]);
+
+  const numeric = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})(?:\s.*)?$/);
+  if (numeric) return toIsoDate(+numeric[3], +numeric[2], +numeric[1]);
+
+  // Optional weekday prefix ("senin, "), then "5 januari 2025"
+  const named = text.replace(/^[a-z]+,\s*/, '').match(/^(\d{1,2})\s+([a-z]+)\.?\s+(\d{4})(?:\s.*)?$/);
+  if (named && MONTHS[named[2]]) return toIsoDate(+named[3], MONTHS[named[2]], +named[1]);
+
+  return null;
+};
+
+// "7:30", "07.30", "07:30:15", "13.45 WIB" -> "HH:mm". Returns null when not a valid time.
+export const parseTime = (input: string): string | null => {
+  const match = (input || '').trim().match(/^(\d{1,2})[:.](\d{2})(?:[:.]\d{2})?(?:\s*wib)?$/i);
+  if (!match) return null;
+  const hours = +match[1];
+  const minutes = +match[2];
+  if (hours > 23 || minutes > 59) return null;
+  return `${pad(hours)}:${pad(minutes)}`;
+};
+
+// Instant of a school-local date/time
+export const jakartaDateTime = (date: string, time = '00:00'): Date => {
+  return new Date(`${date}T${time}:00${JAKARTA_OFFSET}`);
+};
+
+// Parse a submission timestamp column: ISO instants are taken as-is,
+// anything else ("05/01/2025 13:45:00" from Sheets) is read as Jakarta local time.
+export const parseTimestamp = (input: string): string | null => {
+  const text = (input || '').trim();
+  if (!text) return null;
+
+  if (/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}/.test(text) && /(z|[+-]\d{2}:?\d{2})$/i.test(text)) {
+    const ms = Date.parse(text);
+    return isNaN(ms) ? null : new Date(ms).toISOString();
+  }
+
+  const date = parseDate(text);
+  if (!date) return null;
+  const timePart = text.match(/(\d{1,2}[:.]\d{2}(?:[:.]\d{2})?)\s*$/);
+  const time = timePart ? parseTime(timePart[1]) : null;
+  return jakartaDateTime(date, time || '00:00').toISOString();
+};
+
+// Calendar arithmetic on "YYYY-MM-DD" dates (no timezone involved)
+export const addDays = (date: string, days: number): string => {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+};
+
+// Whole days from one "YYYY-MM-DD" date to another (negative when `to` is earlier)
+export const daysBetween = (from: string, to: string): number => {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86400000);
+};
+
+// Monday of the week a "YYYY-MM-DD" date falls in; school weeks start on Monday
+export const startOfWeek = (date: string): string => {
+  const weekday = new Date(`${date}T00:00:00Z`).getUTCDay();
+  return addDays(date, -((weekday + 6) % 7));
+};
+
+// Date and time of an instant on the school clock, regardless of the device timezone
+export const toJakartaParts = (instant: Date): { date: string, time: string } => {
+  const parts = new Intl.DateTimeFormat('en-CA', {
+    timeZone: SCHOOL_TIMEZONE,
+    year: 'numeric', month: '2-digit', day: '2-digit',
+    hour: '2-digit', minute: '2-digit', hourCycle: 'h23',
+  }).formatToParts(instant);
+  const get = (type: string) => parts.find(p => p.type === type)?.value || '00';
+  return { date: `${get('year')}-${get('month')}-${get('day')}`, time: `${get('hour')}:${get('minute')}` };
+};
+
+export const nowInJakarta = () => toJakartaParts(new Date());
+
+// Format a "YYYY-MM-DD" date or ISO timestamp for display in Indonesian
+export const formatDate = (
+  value: string,
+  options: Intl.DateTimeFormatOptions = { day: 'numeric', month: 'long', year: 'numeric' }
+): string => {
+  if (!value) return '-';
+  const date = /^\d{4}-\d{2}-\d{2}$/.test(value) ? jakartaDateTime(value) : new Date(value);
+  if (isNaN(date.getTime())) return value;
+  return date.toLocaleDateString('id-ID', { ...options, timeZone: SCHOOL_TIMEZONE });
+};
+
+// When the incident happened (falls back to midnight when no jam_kejadian was recorded)
+export const getIncidentTime = (v: Pick<Violation, 'tanggal_pelanggaran' | 'jam_kejadian'>): number => {
+  const date = parseDate(v.tanggal_pelanggaran);
+  if (!date) return 0;
+  return jakartaDateTime(date, v.jam_kejadian || '00:00').getTime();
+};
+
+// Comparators, newest first. Ties fall back to sheet order so the list is stable.
+export const compareBySubmittedDesc = (a: Violation, b: Violation) => {
+  return (new Date(b.created_at).getTime() || 0) - (new Date(a.created_at).getTime() || 0) ||
+    (b.sheet_row ?? Number.MAX_SAFE_INTEGER) - (a.sheet_row ?? Number.MAX_SAFE_INTEGER);
+};
+
+export const compareByIncidentDesc = (a: Violation, b: Violation) => {
+  return getIncidentTime(b) - getIncidentTime(a) || compareBySubmittedDesc(a, b);
+};
@@ -0,0 +1,51 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { formatLetterNumber, peekLetterSequence, reserveLetterSequence } from './letters';
+import { createMemoryStorage } from '../test/fixtures';
+import { IssuedLetter } from '../types';
+
+const letter = (overrides: Partial<IssuedLetter> = {}): IssuedLetter => ({
+  id: 'SRT-1',
+  jenis: 'sp1',
+  nomor_surat: 'K7QM-004/SP1/BK/X/2026',
+  perangkat: 'K7QM',
+  urutan: 4,
+  tahun: 2026,
+  nis: '1001',
+  nama_lengkap: 'Budi Santoso',
+  kelas: 'X-1',
+  kode_pelanggaran: ['CPS-K7QM-0001'],
+  total_poin: 40,
+  tanggal: '2026-10-05',
+  dibuat_oleh: 'Siti Rahmawati',
+  dibuat_pada: '2026-10-05T02:00:00.000Z',
+  ...overrides,
+});
+
+beforeEach(() => {
+  vi.stubGlobal('localStorage', createMemoryStorage());
+});
+
+describe('letter numbers', () => {
+  const letters = [
+    letter(),
+    letter({ id: 'SRT-2', perangkat: 'AB12', urutan: 9 }),
+    letter({ id: 'SRT-3', urutan: 12, tahun: 2025 }),
+    letter({ id: 'SRT-4', perangkat: undefined, urutan: 30 }),
+  ];
+
+  it('counts per device and year', () => {
+    expect(peekLetterSequence(letters, 2026, 'K7QM')).toBe(5);
+    expect(peekLetterSequence(letters, 2026, 'AB12')).toBe(10);
+    expect(peekLetterSequence(letters, 2027, 'K7QM')).toBe(1);
+  });
+
+  it('keeps counting on the device when earlier letters are out of view', () => {
+    expect(reserveLetterSequence(letters, 2026, 'K7QM')).toBe(5);
+    expect(reserveLetterSequence([], 2026, 'K7QM')).toBe(6);
+    expect(peekLetterSequence([], 2027, 'K7QM')).toBe(1);
+  });
+
+  it('puts the device tag into the number', () => {
+    expect(formatLetterNumber('{nomor}/{kode}/BK/{bulan}/{tahun}', 'sp1', 'K7QM', 7, '2026-10-05')).toBe('K7QM-007/SP1/BK/X/2026');
+  });
+});
@@ -0,0 +1,200 @@
+import { IssuedLetter, Letterhead, LetterType, Violation } from '../types';
+import { formatDate } from './date';
+
+export const LETTER_TYPE_LABELS: Record<LetterType, string> = {
+  panggilan_ortu: 'Surat Panggilan Orang Tua',
+  sp1: 'Surat Peringatan Pertama (SP1)',
+  sp2: 'Surat Peringatan Kedua (SP2)',
+  sp3: 'Surat Peringatan Ketiga (SP3)',
+  pernyataan: 'Surat Pernyataan Siswa',
+};
+
+// Filled into {kode} of the letter number
+const LETTER_CODES: Record<LetterType, string> = {
+  panggilan_ortu: 'PGL',
+  sp1: 'SP1',
+  sp2: 'SP2',
+  sp3: 'SP3',
+  pernyataan: 'SPN',
+};
+
+// Used until an admin saves the school identity in Pengaturan
+export const DEFAULT_LETTERHEAD: Letterhead = {
+  nama_sekolah: '',
+  alamat: '',
+  telepon: '',
+  kota: '',
+  kepala_sekolah: '',
+  nip_kepala_sekolah: '',
+  format_nomor: '{nomor}/{kode}/BK/{bulan}/{tahun}',
+};
+
+const ROMAN_MONTHS = ['I', 'II', 'III', 'IV', 'V', 'VI', 'VII', 'VIII', 'IX', 'X', 'XI', 'XII'];
+
+const SEQUENCE_KEY = 'simpas_letter_sequence';
+
+const readStoredSequences = (): Record<string, number> => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(SEQUENCE_KEY) || '{}');
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch {
+    return {};
+  }
+};
+
+// Letters are numbered per device and calendar year, like the violation codes: the device tag is
+// part of the number, so devices issuing offline at the same time never print the same number.
+// The counter is kept on the device because the letters in view may be scoped to some students only.
+export const peekLetterSequence = (letters: IssuedLetter[], tahun: number, perangkat: string): number => {
+  const stored = readStoredSequences()[tahun] || 0;
+  const highestSeen = letters
+    .filter(l => l.tahun === tahun && l.perangkat === perangkat)
+    .reduce((max, l) => Math.max(max, l.urutan), 0);
+  return Math.max(stored, highestSeen) + 1;
+};
+
+// Consume and return the next sequence of this device for the year
+export const reserveLetterSequence = (letters: IssuedLetter[], tahun: number, perangkat: string): number => {
+  const urutan = peekLetterSequence(letters, tahun, perangkat);
+  localStorage.setItem(SEQUENCE_KEY, JSON.stringify({ ...readStoredSequences(), [tahun]: urutan }));
+  return urutan;
+};
+
+// e.g. "K7QM-007/SP1/BK/X/2026" for the format "{nomor}/{kode}/BK/{bulan}/{tahun}"
+export const formatLetterNumber = (format: string, jenis: LetterType, perangkat: string, urutan: number, tanggal: string): string => {
+  const [year, month] = tanggal.split('-');
+  return format
+    .replace(/\{nomor\}/g, `${perangkat}-${String(urutan).padStart(3, '0')}`)
+    .replace(/\{kode\}/g, LETTER_CODES[jenis])
+    .replace(/\{bulan\}/g, ROMAN_MONTHS[Number(month) - 1] || month)
+    .replace(/\{tahun\}/g, year);
+};
+
+const escapeHtml = (text: string) => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+const violationTable = (violations: Violation[], totalPoin: number) => `
+  <table class="list">
+    <thead><tr><th>No</th><th>Tanggal</th><th>Pelanggaran</th><th>Kategori</th><th>Poin</th></tr></thead>
+    <tbody>
+      ${violations.map((v, i) => `
+        <tr>
+          <td class="c">${i + 1}</td>
+          <td>${escapeHtml(formatDate(v.tanggal_pelanggaran))}</td>
+          <td>${escapeHtml(v.jenis_pelanggaran)}</td>
+          <td class="c">${escapeHtml(v.kategori_pelanggaran)}</td>
+          <td class="c">${v.poin_pelanggaran}</td>
+        </tr>`).join('')}
+      <tr><td colspan="4" class="r"><b>Total Poin</b></td><td class="c"><b>${totalPoin}</b></td></tr>
+    </tbody>
+  </table>`;
+
+const identity = (letter: IssuedLetter) => `
+  <table class="identity">
+    <tr><td>Nama</td><td>: ${escapeHtml(letter.nama_lengkap)}</td></tr>
+    <tr><td>NIS</td><td>: ${escapeHtml(letter.nis)}</td></tr>
+    <tr><td>Kelas</td><td>: ${escapeHtml(letter.kelas)}</td></tr>
+  </table>`;
+
+const signature = (role: string, name: string, nip = '') => `
+  <div class="sign">
+    <p>${escapeHtml(role)}</p>
+    <div class="space"></div>
+    <p><b><u>${escapeHtml(name || '(.............................)')}</u></b></p>
+    ${nip ? `<p>NIP. ${escapeHtml(nip)}</p>` : ''}
+  </div>`;
+
+const letterBody = (letter: IssuedLetter, violations: Violation[]): string => {
+  const table = violationTable(violations, letter.total_poin);
+  switch (letter.jenis) {
+    case 'panggilan_ortu':
+      return `
+        <p>Kepada Yth.<br/>Bapak/Ibu Orang Tua/Wali Siswa<br/>di tempat</p>
+        <p>Dengan hormat,<br/>Bersama surat ini kami mengharapkan kehadiran Bapak/Ibu orang tua/wali dari siswa:</p>
+        ${identity(letter)}
+        <p>pada <b>${escapeHtml(letter.pertemuan || '....................')}</b>, untuk membicarakan perkembangan
+        putra/putri Bapak/Ibu berkaitan dengan pelanggaran tata tertib sekolah berikut:</p>
+        ${table}
+        <p>Demikian surat ini kami sampaikan. Atas perhatian dan kehadiran Bapak/Ibu kami ucapkan terima kasih.</p>`;
+    case 'pernyataan':
+      return `
+        <p>Yang bertanda tangan di bawah ini:</p>
+        ${identity(letter)}
+        <p>menyatakan bahwa saya telah melakukan pelanggaran tata tertib sekolah sebagai berikut:</p>
+        ${table}
+        <p>Saya berjanji tidak akan mengulangi pelanggaran tersebut. Apabila saya kembali melanggar, saya bersedia
+        menerima sanksi sesuai ketentuan sekolah.</p>
+        <p>Demikian surat pernyataan ini saya buat dengan sadar dan tanpa paksaan dari pihak mana pun.</p>`;
+    default:
+      return `
+        <p>Surat peringatan ini diberikan kepada siswa:</p>
+        ${identity(letter)}
+        <p>karena telah melakukan pelanggaran tata tertib sekolah sebagai berikut:</p>
+        ${table}
+        <p>Apabila siswa tersebut kembali melakukan pelanggaran, sekolah akan mengambil tindakan lebih lanjut
+        sesuai tata tertib yang berlaku. Kami mohon Bapak/Ibu orang tua/wali turut membimbing putra/putrinya.</p>`;
+  }
+};
+
+const letterSignatures = (head: Letterhead, letter: IssuedLetter): string => {
+  if (letter.jenis === 'pernyataan') {
+    return `
+      <div class="signs">${signature('Orang Tua/Wali', '')}${signature('Siswa', letter.nama_lengkap)}</div>
+      <div class="signs">${signature('Guru BK', letter.dibuat_oleh)}</div>`;
+  }
+  return `<div class="signs">${signature('Guru BK', letter.dibuat_oleh)}${signature('Kepala Sekolah', head.kepala_sekolah, head.nip_kepala_sekolah)}</div>`;
+};
+
+// Complete A4 document that opens the print dialog on load (the dialog also offers "Save as PDF")
+export const buildLetterHtml = (head: Letterhead, letter: IssuedLetter, violations: Violation[]): string => `<!DOCTYPE html>
+<html lang="id">
+<head>
+<meta charset="UTF-8" />
+<title>${escapeHtml(letter.nomor_surat)} - ${escapeHtml(letter.nama_lengkap)}</title>
+<style>
+  @page { size: A4; margin: 2cm; }
+  body { font-family: 'Times New Roman', serif; font-size: 12pt; line-height: 1.5; color: #000; }
+  .kop { text-align: center; border-bottom: 3px double #000; padding-bottom: 8px; margin-bottom: 16px; }
+  .kop h1 { font-size: 16pt; margin: 0; text-transform: uppercase; }
+  .kop p { margin: 0; font-size: 10pt; }
+  .title { text-align: center; margin-bottom: 16px; }
+  .title h2 { font-size: 13pt; margin: 0; text-decoration: underline; text-transform: uppercase; }
+  .title p { margin: 0; }
+  .identity td { padding: 0 8px 0 24px; }
+  table.list { width: 100%; border-collapse: collapse; margin: 8px 0 12px; font-size: 11pt; }
+  table.list th, table.list td { border: 1px solid #000; padding: 4px 6px; }
+  .c { text-align: center; } .r { text-align: right; }
+  .date { text-align: right; margin-top: 16px; }
+  .signs { display: flex; justify-content: space-around; margin-top: 8px; page-break-inside: avoid; }
+  .sign { text-align: center; min-width: 200px; } .sign p { margin: 0; } .space { height: 64px; }
+</style>
+</head>
+<body>
+  <div class="kop">
+    <h1>${escapeHtml(head.nama_sekolah)}</h1>
+    <p>${escapeHtml(head.alamat)}</p>
+    ${head.telepon ? `<p>Telp. ${escapeHtml(head.telepon)}</p>` : ''}
+  </div>
+  <div class="title">
+    <h2>${escapeHtml(LETTER_TYPE_LABELS[letter.jenis])}</h2>
+    <p>Nomor: ${escapeHtml(letter.nomor_surat)}</p>
+  </div>
+  ${letterBody(letter, violations)}
+  <p class="date">${escapeHtml(head.kota ? `${head.kota}, ` : '')}${escapeHtml(formatDate(letter.tanggal))}</p>
+  ${letterSignatures(head, letter)}
+  <script>window.onload = function () { window.print(); };</script>
+</body>
+</html>`;
+
+// Opens the letter in a new window. Returns false when the browser blocked the pop-up.
+export const printLetter = (html: string): boolean => {
+  const win = window.open('', '_blank');
+  if (!win) return false;
+  win.document.write(html);
+  win.document.close();
+  win.focus();
+  return true;
+};
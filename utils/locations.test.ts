@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { buildHotspots, matchLocation, normalizeLocationText, NO_LOCATION, resolveLocation, saveLocation, topHotspotCells, validateLocation } from './locations';
+import { makeViolation } from '../test/fixtures';
+import { LocationOption } from '../types';
+
+const CATALOG: LocationOption[] = [
+  { id: 'kantin', label: 'Kantin', alias: [], aktif: true },
+  { id: 'toilet-lt-2', label: 'Toilet lt. 2', alias: ['wc atas'], aktif: true },
+  { id: 'kelas', label: 'Kelas', alias: [], aktif: true },
+  { id: 'koridor', label: 'Koridor kelas', alias: ['depan kelas'], aktif: true },
+];
+
+describe('normalizeLocationText', () => {
+  it('drops case, punctuation and filler words and spells floors one way', () => {
+    expect(normalizeLocationText('Toilet Lantai 2')).toBe('toilet lt 2');
+    expect(normalizeLocationText('toilet lt.2')).toBe('toilet lt 2');
+    expect(normalizeLocationText('di Kantin Sekolah')).toBe('kantin');
+  });
+});
+
+describe('matchLocation', () => {
+  it('matches a label or alias written another way', () => {
+    expect(matchLocation(CATALOG, 'di kantin sekolah')?.id).toBe('kantin');
+    expect(matchLocation(CATALOG, 'WC Atas')?.id).toBe('toilet-lt-2');
+    expect(matchLocation(CATALOG, 'Toilet lantai 2')?.id).toBe('toilet-lt-2');
+  });
+
+  it('prefers the longest name contained in the text', () => {
+    expect(matchLocation(CATALOG, 'depan kelas 9A')?.id).toBe('koridor');
+    expect(matchLocation(CATALOG, 'kelas 9A')?.id).toBe('kelas');
+  });
+
+  it('forgives a small typo', () => {
+    expect(matchLocation(CATALOG, 'Kntin')?.id).toBe('kantin');
+  });
+
+  it('returns null for unknown places', () => {
+    expect(matchLocation(CATALOG, 'Lapangan')).toBeNull();
+    expect(matchLocation(CATALOG, '')).toBeNull();
+  });
+});
+
+describe('resolveLocation', () => {
+  it('falls back to the typed text, or to no location', () => {
+    expect(resolveLocation(CATALOG, ' Lapangan ')).toEqual({ key: 'teks:lapangan', label: 'Lapangan' });
+    expect(resolveLocation(CATALOG, '')).toEqual({ key: '', label: NO_LOCATION });
+  });
+});
+
+describe('catalog editing', () => {
+  it('rejects empty, filler-only and duplicate names', () => {
+    expect(validateLocation(CATALOG, { id: '', label: ' ', alias: [], aktif: true })).toBe('Nama lokasi wajib diisi.');
+    expect(validateLocation(CATALOG, { id: '', label: 'Ruang', alias: [], aktif: true })).toBe('Nama lokasi terlalu umum.');
+    expect(validateLocation(CATALOG, { id: '', label: 'Kantin sekolah', alias: [], aktif: true })).toBe('"Kantin" sudah ada di katalog.');
+    expect(validateLocation(CATALOG, { ...CATALOG[0], alias: ['warung'] })).toBeNull();
+  });
+
+  it('gives a new place an id from its label and trims aliases', () => {
+    const saved = saveLocation(CATALOG, { id: '', label: ' Lab Komputer ', alias: [' lab ', ''], aktif: true });
+    expect(saved[saved.length - 1]).toEqual({ id: 'lab-komputer', label: 'Lab Komputer', alias: ['lab'], aktif: true });
+  });
+
+  it('replaces a place with the same id', () => {
+    const saved = saveLocation(CATALOG, { ...CATALOG[0], aktif: false });
+    expect(saved).toHaveLength(CATALOG.length);
+    expect(saved[0].aktif).toBe(false);
+  });
+});
+
+describe('hotspots', () => {
+  const violations = [
+    makeViolation({ lokasi_kejadian: 'Kantin', jam_kejadian: '07:15' }),
+    makeViolation({ lokasi_kejadian: 'kantin sekolah', jam_kejadian: '07:40' }),
+    makeViolation({ lokasi_kejadian: 'Kantin', jam_kejadian: '' }),
+    makeViolation({ lokasi_kejadian: 'Lapangan', jam_kejadian: '05:30' }),
+    makeViolation({ lokasi_kejadian: '', jam_kejadian: '09:00' }),
+  ];
+
+  it('counts incidents per place and hour', () => {
+    const [kantin] = buildHotspots(CATALOG, violations);
+    expect(kantin).toMatchObject({ key: 'kantin', label: 'Kantin', total: 3 });
+    expect(kantin.perJam[1]).toBe(2); // 07
+    expect(kantin.perJam[kantin.perJam.length - 1]).toBe(1); // Tanpa jam
+  });
+
+  it('ranks place and hour pairs, leaving out unknown hours and places', () => {
+    const cells = topHotspotCells(buildHotspots(CATALOG, violations));
+    expect(cells[0]).toEqual({ label: 'Kantin', slot: '07', count: 2 });
+    expect(cells).toContainEqual({ label: 'Lapangan', slot: '≤06', count: 1 });
+    expect(cells.some(c => c.label === NO_LOCATION || c.slot === 'Tanpa jam')).toBe(false);
+  });
+});
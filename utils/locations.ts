@@ -0,0 +1,168 @@
+import { LocationOption, Violation } from '../types';
+
+// Select value of the free-text fallback in the location picker
+export const OTHER_LOCATION = '__lainnya__';
+
+export const NO_LOCATION = '(Tanpa lokasi)';
+
+// Words that do not tell places apart: "Kantin sekolah" is the kantin, "di ruang kelas" is the kelas
+const FILLER_WORDS = new Set(['di', 'ke', 'area', 'sekolah', 'ruang', 'ruangan']);
+
+// Lowercase words without punctuation; "Lantai 2", "lt.2" and "Lt 2" all become "lt 2"
+export const normalizeLocationText = (text: string): string => {
+  return (text || '')
+    .toLowerCase()
+    .replace(/\b(?:lantai|lt)\.?\s*(\d+)/g, ' lt $1 ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .split(' ')
+    .filter(word => word && !FILLER_WORDS.has(word))
+    .join(' ');
+};
+
+const levenshtein = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// Catalog place a free-text location refers to, or null. Tried in order: the same words as the
+// label or an alias; every word of a label or alias appearing in the text (the longest wins, so
+// "depan kelas 9A" is the koridor, not the kelas); a typo of at most one letter in five.
+export const matchLocation = (catalog: LocationOption[], text: string): LocationOption | null => {
+  const wanted = normalizeLocationText(text);
+  if (!wanted) return null;
+  const words = new Set(wanted.split(' '));
+  const keys = catalog.flatMap(option =>
+    [option.label, ...option.alias].map(name => ({ option, key: normalizeLocationText(name) })).filter(k => k.key)
+  );
+
+  const exact = keys.find(k => k.key === wanted);
+  if (exact) return exact.option;
+
+  const contained = keys
+    .map(k => ({ ...k, size: k.key.split(' ').length }))
+    .filter(k => k.key.split(' ').every(word => words.has(word)))
+    .sort((a, b) => b.size - a.size)[0];
+  if (contained) return contained.option;
+
+  const close = keys
+    .map(k => ({ ...k, distance: levenshtein(wanted, k.key) }))
+    .filter(k => k.distance <= Math.max(1, Math.floor(k.key.length / 5)))
+    .sort((a, b) => a.distance - b.distance)[0];
+  return close ? close.option : null;
+};
+
+// Place a violation is counted under: the catalog entry, or the typed text when nothing matches
+export const resolveLocation = (catalog: LocationOption[], text: string): { key: string, label: string } => {
+  const match = matchLocation(catalog, text);
+  if (match) return { key: match.id, label: match.label };
+  const normalized = normalizeLocationText(text);
+  return normalized ? { key: `teks:${normalized}`, label: text.trim() } : { key: '', label: NO_LOCATION };
+};
+
+const slugify = (label: string) => label.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+
+// Returns an error message, or null when the location can be saved
+export const validateLocation = (catalog: LocationOption[], draft: LocationOption): string | null => {
+  if (!draft.label.trim()) return 'Nama lokasi wajib diisi.';
+  const wanted = normalizeLocationText(draft.label);
+  if (!wanted) return 'Nama lokasi terlalu umum.';
+  const clash = catalog.find(l => l.id !== draft.id && normalizeLocationText(l.label) === wanted);
+  if (clash) return `"${clash.label}" sudah ada di katalog.`;
+  return null;
+};
+
+// Add a location (empty id) or replace the one with the same id. Violations store the label
+// as text, so renaming a place only affects new entries.
+export const saveLocation = (catalog: LocationOption[], draft: LocationOption): LocationOption[] => {
+  const item = { ...draft, label: draft.label.trim(), alias: draft.alias.map(a => a.trim()).filter(Boolean) };
+  if (catalog.some(l => l.id === item.id)) {
+    return catalog.map(l => l.id === item.id ? item : l);
+  }
+  let id = slugify(item.label) || 'lokasi';
+  while (catalog.some(l => l.id === id)) id = `${id}-${catalog.length}`;
+  return [...catalog, { ...item, id }];
+};
+
+export interface RecordedLocation {
+  text: string;
+  count: number;
+  match: LocationOption | null;
+}
+
+// Distinct free-text values already on violations, most used first, with the place they map to
+export const summarizeRecordedLocations = (catalog: LocationOption[], violations: Violation[]): RecordedLocation[] => {
+  const counts = new Map<string, number>();
+  violations.forEach(v => {
+    const text = (v.lokasi_kejadian || '').trim();
+    if (text) counts.set(text, (counts.get(text) || 0) + 1);
+  });
+  return Array.from(counts.entries())
+    .map(([text, count]) => ({ text, count, match: matchLocation(catalog, text) }))
+    .sort((a, b) => b.count - a.count || a.text.localeCompare(b.text, 'id'));
+};
+
+// --- Hotspots ---
+
+// School hours get one column each; earlier and later incidents share the outer columns
+const FIRST_HOUR = 6;
+const LAST_HOUR = 16;
+
+export const HOUR_SLOTS: string[] = [
+  ...Array.from({ length: LAST_HOUR - FIRST_HOUR + 1 }, (_, i) => {
+    const hour = String(FIRST_HOUR + i).padStart(2, '0');
+    if (i === 0) return `≤${hour}`;
+    if (FIRST_HOUR + i === LAST_HOUR) return `≥${hour}`;
+    return hour;
+  }),
+  'Tanpa jam',
+];
+
+const hourSlot = (time?: string): number => {
+  const hour = parseInt((time || '').slice(0, 2), 10);
+  if (isNaN(hour)) return HOUR_SLOTS.length - 1;
+  return Math.min(Math.max(hour, FIRST_HOUR), LAST_HOUR) - FIRST_HOUR;
+};
+
+export interface LocationHotspot {
+  key: string;
+  label: string;
+  total: number;
+  // Incidents per entry of HOUR_SLOTS
+  perJam: number[];
+}
+
+export interface HotspotCell {
+  label: string;
+  slot: string;
+  count: number;
+}
+
+// Places by number of incidents, each split by hour of the day
+export const buildHotspots = (catalog: LocationOption[], violations: Violation[]): LocationHotspot[] => {
+  const places = new Map<string, LocationHotspot>();
+  violations.forEach(v => {
+    const { key, label } = resolveLocation(catalog, v.lokasi_kejadian);
+    const place = places.get(key) || { key, label, total: 0, perJam: HOUR_SLOTS.map(() => 0) };
+    place.total += 1;
+    place.perJam[hourSlot(v.jam_kejadian)] += 1;
+    places.set(key, place);
+  });
+  return Array.from(places.values()).sort((a, b) => b.total - a.total || a.label.localeCompare(b.label, 'id'));
+};
+
+// Busiest place and hour combinations, where a piket teacher helps most
+export const topHotspotCells = (hotspots: LocationHotspot[], limit = 3): HotspotCell[] => {
+  return hotspots
+    .filter(place => place.key)
+    .flatMap(place => place.perJam.slice(0, -1).map((count, i) => ({ label: place.label, slot: HOUR_SLOTS[i], count })))
+    .filter(cell => cell.count > 0)
+    .sort((a, b) => b.count - a.count)
+    .slice(0, limit);
+};
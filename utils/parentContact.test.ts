@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { buildContactUrl, fillTemplate, normalizePhone } from './parentContact';
+import { makeViolation } from '../test/fixtures';
+
+describe('normalizePhone', () => {
+  it('writes every local spelling of a mobile number the same way', () => {
+    expect(normalizePhone('0812-3456-7890')).toBe('+6281234567890');
+    expect(normalizePhone('62812 3456 7890')).toBe('+6281234567890');
+    expect(normalizePhone('+62 812-3456-7890')).toBe('+6281234567890');
+    expect(normalizePhone('812.3456.7890')).toBe('+6281234567890');
+  });
+
+  it('rejects landlines, short numbers and empty cells', () => {
+    expect(normalizePhone('021-5551234')).toBeNull();
+    expect(normalizePhone('0812')).toBeNull();
+    expect(normalizePhone('')).toBeNull();
+  });
+});
+
+describe('messages', () => {
+  it('fills known placeholders and leaves typos visible', () => {
+    const message = fillTemplate('Yth. orang tua {nama_siswa} ({kelas}), {poin} poin. {nama}', makeViolation(), 'Bu Rina');
+    expect(message).toBe('Yth. orang tua Budi Santoso (7A), 5 poin. {nama}');
+  });
+
+  it('builds WhatsApp and SMS links', () => {
+    expect(buildContactUrl('whatsapp', '+6281234567890', 'Halo Bapak')).toBe('https://wa.me/6281234567890?text=Halo%20Bapak');
+    expect(buildContactUrl('sms', '+6281234567890', 'Halo')).toBe('sms:+6281234567890?body=Halo');
+  });
+});
@@ -0,0 +1,79 @@
+import { ContactChannel, MessageTemplate, Violation } from '../types';
+import { formatDate } from './date';
+
+export const CONTACT_CHANNEL_LABELS: Record<ContactChannel, string> = {
+  whatsapp: 'WhatsApp',
+  sms: 'SMS',
+};
+
+// Placeholders a template may use, with what they are filled with
+export const TEMPLATE_PLACEHOLDERS: Record<string, string> = {
+  nama_siswa: 'Nama siswa',
+  kelas: 'Kelas',
+  jenis_pelanggaran: 'Jenis pelanggaran',
+  tanggal: 'Tanggal kejadian',
+  poin: 'Poin pelanggaran',
+  pengirim: 'Nama pengirim',
+};
+
+// Built-in templates, used until an admin saves them in Pengaturan
+export const DEFAULT_MESSAGE_TEMPLATES: MessageTemplate[] = [
+  {
+    id: 'pemberitahuan',
+    label: 'Pemberitahuan pelanggaran',
+    isi: 'Assalamualaikum, Bapak/Ibu orang tua/wali dari {nama_siswa} ({kelas}). Kami memberitahukan bahwa pada {tanggal} '
+      + 'putra/putri Bapak/Ibu tercatat melakukan pelanggaran "{jenis_pelanggaran}" ({poin} poin). '
+      + 'Mohon bantuan Bapak/Ibu untuk membimbing di rumah. Terima kasih.\n\n{pengirim}',
+  },
+  {
+    id: 'undangan',
+    label: 'Undangan ke sekolah',
+    isi: 'Assalamualaikum, Bapak/Ibu orang tua/wali dari {nama_siswa} ({kelas}). Sehubungan dengan pelanggaran '
+      + '"{jenis_pelanggaran}" pada {tanggal}, kami mengundang Bapak/Ibu untuk hadir ke sekolah menemui guru BK. '
+      + 'Mohon konfirmasi waktu kehadiran melalui pesan ini. Terima kasih.\n\n{pengirim}',
+  },
+];
+
+// "0812-3456-7890", "62812..." and "+62 812..." all become "+6281234567890".
+// Returns null when the number cannot be an Indonesian mobile number.
+export const normalizePhone = (raw: string): string | null => {
+  let digits = (raw || '').replace(/[^\d+]/g, '').replace(/(?!^)\+/g, '');
+  if (digits.startsWith('+')) digits = digits.slice(1);
+  if (digits.startsWith('0')) digits = `62${digits.slice(1)}`;
+  else if (digits.startsWith('8')) digits = `62${digits}`;
+  if (!/^628\d{7,12}$/.test(digits)) return null;
+  return `+${digits}`;
+};
+
+export const fillTemplate = (template: string, violation: Violation, sender: string): string => {
+  const values: Record<string, string> = {
+    nama_siswa: violation.nama_lengkap,
+    kelas: violation.kelas,
+    jenis_pelanggaran: violation.jenis_pelanggaran,
+    tanggal: formatDate(violation.tanggal_pelanggaran),
+    poin: String(violation.poin_pelanggaran),
+    pengirim: sender,
+  };
+  // Unknown placeholders are left as typed so a typo is visible in the preview
+  return template.replace(/\{(\w+)\}/g, (match, key: string) => values[key] ?? match);
+};
+
+// Link that opens the message in WhatsApp or the phone's SMS app
+export const buildContactUrl = (channel: ContactChannel, phone: string, message: string): string => {
+  const text = encodeURIComponent(message);
+  if (channel === 'whatsapp') return `https://wa.me/${phone.replace('+', '')}?text=${text}`;
+  return `sms:${phone}?body=${text}`;
+};
+
+// Returns an error message, or null when the template can be saved
+export const validateTemplate = (templates: MessageTemplate[], template: MessageTemplate): string | null => {
+  if (!template.label.trim()) return 'Nama template wajib diisi.';
+  if (!template.isi.trim()) return 'Isi pesan wajib diisi.';
+  const unknown = Array.from(template.isi.matchAll(/\{(\w+)\}/g)).map(m => m[1]).find(key => !(key in TEMPLATE_PLACEHOLDERS));
+  if (unknown) return `Placeholder {${unknown}} tidak dikenal.`;
+  const wanted = template.label.trim().toLowerCase();
+  if (templates.some(t => t.id !== template.id && t.label.trim().toLowerCase() === wanted)) {
+    return `Template "${template.label.trim()}" sudah ada.`;
+  }
+  return null;
+};
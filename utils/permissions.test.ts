@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { can, getAllowedTabs, scopeRecordsByNis, scopeStudents, scopeViolations } from './permissions';
+import { makeStudent, makeViolation } from '../test/fixtures';
+import { Session, UserRole } from '../types';
+
+const sessionAs = (role: UserRole, nama = 'Siti Rahmawati, S.Pd.'): Session => ({
+  username: 'siti',
+  nama,
+  role,
+  token: 'token-uji',
+  issued_at: '2025-08-05T00:00:00.000Z',
+  expires_at: '2025-08-05T08:00:00.000Z',
+});
+
+const students = [
+  makeStudent({ nis: '1001', kelas: '7A', nama_wali_kelas: 'siti  rahmawati' }),
+  makeStudent({ nis: '2001', kelas: '8B', nama_wali_kelas: 'Agus Salim' }),
+];
+
+describe('scopeViolations', () => {
+  const violations = [
+    makeViolation({ nis: '1001', nama_wali_kelas: 'Siti Rahmawati' }),
+    // Older row without a wali kelas, matched through the student master data
+    makeViolation({ nis: '1001', nama_wali_kelas: '', kode_pelanggaran: 'CPS-AB12-0002' }),
+    makeViolation({ nis: '2001', nama_wali_kelas: 'Agus Salim', kode_pelanggaran: 'CPS-AB12-0003' }),
+  ];
+
+  it('gives a wali kelas only their own class', () => {
+    const visible = scopeViolations(sessionAs('wali_kelas'), violations, students);
+    expect(visible.map(v => v.kode_pelanggaran)).toEqual(['CPS-AB12-0001', 'CPS-AB12-0002']);
+    expect(visible[0].kontak_ortu).toBe('081234567890');
+  });
+
+  it('shows the whole school to the principal without parent contacts', () => {
+    const visible = scopeViolations(sessionAs('kepala_sekolah'), violations, students);
+    expect(visible).toHaveLength(3);
+    expect(visible.every(v => v.kontak_ortu === '')).toBe(true);
+  });
+
+  it('shows everything to BK', () => {
+    expect(scopeViolations(sessionAs('guru_bk'), violations, students)).toEqual(violations);
+  });
+});
+
+describe('scopeStudents', () => {
+  it('matches the homeroom teacher regardless of title, case and spacing', () => {
+    expect(scopeStudents(sessionAs('wali_kelas'), students).map(s => s.nis)).toEqual(['1001']);
+    expect(scopeStudents(sessionAs('wali_kelas', 'Budi'), students)).toEqual([]);
+  });
+});
+
+describe('role permissions', () => {
+  it('keeps the principal read-only', () => {
+    expect(can('kepala_sekolah', 'update_follow_up')).toBe(false);
+    expect(can('kepala_sekolah', 'create_violation')).toBe(false);
+    expect(getAllowedTabs('kepala_sekolah')).toEqual(['dashboard', 'siswa']);
+  });
+
+  it('limits reporting teachers to the input tabs', () => {
+    expect(getAllowedTabs('guru')).toEqual(['input', 'prestasi']);
+  });
+});
+
+describe('scopeRecordsByNis', () => {
+  it('keeps only rows of the visible students', () => {
+    const rows = [{ id: 'a', nis: '1001' }, { id: 'b', nis: '2001' }];
+    const visible = scopeStudents(sessionAs('wali_kelas'), students);
+    expect(scopeRecordsByNis(rows, visible).map(r => r.id)).toEqual(['a']);
+  });
+});
@@ -0,0 +1,98 @@
+import { Session, Student, UserRole, Violation } from '../types';
+
+export type Permission =
+  | 'view_dashboard'
+  | 'create_violation'
+  | 'create_achievement' // prestasi (reward points)
+  | 'view_follow_up'
+  | 'update_follow_up'
+  | 'view_students'
+  | 'view_all_classes' // without it a user only sees the class they are wali kelas of
+  | 'view_contact' // kontak_ortu
+  | 'contact_parents' // WhatsApp/SMS from a violation, logged on the case
+  | 'issue_letters' // surat panggilan, SP1–SP3, surat pernyataan
+  | 'view_attachments' // evidence photos and documents on violations
+  | 'edit_violations' // correct, void or reopen a recorded violation
+  | 'view_data_quality'
+  | 'repair_codes'
+  | 'manage_sanctions' // issue sanctions from the ladder
+  | 'manage_settings' // violation catalog and other admin lists
+  | 'view_audit'; // audit log of every change and login
+
+export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  admin: [
+    'view_dashboard', 'create_violation', 'create_achievement', 'view_follow_up', 'update_follow_up', 'view_students',
+    'view_all_classes', 'view_contact', 'contact_parents', 'issue_letters', 'view_attachments', 'edit_violations',
+    'view_data_quality', 'repair_codes', 'manage_sanctions', 'manage_settings', 'view_audit',
+  ],
+  guru_bk: [
+    'view_dashboard', 'create_violation', 'create_achievement', 'view_follow_up', 'update_follow_up', 'view_students',
+    'view_all_classes', 'view_contact', 'contact_parents', 'issue_letters', 'view_attachments', 'edit_violations',
+    'view_data_quality', 'manage_sanctions',
+  ],
+  wali_kelas: ['view_dashboard', 'create_violation', 'create_achievement', 'view_students', 'view_contact', 'contact_parents'],
+  // Reporting teachers only record violations and achievements
+  guru: ['create_violation', 'create_achievement'],
+  // Read-only overview of the whole school
+  kepala_sekolah: ['view_dashboard', 'view_students', 'view_all_classes'],
+};
+
+export const can = (role: UserRole, permission: Permission): boolean => {
+  return ROLE_PERMISSIONS[role].includes(permission);
+};
+
+export type TabId = 'dashboard' | 'input' | 'prestasi' | 'tindak-lanjut' | 'siswa' | 'kualitas-data' | 'audit' | 'pengaturan';
+
+const TAB_PERMISSIONS: Record<TabId, Permission> = {
+  'dashboard': 'view_dashboard',
+  'input': 'create_violation',
+  'prestasi': 'create_achievement',
+  'tindak-lanjut': 'view_follow_up',
+  'siswa': 'view_students',
+  'kualitas-data': 'view_data_quality',
+  'audit': 'view_audit',
+  'pengaturan': 'manage_settings',
+};
+
+// Tabs in menu order that the role may open
+export const getAllowedTabs = (role: UserRole): TabId[] => {
+  return (Object.keys(TAB_PERMISSIONS) as TabId[]).filter(tab => can(role, TAB_PERMISSIONS[tab]));
+};
+
+// "Siti Rahmawati, S.Pd." and "siti  rahmawati" are the same wali kelas
+const normalizeTeacherName = (name: string) => name.split(',')[0].toLowerCase().replace(/\s+/g, ' ').trim();
+
+const isHomeroomOf = (session: Session, waliKelas: string) => {
+  return !!waliKelas && normalizeTeacherName(waliKelas) === normalizeTeacherName(session.nama);
+};
+
+const redactContact = <T extends { kontak_ortu: string }>(role: UserRole, rows: T[]): T[] => {
+  return can(role, 'view_contact') ? rows : rows.map(row => ({ ...row, kontak_ortu: '' }));
+};
+
+// Students the user may look at: everyone, or their own class matched through nama_wali_kelas
+export const scopeStudents = (session: Session, students: Student[]): Student[] => {
+  const visible = can(session.role, 'view_all_classes')
+    ? students
+    : students.filter(s => isHomeroomOf(session, s.nama_wali_kelas));
+  return redactContact(session.role, visible);
+};
+
+// Rows of a record table that belong to the given (already scoped) students
+export const scopeRecordsByNis = <T extends { nis: string }>(records: T[], visibleStudents: Student[]): T[] => {
+  const visibleNis = new Set(visibleStudents.map(s => s.nis));
+  return records.filter(r => visibleNis.has(r.nis));
+};
+
+export const scopeViolations = (session: Session, violations: Violation[], students: Student[]): Violation[] => {
+  if (can(session.role, 'view_all_classes')) return redactContact(session.role, violations);
+  // Older rows may lack nama_wali_kelas, so also match through the student master data
+  const ownNis = new Set(students.filter(s => isHomeroomOf(session, s.nama_wali_kelas)).map(s => s.nis));
+  const visible = violations.filter(v => ownNis.has(v.nis) || isHomeroomOf(session, v.nama_wali_kelas));
+  return redactContact(session.role, visible);
+};
+
+// Student picker for reporting: every student can be reported, but contacts stay hidden when not allowed
+export const getReportableStudents = (session: Session, students: Student[]): Student[] => {
+  return redactContact(session.role, students);
+};
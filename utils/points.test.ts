@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { computeStudentPoints, computeTermPoints } from './points';
+import { getTermById } from './terms';
+import { makeAchievement, makeViolation } from '../test/fixtures';
+
+describe('computeStudentPoints', () => {
+  it('subtracts achievement points from violation points', () => {
+    const points = computeStudentPoints(
+      [makeViolation({ poin_pelanggaran: 5 }), makeViolation({ poin_pelanggaran: 20 })],
+      [makeAchievement({ poin: 10 })]
+    );
+    expect(points.get('1001')).toMatchObject({ total: 15, poin_pelanggaran: 25, poin_prestasi: 10, count: 2 });
+  });
+
+  it('never goes below zero', () => {
+    const points = computeStudentPoints([], [makeAchievement({ nis: '1002', poin: 50 })]);
+    expect(points.get('1002')?.total).toBe(0);
+  });
+});
+
+describe('computeTermPoints', () => {
+  const evenTerm = getTermById('2025-2')!;
+  const violations = [
+    makeViolation({ tanggal_pelanggaran: '2025-09-01', poin_pelanggaran: 40 }),
+    makeViolation({ tanggal_pelanggaran: '2026-02-01', poin_pelanggaran: 5 }),
+    // After the term: not counted yet
+    makeViolation({ tanggal_pelanggaran: '2026-08-01', poin_pelanggaran: 100 }),
+  ];
+
+  it('starts over every semester by default', () => {
+    const points = computeTermPoints(violations, [], { reset: 'semester', persen_bawaan: 0 }, evenTerm);
+    expect(points.get('1001')).toMatchObject({ total: 5, bawaan: 0, count: 1 });
+  });
+
+  it('carries over a share of the previous semester', () => {
+    const points = computeTermPoints(violations, [], { reset: 'semester', persen_bawaan: 50 }, evenTerm);
+    expect(points.get('1001')).toMatchObject({ total: 25, bawaan: 20, poin_pelanggaran: 5 });
+  });
+
+  it('applies the share once per reset', () => {
+    const points = computeTermPoints(violations.slice(0, 1), [], { reset: 'semester', persen_bawaan: 50 }, getTermById('2026-1')!);
+    expect(points.get('1001')).toMatchObject({ total: 10, bawaan: 10, count: 0 });
+  });
+
+  it('counts the whole school year when points reset yearly', () => {
+    const points = computeTermPoints(violations, [], { reset: 'tahun_ajaran', persen_bawaan: 0 }, evenTerm);
+    expect(points.get('1001')).toMatchObject({ total: 45, count: 2 });
+  });
+});
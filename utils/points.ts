@@ -0,0 +1,104 @@
+import { AchievementRecord, PointPolicy, Term, Violation } from '../types';
+import { parseDate } from './date';
+import { getPointPeriodIndex, getTermOfDate } from './terms';
+
+export interface StudentPoints {
+  total: number; // Net score: poin_pelanggaran - poin_prestasi + bawaan, never below 0
+  bawaan: number; // Carried over from earlier points periods
+  poin_pelanggaran: number;
+  poin_prestasi: number;
+  count: number;
+  violations: Violation[]; // Violations of the running points period
+  achievements: AchievementRecord[]; // Achievements of the running points period
+}
+
+const emptyPoints = (): StudentPoints => ({
+  total: 0, bawaan: 0, poin_pelanggaran: 0, poin_prestasi: 0, count: 0, violations: [], achievements: [],
+});
+
+const netScore = (entry: StudentPoints) => Math.max(0, entry.poin_pelanggaran - entry.poin_prestasi + entry.bawaan);
+
+// Points per NIS from the given violations and achievements
+export const computeStudentPoints = (violations: Violation[], achievements: AchievementRecord[] = []): Map<string, StudentPoints> => {
+  const points = new Map<string, StudentPoints>();
+  const entryOf = (nis: string) => {
+    const entry = points.get(nis) || emptyPoints();
+    points.set(nis, entry);
+    return entry;
+  };
+  violations.forEach(v => {
+    const entry = entryOf(v.nis);
+    entry.poin_pelanggaran += v.poin_pelanggaran;
+    entry.count += 1;
+    entry.violations.push(v);
+  });
+  achievements.forEach(a => {
+    const entry = entryOf(a.nis);
+    entry.poin_prestasi += a.poin;
+    entry.achievements.push(a);
+  });
+  points.forEach(entry => {
+    entry.total = netScore(entry);
+  });
+  return points;
+};
+
+const carryOver = (points: number, resets: number, percent: number) => {
+  if (percent >= 100) return points;
+  let value = points;
+  for (let i = 0; i < resets && value > 0; i++) value = Math.floor(value * percent / 100);
+  return value;
+};
+
+// Points per NIS at the end of a term under the reset policy. Entries of the term's points
+// period count in full; earlier periods only through the carried-over share, applied once per reset.
+export const computeTermPoints = (
+  violations: Violation[],
+  achievements: AchievementRecord[],
+  policy: PointPolicy,
+  term: Term
+): Map<string, StudentPoints> => {
+  const target = getPointPeriodIndex(policy, term);
+  // Net points per student per earlier period
+  const earlier = new Map<string, Map<number, number>>();
+  const currentViolations: Violation[] = [];
+  const currentAchievements: AchievementRecord[] = [];
+
+  const place = <T,>(nis: string, dateText: string, points: number, item: T, current: T[]) => {
+    const date = parseDate(dateText);
+    if (!date || date > term.selesai) return;
+    const period = getPointPeriodIndex(policy, getTermOfDate(date));
+    if (period === target) {
+      current.push(item);
+    } else if (period < target) {
+      const periods = earlier.get(nis) || new Map<number, number>();
+      periods.set(period, (periods.get(period) || 0) + points);
+      earlier.set(nis, periods);
+    }
+  };
+  violations.forEach(v => place(v.nis, v.tanggal_pelanggaran, v.poin_pelanggaran, v, currentViolations));
+  achievements.forEach(a => place(a.nis, a.tanggal, -a.poin, a, currentAchievements));
+
+  const points = computeStudentPoints(currentViolations, currentAchievements);
+  if (policy.persen_bawaan <= 0) return points;
+
+  earlier.forEach((periods, nis) => {
+    let carried = 0;
+    let last: number | null = null;
+    Array.from(periods.keys()).sort((a, b) => a - b).forEach(period => {
+      if (last !== null) carried = carryOver(carried, period - last, policy.persen_bawaan);
+      carried = Math.max(0, carried + (periods.get(period) || 0));
+      last = period;
+    });
+    if (last === null) return;
+    const bawaan = carryOver(carried, target - last, policy.persen_bawaan);
+    if (bawaan === 0) return;
+    const entry = points.get(nis) || emptyPoints();
+    entry.bawaan = bawaan;
+    entry.total = netScore(entry);
+    points.set(nis, entry);
+  });
+  return points;
+};
+
+export const EMPTY_POINTS: StudentPoints = emptyPoints();
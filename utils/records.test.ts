@@ -0,0 +1,60 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { createRecordId, deserializeRecord, recordsEqual, serializeRecord } from './records';
+import { createMemoryStorage } from '../test/fixtures';
+import { AttachmentRecord, AuditEntry } from '../types';
+
+beforeEach(() => {
+  vi.stubGlobal('localStorage', createMemoryStorage());
+});
+
+describe('createRecordId', () => {
+  it('never repeats, even within one millisecond', () => {
+    vi.spyOn(Date, 'now').mockReturnValue(Date.parse('2025-08-05T08:00:00.000Z'));
+    const ids = Array.from({ length: 1000 }, () => createRecordId('LMP'));
+    expect(new Set(ids).size).toBe(ids.length);
+    expect(ids[0]).toMatch(/^LMP-[A-Z0-9]+-[a-z0-9]+-[a-z0-9]+$/);
+    vi.restoreAllMocks();
+  });
+});
+
+describe('record serialization', () => {
+  const attachment: AttachmentRecord = {
+    id: 'LMP-AB12-x-1',
+    kode_pelanggaran: 'CPS-AB12-0001',
+    nis: '1001',
+    nama_file: 'foto.jpg',
+    tipe: 'image/jpeg',
+    ukuran: 2048,
+    thumbnail: '',
+    diunggah_oleh: 'Agus',
+    diunggah_pada: '2025-08-05T08:00:00.000Z',
+  };
+
+  it('round-trips numbers and drops empty cells', () => {
+    const row = serializeRecord('lampiran', attachment);
+    expect(row.ukuran).toBe('2048');
+    expect(row.thumbnail).toBe('');
+    const back = deserializeRecord('lampiran', row);
+    expect(back).toMatchObject({ id: attachment.id, ukuran: 2048 });
+    expect(back).not.toHaveProperty('thumbnail');
+    expect(recordsEqual('lampiran', back as AttachmentRecord, attachment)).toBe(true);
+  });
+
+  it('confirms an audit row the script numbered and signed', () => {
+    const entry: AuditEntry = {
+      id: 'AUD-AB12-1-x',
+      waktu: '2025-08-05T08:00:00.000Z',
+      pengguna: 'agus',
+      nama: 'Agus',
+      peran: 'guru',
+      perangkat: 'AB12',
+      urutan: 1,
+      aksi: 'login',
+      objek: 'pengguna:agus',
+      hash_sebelumnya: '',
+      hash: 'f00d',
+    };
+    expect(recordsEqual('audit', { ...entry, nomor: 12, tanda: 'c0ffee' }, entry)).toBe(true);
+    expect(recordsEqual('audit', { ...entry, objek: 'pengguna:rina', nomor: 12 }, entry)).toBe(false);
+  });
+});
@@ -0,0 +1,214 @@
+import { RecordStore, RecordTable, RecordTables } from '../types';
+import { getDeviceId } from './violationCode';
+
+// Column layout of every record table. Sheet headers are the field names, so the
+// Apps Script can upsert any table the same way (find the row by id, write each column).
+
+export type FieldType = 'string' | 'number' | 'json';
+
+export type RecordSchema<T> = { [K in Exclude<keyof T, 'sync_status'>]-?: FieldType };
+
+export const RECORD_SCHEMAS: { [K in RecordTable]: RecordSchema<RecordTables[K]> } = {
+  sanksi: {
+    id: 'string',
+    nis: 'string',
+    nama_lengkap: 'string',
+    kelas: 'string',
+    level_id: 'string',
+    level_label: 'string',
+    tindakan: 'string',
+    poin_minimal: 'number',
+    poin_saat_tercapai: 'number',
+    periode: 'string',
+    status: 'string',
+    dibuat_pada: 'string',
+    diberikan_pada: 'string',
+    diberikan_oleh: 'string',
+    catatan: 'string',
+  },
+  prestasi: {
+    id: 'string',
+    nis: 'string',
+    nama_lengkap: 'string',
+    kelas: 'string',
+    nama_wali_kelas: 'string',
+    jenis_prestasi: 'string',
+    kategori_prestasi: 'string',
+    poin: 'number',
+    tanggal: 'string',
+    deskripsi: 'string',
+    dicatat_oleh: 'string',
+    dibuat_pada: 'string',
+  },
+  kasus: {
+    id: 'string',
+    kode_pelanggaran: 'string',
+    nis: 'string',
+    tahap: 'string',
+    penanggung_jawab: 'string',
+    tenggat: 'string',
+    catatan: 'string',
+    diperbarui_pada: 'string',
+    diperbarui_oleh: 'string',
+  },
+  tindak_lanjut: {
+    id: 'string',
+    kode_pelanggaran: 'string',
+    nis: 'string',
+    tanggal: 'string',
+    konselor: 'string',
+    jenis_tindakan: 'string',
+    catatan: 'string',
+    hasil: 'string',
+    dibuat_pada: 'string',
+  },
+  kontak: {
+    id: 'string',
+    kode_pelanggaran: 'string',
+    nis: 'string',
+    kanal: 'string',
+    nomor: 'string',
+    template_id: 'string',
+    hasil: 'string',
+    catatan: 'string',
+    dihubungi_oleh: 'string',
+    dihubungi_pada: 'string',
+  },
+  surat: {
+    id: 'string',
+    jenis: 'string',
+    nomor_surat: 'string',
+    perangkat: 'string',
+    urutan: 'number',
+    tahun: 'number',
+    nis: 'string',
+    nama_lengkap: 'string',
+    kelas: 'string',
+    kode_pelanggaran: 'json',
+    total_poin: 'number',
+    tanggal: 'string',
+    pertemuan: 'string',
+    dibuat_oleh: 'string',
+    dibuat_pada: 'string',
+  },
+  lampiran: {
+    id: 'string',
+    kode_pelanggaran: 'string',
+    nis: 'string',
+    nama_file: 'string',
+    tipe: 'string',
+    ukuran: 'number',
+    thumbnail: 'string',
+    diunggah_oleh: 'string',
+    diunggah_pada: 'string',
+  },
+  koreksi: {
+    id: 'string',
+    kode_pelanggaran: 'string',
+    nis: 'string',
+    aksi: 'string',
+    alasan: 'string',
+    perubahan: 'json',
+    oleh: 'string',
+    pada: 'string',
+  },
+  audit: {
+    id: 'string',
+    waktu: 'string',
+    pengguna: 'string',
+    nama: 'string',
+    peran: 'string',
+    perangkat: 'string',
+    urutan: 'number',
+    aksi: 'string',
+    objek: 'string',
+    sebelum: 'json',
+    sesudah: 'json',
+    hash_sebelumnya: 'string',
+    hash: 'string',
+    nomor: 'number',
+    tanda: 'string',
+  },
+};
+
+// Columns the Apps Script fills in on insert; a queued row never has them
+const SERVER_COLUMNS: Partial<Record<RecordTable, string[]>> = {
+  audit: ['nomor', 'tanda'],
+};
+
+// Sheet (tab) name of each table, also used in messages
+export const RECORD_SHEET_NAMES: Record<RecordTable, string> = {
+  sanksi: 'Sanksi',
+  prestasi: 'Prestasi',
+  kasus: 'Kasus',
+  tindak_lanjut: 'TindakLanjut',
+  kontak: 'KontakOrtu',
+  surat: 'Surat',
+  lampiran: 'Lampiran',
+  koreksi: 'Koreksi',
+  audit: 'Audit',
+};
+
+export const RECORD_TABLES = Object.keys(RECORD_SCHEMAS) as RecordTable[];
+
+// Ids created since the page loaded; keeps records made within the same millisecond apart
+let recordSequence = 0;
+
+// Id for a record created on this device, e.g. "PRS-K7QM-m1x2c3d4-1". Unique without a server round trip.
+export const createRecordId = (prefix: string) => {
+  recordSequence += 1;
+  return `${prefix}-${getDeviceId()}-${Date.now().toString(36)}-${recordSequence.toString(36)}`;
+};
+
+export const emptyRecordStore = (): RecordStore => {
+  return RECORD_TABLES.reduce((store, table) => ({ ...store, [table]: [] }), {} as RecordStore);
+};
+
+// One sheet row: every schema column as text, empty for absent optional fields
+export const serializeRecord = <K extends RecordTable>(table: K, record: RecordTables[K]): Record<string, string> => {
+  const schema = RECORD_SCHEMAS[table] as Record<string, FieldType>;
+  const values = record as unknown as Record<string, unknown>;
+  const row: Record<string, string> = {};
+  Object.keys(schema).forEach(field => {
+    const value = values[field];
+    if (value === undefined || value === null) {
+      row[field] = '';
+    } else {
+      row[field] = schema[field] === 'json' ? JSON.stringify(value) : String(value);
+    }
+  });
+  return row;
+};
+
+// Inverse of serializeRecord. Returns null when the cell of a json field cannot be read.
+export const deserializeRecord = <K extends RecordTable>(table: K, row: Record<string, string>): RecordTables[K] | null => {
+  const schema = RECORD_SCHEMAS[table] as Record<string, FieldType>;
+  const record: Record<string, unknown> = {};
+  for (const field of Object.keys(schema)) {
+    const text = row[field] ?? '';
+    if (text === '') continue;
+    if (schema[field] === 'number') {
+      const n = Number(text);
+      record[field] = isNaN(n) ? 0 : n;
+    } else if (schema[field] === 'json') {
+      try {
+        record[field] = JSON.parse(text);
+      } catch (e) {
+        return null;
+      }
+    } else {
+      record[field] = text;
+    }
+  }
+  return record as unknown as RecordTables[K];
+};
+
+// Same content as far as the sheet can tell (used to confirm a write)
+export const recordsEqual = <K extends RecordTable>(table: K, a: RecordTables[K], b: RecordTables[K]): boolean => {
+  const written = (record: RecordTables[K]) => {
+    const row = serializeRecord(table, record);
+    (SERVER_COLUMNS[table] || []).forEach(column => delete row[column]);
+    return JSON.stringify(row);
+  };
+  return written(a) === written(b);
+};
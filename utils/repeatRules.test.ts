@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { applyRepeatRules, validateRepeatRule } from './repeatRules';
+import { makeViolation } from '../test/fixtures';
+import { RepeatRule, ViolationTypeOption } from '../types';
+
+const TERLAMBAT: ViolationTypeOption = { label: 'Terlambat masuk kelas', kategori: 'Ringan', poin: 5 };
+
+const rule = (overrides: Partial<RepeatRule> = {}): RepeatRule => ({
+  id: 'r1',
+  jenis_pelanggaran: '',
+  kejadian_ke: 3,
+  lingkup: 'semester',
+  pengali_poin: 2,
+  naikkan_kategori: false,
+  aktif: true,
+  ...overrides,
+});
+
+// Two earlier lateness incidents this semester and one from the semester before
+const history = [
+  makeViolation({ tanggal_pelanggaran: '2025-08-04' }),
+  makeViolation({ tanggal_pelanggaran: '2025-09-01', jenis_pelanggaran: 'terlambat masuk kelas ' }),
+  makeViolation({ tanggal_pelanggaran: '2025-03-03' }),
+  makeViolation({ tanggal_pelanggaran: '2025-08-20', nis: '1002' }),
+];
+
+describe('applyRepeatRules', () => {
+  it('keeps the catalog points below the threshold', () => {
+    const result = applyRepeatRules([rule()], TERLAMBAT, history, '1001', '2025-08-10');
+    expect(result).toMatchObject({ poin: 5, kategori: 'Ringan', occurrence: 2, rule: null });
+  });
+
+  it('raises the points from the given occurrence on', () => {
+    const result = applyRepeatRules([rule()], TERLAMBAT, history, '1001', '2025-10-01');
+    expect(result).toMatchObject({ poin: 10, kategori: 'Ringan', occurrence: 3 });
+    expect(result.keterangan).toBe('Kejadian ke-3 dalam satu semester: poin x2');
+  });
+
+  it('counts over the school year when the rule says so', () => {
+    const result = applyRepeatRules([rule({ lingkup: 'tahun_ajaran', kejadian_ke: 3 })], TERLAMBAT, history, '1001', '2025-08-10');
+    expect(result.rule).toBeNull();
+    const spring = applyRepeatRules([rule({ lingkup: 'tahun_ajaran', kejadian_ke: 2 })], TERLAMBAT, history, '1001', '2025-04-01');
+    expect(spring.occurrence).toBe(2);
+  });
+
+  it('takes the rule giving the most points, without stacking', () => {
+    const rules = [rule({ id: 'umum', pengali_poin: 2 }), rule({ id: 'khusus', jenis_pelanggaran: 'Terlambat masuk kelas', pengali_poin: 3, naikkan_kategori: true })];
+    const result = applyRepeatRules(rules, TERLAMBAT, history, '1001', '2025-10-01');
+    expect(result).toMatchObject({ poin: 15, kategori: 'Sedang' });
+    expect(result.rule?.id).toBe('khusus');
+  });
+
+  it('ignores inactive rules and rules for other types', () => {
+    const rules = [rule({ aktif: false }), rule({ jenis_pelanggaran: 'Merokok' })];
+    expect(applyRepeatRules(rules, TERLAMBAT, history, '1001', '2025-10-01').rule).toBeNull();
+  });
+});
+
+describe('validateRepeatRule', () => {
+  it('rejects rules that change nothing or start too early', () => {
+    expect(validateRepeatRule(rule())).toBeNull();
+    expect(validateRepeatRule(rule({ kejadian_ke: 1 }))).not.toBeNull();
+    expect(validateRepeatRule(rule({ pengali_poin: 1 }))).toBe('Aturan harus menaikkan poin atau kategori.');
+  });
+});
@@ -0,0 +1,101 @@
+import { RepeatRule, Violation, ViolationCategory, ViolationTypeOption } from '../types';
+import { parseDate } from './date';
+import { getTermOfDate } from './terms';
+
+const CATEGORY_ORDER: ViolationCategory[] = ['Ringan', 'Sedang', 'Berat'];
+
+export const REPEAT_SCOPE_LABELS: Record<RepeatRule['lingkup'], string> = {
+  semester: 'satu semester',
+  tahun_ajaran: 'satu tahun ajaran',
+};
+
+export interface RepeatAdjustment {
+  poin: number;
+  kategori: ViolationCategory;
+  occurrence: number; // Occurrence of this type within the rule's window, the new one included
+  rule: RepeatRule | null;
+  keterangan?: string; // Stored as aturan_berulang on the violation
+}
+
+const sameType = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+const upgrade = (kategori: ViolationCategory) => {
+  return CATEGORY_ORDER[Math.min(CATEGORY_ORDER.indexOf(kategori) + 1, CATEGORY_ORDER.length - 1)];
+};
+
+const windowKey = (date: string, lingkup: RepeatRule['lingkup']) => {
+  const term = getTermOfDate(date);
+  return lingkup === 'semester' ? term.id : term.tahun_ajaran;
+};
+
+const describeEffects = (rule: RepeatRule) => {
+  const effects = [
+    rule.pengali_poin !== 1 && `poin x${rule.pengali_poin}`,
+    rule.naikkan_kategori && 'kategori naik satu tingkat',
+  ].filter(Boolean).join(', ');
+  return effects || 'tanpa perubahan';
+};
+
+export const describeRepeatRule = (rule: RepeatRule): string => {
+  const jenis = rule.jenis_pelanggaran || 'Jenis yang sama';
+  return `${jenis} ke-${rule.kejadian_ke} dst. dalam ${REPEAT_SCOPE_LABELS[rule.lingkup]}: ${describeEffects(rule)}`;
+};
+
+// How many times the student already committed this type in the window of the given date,
+// counting only incidents up to that date
+export const countPriorOccurrences = (
+  history: Violation[],
+  nis: string,
+  jenis: string,
+  date: string,
+  lingkup: RepeatRule['lingkup']
+): number => {
+  const key = windowKey(date, lingkup);
+  return history.filter(v => {
+    if (v.nis !== nis || !sameType(v.jenis_pelanggaran, jenis)) return false;
+    const vDate = parseDate(v.tanggal_pelanggaran);
+    return !!vDate && vDate <= date && windowKey(vDate, lingkup) === key;
+  }).length;
+};
+
+// Points and kategori for a new violation. When several rules apply the one giving the most
+// points wins (a rule for this specific type on a tie); rules never stack.
+export const applyRepeatRules = (
+  rules: RepeatRule[],
+  type: ViolationTypeOption,
+  history: Violation[],
+  nis: string,
+  date: string
+): RepeatAdjustment => {
+  const base: RepeatAdjustment = {
+    poin: type.poin,
+    kategori: type.kategori,
+    occurrence: countPriorOccurrences(history, nis, type.label, date, 'semester') + 1,
+    rule: null,
+  };
+
+  return rules
+    .filter(rule => rule.aktif && (!rule.jenis_pelanggaran || sameType(rule.jenis_pelanggaran, type.label)))
+    .reduce<RepeatAdjustment>((best, rule) => {
+      const occurrence = countPriorOccurrences(history, nis, type.label, date, rule.lingkup) + 1;
+      if (occurrence < rule.kejadian_ke) return best;
+      const candidate: RepeatAdjustment = {
+        poin: Math.round(type.poin * rule.pengali_poin),
+        kategori: rule.naikkan_kategori ? upgrade(type.kategori) : type.kategori,
+        occurrence,
+        rule,
+        keterangan: `Kejadian ke-${occurrence} dalam ${REPEAT_SCOPE_LABELS[rule.lingkup]}: ${describeEffects(rule)}`,
+      };
+      const better = !best.rule || candidate.poin > best.poin ||
+        (candidate.poin === best.poin && !!rule.jenis_pelanggaran && !best.rule.jenis_pelanggaran);
+      return better ? candidate : best;
+    }, base);
+};
+
+// Returns an error message, or null when the rule can be saved
+export const validateRepeatRule = (rule: RepeatRule): string | null => {
+  if (!Number.isInteger(rule.kejadian_ke) || rule.kejadian_ke < 2) return 'Aturan berlaku mulai kejadian ke-2 atau lebih.';
+  if (!(rule.pengali_poin >= 1)) return 'Pengali poin minimal 1.';
+  if (rule.pengali_poin === 1 && !rule.naikkan_kategori) return 'Aturan harus menaikkan poin atau kategori.';
+  return null;
+};
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SANCTION_LADDER, getSanctionLevel, planEscalations, validateLadder } from './sanctions';
+import { computeStudentPoints } from './points';
+import { DEFAULT_POINT_POLICY, getTermById } from './terms';
+import { makeStudent, makeViolation } from '../test/fixtures';
+import { SanctionRecord } from '../types';
+
+describe('getSanctionLevel', () => {
+  it('returns the highest level reached', () => {
+    expect(getSanctionLevel(DEFAULT_SANCTION_LADDER, 24)).toBeNull();
+    expect(getSanctionLevel(DEFAULT_SANCTION_LADDER, 25)?.id).toBe('teguran');
+    expect(getSanctionLevel(DEFAULT_SANCTION_LADDER, 80)?.id).toBe('sp2');
+  });
+});
+
+describe('validateLadder', () => {
+  it('accepts the default ladder', () => {
+    expect(validateLadder(DEFAULT_SANCTION_LADDER)).toBeNull();
+  });
+
+  it('rejects empty ladders, missing thresholds and duplicates', () => {
+    expect(validateLadder([])).not.toBeNull();
+    expect(validateLadder([{ ...DEFAULT_SANCTION_LADDER[0], poin_minimal: 0 }])).toContain('Teguran');
+    expect(validateLadder([DEFAULT_SANCTION_LADDER[0], { ...DEFAULT_SANCTION_LADDER[1], poin_minimal: 25 }])).not.toBeNull();
+  });
+});
+
+describe('planEscalations', () => {
+  const term = getTermById('2025-1')!;
+  const now = new Date('2025-08-05T01:00:00.000Z');
+  const students = [makeStudent(), makeStudent({ nis: '1002', nama_lengkap: 'Ani' })];
+  const pointsByNis = computeStudentPoints([makeViolation({ poin_pelanggaran: 80 }), makeViolation({ nis: '1002', poin_pelanggaran: 10 })]);
+
+  const recordFor = (levelIndex: number, periode: string): SanctionRecord => {
+    const level = DEFAULT_SANCTION_LADDER[levelIndex];
+    return {
+      id: `${periode}:1001:${level.id}`,
+      nis: '1001',
+      nama_lengkap: 'Budi Santoso',
+      kelas: '7A',
+      level_id: level.id,
+      level_label: level.label,
+      tindakan: level.tindakan,
+      poin_minimal: level.poin_minimal,
+      poin_saat_tercapai: level.poin_minimal,
+      periode,
+      status: 'menunggu',
+      dibuat_pada: now.toISOString(),
+    };
+  };
+
+  it('creates one task at the highest level reached, skipping the levels jumped over', () => {
+    const planned = planEscalations(DEFAULT_SANCTION_LADDER, students, pointsByNis, [], DEFAULT_POINT_POLICY, term, now);
+    expect(planned).toHaveLength(1);
+    expect(planned[0]).toMatchObject({ id: '2025-1:1001:sp2', level_id: 'sp2', poin_saat_tercapai: 80, periode: '2025-1', status: 'menunggu' });
+  });
+
+  it('creates nothing once that level is recorded in the points period', () => {
+    const planned = planEscalations(DEFAULT_SANCTION_LADDER, students, pointsByNis, [recordFor(2, '2025-1')], DEFAULT_POINT_POLICY, term, now);
+    expect(planned).toEqual([]);
+  });
+
+  it('escalates past a lower recorded level', () => {
+    const planned = planEscalations(DEFAULT_SANCTION_LADDER, students, pointsByNis, [recordFor(0, '2025-1')], DEFAULT_POINT_POLICY, term, now);
+    expect(planned.map(r => r.level_id)).toEqual(['sp2']);
+  });
+
+  it('ignores levels recorded in an earlier points period', () => {
+    const planned = planEscalations(DEFAULT_SANCTION_LADDER, students, pointsByNis, [recordFor(2, '2024-2')], DEFAULT_POINT_POLICY, term, now);
+    expect(planned.map(r => r.id)).toEqual(['2025-1:1001:sp2']);
+  });
+});
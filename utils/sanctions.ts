@@ -0,0 +1,91 @@
+import { PointPolicy, SanctionLevel, SanctionRecord, Student, Term } from '../types';
+import { toJakartaParts } from './date';
+import { StudentPoints } from './points';
+import { getPointPeriodIndex, getTermById, getTermOfDate } from './terms';
+
+export const DEFAULT_SANCTION_LADDER: SanctionLevel[] = [
+  { id: 'teguran', poin_minimal: 25, label: 'Teguran', tindakan: 'Teguran tertulis oleh wali kelas' },
+  { id: 'sp1', poin_minimal: 50, label: 'SP1', tindakan: 'Surat peringatan 1 dan panggilan orang tua' },
+  { id: 'sp2', poin_minimal: 75, label: 'SP2', tindakan: 'Surat peringatan 2' },
+  { id: 'sp3', poin_minimal: 100, label: 'SP3', tindakan: 'Surat peringatan 3 dan kunjungan rumah' },
+];
+
+export const sortLadder = (ladder: SanctionLevel[]) => [...ladder].sort((a, b) => a.poin_minimal - b.poin_minimal);
+
+// Highest level whose threshold the points have reached, or null below the first step
+export const getSanctionLevel = (ladder: SanctionLevel[], points: number): SanctionLevel | null => {
+  let reached: SanctionLevel | null = null;
+  sortLadder(ladder).forEach(level => {
+    if (points >= level.poin_minimal) reached = level;
+  });
+  return reached;
+};
+
+// Returns an error message, or null when the ladder can be saved
+export const validateLadder = (ladder: SanctionLevel[]): string | null => {
+  if (ladder.length === 0) return 'Tangga sanksi minimal berisi satu tingkat.';
+  for (const level of ladder) {
+    if (!level.label.trim()) return 'Nama tingkat sanksi wajib diisi.';
+    if (!Number.isInteger(level.poin_minimal) || level.poin_minimal <= 0) {
+      return `Batas poin "${level.label}" harus bilangan bulat lebih dari 0.`;
+    }
+  }
+  const thresholds = ladder.map(l => l.poin_minimal);
+  if (new Set(thresholds).size !== thresholds.length) return 'Setiap tingkat harus memiliki batas poin yang berbeda.';
+  return null;
+};
+
+// Position of a level in the ladder (0 = first step), -1 for no level
+export const getLevelRank = (ladder: SanctionLevel[], levelId?: string | null) => {
+  return sortLadder(ladder).findIndex(l => l.id === levelId);
+};
+
+// The same id on every device, so two devices escalating the same student upsert one row
+export const sanctionRecordId = (termId: string, nis: string, levelId: string) => `${termId}:${nis}:${levelId}`;
+
+// Term a sanction was reached in
+export const getSanctionTerm = (record: SanctionRecord): Term => {
+  return (record.periode && getTermById(record.periode)) || getTermOfDate(toJakartaParts(new Date(record.dibuat_pada)).date);
+};
+
+// Sanction tasks to create: one per student whose current level has no record yet in the
+// term's points period. Levels skipped in one jump (e.g. 20 -> 80 points) are not created
+// separately; the highest one reached is what the school acts on.
+export const planEscalations = (
+  ladder: SanctionLevel[],
+  students: Student[],
+  pointsByNis: Map<string, StudentPoints>,
+  records: SanctionRecord[],
+  policy: PointPolicy,
+  term: Term,
+  now = new Date()
+): SanctionRecord[] => {
+  const period = getPointPeriodIndex(policy, term);
+  const highestRecorded = new Map<string, number>();
+  records.filter(r => getPointPeriodIndex(policy, getSanctionTerm(r)) === period).forEach(r => {
+    highestRecorded.set(r.nis, Math.max(highestRecorded.get(r.nis) ?? -1, r.poin_minimal));
+  });
+
+  return students.reduce<SanctionRecord[]>((acc, student) => {
+    const points = pointsByNis.get(student.nis)?.total || 0;
+    const level = getSanctionLevel(ladder, points);
+    if (!level) return acc;
+    if ((highestRecorded.get(student.nis) ?? -1) >= level.poin_minimal) return acc;
+
+    acc.push({
+      id: sanctionRecordId(term.id, student.nis, level.id),
+      nis: student.nis,
+      nama_lengkap: student.nama_lengkap,
+      kelas: student.kelas,
+      level_id: level.id,
+      level_label: level.label,
+      tindakan: level.tindakan,
+      poin_minimal: level.poin_minimal,
+      poin_saat_tercapai: points,
+      periode: term.id,
+      status: 'menunggu',
+      dibuat_pada: now.toISOString(),
+    });
+    return acc;
+  }, []);
+};
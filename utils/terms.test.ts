@@ -0,0 +1,74 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { formatTerm, getPointPeriodIndex, getTermById, getTermOfDate, listTerms } from './terms';
+import { makeViolation } from '../test/fixtures';
+
+describe('getTermOfDate', () => {
+  it('puts July to December in the odd semester', () => {
+    expect(getTermOfDate('2025-08-04')).toEqual({
+      id: '2025-1',
+      tahun_mulai: 2025,
+      tahun_ajaran: '2025/2026',
+      semester: 1,
+      mulai: '2025-07-01',
+      selesai: '2025-12-31',
+    });
+  });
+
+  it('puts January to June in the even semester of the school year that started before', () => {
+    const term = getTermOfDate('2026-03-10');
+    expect(term.id).toBe('2025-2');
+    expect(term.mulai).toBe('2026-01-01');
+    expect(formatTerm(term)).toBe('Genap 2025/2026');
+  });
+});
+
+describe('getTermById', () => {
+  it('reads the id back into the same term', () => {
+    expect(getTermById('2025-2')).toEqual(getTermOfDate('2026-01-01'));
+  });
+
+  it('rejects ids that are not a term', () => {
+    expect(getTermById('2025-3')).toBeNull();
+    expect(getTermById('')).toBeNull();
+  });
+});
+
+describe('getPointPeriodIndex', () => {
+  const odd = getTermById('2025-1')!;
+  const even = getTermById('2025-2')!;
+  const nextOdd = getTermById('2026-1')!;
+
+  it('counts one period per semester', () => {
+    const policy = { reset: 'semester' as const, persen_bawaan: 0 };
+    expect(getPointPeriodIndex(policy, even) - getPointPeriodIndex(policy, odd)).toBe(1);
+    expect(getPointPeriodIndex(policy, nextOdd) - getPointPeriodIndex(policy, odd)).toBe(2);
+  });
+
+  it('counts one period per school year', () => {
+    const policy = { reset: 'tahun_ajaran' as const, persen_bawaan: 0 };
+    expect(getPointPeriodIndex(policy, even)).toBe(getPointPeriodIndex(policy, odd));
+    expect(getPointPeriodIndex(policy, nextOdd) - getPointPeriodIndex(policy, odd)).toBe(1);
+  });
+
+  it('keeps a single period when points never reset', () => {
+    const policy = { reset: 'tidak_direset' as const, persen_bawaan: 0 };
+    expect(getPointPeriodIndex(policy, odd)).toBe(getPointPeriodIndex(policy, nextOdd));
+  });
+});
+
+describe('listTerms', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('lists the running term and every term with violations, newest first', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-08-05T01:00:00.000Z'));
+    const violations = [
+      makeViolation({ tanggal_pelanggaran: '2025-03-10' }),
+      makeViolation({ tanggal_pelanggaran: '2024-09-02' }),
+      makeViolation({ tanggal_pelanggaran: 'kemarin' }),
+    ];
+    expect(listTerms(violations).map(t => t.id)).toEqual(['2025-1', '2024-2', '2024-1']);
+  });
+});
@@ -0,0 +1,63 @@
+import { PointPolicy, PointResetRule, Term, Violation } from '../types';
+import { nowInJakarta, parseDate } from './date';
+
+// School policy: points start over every semester
+export const DEFAULT_POINT_POLICY: PointPolicy = { reset: 'semester', persen_bawaan: 0 };
+
+export const POINT_RESET_LABELS: Record<PointResetRule, string> = {
+  semester: 'Setiap semester',
+  tahun_ajaran: 'Setiap tahun ajaran',
+  tidak_direset: 'Tidak pernah direset',
+};
+
+const makeTerm = (tahunMulai: number, semester: 1 | 2): Term => ({
+  id: `${tahunMulai}-${semester}`,
+  tahun_mulai: tahunMulai,
+  tahun_ajaran: `${tahunMulai}/${tahunMulai + 1}`,
+  semester,
+  mulai: semester === 1 ? `${tahunMulai}-07-01` : `${tahunMulai + 1}-01-01`,
+  selesai: semester === 1 ? `${tahunMulai}-12-31` : `${tahunMulai + 1}-06-30`,
+});
+
+// Term of a "YYYY-MM-DD" date
+export const getTermOfDate = (date: string): Term => {
+  const [year, month] = date.split('-').map(Number);
+  return month >= 7 ? makeTerm(year, 1) : makeTerm(year - 1, 2);
+};
+
+export const getTermById = (id: string): Term | null => {
+  const match = (id || '').match(/^(\d{4})-([12])$/);
+  return match ? makeTerm(+match[1], +match[2] as 1 | 2) : null;
+};
+
+export const getCurrentTerm = (): Term => getTermOfDate(nowInJakarta().date);
+
+// Null when the incident date cannot be read (those rows are listed under Kualitas Data)
+export const getViolationTerm = (v: Violation): Term | null => {
+  const date = parseDate(v.tanggal_pelanggaran);
+  return date ? getTermOfDate(date) : null;
+};
+
+export const formatTerm = (term: Term) => `${term.semester === 1 ? 'Ganjil' : 'Genap'} ${term.tahun_ajaran}`;
+
+export const filterByTerm = (violations: Violation[], term: Term): Violation[] => {
+  return violations.filter(v => getViolationTerm(v)?.id === term.id);
+};
+
+// Terms that hold violations plus the running one, newest first
+export const listTerms = (violations: Violation[]): Term[] => {
+  const ids = new Set<string>([getCurrentTerm().id]);
+  violations.forEach(v => {
+    const term = getViolationTerm(v);
+    if (term) ids.add(term.id);
+  });
+  return Array.from(ids).sort().reverse().map(id => getTermById(id) as Term);
+};
+
+// Number of the points period a term falls in. Consecutive periods differ by one,
+// so the difference between two terms is the number of resets between them.
+export const getPointPeriodIndex = (policy: PointPolicy, term: Term): number => {
+  if (policy.reset === 'semester') return term.tahun_mulai * 2 + term.semester - 1;
+  if (policy.reset === 'tahun_ajaran') return term.tahun_mulai;
+  return 0;
+};
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { buildTrendSeries, comparePeriods, getComparisonRange, getPresetRange, suggestGranularity } from './trends';
+import { getTermById } from './terms';
+import { makeViolation } from '../test/fixtures';
+
+describe('getPresetRange', () => {
+  const term = getTermById('2025-1')!;
+
+  it('runs the week and month up to today', () => {
+    // 2025-08-20 is a Wednesday
+    expect(getPresetRange('minggu_ini', '2025-08-20', term)).toEqual({ mulai: '2025-08-18', selesai: '2025-08-20' });
+    expect(getPresetRange('bulan_ini', '2025-08-20', term)).toEqual({ mulai: '2025-08-01', selesai: '2025-08-20' });
+  });
+
+  it('runs the running semester up to today and a past one to its end', () => {
+    expect(getPresetRange('semester', '2025-08-20', term)).toEqual({ mulai: '2025-07-01', selesai: '2025-08-20' });
+    expect(getPresetRange('semester', '2026-02-01', term)).toEqual({ mulai: '2025-07-01', selesai: '2025-12-31' });
+  });
+});
+
+describe('getComparisonRange', () => {
+  it('compares a week with the same days of the week before', () => {
+    expect(getComparisonRange('minggu_ini', { mulai: '2025-08-18', selesai: '2025-08-20' })).toEqual({ mulai: '2025-08-11', selesai: '2025-08-13' });
+  });
+
+  it('clamps the month before to its last day', () => {
+    expect(getComparisonRange('bulan_ini', { mulai: '2025-03-01', selesai: '2025-03-31' })).toEqual({ mulai: '2025-02-01', selesai: '2025-02-28' });
+  });
+
+  it('compares a semester with as many days of the previous one', () => {
+    expect(getComparisonRange('semester', { mulai: '2025-07-01', selesai: '2025-08-20' })).toEqual({ mulai: '2025-01-01', selesai: '2025-02-20' });
+  });
+
+  it('compares a custom range with the days right before it', () => {
+    expect(getComparisonRange('kustom', { mulai: '2025-08-11', selesai: '2025-08-20' })).toEqual({ mulai: '2025-08-01', selesai: '2025-08-10' });
+  });
+});
+
+describe('suggestGranularity', () => {
+  it('picks days, weeks or months by length', () => {
+    expect(suggestGranularity({ mulai: '2025-08-01', selesai: '2025-08-31' })).toBe('hari');
+    expect(suggestGranularity({ mulai: '2025-08-01', selesai: '2025-09-01' })).toBe('minggu');
+    expect(suggestGranularity({ mulai: '2025-01-01', selesai: '2025-12-31' })).toBe('bulan');
+  });
+});
+
+describe('buildTrendSeries', () => {
+  it('stacks each bucket by kategori and lines up the comparison period', () => {
+    const violations = [
+      makeViolation({ tanggal_pelanggaran: '2025-08-01', kategori_pelanggaran: 'Ringan' }),
+      makeViolation({ tanggal_pelanggaran: '01/08/2025', kategori_pelanggaran: 'Berat' }),
+      makeViolation({ tanggal_pelanggaran: '2025-08-03', kategori_pelanggaran: 'Sedang' }),
+      makeViolation({ tanggal_pelanggaran: '2025-07-30', kategori_pelanggaran: 'Ringan' }),
+    ];
+    const series = buildTrendSeries(violations, { mulai: '2025-08-01', selesai: '2025-08-03' }, { mulai: '2025-07-29', selesai: '2025-07-31' }, 'hari');
+
+    expect(series.map(p => p.key)).toEqual(['2025-08-01', '2025-08-02', '2025-08-03']);
+    expect(series.map(p => p.total)).toEqual([2, 0, 1]);
+    expect(series.map(p => p.sebelumnya)).toEqual([0, 1, 0]);
+    expect(series[0]).toMatchObject({ Ringan: 1, Sedang: 0, Berat: 1 });
+  });
+});
+
+describe('comparePeriods', () => {
+  it('gives the change in percent, or null when there was nothing before', () => {
+    const current = [
+      makeViolation({ kategori_pelanggaran: 'Ringan' }),
+      makeViolation({ kategori_pelanggaran: 'Ringan' }),
+      makeViolation({ kategori_pelanggaran: 'Berat' }),
+    ];
+    const previous = [makeViolation({ kategori_pelanggaran: 'Ringan' }), makeViolation({ kategori_pelanggaran: 'Ringan' })];
+
+    expect(comparePeriods(current, previous)).toEqual([
+      { kategori: 'Total', sekarang: 3, sebelumnya: 2, perubahan: 50 },
+      { kategori: 'Ringan', sekarang: 2, sebelumnya: 2, perubahan: 0 },
+      { kategori: 'Sedang', sekarang: 0, sebelumnya: 0, perubahan: null },
+      { kategori: 'Berat', sekarang: 1, sebelumnya: 0, perubahan: null },
+    ]);
+  });
+});
@@ -0,0 +1,164 @@
+import { Term, Violation, ViolationCategory } from '../types';
+import { addDays, daysBetween, formatDate, parseDate, startOfWeek } from './date';
+import { getTermOfDate } from './terms';
+
+export type DateRangePreset = 'minggu_ini' | 'bulan_ini' | 'semester' | 'kustom';
+export type TrendGranularity = 'hari' | 'minggu' | 'bulan';
+
+// Inclusive range of "YYYY-MM-DD" dates
+export interface DateRange {
+  mulai: string;
+  selesai: string;
+}
+
+export const DATE_RANGE_LABELS: Record<DateRangePreset, string> = {
+  minggu_ini: 'Minggu ini',
+  bulan_ini: 'Bulan ini',
+  semester: 'Semester',
+  kustom: 'Pilih tanggal',
+};
+
+export const GRANULARITY_LABELS: Record<TrendGranularity, string> = {
+  hari: 'Per hari',
+  minggu: 'Per minggu',
+  bulan: 'Per bulan',
+};
+
+export const CATEGORY_COLORS: Record<ViolationCategory, string> = {
+  Ringan: '#10b981',
+  Sedang: '#f59e0b',
+  Berat: '#ef4444',
+};
+
+const CATEGORIES: ViolationCategory[] = ['Ringan', 'Sedang', 'Berat'];
+
+const minDate = (a: string, b: string) => (a < b ? a : b);
+
+// Same day number in another month, clamped to the month's last day
+const shiftMonth = (date: string, months: number): string => {
+  const [year, month, day] = date.split('-').map(Number);
+  const target = new Date(Date.UTC(year, month - 1 + months, 1));
+  const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+  target.setUTCDate(Math.min(day, lastDay));
+  return target.toISOString().slice(0, 10);
+};
+
+// Week and month run up to today; the semester is the one picked in the header
+export const getPresetRange = (preset: Exclude<DateRangePreset, 'kustom'>, today: string, term: Term): DateRange => {
+  if (preset === 'minggu_ini') return { mulai: startOfWeek(today), selesai: today };
+  if (preset === 'bulan_ini') return { mulai: `${today.slice(0, 7)}-01`, selesai: today };
+  return { mulai: term.mulai, selesai: today >= term.mulai ? minDate(term.selesai, today) : term.selesai };
+};
+
+// The period the range is measured against, as far into it as the range itself reaches:
+// Monday to Wednesday is compared with Monday to Wednesday of the week before.
+export const getComparisonRange = (preset: DateRangePreset, range: DateRange): DateRange => {
+  if (preset === 'minggu_ini') return { mulai: addDays(range.mulai, -7), selesai: addDays(range.selesai, -7) };
+  if (preset === 'bulan_ini') return { mulai: shiftMonth(range.mulai, -1), selesai: shiftMonth(range.selesai, -1) };
+  if (preset === 'semester') {
+    const previous = getTermOfDate(addDays(range.mulai, -1));
+    return { mulai: previous.mulai, selesai: minDate(previous.selesai, addDays(previous.mulai, daysBetween(range.mulai, range.selesai))) };
+  }
+  const length = daysBetween(range.mulai, range.selesai) + 1;
+  return { mulai: addDays(range.mulai, -length), selesai: addDays(range.mulai, -1) };
+};
+
+export const filterByRange = (violations: Violation[], range: DateRange): Violation[] => {
+  return violations.filter(v => {
+    const date = parseDate(v.tanggal_pelanggaran);
+    return !!date && date >= range.mulai && date <= range.selesai;
+  });
+};
+
+// Days for up to a month, weeks for up to a semester, months beyond
+export const suggestGranularity = (range: DateRange): TrendGranularity => {
+  const days = daysBetween(range.mulai, range.selesai) + 1;
+  if (days <= 31) return 'hari';
+  if (days <= 190) return 'minggu';
+  return 'bulan';
+};
+
+const bucketStart = (date: string, granularity: TrendGranularity): string => {
+  if (granularity === 'minggu') return startOfWeek(date);
+  if (granularity === 'bulan') return `${date.slice(0, 7)}-01`;
+  return date;
+};
+
+const nextBucket = (start: string, granularity: TrendGranularity): string => {
+  if (granularity === 'minggu') return addDays(start, 7);
+  if (granularity === 'bulan') return shiftMonth(start, 1);
+  return addDays(start, 1);
+};
+
+const bucketLabel = (start: string, granularity: TrendGranularity): string => {
+  if (granularity === 'bulan') return formatDate(start, { month: 'short', year: '2-digit' });
+  return formatDate(start, { day: 'numeric', month: 'short' });
+};
+
+export interface TrendPoint {
+  key: string;
+  label: string;
+  Ringan: number;
+  Sedang: number;
+  Berat: number;
+  total: number;
+  // Total of the bucket at the same position in the comparison period
+  sebelumnya: number;
+}
+
+const countBuckets = (violations: Violation[], range: DateRange, granularity: TrendGranularity) => {
+  const buckets = new Map<string, Record<ViolationCategory, number>>();
+  for (let start = bucketStart(range.mulai, granularity); start <= range.selesai; start = nextBucket(start, granularity)) {
+    buckets.set(start, { Ringan: 0, Sedang: 0, Berat: 0 });
+  }
+  filterByRange(violations, range).forEach(v => {
+    const counts = buckets.get(bucketStart(parseDate(v.tanggal_pelanggaran) as string, granularity));
+    if (counts && counts[v.kategori_pelanggaran] !== undefined) counts[v.kategori_pelanggaran] += 1;
+  });
+  return Array.from(buckets.entries());
+};
+
+// Violations per bucket stacked by kategori, with the comparison period lined up bucket by bucket
+export const buildTrendSeries = (
+  violations: Violation[],
+  range: DateRange,
+  comparison: DateRange,
+  granularity: TrendGranularity
+): TrendPoint[] => {
+  const previous = countBuckets(violations, comparison, granularity);
+  return countBuckets(violations, range, granularity).map(([key, counts], index) => {
+    const before = previous[index]?.[1];
+    return {
+      key,
+      label: bucketLabel(key, granularity),
+      ...counts,
+      total: counts.Ringan + counts.Sedang + counts.Berat,
+      sebelumnya: before ? before.Ringan + before.Sedang + before.Berat : 0,
+    };
+  });
+};
+
+export interface PeriodComparison {
+  kategori: ViolationCategory | 'Total';
+  sekarang: number;
+  sebelumnya: number;
+  // Percent change, null when the comparison period had none
+  perubahan: number | null;
+}
+
+export const comparePeriods = (current: Violation[], previous: Violation[]): PeriodComparison[] => {
+  const row = (kategori: PeriodComparison['kategori'], sekarang: number, sebelumnya: number): PeriodComparison => ({
+    kategori,
+    sekarang,
+    sebelumnya,
+    perubahan: sebelumnya > 0 ? Math.round(((sekarang - sebelumnya) / sebelumnya) * 100) : null,
+  });
+  return [
+    row('Total', current.length, previous.length),
+    ...CATEGORIES.map(k => row(
+      k,
+      current.filter(v => v.kategori_pelanggaran === k).length,
+      previous.filter(v => v.kategori_pelanggaran === k).length
+    )),
+  ];
+};
@@ -0,0 +1,45 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { findDuplicateCodes, parseViolationCode, planCodeRepairs, reserveViolationCode } from './violationCode';
+import { createMemoryStorage, makeViolation } from '../test/fixtures';
+
+beforeEach(() => {
+  vi.stubGlobal('localStorage', createMemoryStorage());
+  localStorage.setItem('simpas_device_id', 'K7QM');
+});
+
+describe('reserveViolationCode', () => {
+  it('counts on from the highest code this device already has in the data', () => {
+    expect(reserveViolationCode(['CPS-K7QM-0011', 'CPS-AB12-0040', 'CPS-001'])).toBe('CPS-K7QM-0012');
+    expect(reserveViolationCode([])).toBe('CPS-K7QM-0013');
+  });
+
+  it('reads codes back regardless of case and padding', () => {
+    expect(parseViolationCode(' cps-k7qm-12 ')).toEqual({ device: 'K7QM', sequence: 12 });
+    expect(parseViolationCode('CPS-001')).toBeNull();
+  });
+});
+
+describe('planCodeRepairs', () => {
+  const first = makeViolation({ kode_pelanggaran: 'CPS-001', sheet_row: 2 });
+  const second = makeViolation({ kode_pelanggaran: 'CPS-001', sheet_row: 7, nis: '1002' });
+  const third = makeViolation({ kode_pelanggaran: 'CPS-001', sheet_row: 5, nis: '1003' });
+  const unique = makeViolation({ kode_pelanggaran: 'CPS-K7QM-0003', sheet_row: 3 });
+
+  it('finds only codes used more than once', () => {
+    const duplicates = findDuplicateCodes([first, second, unique]);
+    expect(Array.from(duplicates.keys())).toEqual(['CPS-001']);
+  });
+
+  it('keeps the code on the highest row and gives every other row a fresh one', () => {
+    const repairs = planCodeRepairs([second, first, third, unique]);
+    expect(repairs.map(r => [r.violation.sheet_row, r.oldCode, r.newCode])).toEqual([
+      [5, 'CPS-001', 'CPS-K7QM-0004'],
+      [7, 'CPS-001', 'CPS-K7QM-0005'],
+    ]);
+  });
+
+  it('leaves records that are not in the sheet yet alone', () => {
+    const queued = makeViolation({ kode_pelanggaran: 'CPS-001', sheet_row: undefined });
+    expect(planCodeRepairs([first, queued])).toEqual([]);
+  });
+});
@@ -0,0 +1,121 @@
+import { Violation } from '../types';
+
+// Violation codes have the form CPS-<DEVICE>-<SEQ>, e.g. "CPS-K7QM-0012".
+// DEVICE is a random tag created once per browser, SEQ a counter kept on that device,
+// so codes can be reserved offline and two devices never hand out the same code.
+// Older sheets still contain the sequential "CPS-001" format; those are left as they are.
+
+export const CODE_PREFIX = 'CPS';
+
+const DEVICE_KEY = 'simpas_device_id';
+const SEQUENCE_KEY = 'simpas_code_sequence';
+// No 0/O or 1/I so codes can be read back from a printed letter without confusion
+const DEVICE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const DEVICE_LENGTH = 4;
+const SEQUENCE_WIDTH = 4;
+
+const CODE_PATTERN = new RegExp(`^${CODE_PREFIX}-([${DEVICE_ALPHABET}]{${DEVICE_LENGTH}})-(\\d+)$`);
+
+export interface ParsedViolationCode {
+  device: string;
+  sequence: number;
+}
+
+export interface CodeRepair {
+  violation: Violation;
+  oldCode: string;
+  newCode: string;
+}
+
+export const parseViolationCode = (code: string): ParsedViolationCode | null => {
+  const match = (code || '').trim().toUpperCase().match(CODE_PATTERN);
+  if (!match) return null;
+  return { device: match[1], sequence: parseInt(match[2], 10) };
+};
+
+export const formatViolationCode = (device: string, sequence: number) => {
+  return `${CODE_PREFIX}-${device}-${String(sequence).padStart(SEQUENCE_WIDTH, '0')}`;
+};
+
+const randomDeviceTag = () => {
+  const values = new Uint32Array(DEVICE_LENGTH);
+  if (typeof crypto !== 'undefined' && typeof crypto.getRandomValues === 'function') {
+    crypto.getRandomValues(values);
+  } else {
+    for (let i = 0; i < DEVICE_LENGTH; i++) values[i] = Math.floor(Math.random() * 0xffffffff);
+  }
+  return Array.from(values, n => DEVICE_ALPHABET[n % DEVICE_ALPHABET.length]).join('');
+};
+
+// Device tag for this browser. A new tag avoids every tag already present in the data.
+export const getDeviceId = (existingCodes: string[] = []): string => {
+  const stored = localStorage.getItem(DEVICE_KEY);
+  if (stored && stored.length === DEVICE_LENGTH) return stored;
+
+  const usedTags = new Set(existingCodes.map(c => parseViolationCode(c)?.device).filter(Boolean));
+  let tag = randomDeviceTag();
+  while (usedTags.has(tag)) tag = randomDeviceTag();
+
+  localStorage.setItem(DEVICE_KEY, tag);
+  return tag;
+};
+
+const nextSequence = (device: string, existingCodes: string[]) => {
+  const stored = parseInt(localStorage.getItem(SEQUENCE_KEY) || '0', 10) || 0;
+  // If local storage was restored from an older backup, never go below what the data already has
+  const highestSeen = existingCodes.reduce((max, code) => {
+    const parsed = parseViolationCode(code);
+    return parsed && parsed.device === device ? Math.max(max, parsed.sequence) : max;
+  }, 0);
+  return Math.max(stored, highestSeen) + 1;
+};
+
+// Preview of the code the next submit will get, without consuming it
+export const peekNextViolationCode = (existingCodes: string[]) => {
+  const device = getDeviceId(existingCodes);
+  return formatViolationCode(device, nextSequence(device, existingCodes));
+};
+
+// Consume and return the next code for this device. Works offline.
+export const reserveViolationCode = (existingCodes: string[]) => {
+  const device = getDeviceId(existingCodes);
+  const sequence = nextSequence(device, existingCodes);
+  localStorage.setItem(SEQUENCE_KEY, String(sequence));
+  return formatViolationCode(device, sequence);
+};
+
+// Group violations that share a kode_pelanggaran (only groups with 2+ records)
+export const findDuplicateCodes = (violations: Violation[]): Map<string, Violation[]> => {
+  const groups = new Map<string, Violation[]>();
+  violations.forEach(v => {
+    const code = (v.kode_pelanggaran || '').trim();
+    if (!code) return;
+    const group = groups.get(code) || [];
+    group.push(v);
+    groups.set(code, group);
+  });
+
+  const duplicates = new Map<string, Violation[]>();
+  groups.forEach((group, code) => {
+    if (group.length > 1) duplicates.set(code, group);
+  });
+  return duplicates;
+};
+
+// Decide which records get a new code: in each duplicate group the record highest
+// in the sheet keeps its code (it is the one already printed on earlier letters),
+// every other sheet row gets a freshly reserved code. Reserves codes, so only call it on apply.
+export const planCodeRepairs = (violations: Violation[]): CodeRepair[] => {
+  const existingCodes = violations.map(v => v.kode_pelanggaran);
+  const repairs: CodeRepair[] = [];
+
+  findDuplicateCodes(violations).forEach((group, code) => {
+    const ordered = [...group].sort((a, b) => (a.sheet_row ?? Infinity) - (b.sheet_row ?? Infinity));
+    ordered.slice(1).filter(v => v.sheet_row !== undefined).forEach(violation => {
+      const newCode = reserveViolationCode([...existingCodes, ...repairs.map(r => r.newCode)]);
+      repairs.push({ violation, oldCode: code, newCode });
+    });
+  });
+
+  return repairs;
+};
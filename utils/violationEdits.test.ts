@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { getEditableFields, rescoreViolation } from './violationEdits';
+import { makeViolation } from '../test/fixtures';
+import { RepeatRule, ViolationCatalog } from '../types';
+
+const catalog: ViolationCatalog = {
+  versi: 2,
+  diperbarui: '2025-08-01T00:00:00.000Z',
+  items: [
+    {
+      id: 'terlambat',
+      label: 'Terlambat masuk kelas',
+      aktif: true,
+      versions: [
+        { kategori: 'Ringan', poin: 5, berlaku_mulai: '2000-01-01' },
+        { kategori: 'Ringan', poin: 8, berlaku_mulai: '2025-09-01' },
+      ],
+    },
+    {
+      id: 'merokok',
+      label: 'Merokok',
+      aktif: true,
+      versions: [{ kategori: 'Berat', poin: 50, berlaku_mulai: '2000-01-01' }],
+    },
+  ],
+};
+
+const rules: RepeatRule[] = [
+  { id: 'r1', jenis_pelanggaran: '', kejadian_ke: 2, lingkup: 'semester', pengali_poin: 2, naikkan_kategori: false, aktif: true },
+];
+
+const recorded = makeViolation({
+  id: 'v3',
+  jenis_pelanggaran: 'Merokok',
+  kategori_pelanggaran: 'Berat',
+  poin_pelanggaran: 50,
+  tanggal_pelanggaran: '2025-08-20',
+});
+
+const history = [
+  recorded,
+  makeViolation({ id: 'v1', tanggal_pelanggaran: '2025-08-04' }),
+];
+
+describe('rescoreViolation', () => {
+  it('applies repeat-offense rules for the new type, leaving the edited violation out', () => {
+    const draft = { ...getEditableFields(recorded), jenis_pelanggaran: 'Terlambat masuk kelas' };
+    const result = rescoreViolation(recorded, draft, catalog, rules, history);
+    expect(result).toMatchObject({ kategori_pelanggaran: 'Ringan', poin_pelanggaran: 10, poin_dasar: 5 });
+    expect(result.aturan_berulang).toBe('Kejadian ke-2 dalam satu semester: poin x2');
+  });
+
+  it('reads the catalog version of the edited date', () => {
+    const draft = { ...getEditableFields(recorded), jenis_pelanggaran: 'Terlambat masuk kelas', tanggal_pelanggaran: '2025-09-10' };
+    expect(rescoreViolation(recorded, draft, catalog, rules, history).poin_pelanggaran).toBe(16);
+  });
+
+  it('rescores a date change and drops a rule that no longer applies', () => {
+    const late = makeViolation({ id: 'v2', tanggal_pelanggaran: '2025-08-10', poin_pelanggaran: 10, poin_dasar: 5, aturan_berulang: 'Kejadian ke-2 dalam satu semester: poin x2' });
+    const draft = { ...getEditableFields(late), tanggal_pelanggaran: '2025-08-01' };
+    const result = rescoreViolation(late, draft, catalog, rules, [...history, late]);
+    expect(result).toMatchObject({ poin_pelanggaran: 5, poin_dasar: undefined, aturan_berulang: undefined });
+  });
+
+  it('keeps the stored values while type and date are unchanged', () => {
+    const draft = { ...getEditableFields(recorded), poin_pelanggaran: 1, deskripsi: 'Di kantin' };
+    expect(rescoreViolation(recorded, draft, catalog, rules, history)).toMatchObject({ poin_pelanggaran: 50, deskripsi: 'Di kantin' });
+  });
+});
@@ -0,0 +1,83 @@
+import { FieldChange, RepeatRule, RevisionAction, Violation, ViolationCatalog, ViolationChanges } from '../types';
+import { findTypeAt } from './catalog';
+import { applyRepeatRules } from './repeatRules';
+
+export const REVISION_ACTION_LABELS: Record<RevisionAction, string> = {
+  ubah: 'Diubah',
+  batalkan: 'Dibatalkan',
+  buka_kembali: 'Dibuka kembali',
+};
+
+// Labels of the editable fields, in form order
+export const EDITABLE_FIELD_LABELS: Record<keyof ViolationChanges, string> = {
+  tanggal_pelanggaran: 'Tanggal',
+  jam_kejadian: 'Jam',
+  jenis_pelanggaran: 'Jenis pelanggaran',
+  kategori_pelanggaran: 'Kategori',
+  poin_pelanggaran: 'Poin',
+  poin_dasar: 'Poin dasar',
+  aturan_berulang: 'Aturan berulang',
+  lokasi_kejadian: 'Lokasi',
+  pelapor: 'Pelapor',
+  deskripsi: 'Deskripsi',
+};
+
+export const MIN_REASON_LENGTH = 10;
+
+// Voided records are kept for audit but left out of points, lists and statistics
+export const isVoided = (v: Pick<Violation, 'dibatalkan_pada'>) => !!v.dibatalkan_pada;
+
+export const getEditableFields = (v: Violation): ViolationChanges => ({
+  tanggal_pelanggaran: v.tanggal_pelanggaran,
+  jam_kejadian: v.jam_kejadian,
+  jenis_pelanggaran: v.jenis_pelanggaran,
+  kategori_pelanggaran: v.kategori_pelanggaran,
+  poin_pelanggaran: v.poin_pelanggaran,
+  poin_dasar: v.poin_dasar,
+  aturan_berulang: v.aturan_berulang,
+  lokasi_kejadian: v.lokasi_kejadian,
+  pelapor: v.pelapor,
+  deskripsi: v.deskripsi,
+});
+
+// Kategori and points for an edited type or date: the catalog version in force on the edited date,
+// then the repeat-offense rules over the student's other violations. With the original type and
+// date the stored values are kept, so an edit of other fields never rescores an old record.
+export const rescoreViolation = (
+  violation: Violation,
+  draft: ViolationChanges,
+  catalog: ViolationCatalog,
+  rules: RepeatRule[],
+  history: Violation[]
+): ViolationChanges => {
+  if (draft.jenis_pelanggaran === violation.jenis_pelanggaran && draft.tanggal_pelanggaran === violation.tanggal_pelanggaran) {
+    const { kategori_pelanggaran, poin_pelanggaran, poin_dasar, aturan_berulang } = violation;
+    return { ...draft, kategori_pelanggaran, poin_pelanggaran, poin_dasar, aturan_berulang };
+  }
+  if (!draft.tanggal_pelanggaran) return draft;
+  const type = findTypeAt(catalog, draft.jenis_pelanggaran, draft.tanggal_pelanggaran);
+  if (!type) return draft;
+  const others = history.filter(v => v.id !== violation.id);
+  const adjustment = applyRepeatRules(rules, type, others, violation.nis, draft.tanggal_pelanggaran);
+  return {
+    ...draft,
+    jenis_pelanggaran: type.label,
+    kategori_pelanggaran: adjustment.kategori,
+    poin_pelanggaran: adjustment.poin,
+    poin_dasar: adjustment.rule ? type.poin : undefined,
+    aturan_berulang: adjustment.rule ? adjustment.keterangan : undefined,
+  };
+};
+
+// Fields that differ, as text for the revision log
+export const diffChanges = (before: ViolationChanges, after: ViolationChanges): FieldChange[] => {
+  return (Object.keys(EDITABLE_FIELD_LABELS) as (keyof ViolationChanges)[])
+    .map(field => ({ field, sebelum: String(before[field] ?? '').trim(), sesudah: String(after[field] ?? '').trim() }))
+    .filter(change => change.sebelum !== change.sesudah);
+};
+
+// Returns an error message, or null when the reason is usable
+export const validateReason = (alasan: string): string | null => {
+  if (alasan.trim().length < MIN_REASON_LENGTH) return `Alasan wajib diisi, minimal ${MIN_REASON_LENGTH} karakter.`;
+  return null;
+};
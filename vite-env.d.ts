@@ -0,0 +1,11 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_DATA_SOURCE?: string;
+  readonly VITE_APPS_SCRIPT_URL?: string;
+  readonly VITE_COLUMN_ALIASES?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}